@@ -4,9 +4,11 @@ import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Send, Bot, User, Code, Loader2, Copy, Download } from 'lucide-react';
-import { useDeepSeek } from './DeepSeekProvider';
+import { Send, Bot, User, Code, Loader2, Copy, Download, Square } from 'lucide-react';
+import { useLLM } from './LLMProvider';
 import { useToast } from '@/hooks/use-toast';
+import { isAbortError } from '@/lib/sse';
+import { loadTokenizer } from '@/lib/tokenizer';
 
 interface Message {
   id: string;
@@ -39,9 +41,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { makeRequest, isConfigured } = useDeepSeek();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { streamRequest, isConfigured, config, activeProvider } = useLLM();
   const { toast } = useToast();
 
+  // Stop a reply still streaming when the panel is switched away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -55,7 +61,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
     if (!isConfigured) {
       toast({
         title: "API Not Configured",
-        description: "Please configure your DeepSeek API key first.",
+        description: `Please configure your ${activeProvider.name} API key first.`,
         variant: "destructive"
       });
       return;
@@ -68,10 +74,32 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    // Placeholder that the streamed deltas are rendered into
+    const assistantMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      metadata: {
+        model: config.model
+      }
+    };
+
+    const updateAssistantMessage = (content: string, tokens?: number) => {
+      setMessages(prev => prev.map(m =>
+        m.id === assistantMessage.id
+          ? { ...m, content, metadata: { ...m.metadata, tokens } }
+          : m
+      ));
+    };
+
+    setMessages(prev => [...prev, userMessage, assistantMessage]);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       // Prepare context from recent messages
       const context = messages.slice(-5).map(m => ({
@@ -79,31 +107,35 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
         content: m.content
       }));
 
-      const response = await makeRequest(input.trim(), { conversationHistory: context });
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-        metadata: {
-          model: 'deepseek-coder',
-          tokens: response.length // Rough estimate
-        }
-      };
+      const response = await streamRequest(userMessage.content, { conversationHistory: context }, {
+        signal: controller.signal,
+        onDelta: (_delta, content) => updateAssistantMessage(content)
+      });
 
-      setMessages(prev => [...prev, assistantMessage]);
+      // Counted once the reply is complete rather than on every delta
+      const tokenizer = await loadTokenizer(config.model);
+      updateAssistantMessage(response, tokenizer.count(response));
     } catch (error) {
-      toast({
-        title: "Request Failed",
-        description: error instanceof Error ? error.message : "Failed to get response from AI",
-        variant: "destructive"
-      });
+      // Drop the placeholder if nothing was streamed before the stop / failure
+      setMessages(prev => prev.filter(m => m.id !== assistantMessage.id || m.content));
+
+      if (!isAbortError(error)) {
+        toast({
+          title: "Request Failed",
+          description: error instanceof Error ? error.message : "Failed to get response from AI",
+          variant: "destructive"
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -181,7 +213,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
       {/* Messages */}
       <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
         <div className="space-y-4">
-          {messages.map((message) => (
+          {messages.filter(message => message.content).map((message) => (
             <div key={message.id} className="animate-fade-in">
               <div className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div className={`flex gap-3 max-w-[80%] ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -264,8 +296,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
             </div>
           ))}
 
-          {/* Loading indicator */}
-          {isLoading && (
+          {/* Loading indicator, shown until the first streamed token arrives */}
+          {isLoading && !messages[messages.length - 1]?.content && (
             <div className="flex gap-3 animate-fade-in">
               <div className="p-2 bg-gradient-primary rounded-lg flex-shrink-0">
                 <Bot className="h-4 w-4 text-primary-foreground" />
@@ -292,21 +324,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ className }) => {
             className="flex-1"
             disabled={isLoading || !isConfigured}
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading || !isConfigured}
-            className="px-4"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              variant="destructive"
+              className="px-4"
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim() || !isConfigured}
+              className="px-4"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
         {!isConfigured && (
           <p className="text-xs text-muted-foreground mt-2">
-            Configure your DeepSeek API key to start chatting
+            Configure your {activeProvider.name} API key to start chatting
           </p>
         )}
       </div>
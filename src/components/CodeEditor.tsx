@@ -1,16 +1,41 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import FileBrowser from './FileBrowser';
+import CodeMirrorEditor, {
+  CodeMirrorEditorHandle,
+  CursorPosition,
+  EditorHistory,
+  InlineSelection
+} from './CodeMirrorEditor';
+import InlineEditPrompt, { InlineEditStage } from './InlineEditPrompt';
+import SearchPanel from './SearchPanel';
+import OutlinePanel, { OutlineTab } from './OutlinePanel';
+import { useInlineEdit } from '@/hooks/useInlineEdit';
+import { useCodeCompletion } from '@/hooks/useCodeCompletion';
+import { useCodeIntelligence } from '@/hooks/useCodeIntelligence';
+import { CodeChange } from '@/hooks/useComposer';
 import { FileSystemItem } from '@/types/fileSystem';
+import { OpenedProject } from '@/types/project';
+import { IndexedDBFileSystemService } from '@/lib/indexedDBFileSystem';
+import { projectStore, ProjectRecord } from '@/lib/projectStore';
+import { getSearchIndex } from '@/lib/search/searchIndex';
+import {
+  FileSystemAccessService,
+  LocalFolderRecord,
+  MAX_FILE_SIZE,
+  isFileSystemAccessSupported,
+  isPickerAbort,
+  localFolderStore,
+  shouldIgnoreFile
+} from '@/lib/fileSystemAccess';
 import { 
   FileText, 
   Play, 
@@ -28,7 +53,8 @@ import {
   HardDrive,
   Plus,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  ListTree
 } from 'lucide-react';
 
 interface CodeFile {
@@ -41,15 +67,6 @@ interface CodeFile {
   lastModified: Date;
 }
 
-interface SavedProject {
-  id: string;
-  name: string;
-  files: FileSystemItem[];
-  lastOpened: Date;
-  createdAt: Date;
-  totalSize: number;
-}
-
 interface CodeEditorProps {
   className?: string;
   initialFiles?: FileSystemItem[];
@@ -63,277 +80,201 @@ interface CodeEditorProps {
     allowMultipleSelection?: boolean;
     defaultExpandedFolders?: string[];
   };
+  // Called when a Ctrl+K edit is accepted or rejected
+  onInlineEdit?: (change: CodeChange) => void;
+  // Project to show, so the editor reopens it after being remounted
+  project?: OpenedProject | null;
+  // Called when a project or folder is opened or closed from the editor
+  onProjectChange?: (project: OpenedProject | null) => void;
 }
 
-// Common ignore patterns (similar to .gitignore)
-const IGNORE_PATTERNS = [
-  // Dependencies
-  'node_modules',
-  'bower_components',
-  'vendor',
-  
-  // Build outputs
-  'dist',
-  'build',
-  'out',
-  'target',
-  '.next',
-  '.nuxt',
-  '.output',
-  
-  // Logs
-  '*.log',
-  'logs',
-  'npm-debug.log*',
-  'yarn-debug.log*',
-  'yarn-error.log*',
-  'pnpm-debug.log*',
-  'lerna-debug.log*',
-  
-  // OS files
-  '.DS_Store',
-  'Thumbs.db',
-  'desktop.ini',
-  
-  // Editor files
-  '.vscode',
-  '.idea',
-  '*.swp',
-  '*.swo',
-  '*~',
-  
-  // Cache and temp files
-  '.cache',
-  '.tmp',
-  'temp',
-  'tmp',
-  
-  // Package files
-  'package-lock.json',
-  'yarn.lock',
-  'pnpm-lock.yaml',
-  'bun.lockb',
-  
-  // Large binary files
-  '*.zip',
-  '*.tar.gz',
-  '*.rar',
-  '*.7z',
-  '*.exe',
-  '*.dll',
-  '*.so',
-  '*.dylib',
-  '*.bin',
-  '*.dat',
-  '*.db',
-  '*.sqlite',
-  '*.sqlite3',
-  
-  // Media files
-  '*.jpg',
-  '*.jpeg',
-  '*.png',
-  '*.gif',
-  '*.bmp',
-  '*.svg',
-  '*.ico',
-  '*.mp3',
-  '*.mp4',
-  '*.avi',
-  '*.mov',
-  '*.wmv',
-  '*.flv',
-  '*.webm',
-  '*.pdf',
-  '*.doc',
-  '*.docx',
-  '*.xls',
-  '*.xlsx',
-  '*.ppt',
-  '*.pptx',
-  
-  // Large data files
-  '*.csv',
-  '*.json',
-  '*.xml',
-  '*.yaml',
-  '*.yml',
-  '*.toml',
-  '*.ini',
-  '*.cfg',
-  '*.conf',
-  
-  // Git
-  '.git',
-  '.gitignore',
-  '.gitattributes',
-  
-  // Environment files
-  '.env',
-  '.env.local',
-  '.env.development',
-  '.env.production',
-  '.env.test'
-];
-
-// Maximum file size to include in localStorage (now 5MB)
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-
-// Maximum total project size for localStorage (now 100MB)
-const MAX_PROJECT_SIZE = 100 * 1024 * 1024;
+// A Ctrl+K edit in progress on one open file
+interface InlineEditSession {
+  fileId: string;
+  selection: InlineSelection;
+  stage: InlineEditStage;
+  // File content when the edit was requested
+  originalContent: string;
+  instruction?: string;
+  proposedContent?: string;
+}
 
 const CodeEditor: React.FC<CodeEditorProps> = ({ 
   className,
   initialFiles = [],
   showFileBrowser: defaultShowFileBrowser = true,
-  fileBrowserConfig = {}
+  fileBrowserConfig = {},
+  onInlineEdit,
+  project,
+  onProjectChange
 }) => {
   const [activeFiles, setActiveFiles] = useState<CodeFile[]>([]);
   const [activeFileId, setActiveFileId] = useState<string | null>(null);
   const [showFileBrowser, setShowFileBrowser] = useState(defaultShowFileBrowser);
-  const [currentProject, setCurrentProject] = useState<FileSystemItem[]>([]);
-  const [savedProjects, setSavedProjects] = useState<SavedProject[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(project?.projectId ?? null);
+  const [savedProjects, setSavedProjects] = useState<ProjectRecord[]>([]);
+  // A folder opened from disk; takes the place of a stored project
+  const [currentFolder, setCurrentFolder] = useState<LocalFolderRecord | null>(project?.folder ?? null);
+  const [localFolders, setLocalFolders] = useState<LocalFolderRecord[]>([]);
   const [showProjectManager, setShowProjectManager] = useState(false);
   const [showLoadDialog, setShowLoadDialog] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const directoryInputRef = useRef<HTMLInputElement>(null);
+  const editorRef = useRef<CodeMirrorEditorHandle>(null);
+  const [history, setHistory] = useState<EditorHistory>({ canUndo: false, canRedo: false });
+  const [cursor, setCursor] = useState<CursorPosition>({ line: 1, column: 1 });
+  const [inlineEdit, setInlineEdit] = useState<InlineEditSession | null>(null);
+  const [pendingChunks, setPendingChunks] = useState<number | null>(null);
+  const inlineEditor = useInlineEdit();
+  const codeCompletion = useCodeCompletion();
+  const [autocompleteEnabled, setAutocompleteEnabled] = useState(true);
+  const [showSearch, setShowSearch] = useState(false);
+  const [isIndexing, setIsIndexing] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [outlineTab, setOutlineTab] = useState<OutlineTab>('outline');
+  // A search result to scroll to once its file is the active one
+  const [pendingReveal, setPendingReveal] = useState<{ fileId: string; line: number } | null>(null);
+  // Read after the inline edit request resolves
+  const activeFilesRef = useRef(activeFiles);
+  activeFilesRef.current = activeFiles;
+  const activeFileIdRef = useRef(activeFileId);
+  activeFileIdRef.current = activeFileId;
   const { toast } = useToast();
 
   const activeFile = activeFiles.find(f => f.id === activeFileId);
 
-  // Check if a file should be ignored
-  const shouldIgnoreFile = (filePath: string, fileName: string, fileSize: number): boolean => {
-    // Check file size
-    if (fileSize > MAX_FILE_SIZE) {
-      return true;
-    }
+  const canOpenLocalFolders = isFileSystemAccessSupported();
+  const hasProject = Boolean(currentProjectId || currentFolder);
 
-    // Check ignore patterns
-    const path = filePath.toLowerCase();
-    const name = fileName.toLowerCase();
-    
-    for (const pattern of IGNORE_PATTERNS) {
-      if (pattern.includes('*')) {
-        // Handle wildcard patterns
-        const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-        if (regex.test(name) || regex.test(path)) {
-          return true;
-        }
-      } else {
-        // Exact match
-        if (path.includes(pattern.toLowerCase()) || name === pattern.toLowerCase()) {
-          return true;
-        }
-      }
-    }
-    
-    return false;
+  // The explorer reads and writes through this: the real folder when one was
+  // opened from disk, otherwise the project stored in IndexedDB
+  const fileSystemService = useMemo(() => {
+    if (currentFolder) return new FileSystemAccessService(currentFolder.handle, { ignore: shouldIgnoreFile });
+    return currentProjectId ? new IndexedDBFileSystemService(currentProjectId) : undefined;
+  }, [currentFolder, currentProjectId]);
+
+  // Shared with the explorer, which keeps it current as files change
+  const searchIndex = useMemo(
+    () => fileSystemService ? getSearchIndex(fileSystemService) : null,
+    [fileSystemService]
+  );
+
+  // Opening search re-lists the project so nothing changed elsewhere is
+  // missed; only files that changed since they were indexed are read again
+  useEffect(() => {
+    if (!showSearch || !fileSystemService || !searchIndex) return;
+    let cancelled = false;
+    setIsIndexing(true);
+    fileSystemService.loadFiles()
+      .then(items => searchIndex.sync(items, item => fileSystemService.getFileContent(item.id)))
+      .catch(error => console.warn('Failed to index project:', error))
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showSearch, fileSystemService, searchIndex]);
+
+  useEffect(() => {
+    if (!pendingReveal || pendingReveal.fileId !== activeFileId) return;
+    editorRef.current?.revealLine(pendingReveal.line);
+    setPendingReveal(null);
+  }, [pendingReveal, activeFileId]);
+
+  // Follow a project opened or closed elsewhere, e.g. a folder from the header
+  useEffect(() => {
+    if (project === undefined) return;
+    setCurrentProjectId(project?.projectId ?? null);
+    setCurrentFolder(project?.folder ?? null);
+    setActiveFiles([]);
+    setActiveFileId(null);
+  }, [project]);
+
+  const openProject = (opened: OpenedProject) => {
+    setCurrentProjectId(opened.projectId ?? null);
+    setCurrentFolder(opened.folder ?? null);
+    setActiveFiles([]);
+    setActiveFileId(null);
+    onProjectChange?.(opened.projectId || opened.folder ? opened : null);
   };
 
-  // Compress data for localStorage
-  const compressData = (data: any): string => {
+  // Uses the File System Access API when the browser has it, so saves reach
+  // disk; otherwise falls back to uploading a read-only copy
+  const openFolder = async () => {
+    if (!canOpenLocalFolders) {
+      directoryInputRef.current?.click();
+      return;
+    }
+
     try {
-      const jsonString = JSON.stringify(data);
-      // Simple compression: remove unnecessary whitespace and use shorter property names
-      return jsonString.replace(/\s+/g, ' ').trim();
+      const folder = await localFolderStore.pick();
+      openProject({ folder });
+      setLocalFolders(prev => [folder, ...prev.filter(f => f.id !== folder.id)]);
+      setShowLoadDialog(false);
+      toast({
+        title: "Folder opened",
+        description: `Editing ${folder.name} on disk. Saved changes are written to its files.`,
+      });
     } catch (error) {
-      console.error('Compression failed:', error);
-      return JSON.stringify(data);
+      if (isPickerAbort(error)) return;
+      console.error('Failed to open folder:', error);
+      toast({
+        title: "Error opening folder",
+        description: error instanceof Error ? error.message : "The folder could not be opened.",
+        variant: "destructive"
+      });
     }
   };
 
-  // Safe localStorage operations with error handling
-  const safeSetItem = (key: string, value: any): boolean => {
+  const reopenFolder = async (folder: LocalFolderRecord) => {
     try {
-      const compressed = compressData(value);
-      const size = new Blob([compressed]).size;
-      
-      if (size > MAX_PROJECT_SIZE) {
-        toast({
-          title: "Project too large",
-          description: `Project size (${(size / 1024 / 1024).toFixed(2)}MB) exceeds the maximum allowed size (${MAX_PROJECT_SIZE / 1024 / 1024}MB). Some files may be excluded.`,
-          variant: "destructive"
-        });
-        return false;
-      }
-      
-      localStorage.setItem(key, compressed);
-      return true;
+      const reopened = await localFolderStore.reopen(folder);
+      openProject({ folder: reopened });
+      setLocalFolders(prev => [reopened, ...prev.filter(f => f.id !== folder.id)]);
+      setShowLoadDialog(false);
     } catch (error) {
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        toast({
-          title: "Storage full",
-          description: "Local storage is full. Please delete some saved projects to free up space.",
-          variant: "destructive"
-        });
-        
-        // Try to free up space by removing oldest projects
-        try {
-          const saved = localStorage.getItem('intellicode-saved-projects');
-          if (saved) {
-            const projects = JSON.parse(saved);
-            if (projects.length > 1) {
-              // Remove the oldest project
-              projects.sort((a: SavedProject, b: SavedProject) => 
-                new Date(a.lastOpened).getTime() - new Date(b.lastOpened).getTime()
-              );
-              projects.shift(); // Remove oldest
-              localStorage.setItem('intellicode-saved-projects', compressData(projects));
-              toast({
-                title: "Space freed",
-                description: "Removed oldest project to free up storage space.",
-              });
-            }
-          }
-        } catch (cleanupError) {
-          console.error('Failed to cleanup storage:', cleanupError);
-        }
-      } else {
-        toast({
-          title: "Storage error",
-          description: "Failed to save project to local storage.",
-          variant: "destructive"
-        });
-      }
-      return false;
+      console.error('Failed to reopen folder:', error);
+      toast({
+        title: "Error opening folder",
+        description: error instanceof Error ? error.message : "The folder could not be opened.",
+        variant: "destructive"
+      });
     }
   };
 
-  const safeGetItem = (key: string): any => {
+  const forgetFolder = async (folderId: string) => {
     try {
-      const item = localStorage.getItem(key);
-      return item ? JSON.parse(item) : null;
+      await localFolderStore.forget(folderId);
     } catch (error) {
-      console.error('Failed to load from localStorage:', error);
-      return null;
+      console.warn('Failed to forget folder:', error);
     }
+    setLocalFolders(prev => prev.filter(f => f.id !== folderId));
+    if (folderId === currentFolder?.id) openProject({});
   };
 
-  // Load saved projects from localStorage on component mount
+
+  // Load saved projects (migrating any left in localStorage) on mount
   useEffect(() => {
-    const saved = safeGetItem('intellicode-saved-projects');
-    if (saved) {
-      // Convert date strings back to Date objects
-      const projectsWithDates = saved.map((project: any) => ({
-        ...project,
-        lastOpened: new Date(project.lastOpened),
-        createdAt: new Date(project.createdAt),
-        files: project.files.map((file: any) => ({
-          ...file,
-          lastModified: new Date(file.lastModified)
-        }))
-      }));
-      setSavedProjects(projectsWithDates);
-    }
-  }, []);
+    projectStore.list()
+      .then(setSavedProjects)
+      .catch(error => {
+        console.error('Failed to load saved projects:', error);
+        toast({
+          title: "Storage error",
+          description: "Saved projects could not be loaded from browser storage.",
+          variant: "destructive"
+        });
+      });
+  }, [toast]);
 
-  // Save projects to localStorage whenever they change
   useEffect(() => {
-    if (savedProjects.length > 0) {
-      safeSetItem('intellicode-saved-projects', savedProjects);
-    }
-  }, [savedProjects]);
+    if (!canOpenLocalFolders) return;
+    localFolderStore.list()
+      .then(setLocalFolders)
+      .catch(error => console.warn('Failed to load recent folders:', error));
+  }, [canOpenLocalFolders]);
 
   const handleFileChange = (fileId: string, newContent: string) => {
     setActiveFiles(files => 
@@ -360,7 +301,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           name: file.name,
           path: file.path,
           language,
-          content: file.content || `// Loading ${file.name}...`,
+          content: file.content ?? '',
           isModified: false,
           lastModified: file.lastModified
         };
@@ -371,6 +312,41 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   };
 
+  const openSearchResult = async (path: string, line: number) => {
+    const open = activeFiles.find(f => f.path === path);
+    if (open) {
+      setActiveFileId(open.id);
+      setPendingReveal({ fileId: open.id, line });
+      return;
+    }
+    if (!fileSystemService) return;
+
+    try {
+      const content = await fileSystemService.getFileContent(path);
+      handleFileSelect({ id: path, name: path.split('/').pop() ?? path, type: 'file', path, content, lastModified: new Date() });
+      setPendingReveal({ fileId: path, line });
+    } catch (error) {
+      console.error('Failed to open search result:', error);
+      toast({
+        title: "Error opening file",
+        description: error instanceof Error ? error.message : `${path} could not be read.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const intelligence = useCodeIntelligence({
+    index: searchIndex,
+    activeFile,
+    openFiles: activeFiles,
+    outlineVisible: showOutline && outlineTab === 'outline',
+    onNavigate: openSearchResult,
+    onShowReferences: () => {
+      setShowOutline(true);
+      setOutlineTab('references');
+    }
+  });
+
   const handleFileUpload = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -511,20 +487,12 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
         }
       }
       
-      setCurrentProject(projectFiles);
-      
-      // Save project to localStorage
+      // Save the project to IndexedDB and open it from there
       const projectName = fileArray[0]?.webkitRelativePath?.split('/')[0] || 'Uploaded Project';
-      const savedProject: SavedProject = {
-        id: Date.now().toString(),
-        name: projectName,
-        files: projectFiles,
-        lastOpened: new Date(),
-        createdAt: new Date(),
-        totalSize
-      };
-      
+      const savedProject = await projectStore.create(projectName, projectFiles);
+
       setSavedProjects(prev => [savedProject, ...prev]);
+      openProject({ projectId: savedProject.id, name: savedProject.name });
       
       // Show summary toast with node_modules info
       let description = `Processed ${processedFiles} files, ignored ${ignoredFiles} files. Total size: ${(totalSize / 1024).toFixed(2)}KB`;
@@ -549,8 +517,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   };
 
-  const loadProject = (project: SavedProject) => {
-    setCurrentProject(project.files);
+  const loadProject = (project: ProjectRecord) => {
+    openProject({ projectId: project.id, name: project.name });
     setSavedProjects(prev => 
       prev.map(p => 
         p.id === project.id 
@@ -559,23 +527,40 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       )
     );
     setShowLoadDialog(false);
+    projectStore.touch(project.id).catch(error => console.warn('Failed to update project:', error));
     
     toast({
       title: "Project loaded",
-      description: `Loaded ${project.name} with ${project.files.length} files`,
+      description: `Loaded ${project.name} with ${project.fileCount} files`,
     });
   };
 
-  const deleteProject = (projectId: string) => {
+  const deleteProject = async (projectId: string) => {
+    try {
+      await projectStore.delete(projectId);
+    } catch (error) {
+      console.error('Failed to delete project:', error);
+      toast({
+        title: "Storage error",
+        description: "Failed to delete the project from browser storage.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setSavedProjects(prev => prev.filter(p => p.id !== projectId));
+    if (projectId === currentProjectId) {
+      openProject({});
+    }
     toast({
       title: "Project deleted",
       description: "Project has been removed from saved projects",
     });
   };
 
-  const saveCurrentProject = () => {
-    if (currentProject.length === 0) {
+  // Writes modified open files back to the project
+  const saveCurrentProject = async () => {
+    if (!fileSystemService) {
       toast({
         title: "No project to save",
         description: "Please load a project first before saving",
@@ -584,28 +569,145 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       return;
     }
     
-    const projectName = prompt('Enter project name:');
-    if (!projectName) return;
-    
-    const totalSize = JSON.stringify(currentProject).length;
-    const savedProject: SavedProject = {
-      id: Date.now().toString(),
-      name: projectName,
-      files: currentProject,
-      lastOpened: new Date(),
-      createdAt: new Date(),
-      totalSize
-    };
-    
-    setSavedProjects(prev => [savedProject, ...prev]);
-    
+    const modifiedFiles = activeFiles.filter(file => file.isModified);
+    if (modifiedFiles.length === 0) {
+      toast({
+        title: "Nothing to save",
+        description: "All open files are saved"
+      });
+      return;
+    }
+
+    try {
+      await Promise.all(modifiedFiles.map(file => fileSystemService.saveFile({
+        id: file.path,
+        name: file.name,
+        type: 'file',
+        path: file.path,
+        content: file.content,
+        size: file.content.length,
+        lastModified: new Date()
+      })));
+    } catch (error) {
+      console.error('Failed to save files:', error);
+      toast({
+        title: "Storage error",
+        description: error instanceof Error
+          ? error.message
+          : `Failed to save files to ${currentFolder ? currentFolder.name : 'browser storage'}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    modifiedFiles.forEach(file => searchIndex?.updateFile(file.path, file.content));
+    const savedIds = new Set(modifiedFiles.map(file => file.id));
+    setActiveFiles(files => files.map(file => savedIds.has(file.id) ? { ...file, isModified: false } : file));
     toast({
       title: "Project saved",
-      description: `Project "${projectName}" has been saved successfully`,
+      description: `Saved ${modifiedFiles.length} file${modifiedFiles.length === 1 ? '' : 's'}`,
+    });
+  };
+
+  const handleInlineEditRequest = (selection: InlineSelection) => {
+    if (!activeFile || inlineEdit?.stage === 'review') return;
+    inlineEditor.cancel();
+    setInlineEdit({
+      fileId: activeFile.id,
+      selection,
+      stage: 'prompt',
+      originalContent: activeFile.content
+    });
+  };
+
+  const cancelInlineEdit = () => {
+    inlineEditor.cancel();
+    setInlineEdit(null);
+    editorRef.current?.focus();
+  };
+
+  const submitInlineEdit = async (instruction: string) => {
+    if (!inlineEdit) return;
+    const session = { ...inlineEdit, instruction };
+    const file = activeFiles.find(f => f.id === session.fileId);
+    if (!file) return;
+    setInlineEdit({ ...session, stage: 'generating' });
+
+    const { from, to } = session.selection;
+    const replacement = await inlineEditor.generate({
+      filePath: file.path,
+      language: file.language,
+      content: session.originalContent,
+      from,
+      to,
+      instruction
+    });
+    if (replacement === null) {
+      // Cancelled, or failed with the error shown in the prompt
+      setInlineEdit(current => current && current.stage === 'generating' ? { ...current, stage: 'prompt' } : current);
+      return;
+    }
+    if (replacement === session.originalContent.slice(from, to)) {
+      setInlineEdit(null);
+      toast({
+        title: "No changes suggested",
+        description: "The model returned the selection unchanged."
+      });
+      return;
+    }
+
+    // The proposal is positioned against the text it was generated from
+    const current = activeFilesRef.current.find(f => f.id === session.fileId);
+    if (!current || current.content !== session.originalContent || activeFileIdRef.current !== session.fileId) {
+      setInlineEdit(null);
+      toast({
+        title: "Inline edit discarded",
+        description: "The file changed while the edit was being generated.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setInlineEdit({
+      ...session,
+      stage: 'review',
+      proposedContent: session.originalContent.slice(0, from) + replacement + session.originalContent.slice(to)
     });
+    editorRef.current?.showProposal(from, to, replacement);
+  };
+
+  const finishInlineEdit = (accept: boolean) => {
+    if (!inlineEdit || inlineEdit.stage !== 'review') return;
+    const file = activeFiles.find(f => f.id === inlineEdit.fileId);
+    const result = editorRef.current?.finishProposal(accept);
+    setInlineEdit(null);
+    if (!file || result === null || result === undefined) return;
+
+    const applied = accept && result !== inlineEdit.originalContent;
+    onInlineEdit?.({
+      id: `inline-${Date.now()}`,
+      filePath: file.path,
+      fileName: file.name,
+      originalContent: inlineEdit.originalContent,
+      newContent: applied ? result : inlineEdit.proposedContent ?? result,
+      description: `Inline edit: ${inlineEdit.instruction ?? ''}`,
+      status: applied ? 'applied' : 'rejected',
+      kind: 'modify',
+      timestamp: new Date()
+    });
+    editorRef.current?.focus();
+  };
+
+  // Deciding every chunk in the editor finishes the review. This runs inside
+  // an editor update, which must complete before the editor is changed again.
+  const handleReviewChange = (count: number | null) => {
+    setPendingChunks(count);
+    if (count === 0) queueMicrotask(() => finishInlineEdit(true));
   };
 
   const closeFile = (fileId: string) => {
+    if (inlineEdit?.fileId === fileId) cancelInlineEdit();
+    editorRef.current?.closeDocument(fileId);
     setActiveFiles(files => files.filter(f => f.id !== fileId));
     if (activeFileId === fileId) {
       const remainingFiles = activeFiles.filter(f => f.id !== fileId);
@@ -662,11 +764,6 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     return colors[language] || '#666666';
   };
 
-  const renderSyntaxHighlighting = (content: string, language: string) => {
-    // Simple syntax highlighting - in a real app, you'd use a library like Prism.js
-    return content;
-  };
-
   return (
     <div className={`flex flex-col h-full bg-background border border-border rounded-lg ${className}`}>
       {/* Toolbar */}
@@ -690,7 +787,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
             Load Project
           </Button>
           
-          {currentProject.length > 0 && (
+          {hasProject && (
             <Button
               variant="outline"
               size="sm"
@@ -700,12 +797,48 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
               Save Project
             </Button>
           )}
+
+          {activeFile && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => editorRef.current?.undo()}
+                disabled={!history.canUndo}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => editorRef.current?.redo()}
+                disabled={!history.canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo className="h-4 w-4" />
+              </Button>
+            </>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm">
+          <Button
+            variant={showSearch ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowSearch(!showSearch)}
+            title="Search project"
+          >
             <Search className="h-4 w-4" />
           </Button>
+          <Button
+            variant={showOutline ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowOutline(!showOutline)}
+            title="Outline, references and problems"
+          >
+            <ListTree className="h-4 w-4" />
+          </Button>
           <Button variant="outline" size="sm">
             <Settings className="h-4 w-4" />
           </Button>
@@ -723,7 +856,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => directoryInputRef.current?.click()}
+                  onClick={openFolder}
                   disabled={isLoading}
                 >
                   <Plus className="h-4 w-4" />
@@ -737,23 +870,25 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 </div>
               )}
               
-              {!isLoading && currentProject.length === 0 && (
+              {!isLoading && !hasProject && (
                 <div className="text-center py-8 text-muted-foreground">
                   <FolderOpen className="h-8 w-8 mx-auto mb-2 opacity-50" />
                   <p className="text-sm mb-2">No project loaded</p>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => directoryInputRef.current?.click()}
+                    onClick={openFolder}
                   >
                     Open Folder
                   </Button>
                 </div>
               )}
               
-              {!isLoading && currentProject.length > 0 && (
+              {!isLoading && hasProject && (
                 <FileBrowser
-                  initialFiles={currentProject}
+                  key={currentFolder ? `folder:${currentFolder.id}` : currentProjectId}
+                  title={currentFolder?.name}
+                  service={fileSystemService}
                   config={fileBrowserConfig}
                   onFileSelect={handleFileSelect}
                   onFileUpload={handleFileUpload}
@@ -789,17 +924,83 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           </div>
         )}
 
+        {showSearch && (
+          <SearchPanel
+            className="w-80 border-r border-border bg-muted/20"
+            index={searchIndex}
+            indexing={isIndexing}
+            onOpen={openSearchResult}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+
         {/* Code Editor */}
-        <div className="flex-1 flex flex-col">
+        <div className="flex-1 flex flex-col min-w-0">
           {activeFile ? (
-            <div className="flex-1 p-4">
-              <Textarea
+            <>
+              {/* Open file tabs */}
+              <div className="flex border-b border-border bg-muted/20 overflow-x-auto">
+                {activeFiles.map(file => (
+                  <div
+                    key={file.id}
+                    className={`group flex items-center gap-2 px-3 py-2 text-sm border-r border-border cursor-pointer ${
+                      file.id === activeFileId ? 'bg-background text-foreground' : 'text-muted-foreground hover:bg-muted/50'
+                    }`}
+                    onClick={() => setActiveFileId(file.id)}
+                    title={file.path}
+                  >
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: getLanguageColor(file.language) }}
+                    />
+                    <span className="whitespace-nowrap">{file.name}</span>
+                    {file.isModified && <span className="text-primary">●</span>}
+                    <button
+                      className="opacity-50 hover:opacity-100"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        closeFile(file.id);
+                      }}
+                      aria-label={`Close ${file.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <CodeMirrorEditor
+                ref={editorRef}
+                docId={activeFile.id}
                 value={activeFile.content}
-                onChange={(e) => handleFileChange(activeFile.id, e.target.value)}
-                className="h-full font-mono text-sm resize-none bg-code-bg border-code-border"
-                placeholder="Start typing..."
-              />
-            </div>
+                language={activeFile.language}
+                onChange={(content) => handleFileChange(activeFile.id, content)}
+                onHistoryChange={setHistory}
+                onCursorChange={setCursor}
+                onInlineEditRequest={handleInlineEditRequest}
+                onReviewChange={handleReviewChange}
+                onRequestCompletion={codeCompletion.available && autocompleteEnabled ? codeCompletion.complete : undefined}
+                onHover={intelligence.hover}
+                onRequestDiagnostics={intelligence.diagnostics}
+                onGoToDefinition={intelligence.goToDefinition}
+                onFindReferences={intelligence.findReferences}
+                className="flex-1 min-h-0 overflow-hidden"
+              >
+                {inlineEdit && inlineEdit.fileId === activeFile.id && (
+                  <InlineEditPrompt
+                    stage={inlineEdit.stage}
+                    anchor={inlineEdit.selection.anchor}
+                    error={inlineEditor.error}
+                    received={inlineEditor.received}
+                    pendingChunks={pendingChunks}
+                    onSubmit={submitInlineEdit}
+                    onCancel={cancelInlineEdit}
+                    onAccept={() => finishInlineEdit(true)}
+                    onReject={() => finishInlineEdit(false)}
+                  />
+                )}
+              </CodeMirrorEditor>
+            </>
           ) : (
             <div className="flex-1 flex items-center justify-center text-muted-foreground">
               <div className="text-center">
@@ -816,7 +1017,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                   </Button>
                   <Button 
                     variant="outline" 
-                    onClick={() => directoryInputRef.current?.click()}
+                    onClick={openFolder}
                     disabled={isLoading}
                   >
                     <FolderOpen className="h-4 w-4 mr-2" />
@@ -836,21 +1037,21 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
               </div>
             </div>
           )}
-
-          {/* Minimap (placeholder) */}
-          {activeFile && (
-            <div className="w-24 bg-muted/20 border-l border-border">
-              <div className="p-2">
-                <div className="text-xs text-muted-foreground mb-2">Minimap</div>
-                <div className="space-y-1">
-                  {Array.from({ length: Math.min(20, activeFile.content.split('\n').length) }).map((_, i) => (
-                    <div key={i} className="h-1 bg-muted/50 rounded" />
-                  ))}
-                </div>
-              </div>
-            </div>
-          )}
         </div>
+
+        {showOutline && (
+          <OutlinePanel
+            className="w-72 border-l border-border bg-muted/20"
+            tab={outlineTab}
+            onTabChange={setOutlineTab}
+            outline={intelligence.outline}
+            references={intelligence.references}
+            problems={intelligence.problems}
+            activePath={activeFile?.path}
+            onOpen={openSearchResult}
+            onClose={() => setShowOutline(false)}
+          />
+        )}
       </div>
 
       {/* Status Bar */}
@@ -859,7 +1060,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           <div className="flex items-center gap-4 text-muted-foreground">
             {activeFile && (
               <>
-                <span>Line 1, Column 1</span>
+                <span>Line {cursor.line}, Column {cursor.column}</span>
                 <span>UTF-8</span>
                 <span>LF</span>
                 <span>{activeFile.language.toUpperCase()}</span>
@@ -869,6 +1070,33 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
           <div className="flex items-center gap-4 text-muted-foreground">
             <span>Spaces: 2</span>
             <span>Tab Size: 2</span>
+            {activeFile && <span>Ctrl+K: Edit with AI</span>}
+            {intelligence.available && (
+              <button
+                type="button"
+                className="hover:text-foreground"
+                onClick={() => {
+                  setShowOutline(true);
+                  setOutlineTab('problems');
+                }}
+                title="F12: Go to definition, Shift+F12: Find references"
+              >
+                Problems: {intelligence.problems.length}
+              </button>
+            )}
+            {activeFile && (
+              <button
+                type="button"
+                className="hover:text-foreground disabled:opacity-50 disabled:hover:text-muted-foreground"
+                disabled={!codeCompletion.available}
+                onClick={() => setAutocompleteEnabled(enabled => !enabled)}
+                title={codeCompletion.available
+                  ? 'Tab accepts a suggestion, Ctrl+Right accepts the next word'
+                  : 'The active provider does not support fill-in-the-middle completions'}
+              >
+                Autocomplete: {!codeCompletion.available ? 'Unavailable' : autocompleteEnabled ? 'On' : 'Off'}
+              </button>
+            )}
             {activeFile?.isModified && (
               <Badge variant="outline" className="text-xs">
                 Modified
@@ -889,14 +1117,64 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
             <div className="flex gap-2">
               <Button
                 variant="outline"
-                onClick={() => directoryInputRef.current?.click()}
+                onClick={openFolder}
                 className="flex-1"
                 disabled={isLoading}
               >
                 <FolderOpen className="h-4 w-4 mr-2" />
                 Open Folder from Disk
               </Button>
+              {canOpenLocalFolders && (
+                <Button
+                  variant="outline"
+                  onClick={() => directoryInputRef.current?.click()}
+                  className="flex-1"
+                  disabled={isLoading}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload a Copy
+                </Button>
+              )}
             </div>
+
+            {localFolders.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2">Local Folders</h4>
+                <div className="space-y-2">
+                  {localFolders.map((folder) => (
+                    <div
+                      key={folder.id}
+                      className="flex items-center justify-between p-3 border border-border rounded-lg hover:bg-muted/50"
+                    >
+                      <div className="flex-1">
+                        <div className="font-medium flex items-center gap-2">
+                          <HardDrive className="h-4 w-4" />
+                          {folder.name}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          On disk • Last opened: {folder.lastOpened.toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reopenFolder(folder)}
+                        >
+                          Open
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => forgetFolder(folder.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             {savedProjects.length > 0 && (
               <div>
@@ -911,7 +1189,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                         <div className="flex-1">
                           <div className="font-medium">{project.name}</div>
                           <div className="text-sm text-muted-foreground">
-                            {project.files.length} files • {(project.totalSize / 1024).toFixed(2)}KB • Last opened: {project.lastOpened instanceof Date ? project.lastOpened.toLocaleDateString() : 'Unknown'}
+                            {project.fileCount} files • {(project.totalSize / 1024).toFixed(2)}KB • Last opened: {project.lastOpened.toLocaleDateString()}
                           </div>
                         </div>
                         <div className="flex gap-2">
@@ -943,9 +1221,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
               </div>
               <ul className="space-y-1">
                 <li>• Maximum file size: {(MAX_FILE_SIZE / 1024).toFixed(0)}KB</li>
-                <li>• Maximum project size: {(MAX_PROJECT_SIZE / 1024 / 1024).toFixed(1)}MB</li>
+                <li>• Projects are stored in the browser's IndexedDB, limited by its storage quota</li>
                 <li>• Large files and common ignore patterns are automatically excluded</li>
-                <li>• Oldest projects are automatically removed when storage is full</li>
+                {canOpenLocalFolders && (
+                  <li>• Folders opened from disk are edited in place and are not copied into browser storage</li>
+                )}
               </ul>
             </div>
           </div>
@@ -0,0 +1,367 @@
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { Annotation, Compartment, EditorState, Prec } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { indentWithTab, redo, redoDepth, undo, undoDepth } from '@codemirror/commands';
+import { HighlightStyle, syntaxHighlighting } from '@codemirror/language';
+import { getChunks, unifiedMergeView } from '@codemirror/merge';
+import { tags } from '@lezer/highlight';
+import { loadLanguage } from '@/lib/editorLanguages';
+import { ghostText } from '@/lib/ghostText';
+import { codeIntelligence } from '@/lib/codeIntelligence';
+import { HoverInfo, LanguageDiagnostic } from '@/lib/language/protocol';
+
+export interface EditorHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface CursorPosition {
+  line: number;
+  column: number;
+}
+
+// The range an inline edit was requested for
+export interface InlineSelection {
+  from: number;
+  to: number;
+  text: string;
+  // Where the selection starts, relative to the editor's top-left corner
+  anchor: { top: number; left: number };
+}
+
+export interface CodeMirrorEditorHandle {
+  undo: () => void;
+  redo: () => void;
+  focus: () => void;
+  // Drops the kept state (undo history, selection) of a closed document
+  closeDocument: (docId: string) => void;
+  // Puts the cursor at the start of a 1-based line and scrolls it into view
+  revealLine: (line: number) => void;
+  // Replaces `from`-`to` with `text` and shows the result as an inline diff
+  // with accept/reject controls per chunk
+  showProposal: (from: number, to: number, text: string) => void;
+  // Ends the review, keeping the current text or restoring the text from
+  // before the proposal, and returns the resulting document
+  finishProposal: (accept: boolean) => string | null;
+}
+
+interface CodeMirrorEditorProps {
+  // Each document keeps its own state, so switching tabs keeps undo history
+  docId: string;
+  value: string;
+  language: string;
+  className?: string;
+  onChange?: (value: string) => void;
+  onHistoryChange?: (history: EditorHistory) => void;
+  onCursorChange?: (position: CursorPosition) => void;
+  // Ctrl/Cmd+K; an empty selection is widened to the current line
+  onInlineEditRequest?: (selection: InlineSelection) => void;
+  // Chunks still undecided while a proposal is shown, null otherwise
+  onReviewChange?: (pendingChunks: number | null) => void;
+  // Ghost-text completion at the cursor; omit to turn suggestions off
+  onRequestCompletion?: (prefix: string, suffix: string, signal: AbortSignal) => Promise<string | null>;
+  // Language service features; each gets the document's current text.
+  // The navigation callbacks return false when there is nothing to look up.
+  onHover?: (content: string, offset: number) => Promise<HoverInfo | null>;
+  onRequestDiagnostics?: (content: string) => Promise<LanguageDiagnostic[]>;
+  onGoToDefinition?: (content: string, offset: number) => boolean;
+  onFindReferences?: (content: string, offset: number) => boolean;
+  children?: React.ReactNode;
+}
+
+// Marks transactions that sync `value` in from outside, which are not edits
+const externalChange = Annotation.define<boolean>();
+
+const highlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.modifier, tags.operatorKeyword, tags.controlKeyword], color: 'hsl(var(--code-keyword))' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: 'hsl(var(--code-string))' },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], color: 'hsl(var(--code-number))' },
+  { tag: [tags.comment, tags.lineComment, tags.blockComment], color: 'hsl(var(--code-comment))', fontStyle: 'italic' },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], color: 'hsl(var(--code-function))' },
+  { tag: [tags.typeName, tags.className, tags.tagName], color: 'hsl(var(--primary))' },
+  { tag: [tags.attributeName, tags.propertyName], color: 'hsl(var(--accent))' },
+  { tag: tags.heading, fontWeight: 'bold', color: 'hsl(var(--code-keyword))' },
+  { tag: tags.link, textDecoration: 'underline' },
+  { tag: tags.invalid, color: 'hsl(var(--destructive))' }
+]);
+
+const editorTheme = EditorView.theme({
+  '&': {
+    height: '100%',
+    fontSize: '0.875rem',
+    backgroundColor: 'hsl(var(--code-bg))',
+    color: 'hsl(var(--foreground))'
+  },
+  '.cm-scroller': {
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+  },
+  '.cm-content': { caretColor: 'hsl(var(--primary))' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: 'hsl(var(--primary))' },
+  '.cm-gutters': {
+    backgroundColor: 'hsl(var(--code-bg))',
+    color: 'hsl(var(--muted-foreground))',
+    borderRight: '1px solid hsl(var(--border))'
+  },
+  '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'hsl(var(--muted) / 0.4)' },
+  '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+    backgroundColor: 'hsl(var(--primary) / 0.3)'
+  },
+  '&.cm-focused .cm-matchingBracket': {
+    backgroundColor: 'hsl(var(--primary) / 0.25)',
+    outline: '1px solid hsl(var(--primary) / 0.5)'
+  },
+  '.cm-panels': {
+    backgroundColor: 'hsl(var(--card))',
+    color: 'hsl(var(--foreground))'
+  },
+  '.cm-tooltip': {
+    backgroundColor: 'hsl(var(--popover))',
+    color: 'hsl(var(--popover-foreground))',
+    border: '1px solid hsl(var(--border))'
+  }
+}, { dark: true });
+
+const historyOf = (state: EditorState): EditorHistory => ({
+  canUndo: undoDepth(state) > 0,
+  canRedo: redoDepth(state) > 0
+});
+
+const cursorOf = (state: EditorState): CursorPosition => {
+  const head = state.selection.main.head;
+  const line = state.doc.lineAt(head);
+  return { line: line.number, column: head - line.from + 1 };
+};
+
+const selectionOf = (view: EditorView): InlineSelection => {
+  let { from, to } = view.state.selection.main;
+  if (from === to) {
+    const line = view.state.doc.lineAt(from);
+    from = line.from;
+    to = line.to;
+  }
+  const coords = view.coordsAtPos(from);
+  const bounds = view.dom.getBoundingClientRect();
+  return {
+    from,
+    to,
+    text: view.state.sliceDoc(from, to),
+    anchor: {
+      top: coords ? coords.top - bounds.top : 0,
+      left: coords ? coords.left - bounds.left : 0
+    }
+  };
+};
+
+/**
+ * CodeMirror 6 editor for one open document at a time. `basicSetup` brings
+ * line numbers, folding, bracket matching, multiple cursors, search and
+ * history; language support is loaded per document.
+ */
+const CodeMirrorEditor = forwardRef<CodeMirrorEditorHandle, CodeMirrorEditorProps>(({
+  docId,
+  value,
+  language,
+  className,
+  onChange,
+  onHistoryChange,
+  onCursorChange,
+  onInlineEditRequest,
+  onReviewChange,
+  onRequestCompletion,
+  onHover,
+  onRequestDiagnostics,
+  onGoToDefinition,
+  onFindReferences,
+  children
+}, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const docIdRef = useRef(docId);
+  const statesRef = useRef(new Map<string, EditorState>());
+  // Closed while shown; its state is dropped instead of kept on the next switch
+  const closedRef = useRef(new Set<string>());
+  const languageRef = useRef(new Compartment());
+  const reviewRef = useRef(new Compartment());
+  // The document a proposal is shown in and its text from before the proposal
+  const proposalRef = useRef<{ docId: string; original: string } | null>(null);
+  // Latest props, read from the listener the view was created with and when
+  // a document's state is first created
+  const latestRef = useRef({
+    value, language, onChange, onHistoryChange, onCursorChange, onInlineEditRequest, onReviewChange, onRequestCompletion,
+    onHover, onRequestDiagnostics, onGoToDefinition, onFindReferences
+  });
+  latestRef.current = {
+    value, language, onChange, onHistoryChange, onCursorChange, onInlineEditRequest, onReviewChange, onRequestCompletion,
+    onHover, onRequestDiagnostics, onGoToDefinition, onFindReferences
+  };
+  // Shared by every document so they share one completion cache
+  const ghostTextRef = useRef(ghostText({
+    fetchCompletion: (prefix, suffix, signal) =>
+      latestRef.current.onRequestCompletion?.(prefix, suffix, signal) ?? Promise.resolve(null)
+  }));
+  const intelligenceRef = useRef(codeIntelligence({
+    hover: (content, offset) => latestRef.current.onHover?.(content, offset) ?? Promise.resolve(null),
+    diagnostics: content => latestRef.current.onRequestDiagnostics?.(content) ?? Promise.resolve([]),
+    goToDefinition: (content, offset) => latestRef.current.onGoToDefinition?.(content, offset) ?? false,
+    findReferences: (content, offset) => latestRef.current.onFindReferences?.(content, offset) ?? false
+  }));
+
+  const reportState = useCallback((state: EditorState) => {
+    latestRef.current.onHistoryChange?.(historyOf(state));
+    latestRef.current.onCursorChange?.(cursorOf(state));
+    const reviewing = proposalRef.current?.docId === docIdRef.current;
+    latestRef.current.onReviewChange?.(reviewing ? getChunks(state)?.chunks.length ?? 0 : null);
+  }, []);
+
+  const createState = useCallback(() => {
+    const { value: doc, language: documentLanguage } = latestRef.current;
+    const state = EditorState.create({
+      doc,
+      extensions: [
+        Prec.highest(keymap.of([{
+          key: 'Mod-k',
+          run: view => {
+            if (!latestRef.current.onInlineEditRequest) return false;
+            latestRef.current.onInlineEditRequest(selectionOf(view));
+            return true;
+          }
+        }])),
+        basicSetup,
+        keymap.of([indentWithTab]),
+        languageRef.current.of([]),
+        reviewRef.current.of([]),
+        ghostTextRef.current,
+        intelligenceRef.current,
+        syntaxHighlighting(highlightStyle),
+        editorTheme,
+        EditorView.updateListener.of(update => {
+          if (update.docChanged && !update.transactions.some(tr => tr.annotation(externalChange))) {
+            latestRef.current.onChange?.(update.state.doc.toString());
+          }
+          // Includes chunk accept/reject, which only changes the merge state
+          if (update.transactions.length > 0) {
+            reportState(update.state);
+          }
+        })
+      ]
+    });
+
+    const id = docIdRef.current;
+    loadLanguage(documentLanguage).then(extension => {
+      const view = viewRef.current;
+      if (!extension) return;
+      if (view && docIdRef.current === id) {
+        view.dispatch({ effects: languageRef.current.reconfigure(extension) });
+      } else {
+        const stored = statesRef.current.get(id);
+        if (stored) {
+          statesRef.current.set(id, stored.update({ effects: languageRef.current.reconfigure(extension) }).state);
+        }
+      }
+    });
+
+    return state;
+  }, [reportState]);
+
+  // Create the view once; documents are swapped in with setState
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const view = new EditorView({
+      state: createState(),
+      parent: containerRef.current
+    });
+    viewRef.current = view;
+    reportState(view.state);
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [createState, reportState]);
+
+  // Switching documents keeps the previous one's state for when it comes back
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || docIdRef.current === docId) return;
+
+    if (!closedRef.current.delete(docIdRef.current)) {
+      statesRef.current.set(docIdRef.current, view.state);
+    }
+    docIdRef.current = docId;
+    view.setState(statesRef.current.get(docId) ?? createState());
+    reportState(view.state);
+  }, [docId, createState, reportState]);
+
+  // Content changed outside the editor, e.g. the file was reloaded
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: value },
+      annotations: externalChange.of(true)
+    });
+  }, [value, docId]);
+
+  useImperativeHandle(ref, () => ({
+    undo: () => {
+      if (viewRef.current) undo(viewRef.current);
+    },
+    redo: () => {
+      if (viewRef.current) redo(viewRef.current);
+    },
+    focus: () => viewRef.current?.focus(),
+    closeDocument: (closedId: string) => {
+      statesRef.current.delete(closedId);
+      if (closedId === docIdRef.current) closedRef.current.add(closedId);
+      if (proposalRef.current?.docId === closedId) proposalRef.current = null;
+    },
+    revealLine: (line: number) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const { doc } = view.state;
+      const target = doc.line(Math.min(Math.max(1, line), doc.lines));
+      view.dispatch({
+        selection: { anchor: target.from },
+        effects: EditorView.scrollIntoView(target.from, { y: 'center' })
+      });
+      view.focus();
+    },
+    showProposal: (from: number, to: number, text: string) => {
+      const view = viewRef.current;
+      if (!view) return;
+      const original = view.state.doc;
+      proposalRef.current = { docId: docIdRef.current, original: original.toString() };
+      view.dispatch({ changes: { from, to, insert: text } });
+      // Added after the change so the diff is computed against the old text
+      view.dispatch({
+        effects: reviewRef.current.reconfigure(unifiedMergeView({ original, mergeControls: true, gutter: true }))
+      });
+      reportState(view.state);
+    },
+    finishProposal: (accept: boolean) => {
+      const view = viewRef.current;
+      const proposal = proposalRef.current;
+      if (!view || !proposal || proposal.docId !== docIdRef.current) return null;
+
+      proposalRef.current = null;
+      view.dispatch({
+        changes: accept ? undefined : { from: 0, to: view.state.doc.length, insert: proposal.original },
+        effects: reviewRef.current.reconfigure([])
+      });
+      reportState(view.state);
+      return view.state.doc.toString();
+    }
+  }), [reportState]);
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <div ref={containerRef} className="h-full" />
+      {children}
+    </div>
+  );
+});
+
+CodeMirrorEditor.displayName = 'CodeMirrorEditor';
+
+export default CodeMirrorEditor;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Check, ChevronRight, Loader2, Wrench, XCircle } from 'lucide-react';
+import { AgentStep } from '@/lib/agent/agentLoop';
+
+interface AgentStepLogProps {
+  steps: AgentStep[];
+}
+
+const StepIcon: React.FC<{ status: AgentStep['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-3 w-3 animate-spin text-primary" />;
+    case 'error':
+      return <XCircle className="h-3 w-3 text-destructive" />;
+    default:
+      return <Check className="h-3 w-3 text-success" />;
+  }
+};
+
+/**
+ * Tool calls the agent made for one reply, in order. Each entry expands to
+ * show the raw tool output the model received.
+ */
+const AgentStepLog: React.FC<AgentStepLogProps> = ({ steps }) => {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="space-y-1 border-l-2 border-border pl-3">
+      <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+        <Wrench className="h-3 w-3" />
+        {steps.length} tool {steps.length === 1 ? 'step' : 'steps'}
+      </div>
+      {steps.map(step => (
+        <Collapsible key={step.id}>
+          <CollapsibleTrigger
+            className="group flex w-full items-center gap-2 text-left text-xs hover:text-foreground text-muted-foreground"
+            disabled={!step.output}
+          >
+            <StepIcon status={step.status} />
+            <span className="font-mono truncate flex-1">{step.label}</span>
+            {step.output && (
+              <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]:rotate-90" />
+            )}
+          </CollapsibleTrigger>
+          {step.output && (
+            <CollapsibleContent>
+              <pre className="mt-1 max-h-48 overflow-auto rounded border bg-code-bg p-2 text-xs font-mono whitespace-pre-wrap">
+                {step.output}
+              </pre>
+            </CollapsibleContent>
+          )}
+        </Collapsible>
+      ))}
+    </div>
+  );
+};
+
+export default AgentStepLog;
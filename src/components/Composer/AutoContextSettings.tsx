@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EmbeddingProviderId, EmbeddingSettings } from '@/lib/embeddings/embedders';
+
+interface AutoContextSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: EmbeddingSettings;
+  onSave: (settings: EmbeddingSettings) => void;
+}
+
+/** Auto context on/off and the embedder it retrieves with. */
+const AutoContextSettings: React.FC<AutoContextSettingsProps> = ({
+  open,
+  onOpenChange,
+  enabled,
+  onEnabledChange,
+  settings,
+  onSave
+}) => {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const update = (changes: Partial<EmbeddingSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    onSave(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Auto Context</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-context-enabled">Attach relevant code automatically</Label>
+              <p className="text-xs text-muted-foreground">
+                Each message is sent with the project chunks most similar to it.
+              </p>
+            </div>
+            <Switch id="auto-context-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Matching</Label>
+            <Select value={draft.provider} onValueChange={value => update({ provider: value as EmbeddingProviderId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="local">Keyword match (offline)</SelectItem>
+                <SelectItem value="endpoint">Semantic, via embedding endpoint</SelectItem>
+              </SelectContent>
+            </Select>
+            {draft.provider === 'local' && (
+              <p className="text-xs text-muted-foreground">
+                Finds chunks that share identifiers and word parts with the message, not ones with a similar meaning. Nothing leaves your machine; use an embedding endpoint for semantic matching.
+              </p>
+            )}
+          </div>
+
+          {draft.provider === 'endpoint' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-endpoint">Endpoint URL</Label>
+                <Input
+                  id="embedding-endpoint"
+                  value={draft.endpoint}
+                  onChange={(e) => update({ endpoint: e.target.value })}
+                  placeholder="http://localhost:11434/v1/embeddings"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Any OpenAI-compatible /embeddings endpoint, e.g. OpenAI, Ollama or LM Studio.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-model">Model</Label>
+                <Input
+                  id="embedding-model"
+                  value={draft.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                  placeholder="text-embedding-3-small"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="embedding-api-key">API Key</Label>
+                <Input
+                  id="embedding-api-key"
+                  type="password"
+                  value={draft.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  placeholder="Optional for local servers"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutoContextSettings;
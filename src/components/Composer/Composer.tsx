@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -32,78 +32,174 @@ import {
   Upload,
   Brain,
   Zap,
-  AlertTriangle
+  AlertTriangle,
+  Square,
+  Loader2,
+  Route
 } from 'lucide-react';
-import { FileSystemItem } from '@/types/fileSystem';
+import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
 import { sampleFileSystem } from '@/data/sampleFileSystem';
 import ContextBuilder from './ContextBuilder';
 import DiffViewer from './DiffViewer';
 import ConversationHistory from './ConversationHistory';
-import { useComposer } from '@/hooks/useComposer';
+import AgentStepLog from './AgentStepLog';
+import AutoContextSettings from './AutoContextSettings';
+import PromptRoutingSettings from './PromptRoutingSettings';
+import { useComposer, CodeChange, Conversation } from '@/hooks/useComposer';
+import { MODE_LABELS, PROMPT_MODES, RoutingMode } from '@/lib/promptRouter';
+import { PackReport, DroppedItem } from '@/lib/contextPacker';
+import { useFileSystem } from '@/hooks/useFileSystem';
+import { AutoContextStatus } from '@/hooks/useAutoContext';
 import { useToast } from '@/hooks/use-toast';
+import { ActiveProject } from '@/types/project';
 
 interface ComposerProps {
   className?: string;
   initialFiles?: FileSystemItem[];
+  // Where applied changes are written, e.g. a folder opened from disk;
+  // without it they only update the in-memory tree
+  fileSystemService?: FileSystemService;
   onFileSelect?: (file: FileSystemItem) => void;
-  onApplyChanges?: (changes: any[]) => void;
+  onApplyChanges?: (changes: CodeChange[]) => void;
+  // The tree after changes are applied or undone, so the owner can keep its copy current
+  onFilesChange?: (files: FileSystemItem[]) => void;
+  // Loaded project, whose memories are included alongside user-wide ones
+  project?: ActiveProject;
   width?: string;
   height?: string;
 }
 
+const formatTokens = (report: PackReport, tokens: number) =>
+  `${report.exact ? '' : '~'}${tokens.toLocaleString()}`;
+
+// Names exactly what the context packer cut from the next request
+const describeContextReport = (report: PackReport): string => {
+  const budget = `${report.budget.toLocaleString()}-token prompt budget`;
+  if (report.overBudget) {
+    return `The system prompt and request alone exceed the ${budget}; the provider may reject it.`;
+  }
+
+  const files = (action: DroppedItem['action']) => report.dropped
+    .filter(item => item.kind === 'file' && item.action === action)
+    .map(item => item.label.split('/').pop());
+  const messageCount = (action: DroppedItem['action']) => report.dropped
+    .filter(item => item.kind === 'message' && item.action === action).length;
+
+  const parts = [
+    files('condensed').length > 0 && `excerpted ${files('condensed').join(', ')}`,
+    files('omitted').length > 0 && `left out ${files('omitted').join(', ')}`,
+    messageCount('condensed') > 0 && `shortened ${messageCount('condensed')} earlier message${messageCount('condensed') === 1 ? '' : 's'}`,
+    messageCount('omitted') > 0 && `dropped ${messageCount('omitted')} earlier message${messageCount('omitted') === 1 ? '' : 's'}`
+  ].filter(Boolean);
+
+  return `Context is over the ${budget} (${formatTokens(report, report.used)} tokens sent): ${parts.join('; ')}.`;
+};
+
+// Typing pause before the draft's auto context is previewed
+const AUTO_CONTEXT_PREVIEW_MS = 400;
+
+const describeAutoContext = (enabled: boolean, status: AutoContextStatus, error: string | null): string => {
+  if (!enabled) return 'Auto context: Off';
+  if (status === 'indexing') return 'Auto context: indexing project...';
+  if (status === 'error') return `Auto context: ${error ?? 'indexing failed'}`;
+  return 'Auto context: On';
+};
+
 const Composer: React.FC<ComposerProps> = ({
   className,
   initialFiles = sampleFileSystem,
+  fileSystemService,
   onFileSelect,
   onApplyChanges,
+  onFilesChange,
+  project,
   width = "400px",
   height = "100%"
 }) => {
+  // The agent's tools read this tree and applied changes are written to it
+  const { files, setFiles, saveFile, createFile, deleteFile, loadFileContent, searchIndex } = useFileSystem({
+    initialFiles,
+    service: fileSystemService,
+    autoLoad: false
+  });
+  const fileOperations = useMemo(
+    () => ({ loadFileContent, saveFile, createFile, deleteFile }),
+    [loadFileContent, saveFile, createFile, deleteFile]
+  );
+
+  // The tree last received or reported, so only the Composer's own edits are reported
+  const syncedFilesRef = useRef(initialFiles);
+
+  useEffect(() => {
+    syncedFilesRef.current = initialFiles;
+    setFiles(initialFiles);
+  }, [initialFiles, setFiles]);
+
+  useEffect(() => {
+    if (files === syncedFilesRef.current) return;
+    syncedFilesRef.current = files;
+    onFilesChange?.(files);
+  }, [files, onFilesChange]);
+
   const {
     messages,
     selectedContext,
     pendingChanges,
+    inlineEdits,
     isLoading,
     error,
     sendMessage,
+    stopGeneration,
     addContext,
     removeContext,
     applyChanges,
+    rebaseChange,
     rejectChanges,
+    setHunkDecision,
+    undoLastApply,
+    canUndoApply,
     clearConversation,
     loadConversation,
-    selectedPromptType,
+    conversations,
+    conversationId,
+    contextReport,
+    autoContext,
+    deleteConversation,
+    clearHistory,
+    importConversation,
+    routingMode,
+    changeRoutingMode,
+    routerSettings,
+    updateRouterSettings,
+    lastRoute,
     prompts,
-    selectedPrompt,
-    selectPrompt
-  } = useComposer();
+    selectedPrompt
+  } = useComposer({ files, fileOperations, searchIndex, project });
 
   const [input, setInput] = useState('');
   const [activeTab, setActiveTab] = useState('chat');
   const [showContextBuilder, setShowContextBuilder] = useState(false);
-  const [showTokenWarning, setShowTokenWarning] = useState(false);
+  const [showAutoContextSettings, setShowAutoContextSettings] = useState(false);
+  const [showRoutingSettings, setShowRoutingSettings] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  // Hide the "Thinking..." indicator once streamed tokens start arriving
+  const lastMessage = messages[messages.length - 1];
+  const isAwaitingFirstToken = isLoading && !(lastMessage?.role === 'assistant' && lastMessage.content);
+
+  // Show which chunks the draft would pull in once typing pauses
+  const { preview: previewAutoContext } = autoContext;
+  useEffect(() => {
+    const timer = setTimeout(() => previewAutoContext(input), AUTO_CONTEXT_PREVIEW_MS);
+    return () => clearTimeout(timer);
+  }, [input, previewAutoContext]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Check if context might exceed token limits
-  useEffect(() => {
-    const totalContextSize = selectedContext.reduce((total, file) => {
-      return total + (file.content?.length || 0);
-    }, 0);
-    
-    // Rough estimate: if context is larger than 50KB, show warning
-    if (totalContextSize > 50000) {
-      setShowTokenWarning(true);
-    } else {
-      setShowTokenWarning(false);
-    }
-  }, [selectedContext]);
-
   const copyToClipboard = (content: string) => {
     navigator.clipboard.writeText(content);
     toast({
@@ -165,13 +261,68 @@ const Composer: React.FC<ComposerProps> = ({
     }
   };
 
-  const handleApplyChanges = async () => {
-    if (pendingChanges.length > 0) {
-      await applyChanges();
-      onApplyChanges?.(pendingChanges);
+  const reviewableCount = pendingChanges.filter(change => change.status === 'pending').length;
+
+  const handleApplyChanges = async (changeId?: string) => {
+    const { applied, conflicts } = await applyChanges(changeId);
+
+    if (conflicts.length > 0) {
+      toast({
+        title: "Some changes were not applied",
+        description: `${conflicts.map(change => change.fileName).join(', ')} changed since the edit was proposed. Rebase or reject them in the Changes tab.`,
+        variant: "destructive"
+      });
+    }
+    if (applied.length > 0) {
+      toast({
+        title: "Changes applied",
+        description: `Updated ${applied.length} file${applied.length === 1 ? '' : 's'}. Use Undo in the Changes tab to revert.`
+      });
+      onApplyChanges?.(applied);
     }
   };
 
+  const handleRebaseChange = async (changeId: string) => {
+    try {
+      await rebaseChange(changeId);
+    } catch (error) {
+      toast({
+        title: "Could not rebase the change",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleLoadConversation = (conversation: Conversation) => {
+    loadConversation(conversation);
+    setActiveTab('chat');
+  };
+
+  const handleImportConversation = async (json: string) => {
+    try {
+      const conversation = await importConversation(json);
+      toast({
+        title: "Conversation imported",
+        description: conversation.title
+      });
+    } catch (err) {
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : 'Could not import the conversation',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleHistoryError = (action: string) => (err: unknown) => {
+    toast({
+      title: `Failed to ${action}`,
+      description: err instanceof Error ? err.message : String(err),
+      variant: "destructive"
+    });
+  };
+
   const containerStyle = {
     width,
     height
@@ -195,7 +346,7 @@ const Composer: React.FC<ComposerProps> = ({
             </div>
           </div>
           <div className="flex gap-1">
-            <Button variant="ghost" size="sm">
+            <Button variant="ghost" size="sm" onClick={() => setShowAutoContextSettings(true)} title="Auto context settings">
               <Settings className="h-4 w-4" />
             </Button>
             <Button variant="ghost" size="sm" onClick={clearConversation}>
@@ -205,17 +356,17 @@ const Composer: React.FC<ComposerProps> = ({
         </div>
 
         {/* Token Limit Warning */}
-        {showTokenWarning && (
+        {contextReport && (contextReport.overBudget || contextReport.dropped.length > 0) && (
           <Alert className="mb-3 border-orange-200 bg-orange-50">
             <AlertTriangle className="h-4 w-4 text-orange-600" />
             <AlertDescription className="text-orange-800 text-xs">
-              Large context detected. Some content may be truncated to stay within AI model limits.
+              {describeContextReport(contextReport)}
             </AlertDescription>
           </Alert>
         )}
 
         {/* Context Badges */}
-        {selectedContext.length > 0 && (
+        {(selectedContext.length > 0 || autoContext.suggestions.length > 0) && (
           <div className="flex flex-wrap gap-1 mb-3">
             {selectedContext.map((item) => (
               <Badge 
@@ -237,6 +388,23 @@ const Composer: React.FC<ComposerProps> = ({
                 </button>
               </Badge>
             ))}
+            {autoContext.suggestions.map((chunk) => (
+              <Badge
+                key={chunk.id}
+                variant="outline"
+                className="text-xs flex items-center gap-1"
+                title={`Retrieved automatically (similarity ${chunk.score.toFixed(2)})`}
+              >
+                <Sparkles className="h-3 w-3 text-primary" />
+                {chunk.path.split('/').pop()}:{chunk.startLine}-{chunk.endLine}
+                <button
+                  onClick={() => autoContext.remove(chunk.id)}
+                  className="ml-1 hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
             <Button
               variant="outline"
               size="sm"
@@ -257,9 +425,9 @@ const Composer: React.FC<ComposerProps> = ({
             <TabsTrigger value="chat" className="text-xs">Chat</TabsTrigger>
             <TabsTrigger value="changes" className="text-xs">
               Changes
-              {pendingChanges.length > 0 && (
+              {reviewableCount > 0 && (
                 <Badge variant="destructive" className="ml-1 h-4 w-4 p-0 text-xs">
-                  {pendingChanges.length}
+                  {reviewableCount}
                 </Badge>
               )}
             </TabsTrigger>
@@ -275,25 +443,15 @@ const Composer: React.FC<ComposerProps> = ({
                 <Brain className="h-4 w-4 text-primary" />
                 <span className="text-sm font-medium">AI Mode:</span>
               </div>
-              <Select 
-                value={selectedPromptType} 
-                onValueChange={(value: 'agent' | 'chat' | 'memory') => {
-                  const availablePrompts = prompts.filter(p => p.type === value);
-                  const bestPrompt = availablePrompts.find(p => p.version === '1.2') || 
-                                    availablePrompts.find(p => p.version === '1.0') || 
-                                    availablePrompts[0];
-                  if (bestPrompt) {
-                    selectPrompt(bestPrompt.id);
-                  }
-                }}
-              >
+              <Select value={routingMode} onValueChange={(value: RoutingMode) => changeRoutingMode(value)}>
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="chat">Chat</SelectItem>
-                  <SelectItem value="agent">Agent</SelectItem>
-                  <SelectItem value="memory">Memory</SelectItem>
+                  <SelectItem value="auto">Auto</SelectItem>
+                  {PROMPT_MODES.map(mode => (
+                    <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               {selectedPrompt && (
@@ -301,7 +459,22 @@ const Composer: React.FC<ComposerProps> = ({
                   {selectedPrompt.name}
                 </Badge>
               )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => setShowRoutingSettings(true)}
+                title="Prompt routing rules"
+              >
+                <Route className="h-4 w-4" />
+              </Button>
             </div>
+            {lastRoute && (
+              <p className="mt-2 text-xs text-muted-foreground flex items-center gap-1">
+                <Route className="h-3 w-3 shrink-0" />
+                {lastRoute.reason}
+              </p>
+            )}
           </div>
 
           {/* Messages */}
@@ -324,7 +497,7 @@ const Composer: React.FC<ComposerProps> = ({
                   </div>
                 </div>
               ) : (
-                messages.map((message, index) => (
+                messages.filter(message => message.content || message.steps?.length).map((message, index) => (
                   <div key={index} className="animate-fade-in">
                     <div className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                       <div className={`flex gap-3 max-w-[80%] ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
@@ -348,7 +521,8 @@ const Composer: React.FC<ComposerProps> = ({
                             : 'bg-card border-border'
                         }`}>
                           <div className="space-y-2">
-                            {formatMessage(message.content).map((part, partIndex) => (
+                            {message.steps && <AgentStepLog steps={message.steps} />}
+                            {message.content && formatMessage(message.content).map((part, partIndex) => (
                               <div key={partIndex}>
                                 {part.type === 'code' ? (
                                   <div className="relative">
@@ -384,12 +558,21 @@ const Composer: React.FC<ComposerProps> = ({
                               {message.promptUsed && (
                                 <>
                                   <span>•</span>
-                                  <span className="flex items-center gap-1">
+                                  <span className="flex items-center gap-1" title={message.routeReason}>
                                     <Zap className="h-3 w-3" />
                                     {message.promptUsed}
                                   </span>
                                 </>
                               )}
+                              {message.memoriesUsed && (
+                                <>
+                                  <span>•</span>
+                                  <span className="flex items-center gap-1" title={message.memoriesUsed.join('\n')}>
+                                    <Brain className="h-3 w-3" />
+                                    {message.memoriesUsed.length} {message.memoriesUsed.length === 1 ? 'memory' : 'memories'}
+                                  </span>
+                                </>
+                              )}
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -406,7 +589,7 @@ const Composer: React.FC<ComposerProps> = ({
                   </div>
                 ))
               )}
-              {isLoading && (
+              {isAwaitingFirstToken && (
                 <div className="flex gap-3 animate-fade-in">
                   <div className="p-2 bg-gradient-primary rounded-lg flex-shrink-0">
                     <Bot className="h-4 w-4 text-primary-foreground" />
@@ -434,6 +617,19 @@ const Composer: React.FC<ComposerProps> = ({
               >
                 <Plus className="h-4 w-4" />
               </Button>
+              <Button
+                variant={autoContext.enabled ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => autoContext.setEnabled(!autoContext.enabled)}
+                className="flex-shrink-0"
+                title={describeAutoContext(autoContext.enabled, autoContext.status, autoContext.error)}
+              >
+                {autoContext.enabled && autoContext.status === 'indexing' ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4" />
+                )}
+              </Button>
               <div className="flex-1 relative">
                 <Textarea
                   value={input}
@@ -443,14 +639,26 @@ const Composer: React.FC<ComposerProps> = ({
                   className="min-h-[60px] max-h-[120px] resize-none pr-12"
                   disabled={isLoading}
                 />
-                <Button
-                  size="sm"
-                  onClick={handleSendMessage}
-                  disabled={!input.trim() || isLoading}
-                  className="absolute right-2 bottom-2 h-8 w-8 p-0"
-                >
-                  <Send className="h-4 w-4" />
-                </Button>
+                {isLoading ? (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={stopGeneration}
+                    className="absolute right-2 bottom-2 h-8 w-8 p-0"
+                    title="Stop generating"
+                  >
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={handleSendMessage}
+                    disabled={!input.trim()}
+                    className="absolute right-2 bottom-2 h-8 w-8 p-0"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -458,21 +666,46 @@ const Composer: React.FC<ComposerProps> = ({
 
         <TabsContent value="changes" className="flex-1 m-0">
           <DiffViewer
-            changes={pendingChanges}
+            changes={[...pendingChanges, ...inlineEdits]}
             onApply={handleApplyChanges}
             onReject={rejectChanges}
+            onRebase={handleRebaseChange}
+            onHunkDecision={setHunkDecision}
+            onUndo={undoLastApply}
+            canUndo={canUndoApply}
             isLoading={isLoading}
           />
         </TabsContent>
 
         <TabsContent value="history" className="flex-1 m-0">
           <ConversationHistory
-            onLoadConversation={loadConversation}
-            onClearHistory={clearConversation}
+            conversations={conversations}
+            activeConversationId={conversationId}
+            onLoadConversation={handleLoadConversation}
+            onDeleteConversation={id => deleteConversation(id).catch(handleHistoryError('delete conversation'))}
+            onImportConversation={handleImportConversation}
+            onClearHistory={() => clearHistory().catch(handleHistoryError('clear history'))}
           />
         </TabsContent>
       </Tabs>
 
+      <AutoContextSettings
+        open={showAutoContextSettings}
+        onOpenChange={setShowAutoContextSettings}
+        enabled={autoContext.enabled}
+        onEnabledChange={autoContext.setEnabled}
+        settings={autoContext.settings}
+        onSave={autoContext.updateSettings}
+      />
+
+      <PromptRoutingSettings
+        open={showRoutingSettings}
+        onOpenChange={setShowRoutingSettings}
+        settings={routerSettings}
+        prompts={prompts}
+        onSave={updateRouterSettings}
+      />
+
       {/* Context Builder Modal */}
       {showContextBuilder && (
         <ContextBuilder
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,124 +18,34 @@ import {
   Upload
 } from 'lucide-react';
 import { Conversation } from '@/hooks/useComposer';
+import { serializeConversation } from '@/lib/conversationStore';
 
 interface ConversationHistoryProps {
+  conversations: Conversation[];
+  activeConversationId?: string;
   onLoadConversation: (conversation: Conversation) => void;
+  onDeleteConversation: (conversationId: string) => void;
+  onImportConversation: (json: string) => void;
   onClearHistory: () => void;
 }
 
 const ConversationHistory: React.FC<ConversationHistoryProps> = ({
+  conversations,
+  activeConversationId,
   onLoadConversation,
+  onDeleteConversation,
+  onImportConversation,
   onClearHistory
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // Mock conversation history - in a real app, this would come from storage
-  const [conversations] = useState<Conversation[]>([
-    {
-      id: '1',
-      title: 'Payment Module Refactoring',
-      messages: [
-        {
-          id: '1',
-          role: 'user',
-          content: 'Refactor the payment module to use Stripe v4 API',
-          timestamp: new Date('2024-01-15T10:30:00')
-        },
-        {
-          id: '2',
-          role: 'assistant',
-          content: 'I\'ll help you refactor the payment module. Here are the suggested changes...',
-          timestamp: new Date('2024-01-15T10:32:00')
-        }
-      ],
-      changes: [
-        {
-          id: '1',
-          filePath: 'src/components/PaymentModule.tsx',
-          fileName: 'PaymentModule.tsx',
-          originalContent: '// Original content',
-          newContent: '// New content',
-          description: 'Enhanced payment module with Stripe v4',
-          status: 'applied',
-          timestamp: new Date('2024-01-15T10:32:00')
-        }
-      ],
-      createdAt: new Date('2024-01-15T10:30:00'),
-      updatedAt: new Date('2024-01-15T10:32:00')
-    },
-    {
-      id: '2',
-      title: 'Authentication Error Handling',
-      messages: [
-        {
-          id: '1',
-          role: 'user',
-          content: 'Add error handling to the user authentication',
-          timestamp: new Date('2024-01-14T15:20:00')
-        },
-        {
-          id: '2',
-          role: 'assistant',
-          content: 'I\'ll add comprehensive error handling to your authentication system...',
-          timestamp: new Date('2024-01-14T15:22:00')
-        }
-      ],
-      changes: [
-        {
-          id: '1',
-          filePath: 'src/components/AuthForm.tsx',
-          fileName: 'AuthForm.tsx',
-          originalContent: '// Original content',
-          newContent: '// New content',
-          description: 'Enhanced authentication with error handling',
-          status: 'applied',
-          timestamp: new Date('2024-01-14T15:22:00')
-        }
-      ],
-      createdAt: new Date('2024-01-14T15:20:00'),
-      updatedAt: new Date('2024-01-14T15:22:00')
-    },
-    {
-      id: '3',
-      title: 'Data Visualization Component',
-      messages: [
-        {
-          id: '1',
-          role: 'user',
-          content: 'Create a new React component for data visualization',
-          timestamp: new Date('2024-01-13T09:15:00')
-        },
-        {
-          id: '2',
-          role: 'assistant',
-          content: 'I\'ll create a comprehensive data visualization component...',
-          timestamp: new Date('2024-01-13T09:17:00')
-        }
-      ],
-      changes: [
-        {
-          id: '1',
-          filePath: 'src/components/DataVisualization.tsx',
-          fileName: 'DataVisualization.tsx',
-          originalContent: '',
-          newContent: '// New component content',
-          description: 'Created data visualization component',
-          status: 'applied',
-          timestamp: new Date('2024-01-13T09:17:00')
-        }
-      ],
-      createdAt: new Date('2024-01-13T09:15:00'),
-      updatedAt: new Date('2024-01-13T09:17:00')
-    }
-  ]);
-
+  const query = searchQuery.trim().toLowerCase();
   const filteredConversations = conversations.filter(conversation =>
-    conversation.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    conversation.messages.some(msg => 
-      msg.content.toLowerCase().includes(searchQuery.toLowerCase())
-    )
+    conversation.title.toLowerCase().includes(query) ||
+    conversation.messages.some(msg => msg.content.toLowerCase().includes(query)) ||
+    conversation.changes.some(change => change.filePath.toLowerCase().includes(query))
   );
 
   const formatDate = (date: Date) => {
@@ -164,19 +74,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
   };
 
   const exportConversation = (conversation: Conversation) => {
-    const data = {
-      ...conversation,
-      messages: conversation.messages.map(msg => ({
-        ...msg,
-        timestamp: msg.timestamp.toISOString()
-      })),
-      changes: conversation.changes.map(change => ({
-        ...change,
-        timestamp: change.timestamp.toISOString()
-      })),
-      createdAt: conversation.createdAt.toISOString(),
-      updatedAt: conversation.updatedAt.toISOString()
-    };
+    const data = serializeConversation(conversation);
 
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -189,23 +87,15 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
     URL.revokeObjectURL(url);
   };
 
-  const deleteConversation = (conversationId: string) => {
-    // In a real app, this would remove from storage
-    console.log('Deleting conversation:', conversationId);
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again
+    event.target.value = '';
+    if (file) {
+      onImportConversation(await file.text());
+    }
   };
 
-  if (conversations.length === 0) {
-    return (
-      <div className="flex-1 flex items-center justify-center text-muted-foreground">
-        <div className="text-center">
-          <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
-          <p>No conversation history</p>
-          <p className="text-sm">Your conversations will appear here</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="flex-1 flex flex-col">
       {/* Header */}
@@ -216,10 +106,23 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
             <h3 className="font-semibold">Conversation History</h3>
             <Badge variant="secondary">{conversations.length}</Badge>
           </div>
-          <Button variant="outline" size="sm" onClick={onClearHistory}>
-            <Trash2 className="h-4 w-4 mr-2" />
-            Clear All
-          </Button>
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClearHistory} disabled={conversations.length === 0}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear All
+            </Button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
         </div>
 
         <div className="relative">
@@ -236,6 +139,18 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
       {/* Conversation List */}
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-3">
+          {conversations.length === 0 && (
+            <div className="py-12 text-center text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No conversation history</p>
+              <p className="text-sm">Your conversations will appear here</p>
+            </div>
+          )}
+          {conversations.length > 0 && filteredConversations.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No conversations match "{searchQuery}"
+            </p>
+          )}
           {filteredConversations.map((conversation) => {
             const summary = getConversationSummary(conversation);
             
@@ -252,6 +167,9 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                     <div className="flex items-center gap-2 mb-2">
                       <MessageSquare className="h-4 w-4 text-primary" />
                       <h4 className="font-medium truncate">{conversation.title}</h4>
+                      {conversation.id === activeConversationId && (
+                        <Badge variant="secondary" className="text-xs">Open</Badge>
+                      )}
                       <Badge variant="outline" className="text-xs">
                         {summary.appliedChanges} changes
                       </Badge>
@@ -293,7 +211,8 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                       size="sm"
                       onClick={(e) => {
                         e.stopPropagation();
-                        deleteConversation(conversation.id);
+                        if (selectedConversation === conversation.id) setSelectedConversation(null);
+                        onDeleteConversation(conversation.id);
                       }}
                     >
                       <Trash2 className="h-4 w-4" />
@@ -316,6 +235,7 @@ const ConversationHistory: React.FC<ConversationHistoryProps> = ({
                 const conversation = conversations.find(c => c.id === selectedConversation);
                 if (conversation) {
                   onLoadConversation(conversation);
+                  setSelectedConversation(null);
                 }
               }}
             >
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,58 +11,250 @@ import {
   Eye,
   Copy,
   GitBranch,
-  AlertCircle
+  AlertCircle,
+  Rows2,
+  Columns2,
+  UnfoldVertical,
+  Undo2,
+  GitMerge
 } from 'lucide-react';
-import { CodeChange } from '@/hooks/useComposer';
+import { CodeChange, HunkDecision } from '@/hooks/useComposer';
+import {
+  computeDiff,
+  diffWords,
+  formatHunkHeader,
+  toSideBySide,
+  DiffLine,
+  WordSegment
+} from '@/lib/diff';
+
+// Word diffs on very long lines (minified code) cost more than they help
+const MAX_WORD_DIFF_LENGTH = 500;
+
+type ViewMode = 'unified' | 'split';
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  context: '',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800'
+};
+
+const wordClasses: Record<WordSegment['type'], string> = {
+  equal: '',
+  removed: 'bg-red-200 rounded-sm',
+  added: 'bg-green-200 rounded-sm'
+};
+
+const linePrefix: Record<DiffLine['type'], string> = {
+  context: ' ',
+  removed: '-',
+  added: '+'
+};
+
+interface LineContentProps {
+  line: DiffLine;
+  words?: WordSegment[];
+}
+
+// Renders a line, highlighting the words that differ from its counterpart
+const LineContent: React.FC<LineContentProps> = ({ line, words }) => {
+  if (!words) return <>{line.content || ' '}</>;
+
+  const hidden = line.type === 'removed' ? 'added' : 'removed';
+  return (
+    <>
+      {words.filter(word => word.type !== hidden).map((word, index) => (
+        <span key={index} className={wordClasses[word.type]}>{word.value}</span>
+      ))}
+    </>
+  );
+};
+
+const LineNumber: React.FC<{ value?: number }> = ({ value }) => (
+  <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-muted-foreground">
+    {value ?? ''}
+  </span>
+);
 
 interface DiffViewerProps {
   changes: CodeChange[];
-  onApply: () => void;
+  // Without an id, every reviewable change
+  onApply: (changeId?: string) => void;
   onReject: (changeId?: string) => void;
+  // Re-applies a conflicting change to the file's current content
+  onRebase?: (changeId: string) => void;
+  onHunkDecision?: (changeId: string, hunkIndex: number, decision?: HunkDecision) => void;
+  onUndo?: () => void;
+  canUndo?: boolean;
   isLoading?: boolean;
 }
 
+const isReviewable = (change: CodeChange) => change.status === 'pending' || change.status === 'conflict';
+
 const DiffViewer: React.FC<DiffViewerProps> = ({
   changes,
   onApply,
   onReject,
+  onRebase,
+  onHunkDecision,
+  onUndo,
+  canUndo = false,
   isLoading = false
 }) => {
   const [selectedChange, setSelectedChange] = useState<string | null>(
     changes.length > 0 ? changes[0].id : null
   );
 
-  const selectedChangeData = changes.find(change => change.id === selectedChange);
-
-  const renderDiff = (original: string, modified: string) => {
-    const originalLines = original.split('\n');
-    const modifiedLines = modified.split('\n');
-    
-    const maxLines = Math.max(originalLines.length, modifiedLines.length);
-    const diffLines = [];
-
-    for (let i = 0; i < maxLines; i++) {
-      const originalLine = originalLines[i] || '';
-      const modifiedLine = modifiedLines[i] || '';
-      
-      if (originalLine === modifiedLine) {
-        diffLines.push({
-          type: 'unchanged',
-          original: originalLine,
-          modified: modifiedLine,
-          lineNumber: i + 1
-        });
+  // Changes usually arrive after mount, so fall back to the first one
+  const selectedChangeData = changes.find(change => change.id === selectedChange) ?? changes[0];
+
+  const [viewMode, setViewMode] = useState<ViewMode>('unified');
+  const [expandedGaps, setExpandedGaps] = useState<Set<string>>(new Set());
+
+  const diff = useMemo(
+    () => selectedChangeData
+      ? computeDiff(selectedChangeData.originalContent, selectedChangeData.newContent)
+      : null,
+    [selectedChangeData]
+  );
+
+  // Pair each removed line with the added line replacing it for word highlights
+  const wordDiffs = useMemo(() => {
+    const map = new Map<DiffLine, WordSegment[]>();
+    if (!diff) return map;
+
+    for (const { left, right } of toSideBySide(diff.lines)) {
+      if (
+        left?.type === 'removed' && right?.type === 'added' &&
+        left.content.length <= MAX_WORD_DIFF_LENGTH && right.content.length <= MAX_WORD_DIFF_LENGTH
+      ) {
+        const words = diffWords(left.content, right.content);
+        map.set(left, words);
+        map.set(right, words);
+      }
+    }
+    return map;
+  }, [diff]);
+
+  const toggleGap = (gapId: string) => {
+    setExpandedGaps(prev => {
+      const next = new Set(prev);
+      if (next.has(gapId)) {
+        next.delete(gapId);
       } else {
-        diffLines.push({
-          type: 'changed',
-          original: originalLine,
-          modified: modifiedLine,
-          lineNumber: i + 1
-        });
+        next.add(gapId);
       }
+      return next;
+    });
+  };
+
+  const renderUnifiedLines = (lines: DiffLine[]) => lines.map((line, index) => (
+    <div key={index} className={`flex font-mono text-xs leading-5 ${lineClasses[line.type]}`}>
+      <LineNumber value={line.oldLineNumber} />
+      <LineNumber value={line.newLineNumber} />
+      <span className="w-4 flex-shrink-0 select-none text-center">{linePrefix[line.type]}</span>
+      <span className="whitespace-pre-wrap break-all pr-2">
+        <LineContent line={line} words={wordDiffs.get(line)} />
+      </span>
+    </div>
+  ));
+
+  const renderSplitLines = (lines: DiffLine[]) => toSideBySide(lines).map((row, index) => (
+    <div key={index} className="grid grid-cols-2 font-mono text-xs leading-5">
+      {[row.left, row.right].map((line, side) => (
+        <div
+          key={side}
+          className={`flex min-w-0 ${side === 0 ? 'border-r border-border' : ''} ${line ? lineClasses[line.type] : 'bg-muted/30'}`}
+        >
+          <LineNumber value={side === 0 ? line?.oldLineNumber : line?.newLineNumber} />
+          <span className="whitespace-pre-wrap break-all pr-2">
+            {line && <LineContent line={line} words={wordDiffs.get(line)} />}
+          </span>
+        </div>
+      ))}
+    </div>
+  ));
+
+  const renderLines = (lines: DiffLine[]) =>
+    viewMode === 'unified' ? renderUnifiedLines(lines) : renderSplitLines(lines);
+
+  // Unchanged stretch between hunks, collapsed until the user expands it
+  const renderGap = (gapId: string, from: number, to: number) => {
+    if (!diff || to <= from) return null;
+    if (expandedGaps.has(gapId)) {
+      return <div key={gapId}>{renderLines(diff.lines.slice(from, to))}</div>;
     }
 
-    return diffLines;
+    const count = to - from;
+    return (
+      <button
+        key={gapId}
+        onClick={() => toggleGap(gapId)}
+        className="flex w-full items-center gap-2 bg-muted/50 px-2 py-1 text-xs text-muted-foreground hover:bg-muted"
+      >
+        <UnfoldVertical className="h-3 w-3" />
+        Show {count} unchanged {count === 1 ? 'line' : 'lines'}
+      </button>
+    );
+  };
+
+  const renderDiff = () => {
+    if (!diff) return null;
+    if (diff.hunks.length === 0) {
+      return <p className="p-4 text-sm text-muted-foreground">No differences</p>;
+    }
+
+    const selectedId = selectedChangeData?.id;
+    const canDecide = Boolean(selectedChangeData && onHunkDecision && isReviewable(selectedChangeData));
+    const blocks: React.ReactNode[] = [];
+    let previousEnd = 0;
+
+    diff.hunks.forEach((hunk, index) => {
+      const decision = selectedChangeData?.hunkDecisions?.[index];
+      // Clicking the active decision again clears it
+      const decide = (next: HunkDecision) =>
+        selectedChangeData && onHunkDecision?.(selectedChangeData.id, index, decision === next ? undefined : next);
+
+      blocks.push(renderGap(`${selectedId}-gap-${index}`, previousEnd, hunk.startIndex));
+      blocks.push(
+        <div key={`${selectedId}-hunk-${index}`} className={decision === 'rejected' ? 'opacity-50' : ''}>
+          <div className="flex items-center justify-between bg-blue-50 px-2 py-1 font-mono text-xs text-blue-700">
+            <span>
+              {formatHunkHeader(hunk)}
+              {decision === 'rejected' && <span className="ml-2 font-sans text-red-700">Rejected</span>}
+              {decision === 'accepted' && <span className="ml-2 font-sans text-green-700">Accepted</span>}
+            </span>
+            {canDecide && (
+              <span className="flex gap-1">
+                <Button
+                  variant={decision === 'accepted' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  onClick={() => decide('accepted')}
+                  title="Accept hunk"
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant={decision === 'rejected' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-5 w-5 p-0"
+                  onClick={() => decide('rejected')}
+                  title="Reject hunk"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            )}
+          </div>
+          {renderLines(hunk.lines)}
+        </div>
+      );
+      previousEnd = hunk.endIndex;
+    });
+    blocks.push(renderGap(`${selectedId}-gap-end`, previousEnd, diff.lines.length));
+
+    return blocks;
   };
 
   const copyToClipboard = (text: string) => {
@@ -104,18 +296,30 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
             <Badge variant="secondary">{changes.length}</Badge>
           </div>
           <div className="flex gap-2">
+            {onUndo && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onUndo}
+                disabled={isLoading || !canUndo}
+                title="Revert the last applied batch"
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
               onClick={() => onReject()}
-              disabled={isLoading}
+              disabled={isLoading || !changes.some(isReviewable)}
             >
               <X className="h-4 w-4 mr-2" />
               Reject All
             </Button>
             <Button
-              onClick={onApply}
-              disabled={isLoading || changes.length === 0}
+              onClick={() => onApply()}
+              disabled={isLoading || !changes.some(change => change.status === 'pending')}
             >
               <Check className="h-4 w-4 mr-2" />
               Apply All
@@ -128,7 +332,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
           {changes.map((change) => (
             <Button
               key={change.id}
-              variant={selectedChange === change.id ? "default" : "outline"}
+              variant={selectedChangeData?.id === change.id ? "default" : "outline"}
               size="sm"
               onClick={() => setSelectedChange(change.id)}
               className="flex items-center gap-2 whitespace-nowrap"
@@ -141,6 +345,9 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
               {change.status === 'rejected' && (
                 <Badge variant="destructive" className="ml-1">Rejected</Badge>
               )}
+              {change.status === 'conflict' && (
+                <Badge variant="destructive" className="ml-1">Conflict</Badge>
+              )}
             </Button>
           ))}
         </div>
@@ -182,72 +389,38 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
           </div>
 
           {/* Diff View */}
-          <ScrollArea className="flex-1">
-            <div className="p-4">
-              <div className="grid grid-cols-2 gap-4">
-                {/* Original */}
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-medium text-sm">Original</h4>
-                    <Badge variant="outline" className="text-xs">Removed</Badge>
-                  </div>
-                  <Card className="p-3 bg-red-50 border-red-200">
-                    <pre className="text-sm font-mono text-red-800 whitespace-pre-wrap">
-                      {selectedChangeData.originalContent}
-                    </pre>
-                  </Card>
-                </div>
-
-                {/* Modified */}
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-medium text-sm">Modified</h4>
-                    <Badge variant="outline" className="text-xs">Added</Badge>
-                  </div>
-                  <Card className="p-3 bg-green-50 border-green-200">
-                    <pre className="text-sm font-mono text-green-800 whitespace-pre-wrap">
-                      {selectedChangeData.newContent}
-                    </pre>
-                  </Card>
-                </div>
-              </div>
-
-              {/* Line-by-line diff */}
-              <div className="mt-6">
-                <h4 className="font-medium text-sm mb-3">Line-by-line Changes</h4>
-                <Card className="overflow-hidden">
-                  <div className="grid grid-cols-3 gap-0 border-b border-border">
-                    <div className="p-2 bg-muted/50 text-xs font-medium">Line</div>
-                    <div className="p-2 bg-muted/50 text-xs font-medium">Original</div>
-                    <div className="p-2 bg-muted/50 text-xs font-medium">Modified</div>
-                  </div>
-                  <ScrollArea className="max-h-64">
-                    {renderDiff(selectedChangeData.originalContent, selectedChangeData.newContent).map((line, index) => (
-                      <div
-                        key={index}
-                        className={`grid grid-cols-3 gap-0 border-b border-border ${
-                          line.type === 'changed' ? 'bg-yellow-50' : ''
-                        }`}
-                      >
-                        <div className="p-2 text-xs text-muted-foreground font-mono">
-                          {line.lineNumber}
-                        </div>
-                        <div className={`p-2 text-xs font-mono ${
-                          line.type === 'changed' ? 'text-red-600 bg-red-50' : ''
-                        }`}>
-                          {line.original || ' '}
-                        </div>
-                        <div className={`p-2 text-xs font-mono ${
-                          line.type === 'changed' ? 'text-green-600 bg-green-50' : ''
-                        }`}>
-                          {line.modified || ' '}
-                        </div>
-                      </div>
-                    ))}
-                  </ScrollArea>
-                </Card>
-              </div>
+          <div className="flex items-center justify-between border-b border-border px-3 py-2">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-green-700">+{diff?.added ?? 0}</span>
+              <span className="font-medium text-red-700">-{diff?.removed ?? 0}</span>
+              <span className="text-muted-foreground">
+                {diff?.hunks.length ?? 0} {diff?.hunks.length === 1 ? 'hunk' : 'hunks'}
+              </span>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant={viewMode === 'unified' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setViewMode('unified')}
+                title="Unified view"
+              >
+                <Rows2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={viewMode === 'split' ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setViewMode('split')}
+                title="Side-by-side view"
+              >
+                <Columns2 className="h-4 w-4" />
+              </Button>
             </div>
+          </div>
+
+          <ScrollArea className="flex-1">
+            <Card className="m-4 overflow-hidden">
+              {renderDiff()}
+            </Card>
           </ScrollArea>
 
           {/* Actions */}
@@ -257,9 +430,15 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                 {selectedChangeData.status === 'pending' && 'Ready to apply'}
                 {selectedChangeData.status === 'applied' && 'Changes applied'}
                 {selectedChangeData.status === 'rejected' && 'Changes rejected'}
+                {selectedChangeData.status === 'conflict' && (
+                  <span className="flex items-center gap-1 text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    The file changed since this edit was proposed; rebase it onto the current file or discard it
+                  </span>
+                )}
               </div>
               <div className="flex gap-2">
-                {selectedChangeData.status === 'pending' && (
+                {isReviewable(selectedChangeData) && (
                   <>
                     <Button
                       variant="outline"
@@ -268,16 +447,29 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
                       disabled={isLoading}
                     >
                       <X className="h-4 w-4 mr-2" />
-                      Reject
-                    </Button>
-                    <Button
-                      size="sm"
-                      onClick={onApply}
-                      disabled={isLoading}
-                    >
-                      <Check className="h-4 w-4 mr-2" />
-                      Apply
+                      {selectedChangeData.status === 'conflict' ? 'Discard' : 'Reject'}
                     </Button>
+                    {selectedChangeData.status === 'conflict' ? (
+                      onRebase && (
+                        <Button
+                          size="sm"
+                          onClick={() => onRebase(selectedChangeData.id)}
+                          disabled={isLoading}
+                        >
+                          <GitMerge className="h-4 w-4 mr-2" />
+                          Rebase
+                        </Button>
+                      )
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => onApply(selectedChangeData.id)}
+                        disabled={isLoading}
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        Apply
+                      </Button>
+                    )}
                   </>
                 )}
               </div>
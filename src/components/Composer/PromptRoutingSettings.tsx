@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Prompt } from '@/lib/promptManager';
+import {
+  DEFAULT_ROUTER_SETTINGS,
+  MODE_LABELS,
+  PROMPT_MODES,
+  PromptMode,
+  RouterSettings,
+  RoutingRule,
+  RuleMatch,
+  validateRule
+} from '@/lib/promptRouter';
+
+interface PromptRoutingSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: RouterSettings;
+  prompts: Prompt[];
+  onSave: (settings: RouterSettings) => void;
+}
+
+// Select items cannot have an empty value
+const MODE_PROMPT = 'mode-prompt';
+
+const MATCH_KINDS: { kind: RuleMatch['kind']; label: string; placeholder: string }[] = [
+  { kind: 'regex', label: 'Message matches', placeholder: 'e.g. \\b(test|spec)s?\\b' },
+  { kind: 'file-type', label: 'File attached', placeholder: 'e.g. sql, prisma' },
+  { kind: 'slash-command', label: 'Slash command', placeholder: 'e.g. review' }
+];
+
+const emptyMatch = (kind: RuleMatch['kind']): RuleMatch => {
+  switch (kind) {
+    case 'regex': return { kind, pattern: '', flags: 'i' };
+    case 'file-type': return { kind, extensions: [] };
+    case 'slash-command': return { kind, command: '' };
+  }
+};
+
+const matchValue = (match: RuleMatch): string => {
+  switch (match.kind) {
+    case 'regex': return match.pattern;
+    case 'file-type': return match.extensions.join(', ');
+    case 'slash-command': return match.command;
+  }
+};
+
+const withMatchValue = (match: RuleMatch, value: string): RuleMatch => {
+  switch (match.kind) {
+    case 'regex': return { ...match, pattern: value };
+    case 'file-type': return { ...match, extensions: value.split(',').map(extension => extension.trim()) };
+    case 'slash-command': return { ...match, command: value.trim().replace(/^\//, '') };
+  }
+};
+
+// Drops the empty entries left by typing a trailing comma
+const cleanRule = (rule: RoutingRule): RoutingRule => rule.match.kind === 'file-type'
+  ? { ...rule, match: { ...rule.match, extensions: rule.match.extensions.filter(Boolean) } }
+  : rule;
+
+/**
+ * The Composer's routing rules, tried in order, plus the classifier, the
+ * default mode and the prompt each mode uses.
+ */
+const PromptRoutingSettings: React.FC<PromptRoutingSettingsProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  prompts,
+  onSave
+}) => {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const updateRule = (index: number, changes: Partial<RoutingRule>) =>
+    setDraft(prev => ({ ...prev, rules: prev.rules.map((rule, position) => position === index ? { ...rule, ...changes } : rule) }));
+
+  const moveRule = (index: number, offset: number) => setDraft(prev => {
+    const rules = [...prev.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    return { ...prev, rules };
+  });
+
+  const removeRule = (index: number) =>
+    setDraft(prev => ({ ...prev, rules: prev.rules.filter((_, position) => position !== index) }));
+
+  const addRule = () => setDraft(prev => ({
+    ...prev,
+    rules: [...prev.rules, {
+      id: `rule-${Date.now()}`,
+      name: 'New rule',
+      enabled: true,
+      match: emptyMatch('regex'),
+      mode: 'agent'
+    }]
+  }));
+
+  const promptsFor = (mode: PromptMode) => prompts.filter(prompt => prompt.type === mode);
+  const errors = draft.rules.map(rule => validateRule(cleanRule(rule)));
+
+  const handleSave = () => {
+    onSave({ ...draft, rules: draft.rules.map(cleanRule) });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Prompt Routing</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label>Default mode</Label>
+              <Select
+                value={draft.defaultMode}
+                onValueChange={(value: PromptMode) => setDraft(prev => ({ ...prev, defaultMode: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMPT_MODES.map(mode => <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {PROMPT_MODES.map(mode => (
+              <div key={mode} className="space-y-1">
+                <Label>{MODE_LABELS[mode]} prompt</Label>
+                <Select
+                  value={draft.modePrompts[mode] ?? MODE_PROMPT}
+                  onValueChange={value => setDraft(prev => ({
+                    ...prev,
+                    modePrompts: { ...prev.modePrompts, [mode]: value === MODE_PROMPT ? undefined : value }
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={MODE_PROMPT}>Highest version</SelectItem>
+                    {promptsFor(mode).map(prompt => <SelectItem key={prompt.id} value={prompt.id}>{prompt.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="routing-classifier">Ask the model when no rule matches</Label>
+              <p className="text-xs text-muted-foreground">
+                In Auto mode, a short request classifies the message before the default mode is used.
+              </p>
+            </div>
+            <Switch
+              id="routing-classifier"
+              checked={draft.classifier}
+              onCheckedChange={checked => setDraft(prev => ({ ...prev, classifier: checked }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Rules</Label>
+                <p className="text-xs text-muted-foreground">
+                  Slash commands apply in every mode and are removed from the message. Other rules apply in Auto mode, first match wins.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={addRule}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+            <ScrollArea className="h-[40vh] rounded border">
+              <div className="divide-y divide-border">
+                {draft.rules.map((rule, index) => {
+                  const kind = MATCH_KINDS.find(option => option.kind === rule.match.kind);
+                  return (
+                    <div key={rule.id} className="space-y-1 p-2">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={checked => updateRule(index, { enabled: checked })}
+                          title={rule.enabled ? 'Enabled' : 'Disabled'}
+                        />
+                        <Input
+                          value={rule.name}
+                          onChange={e => updateRule(index, { name: e.target.value })}
+                          className="h-8 w-36"
+                          aria-label="Rule name"
+                        />
+                        <Select
+                          value={rule.match.kind}
+                          onValueChange={(value: RuleMatch['kind']) => updateRule(index, { match: emptyMatch(value) })}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MATCH_KINDS.map(option => <SelectItem key={option.kind} value={option.kind}>{option.label}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          value={matchValue(rule.match)}
+                          onChange={e => updateRule(index, { match: withMatchValue(rule.match, e.target.value) })}
+                          placeholder={kind?.placeholder}
+                          className="h-8 flex-1 font-mono text-xs"
+                          aria-label="Match"
+                        />
+                        <Select
+                          value={rule.mode}
+                          onValueChange={(value: PromptMode) => updateRule(index, { mode: value, promptId: undefined })}
+                        >
+                          <SelectTrigger className="h-8 w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROMPT_MODES.map(mode => <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={rule.promptId ?? MODE_PROMPT}
+                          onValueChange={value => updateRule(index, { promptId: value === MODE_PROMPT ? undefined : value })}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={MODE_PROMPT}>Mode's prompt</SelectItem>
+                            {promptsFor(rule.mode).map(prompt => <SelectItem key={prompt.id} value={prompt.id}>{prompt.name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => moveRule(index, -1)} disabled={index === 0} title="Move up">
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => moveRule(index, 1)}
+                          disabled={index === draft.rules.length - 1}
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeRule(index)} title="Delete rule">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      {errors[index] && <p className="pl-12 text-xs text-destructive">{errors[index]}</p>}
+                    </div>
+                  );
+                })}
+                {draft.rules.length === 0 && (
+                  <p className="p-4 text-sm text-muted-foreground">No rules; every message uses the classifier or the default mode.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" onClick={() => setDraft(DEFAULT_ROUTER_SETTINGS)}>
+              Reset to Defaults
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={errors.some(Boolean)}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptRoutingSettings;
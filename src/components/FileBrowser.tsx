@@ -23,11 +23,26 @@ import {
 } from 'lucide-react';
 import { FileSystemItem, FileBrowserProps, FileBrowserConfig } from '@/types/fileSystem';
 import { useFileSystem } from '@/hooks/useFileSystem';
+import { useSearchIndexVersion } from '@/hooks/useSearchIndexVersion';
+
+const MAX_SEARCH_RESULTS = 50;
+
+const findItemByPath = (items: FileSystemItem[], path: string): FileSystemItem | null => {
+  for (const item of items) {
+    if (item.path === path) return item;
+    if (item.children) {
+      const found = findItemByPath(item.children, path);
+      if (found) return found;
+    }
+  }
+  return null;
+};
 
 const FileBrowser: React.FC<FileBrowserProps> = ({ 
   className,
   config = {},
   initialFiles = [],
+  service,
   onFileSelect,
   onFileUpload,
   onFileCreate,
@@ -61,10 +76,13 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     createFile,
     createFolder,
     deleteFile,
-    renameFile
+    renameFile,
+    loadFileContent,
+    searchIndex
   } = useFileSystem({
     initialFiles,
-    autoLoad: false
+    service,
+    autoLoad: Boolean(service)
   });
 
   const [searchQuery, setSearchQuery] = useState('');
@@ -74,6 +92,15 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
   const [editingFile, setEditingFile] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
 
+  // Searching shows a flat list of fuzzy path matches instead of the tree;
+  // re-rendered as the index fills in
+  useSearchIndexVersion(searchIndex);
+  const searchResults = searchQuery.trim()
+    ? searchIndex.findFiles(searchQuery, { limit: MAX_SEARCH_RESULTS })
+      .map(path => findItemByPath(files, path))
+      .filter((item): item is FileSystemItem => item !== null)
+    : [];
+
   // Set default expanded folders on mount
   React.useEffect(() => {
     if (defaultExpandedFolders.length > 0) {
@@ -85,13 +112,18 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     }
   }, [defaultExpandedFolders, expandedFolders, toggleFolder]);
 
-  const handleFileClick = (file: FileSystemItem) => {
+  const handleFileClick = async (file: FileSystemItem) => {
     if (file.type === 'folder') {
       toggleFolder(file.id);
       onFolderToggle?.(file.id, !expandedFolders.has(file.id));
     } else {
       selectFile(file.id, allowMultipleSelection);
-      onFileSelect?.(file);
+      try {
+        // Service-backed trees are listed without contents
+        onFileSelect?.({ ...file, content: await loadFileContent(file) });
+      } catch (error) {
+        console.error('Failed to load file:', error);
+      }
     }
   };
 
@@ -196,12 +228,32 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     return `${size.toFixed(1)} ${units[unitIndex]}`;
   };
 
+  const renderSearchResults = () => {
+    if (searchResults.length === 0) {
+      return <p className="text-center text-sm text-muted-foreground py-8">No files match "{searchQuery}"</p>;
+    }
+
+    return searchResults.map(item => {
+      const folder = item.path.slice(0, Math.max(0, item.path.length - item.name.length - 1));
+      return (
+        <button
+          key={item.id}
+          onClick={() => handleFileClick(item)}
+          className={`flex w-full items-center gap-2 px-2 py-1 text-sm text-left hover:bg-muted/50 rounded transition-colors ${
+            selectedFiles.has(item.id) ? 'bg-primary/10 text-primary' : 'text-foreground'
+          }`}
+          title={item.path}
+        >
+          {React.createElement(getFileIcon(item), { className: "h-4 w-4 flex-shrink-0" })}
+          <span className="truncate">{item.name}</span>
+          {folder && <span className="truncate text-xs text-muted-foreground">{folder}</span>}
+        </button>
+      );
+    });
+  };
+
   const renderFileTree = (items: FileSystemItem[], level = 0) => {
     return items
-      .filter(item => 
-        searchQuery === '' || 
-        item.name.toLowerCase().includes(searchQuery.toLowerCase())
-      )
       .map(item => (
         <div key={item.id}>
           <div
@@ -393,8 +445,13 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
       {/* File Tree */}
       <div className="flex-1 p-2">
         <ScrollArea className="h-full">
-          {files.length > 0 ? (
-            renderFileTree(files)
+          {error && (
+            <p className="px-2 py-1 text-xs text-destructive">{error}</p>
+          )}
+          {loading && files.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-8">Loading files...</p>
+          ) : files.length > 0 ? (
+            searchQuery.trim() ? renderSearchResults() : renderFileTree(files)
           ) : (
             <div className="text-center text-muted-foreground py-8">
               <Folder className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+
+export type InlineEditStage = 'prompt' | 'generating' | 'review';
+
+interface InlineEditPromptProps {
+  stage: InlineEditStage;
+  // Position of the selection inside the editor
+  anchor: { top: number; left: number };
+  error?: string | null;
+  // Characters streamed so far while generating
+  received?: number;
+  // Diff chunks not yet accepted or rejected while reviewing
+  pendingChunks?: number | null;
+  onSubmit: (instruction: string) => void;
+  onCancel: () => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const PROMPT_HEIGHT = 44;
+
+/**
+ * The Ctrl+K box shown over `CodeEditor`: takes the instruction, shows
+ * progress while the model answers, then accept/reject for the whole
+ * proposal (chunks can also be decided one by one in the editor).
+ */
+const InlineEditPrompt: React.FC<InlineEditPromptProps> = ({
+  stage,
+  anchor,
+  error,
+  received = 0,
+  pendingChunks,
+  onSubmit,
+  onCancel,
+  onAccept,
+  onReject
+}) => {
+  const [instruction, setInstruction] = useState('');
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter' && instruction.trim()) {
+      e.preventDefault();
+      onSubmit(instruction.trim());
+    }
+  };
+
+  // Above the selection when there is room, otherwise just below its first line
+  const top = anchor.top >= PROMPT_HEIGHT + 8 ? anchor.top - PROMPT_HEIGHT - 4 : anchor.top + 24;
+
+  return (
+    <div
+      className="absolute z-10 w-[28rem] max-w-[calc(100%-1rem)] rounded-lg border border-border bg-card shadow-lg p-2"
+      style={{ top, left: Math.max(8, anchor.left - 8) }}
+    >
+      {stage === 'prompt' && (
+        <div className="flex items-center gap-2">
+          <Sparkles className="h-4 w-4 text-primary shrink-0" />
+          <Input
+            autoFocus
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Describe the change, then press Enter"
+            className="h-8 text-sm"
+          />
+          <Button variant="ghost" size="sm" onClick={onCancel} aria-label="Cancel inline edit">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {stage === 'generating' && (
+        <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Generating{received > 0 ? ` (${received.toLocaleString()} chars)` : ''}…</span>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {stage === 'review' && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">
+            {pendingChunks ? `${pendingChunks} change${pendingChunks === 1 ? '' : 's'} to review` : 'Review the edit'}
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={onAccept}>
+              <Check className="h-4 w-4 mr-1" />
+              Accept
+            </Button>
+            <Button variant="outline" size="sm" onClick={onReject}>
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && stage === 'prompt' && (
+        <p className="mt-2 text-xs text-destructive">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default InlineEditPrompt;
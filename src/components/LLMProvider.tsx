@@ -0,0 +1,157 @@
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { providerRegistry } from '@/lib/llm/registry';
+import { LLMAdapter, ProviderConfig, StreamOptions, CompletionRequest, AssistantTurn, FIMRequest } from '@/lib/llm/types';
+
+interface LLMContextType {
+  adapters: LLMAdapter[];
+  activeProvider: LLMAdapter;
+  config: ProviderConfig;
+  isConfigured: boolean;
+  setActiveProvider: (providerId: string) => void;
+  getConfig: (providerId: string) => ProviderConfig;
+  updateConfig: (newConfig: Partial<ProviderConfig>, providerId?: string) => void;
+  listModels: (providerId: string, config?: ProviderConfig) => Promise<string[]>;
+  testConnection: (providerId?: string, config?: ProviderConfig) => Promise<boolean>;
+  makeRequest: (prompt: string, context?: unknown) => Promise<string>;
+  streamRequest: (prompt: string, context: unknown, options: StreamOptions) => Promise<string>;
+  stream: (request: CompletionRequest, options: StreamOptions) => Promise<string>;
+  completeChat: (request: CompletionRequest, signal?: AbortSignal) => Promise<AssistantTurn>;
+  // Whether the active provider can do fill-in-the-middle completions
+  supportsFIM: boolean;
+  completeFIM: (request: FIMRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+const LLMContext = createContext<LLMContextType | null>(null);
+
+export const useLLM = () => {
+  const context = useContext(LLMContext);
+  if (!context) {
+    throw new Error('useLLM must be used within an LLMProvider');
+  }
+  return context;
+};
+
+interface LLMProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Exposes the provider registry to React. The registry is the source of
+ * truth; this component only mirrors the active provider and its config in
+ * state so consumers re-render when either changes.
+ */
+export const LLMProvider: React.FC<LLMProviderProps> = ({ children }) => {
+  const [activeProviderId, setActiveProviderId] = useState(() => providerRegistry.getActiveProviderId());
+  const [config, setConfig] = useState<ProviderConfig>(() => providerRegistry.getConfig());
+  const { toast } = useToast();
+
+  const setActiveProvider = useCallback((providerId: string) => {
+    providerRegistry.setActiveProvider(providerId);
+    setActiveProviderId(providerId);
+    setConfig(providerRegistry.getConfig(providerId));
+  }, []);
+
+  const getConfig = useCallback((providerId: string) => providerRegistry.getConfig(providerId), []);
+
+  const updateConfig = useCallback((newConfig: Partial<ProviderConfig>, providerId = activeProviderId) => {
+    const updated = providerRegistry.saveConfig(providerId, newConfig);
+    if (providerId === activeProviderId) {
+      setConfig(updated);
+    }
+  }, [activeProviderId]);
+
+  const listModels = useCallback(
+    (providerId: string, providerConfig?: ProviderConfig) => providerRegistry.listModels(providerId, providerConfig),
+    []
+  );
+
+  const testConnection = useCallback(async (
+    providerId = activeProviderId,
+    providerConfig?: ProviderConfig
+  ): Promise<boolean> => {
+    const adapter = providerRegistry.getAdapter(providerId);
+    const resolved = providerConfig ?? providerRegistry.getConfig(providerId);
+
+    if (!providerRegistry.isConfigured(providerId, resolved)) {
+      toast({
+        title: "API Key Required",
+        description: `Please configure your ${adapter.name} API key first.`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      await adapter.complete({
+        messages: [{ role: 'user', content: 'Hello, this is a connection test.' }],
+        maxTokens: 10,
+        temperature: 0.1
+      }, resolved);
+
+      toast({
+        title: "Connection Successful",
+        description: `${adapter.name} is configured correctly.`,
+      });
+      return true;
+    } catch (error) {
+      console.error('Connection test error:', error);
+      toast({
+        title: "Connection Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [activeProviderId, toast]);
+
+  // The registry reads the saved config at call time, so these stay stable
+  const makeRequest = useCallback(
+    (prompt: string, context?: unknown) => providerRegistry.makeRequest(prompt, context),
+    []
+  );
+
+  const streamRequest = useCallback(
+    (prompt: string, context: unknown, options: StreamOptions) => providerRegistry.streamRequest(prompt, context, options),
+    []
+  );
+
+  const stream = useCallback(
+    (request: CompletionRequest, options: StreamOptions) => providerRegistry.stream(request, options),
+    []
+  );
+
+  const completeChat = useCallback(
+    (request: CompletionRequest, signal?: AbortSignal) => providerRegistry.completeChat(request, signal),
+    []
+  );
+
+  const completeFIM = useCallback(
+    (request: FIMRequest, signal?: AbortSignal) => providerRegistry.completeFIM(request, signal),
+    []
+  );
+
+  const value: LLMContextType = {
+    adapters: providerRegistry.getAdapters(),
+    activeProvider: providerRegistry.getAdapter(activeProviderId),
+    config,
+    isConfigured: providerRegistry.isConfigured(activeProviderId, config),
+    setActiveProvider,
+    getConfig,
+    updateConfig,
+    listModels,
+    testConnection,
+    makeRequest,
+    streamRequest,
+    stream,
+    completeChat,
+    supportsFIM: providerRegistry.supportsFIM(activeProviderId),
+    completeFIM
+  };
+
+  return (
+    <LLMContext.Provider value={value}>
+      {children}
+    </LLMContext.Provider>
+  );
+};
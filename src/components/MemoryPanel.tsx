@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -21,96 +21,101 @@ import {
   Edit,
   Save,
   Zap,
-  Sparkles
+  Sparkles,
+  Check,
+  X,
+  Pin,
+  PinOff,
+  Merge,
+  Settings,
+  Download,
+  Upload,
+  Globe,
+  FolderOpen
 } from 'lucide-react';
 import { usePromptIntegration } from '@/hooks/usePromptIntegration';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-
-interface Memory {
-  id: string;
-  type: 'technical' | 'preference' | 'project' | 'pattern';
-  title: string;
-  content: string;
-  relevanceScore: number;
-  lastAccessed: Date;
-  createdAt: Date;
-  accessCount: number;
-  tags: string[];
-  context?: string;
-  promptUsed?: string;
-}
+import { useMemories } from '@/hooks/useMemories';
+import { useToast } from '@/hooks/use-toast';
+import { Switch } from '@/components/ui/switch';
+import {
+  Memory,
+  MemoryScope,
+  MemorySuggestion,
+  describeScope,
+  isInScope,
+  serializeProjectMemories,
+  toScope
+} from '@/lib/memoryStore';
+import { MemoryOverlap, MemorySettings, effectiveScore } from '@/lib/memoryPolicy';
+import { ActiveProject } from '@/types/project';
 
 interface MemoryPanelProps {
   className?: string;
+  // The loaded project; its memories and the global ones are shown
+  project?: ActiveProject | null;
 }
 
-const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
-  const [memories, setMemories] = useState<Memory[]>([
-    {
-      id: '1',
-      type: 'technical',
-      title: 'React Component Pattern',
-      content: 'User prefers functional components with hooks over class components. Always use TypeScript interfaces for props.',
-      relevanceScore: 95,
-      lastAccessed: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-      createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
-      accessCount: 12,
-      tags: ['react', 'typescript', 'components'],
-      context: 'Component development patterns',
-      promptUsed: 'Agent Prompt v1.2'
-    },
-    {
-      id: '2',
-      type: 'preference',
-      title: 'Code Style Preferences',
-      content: 'Prefers 2-space indentation, single quotes, and trailing commas. Uses Prettier with specific config.',
-      relevanceScore: 88,
-      lastAccessed: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-      createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-      accessCount: 25,
-      tags: ['formatting', 'style', 'prettier'],
-      context: 'Code formatting standards',
-      promptUsed: 'Chat Prompt'
-    },
-    {
-      id: '3',
-      type: 'project',
-      title: 'API Integration Strategy',
-      content: 'Project uses React Query for data fetching. Error handling follows specific patterns with toast notifications.',
-      relevanceScore: 92,
-      lastAccessed: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
-      createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000), // 5 days ago
-      accessCount: 8,
-      tags: ['api', 'react-query', 'error-handling'],
-      context: 'Data fetching architecture',
-      promptUsed: 'Agent Prompt v1.0'
-    },
-    {
-      id: '4',
-      type: 'pattern',
-      title: 'State Management Pattern',
-      content: 'Uses context for global state, local state for component-specific data. Avoids prop drilling.',
-      relevanceScore: 85,
-      lastAccessed: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago
-      createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000), // 10 days ago
-      accessCount: 15,
-      tags: ['state', 'context', 'react'],
-      context: 'State management architecture',
-      promptUsed: 'Memory Prompt'
-    }
-  ]);
+type ScopeKind = 'global' | 'project' | 'folder';
+
+interface ScopeDraft {
+  kind: ScopeKind;
+  path: string;
+}
+
+const GLOBAL_SCOPE: ScopeDraft = { kind: 'global', path: '' };
+
+const toScopeDraft = (scope: MemoryScope | undefined): ScopeDraft => {
+  if (!scope) return GLOBAL_SCOPE;
+  return scope.path ? { kind: 'folder', path: scope.path } : { kind: 'project', path: '' };
+};
+
+const fromScopeDraft = (draft: ScopeDraft, project: ActiveProject | null | undefined): MemoryScope | undefined => {
+  if (draft.kind === 'global' || !project) return undefined;
+  return toScope(project, draft.kind === 'folder' ? draft.path : undefined);
+};
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ className, project }) => {
+  const {
+    memories,
+    suggestions,
+    isLoading,
+    addMemory,
+    updateMemory,
+    deleteMemory,
+    approveSuggestion,
+    dismissSuggestion,
+    importMemories,
+    suggestionsEnabled,
+    setSuggestionsEnabled,
+    settings,
+    updateSettings,
+    togglePinned,
+    overlaps,
+    mergeOverlap,
+    dismissOverlap
+  } = useMemories();
+  const { toast } = useToast();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<string>('all');
   const [showAddMemory, setShowAddMemory] = useState(false);
   const [editingMemory, setEditingMemory] = useState<Memory | null>(null);
+  const [editingScope, setEditingScope] = useState<ScopeDraft>(GLOBAL_SCOPE);
+  const [showAllProjects, setShowAllProjects] = useState(false);
+  // Scopes picked for suggestions before they are approved
+  const [suggestionScopes, setSuggestionScopes] = useState<Record<string, MemoryScope | undefined>>({});
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsDraft, setSettingsDraft] = useState<MemorySettings>(settings);
   const [newMemory, setNewMemory] = useState({
     title: '',
     content: '',
     type: 'technical' as Memory['type'],
     tags: '',
-    context: ''
+    context: '',
+    scope: GLOBAL_SCOPE
   });
 
   // Integrate with prompt system
@@ -118,6 +123,7 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
   const memoryPrompts = getPromptsByType('memory');
 
   const filteredMemories = memories.filter(memory => {
+    if (!showAllProjects && !isInScope(memory, project)) return false;
     const matchesSearch = memory.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          memory.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          memory.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
@@ -151,47 +157,277 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
-  const handleAddMemory = () => {
-    const memory: Memory = {
-      id: Date.now().toString(),
-      title: newMemory.title,
-      content: newMemory.content,
-      type: newMemory.type,
-      relevanceScore: 75, // Default score
-      lastAccessed: new Date(),
-      createdAt: new Date(),
-      accessCount: 0,
-      tags: newMemory.tags.split(',').map(t => t.trim()).filter(t => t),
-      context: newMemory.context,
-      promptUsed: memoryPrompts[0]?.name || 'Memory Prompt'
-    };
-
-    setMemories(prev => [memory, ...prev]);
-    setShowAddMemory(false);
-    setNewMemory({ title: '', content: '', type: 'technical', tags: '', context: '' });
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive"
+    });
+  };
+
+  const handleAddMemory = async () => {
+    if (!newMemory.title.trim() || !newMemory.content.trim()) return;
+    try {
+      await addMemory({
+        title: newMemory.title.trim(),
+        content: newMemory.content.trim(),
+        type: newMemory.type,
+        tags: newMemory.tags.split(',').map(t => t.trim()).filter(t => t),
+        context: newMemory.context,
+        promptUsed: memoryPrompts[0]?.name || 'Memory Prompt',
+        scope: fromScopeDraft(newMemory.scope, project)
+      });
+      setShowAddMemory(false);
+      setNewMemory({ title: '', content: '', type: 'technical', tags: '', context: '', scope: GLOBAL_SCOPE });
+    } catch (error) {
+      reportError("Failed to save memory", error);
+    }
   };
 
   const handleEditMemory = (memory: Memory) => {
     setEditingMemory(memory);
+    setEditingScope(toScopeDraft(memory.scope));
   };
 
-  const handleSaveEdit = () => {
-    if (editingMemory) {
-      setMemories(prev => prev.map(m => 
-        m.id === editingMemory.id ? editingMemory : m
-      ));
+  // A memory from another project stays in that project when rescoped
+  const editingProject = (memory: Memory): ActiveProject | null | undefined =>
+    memory.scope ? { id: memory.scope.projectId, name: memory.scope.projectName } : project;
+
+  const handleSaveEdit = async () => {
+    if (!editingMemory) return;
+    try {
+      const relevanceScore = Number.isFinite(editingMemory.relevanceScore)
+        ? Math.min(100, Math.max(1, editingMemory.relevanceScore))
+        : 75;
+      const scope = fromScopeDraft(editingScope, editingProject(editingMemory));
+      await updateMemory({ ...editingMemory, relevanceScore, scope });
       setEditingMemory(null);
+    } catch (error) {
+      reportError("Failed to save memory", error);
+    }
+  };
+
+  const handleDeleteMemory = async (id: string) => {
+    try {
+      await deleteMemory(id);
+    } catch (error) {
+      reportError("Failed to delete memory", error);
+    }
+  };
+
+  const suggestionScope = (suggestion: MemorySuggestion): MemoryScope | undefined =>
+    suggestion.id in suggestionScopes ? suggestionScopes[suggestion.id] : suggestion.scope;
+
+  // A suggestion from another project can only be scoped to that project
+  const suggestionProject = (suggestion: MemorySuggestion): ActiveProject | null | undefined =>
+    suggestion.scope ? { id: suggestion.scope.projectId, name: suggestion.scope.projectName } : project;
+
+  const handleApproveSuggestion = async (suggestion: MemorySuggestion) => {
+    try {
+      await approveSuggestion({ ...suggestion, scope: suggestionScope(suggestion) }, memoryPrompts[0]?.name);
+    } catch (error) {
+      reportError("Failed to save memory", error);
+    }
+  };
+
+  const handleDismissSuggestion = async (id: string) => {
+    try {
+      await dismissSuggestion(id);
+    } catch (error) {
+      reportError("Failed to dismiss suggestion", error);
     }
   };
 
-  const handleDeleteMemory = (id: string) => {
-    setMemories(prev => prev.filter(m => m.id !== id));
+  const handleTogglePinned = async (memory: Memory) => {
+    try {
+      await togglePinned(memory);
+    } catch (error) {
+      reportError("Failed to save memory", error);
+    }
+  };
+
+  const handleMerge = async (overlap: MemoryOverlap) => {
+    try {
+      await mergeOverlap(overlap);
+    } catch (error) {
+      reportError("Failed to merge memories", error);
+    }
+  };
+
+  const handleExport = () => {
+    if (!project) return;
+    const data = serializeProjectMemories(memories, project);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-memories.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !project) return;
+    try {
+      const added = await importMemories(await file.text(), project);
+      toast({
+        title: "Memories imported",
+        description: added > 0
+          ? `Added ${added} ${added === 1 ? 'memory' : 'memories'} to ${project.name}.`
+          : `${project.name} already has every memory in ${file.name}.`
+      });
+    } catch (error) {
+      reportError("Failed to import memories", error);
+    }
+  };
+
+  const handleOpenSettings = () => {
+    setSettingsDraft(settings);
+    setShowSettings(true);
+  };
+
+  const handleSaveSettings = async () => {
+    try {
+      const pruned = await updateSettings({
+        maxMemories: Math.max(1, Math.round(settingsDraft.maxMemories) || settings.maxMemories),
+        halfLifeDays: Math.max(1, settingsDraft.halfLifeDays || settings.halfLifeDays)
+      });
+      setShowSettings(false);
+      if (pruned > 0) {
+        toast({
+          title: "Memories pruned",
+          description: `Removed ${pruned} lowest-scoring ${pruned === 1 ? 'memory' : 'memories'} to fit the new limit.`
+        });
+      }
+    } catch (error) {
+      reportError("Failed to save memory settings", error);
+    }
   };
 
   const totalMemories = memories.length;
-  const averageScore = memories.reduce((sum, m) => sum + m.relevanceScore, 0) / totalMemories;
+  const scores = memories.map(memory => effectiveScore(memory, settings));
+  const averageScore = totalMemories > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / totalMemories
+    : 0;
+  const averageBaseScore = totalMemories > 0
+    ? memories.reduce((sum, m) => sum + m.relevanceScore, 0) / totalMemories
+    : 0;
+  const pinnedCount = memories.filter(memory => memory.pinned).length;
+  // Unpinned memories that are the next to go once the cap is reached
+  const fadingCount = scores.filter((score, index) => !memories[index].pinned && score < 25).length;
   const totalAccesses = memories.reduce((sum, m) => sum + m.accessCount, 0);
 
+  // Project and folder scopes need a project to belong to
+  const renderScopeFields = (
+    id: string,
+    draft: ScopeDraft,
+    onChange: (draft: ScopeDraft) => void,
+    target: ActiveProject | null | undefined
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Applies to</Label>
+      <Select value={draft.kind} onValueChange={(kind: ScopeKind) => onChange({ ...draft, kind })}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="global">Everywhere</SelectItem>
+          <SelectItem value="project" disabled={!target}>
+            {target ? `Project ${target.name}` : 'This project (none open)'}
+          </SelectItem>
+          <SelectItem value="folder" disabled={!target}>A folder in the project</SelectItem>
+        </SelectContent>
+      </Select>
+      {draft.kind === 'folder' && (
+        <Input
+          value={draft.path}
+          onChange={(e) => onChange({ ...draft, path: e.target.value })}
+          placeholder="src/api"
+        />
+      )}
+    </div>
+  );
+
+  const renderMemoryCard = (memory: Memory) => {
+    const score = effectiveScore(memory, settings);
+    return (
+      <Card key={memory.id} className="p-4 hover:border-primary/50 transition-colors">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <Badge className={`${getTypeColor(memory.type)} text-white text-xs`}>
+                {memory.type}
+              </Badge>
+              <h3 className="font-medium">{memory.title}</h3>
+              <div
+                className={`flex items-center gap-1 ${getScoreColor(score)}`}
+                title={memory.pinned ? 'Pinned: exempt from decay' : `Base score ${memory.relevanceScore}, decayed to ${score}`}
+              >
+                <Star className="h-3 w-3 fill-current" />
+                <span className="text-xs font-medium">{score}</span>
+                {score < memory.relevanceScore && (
+                  <span className="text-xs text-muted-foreground line-through">{memory.relevanceScore}</span>
+                )}
+              </div>
+              {memory.pinned && <Pin className="h-3 w-3 text-primary" />}
+            </div>
+            <p className="text-sm text-muted-foreground mb-2 whitespace-pre-wrap">{memory.content}</p>
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                {memory.scope ? <FolderOpen className="h-3 w-3" /> : <Globe className="h-3 w-3" />}
+                {describeScope(memory.scope)}
+              </span>
+              <span>Created {formatTimeAgo(memory.createdAt)}</span>
+              <span>Accessed {formatTimeAgo(memory.lastAccessed)}</span>
+              <span>{memory.accessCount} accesses</span>
+              {memory.promptUsed && (
+                <span className="flex items-center gap-1">
+                  <Zap className="h-3 w-3" />
+                  {memory.promptUsed}
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {memory.tags.map((tag, index) => (
+                <Badge key={index} variant="outline" className="text-xs">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2 ml-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleTogglePinned(memory)}
+              aria-label={memory.pinned ? 'Unpin memory' : 'Pin memory'}
+            >
+              {memory.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleEditMemory(memory)}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteMemory(memory.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
   return (
     <div className={`h-full flex flex-col bg-gradient-card border border-border rounded-lg ${className}`}>
       <div className="p-6 border-b border-border">
@@ -203,24 +439,61 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
             <div>
               <h2 className="text-xl font-semibold text-foreground">Memory Panel</h2>
               <p className="text-sm text-muted-foreground">
-                AI memory management and learning
+                {project ? `Memories for ${project.name} and everywhere` : 'AI memory management and learning'}
               </p>
             </div>
           </div>
-          <Button onClick={() => setShowAddMemory(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Memory
-          </Button>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="memory-suggestions" checked={suggestionsEnabled} onCheckedChange={setSuggestionsEnabled} />
+              <Label htmlFor="memory-suggestions" className="text-sm text-muted-foreground">
+                Suggest from conversations
+              </Label>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => importInputRef.current?.click()}
+              disabled={!project}
+              title={project ? `Import memories into ${project.name}` : 'Open a project to import its memories'}
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExport}
+              disabled={!project}
+              title={project ? `Export ${project.name}'s memories` : 'Open a project to export its memories'}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleOpenSettings} aria-label="Memory settings">
+              <Settings className="h-4 w-4" />
+            </Button>
+            <Button onClick={() => setShowAddMemory(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Memory
+            </Button>
+          </div>
         </div>
 
         {/* Stats */}
-        <div className="mt-4 grid grid-cols-3 gap-4">
+        <div className="mt-4 grid grid-cols-4 gap-4">
           <Card className="p-4">
             <div className="flex items-center gap-2">
               <Database className="h-4 w-4 text-primary" />
               <span className="text-sm font-medium">Total Memories</span>
             </div>
             <p className="text-2xl font-bold">{totalMemories}</p>
+            <p className="text-xs text-muted-foreground">of {settings.maxMemories} kept before pruning</p>
           </Card>
           <Card className="p-4">
             <div className="flex items-center gap-2">
@@ -228,6 +501,17 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
               <span className="text-sm font-medium">Avg Score</span>
             </div>
             <p className="text-2xl font-bold">{averageScore.toFixed(1)}</p>
+            <p className="text-xs text-muted-foreground">
+              {averageBaseScore.toFixed(1)} before decay · half-life {settings.halfLifeDays}d
+            </p>
+          </Card>
+          <Card className="p-4">
+            <div className="flex items-center gap-2">
+              <Pin className="h-4 w-4 text-primary" />
+              <span className="text-sm font-medium">Pinned</span>
+            </div>
+            <p className="text-2xl font-bold">{pinnedCount}</p>
+            <p className="text-xs text-muted-foreground">{fadingCount} fading below 25</p>
           </Card>
           <Card className="p-4">
             <div className="flex items-center gap-2">
@@ -235,8 +519,112 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
               <span className="text-sm font-medium">Total Accesses</span>
             </div>
             <p className="text-2xl font-bold">{totalAccesses}</p>
+            <p className="text-xs text-muted-foreground">
+              {overlaps.length} possible {overlaps.length === 1 ? 'merge' : 'merges'}
+            </p>
           </Card>
         </div>
+
+        {/* Memories that overlap enough to be one */}
+        {overlaps.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Merge className="h-4 w-4 text-primary" />
+              Overlapping memories
+              <Badge variant="secondary" className="text-xs">{overlaps.length}</Badge>
+            </div>
+            {overlaps.map(overlap => (
+              <Card key={`${overlap.a.id}|${overlap.b.id}`} className="p-3 border-dashed">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm flex-1 min-w-0 truncate">
+                    <span className="font-medium">{overlap.a.title}</span>
+                    <span className="text-muted-foreground"> and </span>
+                    <span className="font-medium">{overlap.b.title}</span>
+                    <span className="text-xs text-muted-foreground"> · {Math.round(overlap.similarity * 100)}% similar</span>
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleMerge(overlap)}>
+                      <Merge className="h-4 w-4 mr-1" />
+                      Merge
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => dismissOverlap(overlap)}>
+                      Keep apart
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Suggestions from Composer conversations, awaiting approval */}
+        {suggestions.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Sparkles className="h-4 w-4 text-primary" />
+              Suggested memories
+              <Badge variant="secondary" className="text-xs">{suggestions.length}</Badge>
+            </div>
+            {suggestions.map(suggestion => (
+              <Card key={suggestion.id} className="p-3 border-dashed">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge className={`${getTypeColor(suggestion.type)} text-white text-xs`}>
+                        {suggestion.type}
+                      </Badge>
+                      <h3 className="font-medium text-sm">{suggestion.title}</h3>
+                      <div className={`flex items-center gap-1 ${getScoreColor(suggestion.relevanceScore)}`}>
+                        <Star className="h-3 w-3 fill-current" />
+                        <span className="text-xs font-medium">{suggestion.relevanceScore}</span>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{suggestion.content}</p>
+                    {suggestion.reason && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2" title={suggestion.reason}>
+                        {suggestion.reason}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Select
+                      value={suggestionScope(suggestion) ? 'project' : 'global'}
+                      onValueChange={(kind: ScopeKind) => {
+                        const target = suggestionProject(suggestion);
+                        setSuggestionScopes(prev => ({
+                          ...prev,
+                          [suggestion.id]: kind === 'project' && target ? toScope(target) : undefined
+                        }));
+                      }}
+                    >
+                      <SelectTrigger className="h-8 w-36 text-xs" aria-label="Applies to">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="global">Everywhere</SelectItem>
+                        <SelectItem value="project" disabled={!suggestionProject(suggestion)}>
+                          {suggestionProject(suggestion)?.name ?? 'No project open'}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" onClick={() => handleApproveSuggestion(suggestion)}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Keep
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDismissSuggestion(suggestion.id)}
+                      aria-label="Dismiss suggestion"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 p-6">
@@ -271,63 +659,33 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
                   <SelectItem value="pattern">Patterns</SelectItem>
                 </SelectContent>
               </Select>
+              <Select
+                value={showAllProjects ? 'all' : 'current'}
+                onValueChange={(value) => setShowAllProjects(value === 'all')}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="current">{project ? 'This project' : 'Everywhere'}</SelectItem>
+                  <SelectItem value="all">All projects</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
             <ScrollArea className="h-full">
               <div className="space-y-4">
-                {filteredMemories.map((memory) => (
-                  <Card key={memory.id} className="p-4 hover:border-primary/50 transition-colors">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge className={`${getTypeColor(memory.type)} text-white text-xs`}>
-                            {memory.type}
-                          </Badge>
-                          <h3 className="font-medium">{memory.title}</h3>
-                          <div className={`flex items-center gap-1 ${getScoreColor(memory.relevanceScore)}`}>
-                            <Star className="h-3 w-3 fill-current" />
-                            <span className="text-xs font-medium">{memory.relevanceScore}</span>
-                          </div>
-                        </div>
-                        <p className="text-sm text-muted-foreground mb-2">{memory.content}</p>
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <span>Created {formatTimeAgo(memory.createdAt)}</span>
-                          <span>Accessed {formatTimeAgo(memory.lastAccessed)}</span>
-                          <span>{memory.accessCount} accesses</span>
-                          {memory.promptUsed && (
-                            <span className="flex items-center gap-1">
-                              <Zap className="h-3 w-3" />
-                              {memory.promptUsed}
-                            </span>
-                          )}
-                        </div>
-                        <div className="flex flex-wrap gap-1 mt-2">
-                          {memory.tags.map((tag, index) => (
-                            <Badge key={index} variant="outline" className="text-xs">
-                              {tag}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                      <div className="flex gap-2 ml-4">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEditMemory(memory)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteMemory(memory.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </Card>
-                ))}
+                {!isLoading && filteredMemories.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Brain className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">
+                      {memories.length === 0
+                        ? 'No memories yet. Add what the assistant should know about you and your projects.'
+                        : 'No memories match your search.'}
+                    </p>
+                  </div>
+                )}
+                {filteredMemories.map(renderMemoryCard)}
               </div>
             </ScrollArea>
           </TabsContent>
@@ -339,59 +697,7 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
                 <div className="space-y-4">
                   {filteredMemories
                     .filter(memory => memory.type === type)
-                    .map((memory) => (
-                      <Card key={memory.id} className="p-4 hover:border-primary/50 transition-colors">
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <Badge className={`${getTypeColor(memory.type)} text-white text-xs`}>
-                                {memory.type}
-                              </Badge>
-                              <h3 className="font-medium">{memory.title}</h3>
-                              <div className={`flex items-center gap-1 ${getScoreColor(memory.relevanceScore)}`}>
-                                <Star className="h-3 w-3 fill-current" />
-                                <span className="text-xs font-medium">{memory.relevanceScore}</span>
-                              </div>
-                            </div>
-                            <p className="text-sm text-muted-foreground mb-2">{memory.content}</p>
-                            <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                              <span>Created {formatTimeAgo(memory.createdAt)}</span>
-                              <span>Accessed {formatTimeAgo(memory.lastAccessed)}</span>
-                              <span>{memory.accessCount} accesses</span>
-                              {memory.promptUsed && (
-                                <span className="flex items-center gap-1">
-                                  <Zap className="h-3 w-3" />
-                                  {memory.promptUsed}
-                                </span>
-                              )}
-                            </div>
-                            <div className="flex flex-wrap gap-1 mt-2">
-                              {memory.tags.map((tag, index) => (
-                                <Badge key={index} variant="outline" className="text-xs">
-                                  {tag}
-                                </Badge>
-                              ))}
-                            </div>
-                          </div>
-                          <div className="flex gap-2 ml-4">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEditMemory(memory)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteMemory(memory.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </div>
-                      </Card>
-                    ))}
+                    .map(renderMemoryCard)}
                 </div>
               </ScrollArea>
             </TabsContent>
@@ -399,6 +705,52 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
         </Tabs>
       </div>
 
+      {/* Decay and pruning settings */}
+      <Dialog open={showSettings} onOpenChange={setShowSettings}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Memory Settings</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="max-memories">Maximum memories</Label>
+              <Input
+                id="max-memories"
+                type="number"
+                min="1"
+                value={settingsDraft.maxMemories}
+                onChange={(e) => setSettingsDraft(prev => ({ ...prev, maxMemories: parseInt(e.target.value) }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Beyond this, the unpinned memories with the lowest decayed score are deleted.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="half-life">Half-life (days)</Label>
+              <Input
+                id="half-life"
+                type="number"
+                min="1"
+                value={settingsDraft.halfLifeDays}
+                onChange={(e) => setSettingsDraft(prev => ({ ...prev, halfLifeDays: parseFloat(e.target.value) }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                An unused memory's score halves over this many days. Frequent use slows decay, and pinned memories never decay.
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowSettings(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveSettings}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Settings
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Add Memory Dialog */}
       <Dialog open={showAddMemory} onOpenChange={setShowAddMemory}>
         <DialogContent>
@@ -460,11 +812,17 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
                 placeholder="When this memory is relevant..."
               />
             </div>
+            {renderScopeFields(
+              'scope',
+              newMemory.scope,
+              scope => setNewMemory(prev => ({ ...prev, scope })),
+              project
+            )}
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setShowAddMemory(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleAddMemory}>
+              <Button onClick={handleAddMemory} disabled={!newMemory.title.trim() || !newMemory.content.trim()}>
                 <Save className="h-4 w-4 mr-2" />
                 Add Memory
               </Button>
@@ -526,6 +884,7 @@ const MemoryPanel: React.FC<MemoryPanelProps> = ({ className }) => {
                   onChange={(e) => setEditingMemory(prev => prev ? { ...prev, relevanceScore: parseInt(e.target.value) } : null)}
                 />
               </div>
+              {renderScopeFields('edit-scope', editingScope, setEditingScope, editingProject(editingMemory))}
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setEditingMemory(null)}>
                   Cancel
@@ -0,0 +1,183 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertCircle, AlertTriangle, FileCode, Info, X } from 'lucide-react';
+import { LanguageDiagnostic, OutlineItem, SourceLocation } from '@/lib/language/protocol';
+
+export type OutlineTab = 'outline' | 'references' | 'problems';
+
+// Result of the last go-to-definition with several targets or find-references
+export interface ReferenceList {
+  title: string;
+  locations: SourceLocation[];
+}
+
+interface OutlinePanelProps {
+  tab: OutlineTab;
+  onTabChange: (tab: OutlineTab) => void;
+  // Null when the active file has no language support
+  outline: OutlineItem[] | null;
+  references: ReferenceList | null;
+  problems: LanguageDiagnostic[];
+  // Path of the active file, which outline lines and problems refer to
+  activePath?: string;
+  onOpen: (path: string, line: number) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  function: 'fn',
+  method: 'method',
+  class: 'class',
+  interface: 'interface',
+  type: 'type',
+  enum: 'enum',
+  const: 'const',
+  let: 'let',
+  var: 'var',
+  property: 'prop',
+  getter: 'get',
+  setter: 'set',
+  constructor: 'ctor',
+  module: 'module'
+};
+
+const SEVERITY_ICONS: Record<LanguageDiagnostic['severity'], React.ReactNode> = {
+  error: <AlertCircle className="h-3 w-3 text-destructive shrink-0" />,
+  warning: <AlertTriangle className="h-3 w-3 text-yellow-500 shrink-0" />,
+  info: <Info className="h-3 w-3 text-muted-foreground shrink-0" />
+};
+
+const groupByPath = (locations: SourceLocation[]) => {
+  const groups = new Map<string, SourceLocation[]>();
+  for (const location of locations) {
+    groups.set(location.path, [...(groups.get(location.path) ?? []), location]);
+  }
+  return Array.from(groups.entries());
+};
+
+/**
+ * Structure of the active file from the TypeScript language service: its
+ * symbol outline, the last references lookup and the file's diagnostics.
+ * Choosing an entry calls `onOpen` with its path and line.
+ */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  tab,
+  onTabChange,
+  outline,
+  references,
+  problems,
+  activePath,
+  onOpen,
+  onClose,
+  className
+}) => {
+  const resultButton = 'w-full text-left px-2 py-1 rounded hover:bg-muted/50 transition-colors';
+
+  const renderOutline = (items: OutlineItem[], depth: number): React.ReactNode => items.map(item => (
+    <React.Fragment key={`${item.line}:${item.name}`}>
+      <button
+        className={`${resultButton} flex items-center gap-2`}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        onClick={() => activePath && onOpen(activePath, item.line)}
+      >
+        <Badge variant="outline" className="text-[10px] shrink-0">{KIND_LABELS[item.kind] ?? item.kind}</Badge>
+        <span className="font-mono truncate">{item.name}</span>
+        <span className="ml-auto text-xs text-muted-foreground">{item.line}</span>
+      </button>
+      {renderOutline(item.children, depth + 1)}
+    </React.Fragment>
+  ));
+
+  const renderContent = () => {
+    switch (tab) {
+      case 'outline':
+        if (!outline) return <p className="px-2 text-muted-foreground">Open a TypeScript or JavaScript file to see its outline.</p>;
+        if (outline.length === 0) return <p className="px-2 text-muted-foreground">No symbols in this file.</p>;
+        return renderOutline(outline, 0);
+
+      case 'references':
+        if (!references) {
+          return <p className="px-2 text-muted-foreground">Press Shift+F12 on a symbol to find its references.</p>;
+        }
+        return (
+          <>
+            <p className="px-2 mb-2 text-xs text-muted-foreground">
+              {references.title} ({references.locations.length})
+            </p>
+            {groupByPath(references.locations).map(([path, locations]) => (
+              <div key={path} className="mb-2">
+                <div className="flex items-center gap-1 px-2 text-xs font-medium text-foreground truncate">
+                  <FileCode className="h-3 w-3 shrink-0" />
+                  {path}
+                </div>
+                {locations.map(location => (
+                  <button
+                    key={`${location.line}:${location.column}`}
+                    className={`${resultButton} flex gap-2 text-xs font-mono`}
+                    onClick={() => onOpen(location.path, location.line)}
+                  >
+                    <span className="text-muted-foreground w-10 text-right shrink-0">{location.line}</span>
+                    <span className="truncate">{location.preview}</span>
+                    {location.isDefinition && <Badge variant="secondary" className="ml-auto text-[10px]">def</Badge>}
+                    {!location.isDefinition && location.isWrite && (
+                      <Badge variant="secondary" className="ml-auto text-[10px]">write</Badge>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </>
+        );
+
+      case 'problems':
+        if (problems.length === 0) return <p className="px-2 text-muted-foreground">No problems in this file.</p>;
+        return problems.map(problem => (
+          <button
+            key={`${problem.from}:${problem.code}`}
+            className={`${resultButton} flex items-start gap-2 text-xs`}
+            onClick={() => activePath && onOpen(activePath, problem.line)}
+          >
+            <span className="mt-0.5">{SEVERITY_ICONS[problem.severity]}</span>
+            <span className="flex-1 whitespace-pre-wrap break-words">{problem.message}</span>
+            <span className="text-muted-foreground shrink-0">{problem.line}</span>
+          </button>
+        ));
+    }
+  };
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className ?? ''}`}>
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm">CODE</h3>
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close outline">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <Tabs value={tab} onValueChange={value => onTabChange(value as OutlineTab)}>
+          <TabsList className="grid w-full grid-cols-3 h-8">
+            <TabsTrigger value="outline" className="text-xs">Outline</TabsTrigger>
+            <TabsTrigger value="references" className="text-xs">References</TabsTrigger>
+            <TabsTrigger value="problems" className="text-xs">
+              Problems
+              {problems.length > 0 && <Badge variant="secondary" className="ml-1 text-[10px]">{problems.length}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 text-sm">{renderContent()}</div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default OutlinePanel;
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,12 +16,22 @@ import {
   Download,
   FolderOpen,
   File,
-  Loader2
+  Loader2,
+  HardDrive
 } from 'lucide-react';
 import { FileSystemItem } from '@/types/fileSystem';
+import {
+  LocalFolderRecord,
+  isFileSystemAccessSupported,
+  isPickerAbort,
+  localFolderStore
+} from '@/lib/fileSystemAccess';
 
 interface ProjectUploaderProps {
   onProjectUpload: (files: FileSystemItem[]) => void;
+  // Opens a folder in place so edits are written back to disk. Only offered
+  // where the File System Access API exists; uploads are the fallback.
+  onLocalFolderOpen?: (folder: LocalFolderRecord) => Promise<void> | void;
   onClose: () => void;
 }
 
@@ -34,6 +44,7 @@ interface UploadedFile {
 
 const ProjectUploader: React.FC<ProjectUploaderProps> = ({
   onProjectUpload,
+  onLocalFolderOpen,
   onClose
 }) => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -42,6 +53,35 @@ const ProjectUploader: React.FC<ProjectUploaderProps> = ({
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const directoryInputRef = useRef<HTMLInputElement>(null);
+  const [recentFolders, setRecentFolders] = useState<LocalFolderRecord[]>([]);
+  const [isOpeningFolder, setIsOpeningFolder] = useState(false);
+  const canOpenLocalFolders = Boolean(onLocalFolderOpen) && isFileSystemAccessSupported();
+
+  useEffect(() => {
+    if (!canOpenLocalFolders) return;
+    localFolderStore.list()
+      .then(folders => setRecentFolders(folders.slice(0, 5)))
+      .catch(err => console.warn('Failed to load recent folders:', err));
+  }, [canOpenLocalFolders]);
+
+  // Remembered folders are passed in and need permission granted again
+  const openLocalFolder = async (folder?: LocalFolderRecord) => {
+    if (!onLocalFolderOpen) return;
+    setIsOpeningFolder(true);
+    setError(null);
+
+    try {
+      const opened = folder ? await localFolderStore.reopen(folder) : await localFolderStore.pick();
+      await onLocalFolderOpen(opened);
+      onClose();
+    } catch (err) {
+      if (!isPickerAbort(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to open folder');
+      }
+    } finally {
+      setIsOpeningFolder(false);
+    }
+  };
 
   const processFiles = async (files: FileList) => {
     setIsProcessing(true);
@@ -281,6 +321,40 @@ const ProjectUploader: React.FC<ProjectUploaderProps> = ({
             </div>
           </div>
 
+          {canOpenLocalFolders && (
+            <div className="mt-4 space-y-2">
+              <label className="text-sm font-medium">Open Local Folder</label>
+              <p className="text-xs text-muted-foreground">
+                Works on the folder in place: applied changes are written back to its files.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => openLocalFolder()}
+                  disabled={isProcessing || isOpeningFolder}
+                >
+                  {isOpeningFolder ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <HardDrive className="h-4 w-4 mr-2" />
+                  )}
+                  Choose Folder
+                </Button>
+                {recentFolders.map(folder => (
+                  <Button
+                    key={folder.id}
+                    variant="ghost"
+                    onClick={() => openLocalFolder(folder)}
+                    disabled={isProcessing || isOpeningFolder}
+                  >
+                    <Folder className="h-4 w-4 mr-2" />
+                    {folder.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {isProcessing && (
             <div className="mt-4 space-y-2">
               <div className="flex items-center justify-between text-sm">
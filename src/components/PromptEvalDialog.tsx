@@ -0,0 +1,359 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Download, FlaskConical, Square, Upload, X } from 'lucide-react';
+import { Prompt } from '@/lib/promptManager';
+import { providerRegistry } from '@/lib/llm/registry';
+import { isAbortError } from '@/lib/sse';
+import {
+  EvalCaseResult,
+  EvalSource,
+  EvalStatus,
+  EvalSuite,
+  describeAssertion,
+  loadBundledSuites,
+  parseEvalSuiteJSON,
+  recordResults,
+  runEvalSuite
+} from '@/lib/promptEval';
+
+interface PromptEvalDialogProps {
+  open: boolean;
+  prompts: Prompt[];
+  onError: (title: string, error: unknown) => void;
+  onClose: () => void;
+}
+
+const RECORDED = 'recorded';
+
+const statusClasses: Record<EvalStatus, string> = {
+  passed: 'bg-green-50 text-green-800 border-green-200',
+  failed: 'bg-red-50 text-red-800 border-red-200',
+  error: 'bg-orange-50 text-orange-800 border-orange-200',
+  skipped: 'bg-muted text-muted-foreground'
+};
+
+const resultKey = (caseId: string, promptId: string) => `${caseId}:${promptId}`;
+
+const toSource = (value: string): EvalSource =>
+  value === RECORDED ? { kind: 'recorded' } : { kind: 'provider', providerId: value };
+
+/**
+ * Runs an eval suite against two prompts, a baseline and a candidate, and
+ * lists the cases side by side so a regression in the candidate stands out.
+ */
+const PromptEvalDialog: React.FC<PromptEvalDialogProps> = ({ open, prompts, onError, onClose }) => {
+  const [suites, setSuites] = useState<EvalSuite[]>(loadBundledSuites);
+  const [suiteIndex, setSuiteIndex] = useState(0);
+  // Empty until picked; the suite's own prompts are used until then
+  const [baselineId, setBaselineId] = useState('');
+  const [candidateId, setCandidateId] = useState('');
+  const [source, setSource] = useState(RECORDED);
+  const [results, setResults] = useState<Map<string, EvalCaseResult>>(new Map());
+  // Replies of the last provider run, which can be saved as recordings
+  const [providerResults, setProviderResults] = useState<EvalCaseResult[]>([]);
+  const [expandedCase, setExpandedCase] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const suite = suites[suiteIndex] as EvalSuite | undefined;
+  const candidates = useMemo(
+    () => prompts.filter(prompt => prompt.type !== 'tools' && prompt.type !== 'partial'),
+    [prompts]
+  );
+  const suggested = (suite?.prompts ?? []).filter(id => candidates.some(prompt => prompt.id === id));
+  const baseline = candidates.find(prompt => prompt.id === (baselineId || suggested[0]));
+  const candidate = candidates.find(prompt => prompt.id === (candidateId || suggested[1]));
+  const adapters = providerRegistry.getAdapters();
+
+  const resetResults = () => {
+    setResults(new Map());
+    setProviderResults([]);
+    setExpandedCase(null);
+  };
+
+  const handleSelectSuite = (value: string) => {
+    setSuiteIndex(Number(value));
+    setBaselineId('');
+    setCandidateId('');
+    resetResults();
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseEvalSuiteJSON(await file.text());
+      setSuites(prev => [...prev, imported]);
+      handleSelectSuite(String(suites.length));
+    } catch (error) {
+      onError("Failed to import eval suite", error);
+    }
+  };
+
+  const handleSaveRecordings = () => {
+    if (!suite) return;
+    const recorded = recordResults(suite, providerResults);
+    setSuites(prev => prev.map((existing, index) => index === suiteIndex ? recorded : existing));
+    const blob = new Blob([JSON.stringify(recorded, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${suite.name}.eval.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRun = async () => {
+    if (!suite || !baseline || !candidate) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const evalSource = toSource(source);
+    resetResults();
+    setIsRunning(true);
+    try {
+      const finished = await runEvalSuite({
+        suite,
+        prompts: baseline.id === candidate.id ? [baseline] : [baseline, candidate],
+        source: evalSource,
+        signal: controller.signal,
+        onResult: result => setResults(prev => new Map(prev).set(resultKey(result.caseId, result.promptId), result))
+      });
+      if (evalSource.kind === 'provider') setProviderResults(finished);
+    } catch (error) {
+      if (!isAbortError(error)) onError("Eval run failed", error);
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const summarize = (prompt: Prompt | undefined) => {
+    if (!suite || !prompt) return null;
+    const ran = suite.cases.map(testCase => results.get(resultKey(testCase.id, prompt.id))).filter(Boolean);
+    if (ran.length === 0) return null;
+    const passed = ran.filter(result => result?.status === 'passed').length;
+    return `${passed}/${suite.cases.length} passed`;
+  };
+
+  // Cases the baseline passes and the candidate does not, and the reverse
+  const changes = useMemo(() => {
+    if (!suite || !baseline || !candidate) return { regressions: 0, fixes: 0 };
+    let regressions = 0;
+    let fixes = 0;
+    for (const testCase of suite.cases) {
+      const before = results.get(resultKey(testCase.id, baseline.id))?.status;
+      const after = results.get(resultKey(testCase.id, candidate.id))?.status;
+      if (before === 'passed' && after === 'failed') regressions++;
+      if (before === 'failed' && after === 'passed') fixes++;
+    }
+    return { regressions, fixes };
+  }, [suite, baseline, candidate, results]);
+
+  const renderStatus = (result: EvalCaseResult | undefined) => {
+    if (!result) return <span className="text-xs text-muted-foreground">{isRunning ? 'Waiting…' : '—'}</span>;
+    const passedCount = result.assertions.filter(assertion => assertion.passed).length;
+    return (
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={`text-xs ${statusClasses[result.status]}`}>{result.status}</Badge>
+        {result.assertions.length > 0 && (
+          <span className="text-xs text-muted-foreground">{passedCount}/{result.assertions.length} assertions</span>
+        )}
+      </div>
+    );
+  };
+
+  const renderDetails = (result: EvalCaseResult | undefined) => {
+    if (!result) return <p className="text-xs text-muted-foreground">Not run</p>;
+    return (
+      <div className="min-w-0 space-y-2">
+        {result.error && <p className="text-xs text-muted-foreground">{result.error}</p>}
+        {result.assertions.map((assertion, index) => (
+          <div key={index} className="flex items-start gap-2 text-xs">
+            {assertion.passed
+              ? <Check className="h-3 w-3 mt-0.5 shrink-0 text-green-700" />
+              : <X className="h-3 w-3 mt-0.5 shrink-0 text-red-700" />}
+            <span>
+              <span className="font-medium">{describeAssertion(assertion.assertion)}</span>
+              <span className="text-muted-foreground"> — {assertion.message}</span>
+            </span>
+          </div>
+        ))}
+        {result.output && (
+          <ScrollArea className="h-48 rounded border bg-code-bg">
+            <pre className="whitespace-pre-wrap break-words p-2 text-xs">{result.output}</pre>
+          </ScrollArea>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>Evaluate Prompts</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <Label>Suite</Label>
+              <Select value={String(suiteIndex)} onValueChange={handleSelectSuite} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No suites" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suites.map((option, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {option.name} ({option.cases.length} {option.cases.length === 1 ? 'case' : 'cases'})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Baseline</Label>
+              <Select value={baseline?.id ?? ''} onValueChange={setBaselineId} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a prompt" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(prompt => (
+                    <SelectItem key={prompt.id} value={prompt.id}>{prompt.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Candidate</Label>
+              <Select value={candidate?.id ?? ''} onValueChange={setCandidateId} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a prompt" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(prompt => (
+                    <SelectItem key={prompt.id} value={prompt.id}>{prompt.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Replies from</Label>
+              <Select value={source} onValueChange={setSource} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={RECORDED}>Recorded replies</SelectItem>
+                  {adapters.map(adapter => (
+                    <SelectItem key={adapter.id} value={adapter.id} disabled={!providerRegistry.isConfigured(adapter.id)}>
+                      {adapter.name}{providerRegistry.isConfigured(adapter.id) ? '' : ' (not configured)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {suite?.description && <p className="text-sm text-muted-foreground">{suite.description}</p>}
+
+          <div className="flex items-center gap-2">
+            {isRunning ? (
+              <Button variant="outline" onClick={() => abortControllerRef.current?.abort()}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={handleRun} disabled={!suite || !baseline || !candidate}>
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Run
+              </Button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Suite
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleSaveRecordings}
+              disabled={isRunning || providerResults.length === 0}
+              title="Download the suite with this run's replies as its recorded replies"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Save Recordings
+            </Button>
+            {results.size > 0 && (
+              <span className="ml-auto text-sm">
+                <span className={changes.regressions > 0 ? 'text-red-700 font-medium' : 'text-muted-foreground'}>
+                  {changes.regressions} {changes.regressions === 1 ? 'regression' : 'regressions'}
+                </span>
+                <span className="text-muted-foreground"> · </span>
+                <span className={changes.fixes > 0 ? 'text-green-700 font-medium' : 'text-muted-foreground'}>
+                  {changes.fixes} fixed
+                </span>
+              </span>
+            )}
+          </div>
+
+          <ScrollArea className="h-[50vh] rounded border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="w-1/3 p-2 font-medium">Case</th>
+                  <th className="p-2 font-medium">
+                    {baseline?.name ?? 'Baseline'}
+                    {summarize(baseline) && <span className="ml-2 text-xs font-normal text-muted-foreground">{summarize(baseline)}</span>}
+                  </th>
+                  <th className="p-2 font-medium">
+                    {candidate?.name ?? 'Candidate'}
+                    {summarize(candidate) && <span className="ml-2 text-xs font-normal text-muted-foreground">{summarize(candidate)}</span>}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {suite?.cases.map(testCase => {
+                  const before = baseline && results.get(resultKey(testCase.id, baseline.id));
+                  const after = candidate && results.get(resultKey(testCase.id, candidate.id));
+                  const isExpanded = expandedCase === testCase.id;
+                  return (
+                    <React.Fragment key={testCase.id}>
+                      <tr
+                        className="cursor-pointer border-t border-border hover:bg-muted/30"
+                        onClick={() => setExpandedCase(isExpanded ? null : testCase.id)}
+                      >
+                        <td className="p-2">
+                          <div className="font-medium">{testCase.name}</div>
+                          <div className="text-xs text-muted-foreground truncate" title={testCase.message}>{testCase.message}</div>
+                        </td>
+                        <td className="p-2">{renderStatus(before)}</td>
+                        <td className="p-2">{renderStatus(after)}</td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-t border-border bg-muted/10">
+                          <td className="p-2 align-top text-xs text-muted-foreground">
+                            {(testCase.files ?? []).map(file => <div key={file.path}>{file.path}</div>)}
+                          </td>
+                          <td className="p-2 align-top">{renderDetails(before)}</td>
+                          <td className="p-2 align-top">{renderDetails(after)}</td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptEvalDialog;
@@ -0,0 +1,208 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitCompare, RotateCcw } from 'lucide-react';
+import { Prompt } from '@/lib/promptManager';
+import { PromptRevision } from '@/lib/promptHistory';
+import { DiffLine, computeDiff, formatHunkHeader, toSideBySide } from '@/lib/diff';
+
+interface PromptHistoryDialogProps {
+  // The dialog is open while a prompt is set
+  prompt: Prompt | null;
+  // Other prompts its current content can be compared with
+  prompts: Prompt[];
+  getRevisions: (promptId: string) => Promise<PromptRevision[]>;
+  onRestore: (promptId: string, revision: PromptRevision) => Promise<void>;
+  onError: (title: string, error: unknown) => void;
+  onClose: () => void;
+}
+
+const lineClasses: Record<DiffLine['type'], string> = {
+  context: '',
+  removed: 'bg-red-50 text-red-800',
+  added: 'bg-green-50 text-green-800'
+};
+
+// Compare targets are either a revision of this prompt or another prompt
+const revisionKey = (revision: PromptRevision) => `revision:${revision.id}`;
+const promptKey = (prompt: Prompt) => `prompt:${prompt.id}`;
+
+/**
+ * A prompt's revisions, newest first, with a side-by-side diff of the chosen
+ * revision or another prompt against its current content, and restoring an
+ * older revision as a new one.
+ */
+const PromptHistoryDialog: React.FC<PromptHistoryDialogProps> = ({
+  prompt,
+  prompts,
+  getRevisions,
+  onRestore,
+  onError,
+  onClose
+}) => {
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+  const [compareKey, setCompareKey] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const promptId = prompt?.id;
+
+  const loadRevisions = useCallback(async (id: string) => {
+    const loaded = await getRevisions(id);
+    setRevisions(loaded);
+    // The revision before the current one, if there is one
+    const previous = loaded[1] ?? loaded[0];
+    setCompareKey(previous ? revisionKey(previous) : '');
+  }, [getRevisions]);
+
+  useEffect(() => {
+    if (!promptId) return;
+    setRevisions([]);
+    loadRevisions(promptId).catch(err => onError("Failed to load prompt history", err));
+  }, [promptId, loadRevisions, onError]);
+
+  const otherPrompts = useMemo(
+    () => prompts.filter(other => other.id !== promptId && other.type !== 'tools'),
+    [prompts, promptId]
+  );
+
+  const compared = useMemo(() => {
+    const revision = revisions.find(candidate => revisionKey(candidate) === compareKey);
+    if (revision) return revision.content;
+    return otherPrompts.find(other => promptKey(other) === compareKey)?.content;
+  }, [revisions, otherPrompts, compareKey]);
+
+  const diff = useMemo(
+    () => prompt && compared !== undefined ? computeDiff(compared, prompt.content) : null,
+    [prompt, compared]
+  );
+
+  const handleRestore = async (revision: PromptRevision) => {
+    if (!prompt) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(prompt.id, revision);
+      await loadRevisions(prompt.id);
+    } catch (error) {
+      onError("Failed to restore revision", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderLine = (line: DiffLine | undefined, side: 'left' | 'right') => (
+    <div className={`flex min-w-0 ${side === 'left' ? 'border-r border-border' : ''} ${line ? lineClasses[line.type] : 'bg-muted/30'}`}>
+      <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-muted-foreground">
+        {(side === 'left' ? line?.oldLineNumber : line?.newLineNumber) ?? ''}
+      </span>
+      <span className="whitespace-pre-wrap break-all pr-2">{line ? line.content || ' ' : ''}</span>
+    </div>
+  );
+
+  const renderDiff = () => {
+    if (!diff) return <p className="p-4 text-sm text-muted-foreground">Choose something to compare with</p>;
+    if (diff.hunks.length === 0) return <p className="p-4 text-sm text-muted-foreground">No differences</p>;
+    return diff.hunks.map((hunk, index) => (
+      <div key={index}>
+        <div className="bg-blue-50 px-2 py-1 font-mono text-xs text-blue-700">{formatHunkHeader(hunk)}</div>
+        {toSideBySide(hunk.lines).map((row, rowIndex) => (
+          <div key={rowIndex} className="grid grid-cols-2 font-mono text-xs leading-5">
+            {renderLine(row.left, 'left')}
+            {renderLine(row.right, 'right')}
+          </div>
+        ))}
+      </div>
+    ));
+  };
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>History: {prompt?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-[280px_1fr] gap-4">
+          <ScrollArea className="h-[65vh] pr-2">
+            <div className="space-y-2">
+              {revisions.map((revision, index) => {
+                const isCurrent = revision.content === prompt?.content;
+                return (
+                  <div
+                    key={revision.id}
+                    className={`rounded border p-2 text-sm ${compareKey === revisionKey(revision) ? 'border-primary' : 'border-border'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">#{revisions.length - index}</span>
+                      <span className="truncate">{revision.author}</span>
+                      {index === 0 && <Badge variant="secondary" className="text-xs">Latest</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{revision.createdAt.toLocaleString()}</p>
+                    {revision.note && <p className="text-xs text-muted-foreground truncate" title={revision.note}>{revision.note}</p>}
+                    <div className="mt-2 flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => setCompareKey(revisionKey(revision))}
+                      >
+                        <GitCompare className="h-3 w-3 mr-1" />
+                        Compare
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => handleRestore(revision)}
+                        disabled={isCurrent || isRestoring}
+                        title={isCurrent ? 'Same as the current content' : 'Save this content as a new revision'}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+          <div className="min-w-0 space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">Compare</Label>
+              <Select value={compareKey} onValueChange={setCompareKey}>
+                <SelectTrigger className="w-72">
+                  <SelectValue placeholder="Revision or prompt" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision, index) => (
+                    <SelectItem key={revision.id} value={revisionKey(revision)}>
+                      #{revisions.length - index} · {revision.author} · {revision.createdAt.toLocaleDateString()}
+                    </SelectItem>
+                  ))}
+                  {otherPrompts.map(other => (
+                    <SelectItem key={other.id} value={promptKey(other)}>
+                      {other.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">with the current content</span>
+              {diff && (
+                <span className="ml-auto text-xs">
+                  <span className="text-green-700">+{diff.added}</span>{' '}
+                  <span className="text-red-700">−{diff.removed}</span>
+                </span>
+              )}
+            </div>
+            <ScrollArea className="h-[60vh] rounded border">
+              {renderDiff()}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptHistoryDialog;
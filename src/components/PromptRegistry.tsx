@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -9,9 +9,30 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { FileText, Download, Upload, RefreshCw, Eye, Edit, Save, Brain, Zap, Settings } from 'lucide-react';
+import { FileText, Download, Upload, RefreshCw, Eye, Edit, Save, Brain, Zap, Settings, AlertTriangle, Puzzle, History, GitBranch, Plus, FlaskConical } from 'lucide-react';
 import { usePromptIntegration } from '@/hooks/usePromptIntegration';
-import { Prompt } from '@/lib/promptManager';
+import { ModelHints, Prompt } from '@/lib/promptManager';
+import { PROMPT_TYPES } from '@/lib/promptDiscovery';
+import { loadPromptAuthor, savePromptAuthor } from '@/lib/promptHistory';
+import { useToast } from '@/hooks/use-toast';
+import PromptHistoryDialog from '@/components/PromptHistoryDialog';
+import PromptEvalDialog from '@/components/PromptEvalDialog';
+
+// The New Prompt form; tags are comma-separated
+const EMPTY_DRAFT = {
+  name: '',
+  type: 'chat' as Prompt['type'],
+  version: '',
+  description: '',
+  tags: '',
+  content: ''
+};
+
+const describeModelHints = (hints: ModelHints) => [
+  hints.model,
+  hints.temperature !== undefined ? `temperature ${hints.temperature}` : '',
+  hints.maxTokens !== undefined ? `max ${hints.maxTokens} tokens` : ''
+].filter(Boolean).join(' · ');
 
 const PromptRegistry = () => {
   const {
@@ -23,12 +44,33 @@ const PromptRegistry = () => {
     selectPrompt,
     updatePrompt,
     getPromptsByType,
+    previewPrompt,
+    getRevisions,
+    restoreRevision,
+    forkPrompt,
+    createPrompt,
     stats
   } = usePromptIntegration();
+  const { toast } = useToast();
 
   const [editingPrompt, setEditingPrompt] = useState<Prompt | null>(null);
   const [editContent, setEditContent] = useState('');
   const [showEditDialog, setShowEditDialog] = useState(false);
+  // Recorded on every revision saved from this browser
+  const [author, setAuthor] = useState(loadPromptAuthor);
+  const [historyPrompt, setHistoryPrompt] = useState<Prompt | null>(null);
+  const [forkSource, setForkSource] = useState<Prompt | null>(null);
+  const [forkName, setForkName] = useState('');
+  const [forkVersion, setForkVersion] = useState('');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [showEvalDialog, setShowEvalDialog] = useState(false);
+
+  // Re-rendered as the user types, against sample context
+  const preview = useMemo(
+    () => editingPrompt && editingPrompt.type !== 'tools' ? previewPrompt(editingPrompt.id, editContent) : null,
+    [editingPrompt, editContent, previewPrompt]
+  );
 
   // Load prompt files
   useEffect(() => {
@@ -41,6 +83,7 @@ const PromptRegistry = () => {
       case 'tools': return 'bg-accent';
       case 'chat': return 'bg-success';
       case 'memory': return 'bg-warning';
+      case 'partial': return 'bg-secondary';
       default: return 'bg-muted';
     }
   };
@@ -51,6 +94,7 @@ const PromptRegistry = () => {
       case 'tools': return <Settings className="h-4 w-4" />;
       case 'chat': return <FileText className="h-4 w-4" />;
       case 'memory': return <Zap className="h-4 w-4" />;
+      case 'partial': return <Puzzle className="h-4 w-4" />;
       default: return <FileText className="h-4 w-4" />;
     }
   };
@@ -61,8 +105,60 @@ const PromptRegistry = () => {
     setShowEditDialog(true);
   };
 
+  const reportError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const handleOpenFork = (prompt: Prompt) => {
+    setForkSource(prompt);
+    setForkName(`${prompt.name} (fork)`);
+    setForkVersion('');
+  };
+
+  const handleFork = async () => {
+    if (!forkSource) return;
+    try {
+      const forked = await forkPrompt(forkSource.id, forkName, forkVersion);
+      setForkSource(null);
+      toast({
+        title: "Prompt forked",
+        description: `${forked.name} starts as a copy of ${forkSource.name}.`
+      });
+    } catch (error) {
+      reportError("Failed to fork prompt", error);
+    }
+  };
+
+  const handleOpenCreate = () => {
+    setDraft(EMPTY_DRAFT);
+    setShowCreateDialog(true);
+  };
+
+  const handleCreate = async () => {
+    try {
+      const created = await createPrompt({
+        ...draft,
+        tags: draft.tags.split(',')
+      });
+      setShowCreateDialog(false);
+      toast({
+        title: "Prompt created",
+        description: created.type === 'partial'
+          ? `Include ${created.name} in other prompts as {{> ${created.id}}}.`
+          : `${created.name} is saved in this browser.`
+      });
+    } catch (error) {
+      reportError("Failed to create prompt", error);
+    }
+  };
+
   const handleSavePrompt = async () => {
     if (editingPrompt) {
+      savePromptAuthor(author);
       await updatePrompt(editingPrompt.id, editContent);
       setShowEditDialog(false);
       setEditingPrompt(null);
@@ -92,6 +188,14 @@ const PromptRegistry = () => {
             </div>
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleOpenCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Prompt
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowEvalDialog(true)}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Evaluate
+            </Button>
             <Button 
               variant="outline" 
               size="sm"
@@ -124,12 +228,13 @@ const PromptRegistry = () => {
 
       <div className="flex-1 p-6">
         <Tabs defaultValue="all" className="h-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="all">All</TabsTrigger>
             <TabsTrigger value="agent">Agent</TabsTrigger>
             <TabsTrigger value="tools">Tools</TabsTrigger>
             <TabsTrigger value="chat">Chat</TabsTrigger>
             <TabsTrigger value="memory">Memory</TabsTrigger>
+            <TabsTrigger value="partial">Partials</TabsTrigger>
           </TabsList>
 
           <TabsContent value="all" className="mt-6 h-full">
@@ -153,9 +258,24 @@ const PromptRegistry = () => {
                               {prompt.metadata.description}
                             </p>
                           )}
+                          {prompt.metadata?.modelHints && (
+                            <p className="text-xs text-muted-foreground">
+                              Suggested: {describeModelHints(prompt.metadata.modelHints)}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex gap-2">
+                        {prompt.templateIssues && prompt.templateIssues.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs text-destructive border-destructive/50"
+                            title={prompt.templateIssues.map(issue => `Line ${issue.line}: ${issue.message}`).join('\n')}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {prompt.templateIssues.length} template {prompt.templateIssues.length === 1 ? 'issue' : 'issues'}
+                          </Badge>
+                        )}
                         {prompt.version && (
                           <Badge variant="outline" className="text-xs">
                             v{prompt.version}
@@ -185,6 +305,22 @@ const PromptRegistry = () => {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryPrompt(prompt)}
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenFork(prompt)}
+                          title="Fork into a new version"
+                        >
+                          <GitBranch className="h-4 w-4" />
+                        </Button>
                         <Button 
                           variant="ghost" 
                           size="sm"
@@ -230,9 +366,24 @@ const PromptRegistry = () => {
                                 {prompt.metadata.description}
                               </p>
                             )}
+                            {prompt.metadata?.modelHints && (
+                              <p className="text-xs text-muted-foreground">
+                                Suggested: {describeModelHints(prompt.metadata.modelHints)}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="flex gap-2">
+                          {prompt.templateIssues && prompt.templateIssues.length > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs text-destructive border-destructive/50"
+                              title={prompt.templateIssues.map(issue => `Line ${issue.line}: ${issue.message}`).join('\n')}
+                            >
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {prompt.templateIssues.length} template {prompt.templateIssues.length === 1 ? 'issue' : 'issues'}
+                            </Badge>
+                          )}
                           {prompt.version && (
                             <Badge variant="outline" className="text-xs">
                               v{prompt.version}
@@ -262,6 +413,22 @@ const PromptRegistry = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryPrompt(prompt)}
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleOpenFork(prompt)}
+                            title="Fork into a new version"
+                          >
+                            <GitBranch className="h-4 w-4" />
+                          </Button>
                           <Button 
                             variant="ghost" 
                             size="sm"
@@ -295,23 +462,186 @@ const PromptRegistry = () => {
             <DialogTitle>Edit Prompt: {editingPrompt?.name}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            <div className={preview ? 'grid grid-cols-2 gap-4' : ''}>
+              <div>
+                <Label htmlFor="prompt-content">Prompt Content</Label>
+                <Textarea
+                  id="prompt-content"
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  className="h-[50vh] font-mono text-sm"
+                  placeholder="Enter prompt content..."
+                />
+              </div>
+              {preview && (
+                <div>
+                  <Label>Preview with sample context</Label>
+                  <ScrollArea className="h-[50vh] rounded border bg-code-bg">
+                    <pre className="whitespace-pre-wrap text-sm p-4">
+                      {preview.output}
+                    </pre>
+                  </ScrollArea>
+                </div>
+              )}
+            </div>
+            {preview && preview.issues.length > 0 && (
+              <div className="space-y-1 text-sm text-destructive">
+                {preview.issues.map((issue, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <span>Line {issue.line}: {issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {'Templates can use {{variable}}, {{#if}}, {{#each selectedFiles}}, {{> partial}} and {{! comments }}.'}
+            </p>
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="prompt-author" className="whitespace-nowrap">Author</Label>
+              <Input
+                id="prompt-author"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                className="w-48"
+              />
+              <Button variant="outline" onClick={() => setShowEditDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSavePrompt}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Changes
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <PromptHistoryDialog
+        prompt={historyPrompt}
+        prompts={prompts}
+        getRevisions={getRevisions}
+        onRestore={restoreRevision}
+        onError={reportError}
+        onClose={() => setHistoryPrompt(null)}
+      />
+
+      {/* Fork Dialog */}
+      <Dialog open={!!forkSource} onOpenChange={(open) => !open && setForkSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Fork {forkSource?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="fork-name">Name</Label>
+              <Input id="fork-name" value={forkName} onChange={(e) => setForkName(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="fork-version">Version</Label>
+              <Input
+                id="fork-version"
+                value={forkVersion}
+                onChange={(e) => setForkVersion(e.target.value)}
+                placeholder="e.g. 1.3"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForkSource(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleFork} disabled={!forkName.trim()}>
+                <GitBranch className="h-4 w-4 mr-2" />
+                Fork
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <PromptEvalDialog
+        open={showEvalDialog}
+        prompts={prompts}
+        onError={reportError}
+        onClose={() => setShowEvalDialog(false)}
+      />
+
+      {/* New Prompt Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Prompt</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_160px_120px] gap-4">
+              <div>
+                <Label htmlFor="new-prompt-name">Name</Label>
+                <Input
+                  id="new-prompt-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(value: Prompt['type']) => setDraft(prev => ({ ...prev, type: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROMPT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="new-prompt-version">Version</Label>
+                <Input
+                  id="new-prompt-version"
+                  value={draft.version}
+                  onChange={(e) => setDraft(prev => ({ ...prev, version: e.target.value }))}
+                  placeholder="e.g. 1.0"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="new-prompt-description">Description</Label>
+              <Input
+                id="new-prompt-description"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
             <div>
-              <Label htmlFor="prompt-content">Prompt Content</Label>
+              <Label htmlFor="new-prompt-tags">Tags</Label>
+              <Input
+                id="new-prompt-tags"
+                value={draft.tags}
+                onChange={(e) => setDraft(prev => ({ ...prev, tags: e.target.value }))}
+                placeholder="Comma-separated, e.g. agent, review"
+              />
+            </div>
+            <div>
+              <Label htmlFor="new-prompt-content">Prompt Content</Label>
               <Textarea
-                id="prompt-content"
-                value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
-                className="h-[50vh] font-mono text-sm"
+                id="new-prompt-content"
+                value={draft.content}
+                onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+                className="h-[30vh] font-mono text-sm"
                 placeholder="Enter prompt content..."
               />
             </div>
             <div className="flex justify-end gap-2">
-              <Button variant="outline" onClick={() => setShowEditDialog(false)}>
+              <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleSavePrompt}>
-                <Save className="h-4 w-4 mr-2" />
-                Save Changes
+              <Button onClick={handleCreate} disabled={!draft.name.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create
               </Button>
             </div>
           </div>
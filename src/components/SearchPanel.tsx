@@ -0,0 +1,224 @@
+import React, { useDeferredValue, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CaseSensitive, FileCode, Loader2, Search, X } from 'lucide-react';
+import { SearchIndex, GrepMatch } from '@/lib/search/searchIndex';
+import { useSearchIndexVersion } from '@/hooks/useSearchIndexVersion';
+
+type SearchMode = 'code' | 'text' | 'files' | 'symbols';
+
+interface SearchPanelProps {
+  index: SearchIndex | null;
+  // The project is still being read into the index
+  indexing?: boolean;
+  onOpen: (path: string, line: number) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const MAX_RESULTS = 50;
+const MAX_TEXT_MATCHES = 500;
+const PREVIEW_LINES = 3;
+
+const PLACEHOLDERS: Record<SearchMode, string> = {
+  code: 'Describe what you are looking for',
+  text: 'Regular expression',
+  files: 'File name',
+  symbols: 'Function, class or type name'
+};
+
+const groupByPath = (matches: GrepMatch[]) => {
+  const groups = new Map<string, GrepMatch[]>();
+  for (const match of matches) {
+    groups.set(match.path, [...(groups.get(match.path) ?? []), match]);
+  }
+  return Array.from(groups.entries());
+};
+
+/**
+ * Project-wide search over a `SearchIndex`: ranked code chunks, regex text
+ * search with include/exclude globs, fuzzy file names and symbol
+ * definitions. Choosing a result calls `onOpen` with its path and line.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ index, indexing, onOpen, onClose, className }) => {
+  const [mode, setMode] = useState<SearchMode>('code');
+  const [query, setQuery] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  // Large projects take a moment per query; keep typing responsive
+  const deferredQuery = useDeferredValue(query.trim());
+  useSearchIndexVersion(index);
+
+  const resultButton = 'w-full text-left px-2 py-1 rounded hover:bg-muted/50 transition-colors';
+
+  const renderResults = () => {
+    if (!index || !deferredQuery) return null;
+
+    switch (mode) {
+      case 'code': {
+        const results = index.search(deferredQuery, { limit: MAX_RESULTS });
+        if (results.length === 0) return <p className="px-2 text-muted-foreground">No matching code.</p>;
+        return results.map(result => (
+          <button
+            key={`${result.path}:${result.startLine}`}
+            className={resultButton}
+            onClick={() => onOpen(result.path, result.startLine)}
+          >
+            <div className="text-xs text-primary truncate">
+              {result.path}:{result.startLine}-{result.endLine}
+            </div>
+            <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-all font-mono">
+              {result.text.split('\n').filter(line => line.trim()).slice(0, PREVIEW_LINES).join('\n')}
+            </pre>
+          </button>
+        ));
+      }
+
+      case 'text': {
+        const { matches, truncated } = index.grep(deferredQuery, {
+          caseSensitive,
+          include: include.trim() || undefined,
+          exclude: exclude.trim() || undefined,
+          maxMatches: MAX_TEXT_MATCHES
+        });
+        if (matches.length === 0) return <p className="px-2 text-muted-foreground">No matches.</p>;
+        return (
+          <>
+            {groupByPath(matches).map(([path, fileMatches]) => (
+              <div key={path} className="mb-2">
+                <div className="flex items-center gap-1 px-2 text-xs font-medium text-foreground truncate">
+                  <FileCode className="h-3 w-3 shrink-0" />
+                  {path}
+                  <Badge variant="secondary" className="ml-auto text-[10px]">{fileMatches.length}</Badge>
+                </div>
+                {fileMatches.map(match => (
+                  <button
+                    key={match.line}
+                    className={`${resultButton} flex gap-2 text-xs font-mono`}
+                    onClick={() => onOpen(match.path, match.line)}
+                  >
+                    <span className="text-muted-foreground w-10 text-right shrink-0">{match.line}</span>
+                    <span className="truncate">{match.text.trim()}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+            {truncated && (
+              <p className="px-2 text-xs text-muted-foreground">
+                Showing the first {MAX_TEXT_MATCHES} matches; narrow the search to see more.
+              </p>
+            )}
+          </>
+        );
+      }
+
+      case 'files': {
+        const paths = index.findFiles(deferredQuery, { limit: MAX_RESULTS });
+        if (paths.length === 0) return <p className="px-2 text-muted-foreground">No matching files.</p>;
+        return paths.map(path => (
+          <button key={path} className={`${resultButton} truncate`} onClick={() => onOpen(path, 1)}>
+            {path}
+          </button>
+        ));
+      }
+
+      case 'symbols': {
+        const symbols = index.findSymbols(deferredQuery, { limit: MAX_RESULTS });
+        if (symbols.length === 0) return <p className="px-2 text-muted-foreground">No matching symbols.</p>;
+        return symbols.map(symbol => (
+          <button
+            key={`${symbol.path}:${symbol.line}:${symbol.name}`}
+            className={`${resultButton} flex items-center gap-2`}
+            onClick={() => onOpen(symbol.path, symbol.line)}
+          >
+            <Badge variant="outline" className="text-[10px] shrink-0">{symbol.kind}</Badge>
+            <span className="font-mono truncate">{symbol.name}</span>
+            <span className="ml-auto text-xs text-muted-foreground truncate">{symbol.path}:{symbol.line}</span>
+          </button>
+        ));
+      }
+    }
+  };
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className ?? ''}`}>
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium text-sm">SEARCH</h3>
+          <div className="flex items-center gap-2">
+            {indexing && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" aria-label="Indexing" />}
+            {onClose && (
+              <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close search">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Tabs value={mode} onValueChange={value => setMode(value as SearchMode)}>
+          <TabsList className="grid w-full grid-cols-4 h-8">
+            <TabsTrigger value="code" className="text-xs">Code</TabsTrigger>
+            <TabsTrigger value="text" className="text-xs">Text</TabsTrigger>
+            <TabsTrigger value="files" className="text-xs">Files</TabsTrigger>
+            <TabsTrigger value="symbols" className="text-xs">Symbols</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="relative flex items-center gap-1">
+          <Search className="absolute left-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={PLACEHOLDERS[mode]}
+            className="h-8 pl-8 text-sm"
+          />
+          {mode === 'text' && (
+            <Button
+              variant={caseSensitive ? 'default' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              onClick={() => setCaseSensitive(!caseSensitive)}
+              title="Match case"
+            >
+              <CaseSensitive className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {mode === 'text' && (
+          <div className="grid grid-cols-2 gap-1">
+            <Input
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              placeholder="Include, e.g. *.ts"
+              className="h-7 text-xs"
+            />
+            <Input
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              placeholder="Exclude, e.g. test/**"
+              className="h-7 text-xs"
+            />
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-2 text-sm">
+          {!index ? (
+            <p className="px-2 text-muted-foreground">Load a project to search it.</p>
+          ) : (
+            renderResults()
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FileSystemItem } from '@/types/fileSystem';
+import { SearchIndex } from '@/lib/search/searchIndex';
+import { ContextFile } from '@/lib/contextPacker';
+import { isAbortError } from '@/lib/sse';
+import { VectorStore, RetrievedChunk } from '@/lib/embeddings/vectorStore';
+import {
+  EmbeddingSettings,
+  createEmbedder,
+  loadEmbeddingSettings,
+  saveEmbeddingSettings
+} from '@/lib/embeddings/embedders';
+
+const ENABLED_KEY = 'auto-context-enabled';
+// Chunks attached per message
+const TOP_K = 6;
+// Edits arrive in bursts; re-index once they settle
+const INDEX_DEBOUNCE_MS = 800;
+
+export type AutoContextStatus = 'idle' | 'indexing' | 'ready' | 'error';
+
+const loadEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(ENABLED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+// Project files with content: from the search index when there is one, as it
+// holds every text file, otherwise whatever the tree has loaded
+const collectSources = (index: SearchIndex | undefined, files: FileSystemItem[] = []): ContextFile[] => {
+  if (index && index.size > 0) {
+    return index.getPaths().map(path => ({ path, content: index.getContent(path) ?? '' }));
+  }
+
+  const sources: ContextFile[] = [];
+  const visit = (nodes: FileSystemItem[]) => {
+    for (const node of nodes) {
+      if (node.type === 'file' && node.content) sources.push({ path: node.path, content: node.content });
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(files);
+  return sources;
+};
+
+/**
+ * Picks the project chunks most relevant to a message by embedding
+ * similarity, for the Composer's "auto context" mode. Files are chunked and
+ * embedded in the background while the mode is on; `preview` shows what a
+ * draft would retrieve and `remove` keeps a chunk out until the next send.
+ */
+export const useAutoContext = (files?: FileSystemItem[], searchIndex?: SearchIndex) => {
+  const [enabled, setEnabledState] = useState(loadEnabled);
+  const [settings, setSettings] = useState(loadEmbeddingSettings);
+  const [status, setStatus] = useState<AutoContextStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<RetrievedChunk[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [sourceVersion, setSourceVersion] = useState(0);
+  // Only the newest preview may set suggestions
+  const previewQueryRef = useRef('');
+
+  const store = useMemo(() => new VectorStore(createEmbedder(settings)), [settings]);
+
+  useEffect(() => {
+    if (!searchIndex) return;
+    return searchIndex.subscribe(() => setSourceVersion(version => version + 1));
+  }, [searchIndex]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setStatus('indexing');
+      setError(null);
+      store.index(collectSources(searchIndex, files), controller.signal)
+        .then(() => setStatus('ready'))
+        .catch(err => {
+          if (isAbortError(err)) return;
+          console.warn('Failed to index project for auto context:', err);
+          setError(err instanceof Error ? err.message : 'Indexing failed');
+          setStatus('error');
+        });
+    }, INDEX_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [enabled, store, files, searchIndex, sourceVersion]);
+
+  const query = useCallback(async (text: string): Promise<RetrievedChunk[]> => {
+    try {
+      return await store.query(text, TOP_K + excluded.size);
+    } catch (err) {
+      console.warn('Auto context retrieval failed:', err);
+      return [];
+    }
+  }, [store, excluded]);
+
+  const preview = useCallback(async (text: string) => {
+    previewQueryRef.current = text;
+    if (!enabled || !text.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    const results = await query(text);
+    if (previewQueryRef.current === text) setSuggestions(results);
+  }, [enabled, query]);
+
+  /** The chunks to attach to a message about `text`, minus removed ones. */
+  const retrieve = useCallback(async (text: string): Promise<RetrievedChunk[]> => {
+    if (!enabled) return [];
+    const results = await query(text);
+    return results.filter(chunk => !excluded.has(chunk.id)).slice(0, TOP_K);
+  }, [enabled, query, excluded]);
+
+  const remove = useCallback((id: string) => {
+    setExcluded(prev => new Set(prev).add(id));
+  }, []);
+
+  // After a send: the next message starts with a fresh selection
+  const reset = useCallback(() => {
+    previewQueryRef.current = '';
+    setSuggestions([]);
+    setExcluded(new Set());
+  }, []);
+
+  const setEnabled = useCallback((value: boolean) => {
+    localStorage.setItem(ENABLED_KEY, String(value));
+    setEnabledState(value);
+    if (!value) setSuggestions([]);
+  }, []);
+
+  const updateSettings = useCallback((next: EmbeddingSettings) => {
+    saveEmbeddingSettings(next);
+    setSettings(next);
+  }, []);
+
+  return {
+    enabled,
+    setEnabled,
+    settings,
+    updateSettings,
+    embedderName: store.embedder.name,
+    status,
+    error,
+    suggestions: suggestions.filter(chunk => !excluded.has(chunk.id)).slice(0, TOP_K),
+    preview,
+    retrieve,
+    remove,
+    reset
+  };
+};
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useLLM } from '@/components/LLMProvider';
+import { trimCompletion } from '@/lib/ghostText';
+
+// Enough for the rest of a statement or a short block
+const MAX_COMPLETION_TOKENS = 128;
+
+/**
+ * Fill-in-the-middle completions from the active provider for the editor's
+ * ghost text. `available` is false when the provider has no FIM endpoint
+ * (e.g. Anthropic, OpenAI chat models) or is not configured.
+ */
+export const useCodeCompletion = () => {
+  const { supportsFIM, isConfigured, completeFIM } = useLLM();
+
+  const complete = useCallback(async (prefix: string, suffix: string, signal: AbortSignal): Promise<string | null> => {
+    const completion = await completeFIM({
+      prefix,
+      suffix,
+      maxTokens: MAX_COMPLETION_TOKENS,
+      temperature: 0,
+      // One block at a time; a blank line usually ends it
+      stop: ['\n\n']
+    }, signal);
+    return trimCompletion(completion, suffix) || null;
+  }, [completeFIM]);
+
+  return { available: supportsFIM && isConfigured, complete };
+};
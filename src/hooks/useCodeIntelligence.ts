@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { SearchIndex } from '@/lib/search/searchIndex';
+import {
+  HoverInfo,
+  LanguageDiagnostic,
+  OutlineItem,
+  getLanguageClient,
+  isLanguageFile
+} from '@/lib/language/languageClient';
+import { ReferenceList } from '@/components/OutlinePanel';
+
+// Typing pause before the outline is recomputed
+const OUTLINE_DEBOUNCE_MS = 300;
+
+interface OpenDocument {
+  path: string;
+  content: string;
+}
+
+interface UseCodeIntelligenceOptions {
+  // The project the language service sees; without one only open files are
+  index: SearchIndex | null;
+  activeFile?: OpenDocument;
+  // Open documents, whose unsaved content takes precedence over the index
+  openFiles: OpenDocument[];
+  // The outline is only computed while it is on screen
+  outlineVisible: boolean;
+  onNavigate: (path: string, line: number) => void;
+  // A references or multi-target definition list is ready to be shown
+  onShowReferences: () => void;
+}
+
+const wordAt = (content: string, offset: number): string => {
+  const before = content.slice(0, offset).match(/[\w$]*$/)?.[0] ?? '';
+  const after = content.slice(offset).match(/^[\w$]*/)?.[0] ?? '';
+  return before + after;
+};
+
+/**
+ * Connects the editor to the TypeScript language service worker: hover,
+ * diagnostics and navigation callbacks for `CodeMirrorEditor`, plus the
+ * outline, problems and references shown in the `OutlinePanel`.
+ */
+export const useCodeIntelligence = ({
+  index,
+  activeFile,
+  openFiles,
+  outlineVisible,
+  onNavigate,
+  onShowReferences
+}: UseCodeIntelligenceOptions) => {
+  const [scratchIndex] = useState(() => new SearchIndex());
+  const client = useMemo(() => getLanguageClient(index ?? scratchIndex), [index, scratchIndex]);
+  const [outline, setOutline] = useState<OutlineItem[] | null>(null);
+  const [problems, setProblems] = useState<LanguageDiagnostic[]>([]);
+  const [references, setReferences] = useState<ReferenceList | null>(null);
+  const openPathsRef = useRef(new Set<string>());
+  const navigationRef = useRef({ onNavigate, onShowReferences });
+  navigationRef.current = { onNavigate, onShowReferences };
+  const { toast } = useToast();
+
+  const activePath = client && activeFile && isLanguageFile(activeFile.path) ? activeFile.path : undefined;
+  const activeContent = activePath ? activeFile?.content : undefined;
+  const activePathRef = useRef(activePath);
+  activePathRef.current = activePath;
+
+  useEffect(() => {
+    if (!client) return;
+    const paths = new Set<string>();
+    for (const file of openFiles) {
+      if (!isLanguageFile(file.path)) continue;
+      client.setOpenFile(file.path, file.content);
+      paths.add(file.path);
+    }
+    openPathsRef.current.forEach(path => {
+      if (!paths.has(path)) client.setOpenFile(path, null);
+    });
+    openPathsRef.current = paths;
+  }, [client, openFiles]);
+
+  useEffect(() => {
+    setProblems([]);
+  }, [activePath]);
+
+  useEffect(() => {
+    if (!client || !activePath || !outlineVisible) {
+      setOutline(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      client.getOutline(activePath)
+        .then(items => {
+          if (!cancelled) setOutline(items);
+        })
+        .catch(error => console.warn('Failed to compute outline:', error));
+    }, OUTLINE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, activePath, activeContent, outlineVisible]);
+
+  const hover = useCallback(async (content: string, offset: number): Promise<HoverInfo | null> => {
+    if (!client || !activePath) return null;
+    client.setOpenFile(activePath, content);
+    try {
+      return await client.getHover(activePath, offset);
+    } catch (error) {
+      console.warn('Hover lookup failed:', error);
+      return null;
+    }
+  }, [client, activePath]);
+
+  const diagnostics = useCallback(async (content: string): Promise<LanguageDiagnostic[]> => {
+    if (!client || !activePath) return [];
+    client.setOpenFile(activePath, content);
+    try {
+      const results = await client.getDiagnostics(activePath);
+      if (activePathRef.current === activePath) setProblems(results);
+      return results;
+    } catch (error) {
+      console.warn('Diagnostics failed:', error);
+      return [];
+    }
+  }, [client, activePath]);
+
+  const goToDefinition = useCallback((content: string, offset: number): boolean => {
+    if (!client || !activePath) return false;
+    client.setOpenFile(activePath, content);
+    const name = wordAt(content, offset);
+
+    client.getDefinition(activePath, offset)
+      .then(locations => {
+        if (locations.length === 0) {
+          toast({
+            title: "No definition found",
+            description: name ? `No definition of ${name} in this project.` : 'There is no symbol at the cursor.'
+          });
+        } else if (locations.length === 1) {
+          navigationRef.current.onNavigate(locations[0].path, locations[0].line);
+        } else {
+          setReferences({ title: `Definitions of ${name}`, locations });
+          navigationRef.current.onShowReferences();
+        }
+      })
+      .catch(error => console.warn('Go to definition failed:', error));
+    return true;
+  }, [client, activePath, toast]);
+
+  const findReferences = useCallback((content: string, offset: number): boolean => {
+    if (!client || !activePath) return false;
+    client.setOpenFile(activePath, content);
+    const name = wordAt(content, offset);
+
+    client.getReferences(activePath, offset)
+      .then(locations => {
+        setReferences({ title: `References to ${name || 'symbol'}`, locations });
+        navigationRef.current.onShowReferences();
+      })
+      .catch(error => console.warn('Find references failed:', error));
+    return true;
+  }, [client, activePath]);
+
+  return {
+    // The active file is one the language service understands
+    available: Boolean(activePath),
+    outline,
+    problems,
+    references,
+    hover,
+    diagnostics,
+    goToDefinition,
+    findReferences
+  };
+};
@@ -1,7 +1,27 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { FileSystemItem } from '@/types/fileSystem';
 import { usePromptIntegration } from './usePromptIntegration';
-import { useDeepSeek } from '@/components/DeepSeekProvider';
+import { useAutoContext } from './useAutoContext';
+import { useLLM } from '@/components/LLMProvider';
+import { isAbortError } from '@/lib/sse';
+import { ChatMessage, ProviderConfig } from '@/lib/llm/types';
+import { getPromptBudget } from '@/lib/llm/models';
+import { Prompt, PromptContext, promptManager } from '@/lib/promptManager';
+import { AgentWorkspace, WorkspaceChange, normalizePath } from '@/lib/agent/workspace';
+import { SearchIndex } from '@/lib/search/searchIndex';
+import { getAgentTools } from '@/lib/agent/tools';
+import { runAgentLoop, AgentStep, DEFAULT_MAX_ITERATIONS } from '@/lib/agent/agentLoop';
+import { applyHunks, computeDiff, rebaseHunks } from '@/lib/diff';
+import { parseChangesFromResponse } from '@/lib/changeParser';
+import { conversationStore, generateConversationTitle } from '@/lib/conversationStore';
+import { loadTokenizer } from '@/lib/tokenizer';
+import { packContext, ContextFile, PackedContext, PackReport } from '@/lib/contextPacker';
+import { RetrievedChunk } from '@/lib/embeddings/vectorStore';
+import { Memory, isInScope, memoryStore, renderMemories, retrieveMemories } from '@/lib/memoryStore';
+import { ActiveProject } from '@/types/project';
+import { extractMemories, loadSuggestionsEnabled } from '@/lib/memoryExtraction';
+import { inlineEditHistory } from '@/lib/inlineEditHistory';
+import { RouteDecision, RouterSettings, RoutingMode, loadRouterSettings, pickPrompt, routeMessage, saveRouterSettings } from '@/lib/promptRouter';
 
 export interface Message {
   id: string;
@@ -10,6 +30,12 @@ export interface Message {
   timestamp: Date;
   context?: FileSystemItem[];
   promptUsed?: string;
+  // Tool calls made by the agent while producing this message
+  steps?: AgentStep[];
+  // Titles of the memories included in the system prompt for this reply
+  memoriesUsed?: string[];
+  // Why `promptUsed` was chosen for this reply
+  routeReason?: string;
 }
 
 export interface CodeChange {
@@ -19,10 +45,40 @@ export interface CodeChange {
   originalContent: string;
   newContent: string;
   description: string;
-  status: 'pending' | 'applied' | 'rejected';
+  // `conflict`: the file changed after the edit was proposed
+  status: 'pending' | 'applied' | 'rejected' | 'conflict';
+  // Treated as `modify` when absent
+  kind?: 'create' | 'modify' | 'delete';
+  // Review decisions keyed by hunk index; undecided hunks are applied
+  hunkDecisions?: Record<number, HunkDecision>;
+  // Assistant message the change was extracted from
+  messageId?: string;
   timestamp: Date;
 }
 
+export type HunkDecision = 'accepted' | 'rejected';
+
+// The subset of `useFileSystem` the Composer writes applied changes through
+export interface ComposerFileOperations {
+  // Reads a file as it is now; a service-backed tree can be stale or list files without contents
+  loadFileContent: (file: FileSystemItem) => Promise<string>;
+  saveFile: (file: FileSystemItem) => Promise<void>;
+  createFile: (name: string, path: string, content?: string) => Promise<FileSystemItem>;
+  deleteFile: (fileId: string) => Promise<void>;
+}
+
+export interface ApplyResult {
+  applied: CodeChange[];
+  conflicts: CodeChange[];
+}
+
+// What a file looked like before an apply, so the batch can be undone
+interface AppliedEntry {
+  changeId: string;
+  path: string;
+  previousContent: string | null;
+}
+
 export interface Conversation {
   id: string;
   title: string;
@@ -32,79 +88,305 @@ export interface Conversation {
   updatedAt: Date;
 }
 
-// Helper function to estimate token count (rough approximation)
-const estimateTokenCount = (text: string): number => {
-  // Rough approximation: 1 token ≈ 4 characters for English text
-  return Math.ceil(text.length / 4);
+// Chat history in provider format; empty placeholders (stopped replies) are skipped
+const toChatHistory = (messages: Message[]): ChatMessage[] => messages
+  .filter(message => message.content)
+  .map((message): ChatMessage => ({ role: message.role, content: message.content }));
+
+// Attached files with content, folders expanded, in the order they were attached
+const collectContextFiles = (items: FileSystemItem[]): ContextFile[] => {
+  const files = new Map<string, ContextFile>();
+  const visit = (nodes: FileSystemItem[]) => {
+    for (const node of nodes) {
+      if (node.type === 'file' && node.content !== undefined && !files.has(node.path)) {
+        files.set(node.path, { path: node.path, content: node.content });
+      }
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(items);
+  return Array.from(files.values());
 };
 
-// Helper function to truncate context to stay within token limits
-const optimizeContextForAPI = (
-  context: FileSystemItem[], 
-  messages: Message[], 
-  userMessage: string,
-  maxTokens: number = 50000 // Leave buffer for response
-): any => {
-  let currentTokens = estimateTokenCount(userMessage);
-  
-  // Truncate file contents to essential parts
-  const optimizedFiles = context.map(file => {
-    let content = file.content || '';
-    
-    // If content is too large, keep only the most relevant parts
-    if (content.length > 2000) {
-      // Keep first 1000 chars and last 1000 chars
-      const firstPart = content.substring(0, 1000);
-      const lastPart = content.substring(content.length - 1000);
-      content = `${firstPart}\n\n... [content truncated for token limit] ...\n\n${lastPart}`;
-    }
-    
-    return {
-      id: file.id,
-      name: file.name,
-      path: file.path,
-      type: file.type,
-      content: content.substring(0, 1500) // Limit each file to 1500 chars
-    };
+// Files listed without contents (a folder opened from disk) get the text the
+// search index has read for them
+const withIndexedContents = (items: FileSystemItem[], index: SearchIndex | undefined): FileSystemItem[] =>
+  items.map(node => {
+    if (node.children) return { ...node, children: withIndexedContents(node.children, index) };
+    const content = node.content ?? index?.getContent(node.path);
+    return content === node.content ? node : { ...node, content };
   });
 
-  // Limit conversation history to last 5 messages
-  const recentMessages = messages.slice(-5).map(msg => ({
-    role: msg.role,
-    content: msg.content.substring(0, 500) // Limit each message to 500 chars
-  }));
-
-  // Create optimized context
-  const optimizedContext = {
-    userMessage: userMessage.substring(0, 1000), // Limit user message
-    selectedFiles: optimizedFiles.slice(0, 10), // Limit to 10 files max
-    conversationHistory: recentMessages,
-    currentTask: userMessage.substring(0, 200)
+// Retrieved chunks as line-range context files, skipping files attached whole
+const chunksToContextFiles = (chunks: RetrievedChunk[], attached: ContextFile[]): ContextFile[] => {
+  const attachedPaths = new Set(attached.map(file => file.path));
+  return chunks
+    .filter(chunk => !attachedPaths.has(chunk.path))
+    .map(chunk => ({ path: chunk.path, content: chunk.text, lines: { start: chunk.startLine, end: chunk.endLine } }));
+};
+
+// Saved memories relevant to a message among those scoped to the project and
+// the files in play; a storage failure only loses the memories
+const findRelevantMemories = async (
+  message: string,
+  project: ActiveProject | undefined,
+  paths: string[]
+): Promise<Memory[]> => {
+  try {
+    const inScope = (await memoryStore.list()).filter(memory => isInScope(memory, project, paths));
+    const retrieved = await retrieveMemories(message, inScope);
+    return retrieved.map(result => result.memory);
+  } catch (error) {
+    console.warn('Failed to retrieve memories:', error);
+    return [];
+  }
+};
+
+// Prompt-system templates receive the packed context in their own shape.
+// Before packing, the system prompt gets file paths without contents or
+// history, since the packer sends those as messages of their own
+const toPromptContext = (userMessage: string, context: FileSystemItem[], packed?: PackedContext): PromptContext => {
+  const packedByPath = new Map((packed?.files ?? []).map(file => [file.path, file]));
+  // Structure only; contents are in selectedFiles when packed
+  const structure = context.map(item => ({ ...item, content: undefined, children: undefined }));
+  return {
+    userMessage,
+    selectedFiles: packed
+      ? context
+        .filter(item => packedByPath.has(item.path))
+        .map(item => ({ ...item, content: packedByPath.get(item.path)?.content }))
+      : structure,
+    projectStructure: structure,
+    conversationHistory: packed?.history ?? [],
+    currentTask: userMessage
+  };
+};
+
+// A reply length asked for by the prompt's front-matter is reserved in place
+// of the configured one
+const promptBudgetFor = (config: ProviderConfig, prompt: Prompt | null | undefined): number =>
+  getPromptBudget({ model: config.model, maxTokens: prompt?.metadata?.modelHints?.maxTokens ?? config.maxTokens });
+
+const toCodeChanges = (changes: WorkspaceChange[], messageId: string): CodeChange[] => changes.map((change, index) => {
+  const fallbackDescription = change.originalContent === null
+    ? `Create ${change.path}`
+    : change.newContent === null ? `Delete ${change.path}` : `Edit ${change.path}`;
+
+  return {
+    id: `${Date.now()}-${index}`,
+    filePath: change.path,
+    fileName: change.path.split('/').pop() ?? change.path,
+    originalContent: change.originalContent ?? '',
+    newContent: change.newContent ?? '',
+    description: change.notes.join('; ') || fallbackDescription,
+    status: 'pending',
+    kind: change.originalContent === null ? 'create' : change.newContent === null ? 'delete' : 'modify',
+    messageId,
+    timestamp: new Date()
   };
+});
+
+const extractChanges = (response: string, files: FileSystemItem[], messageId: string): CodeChange[] => {
+  const { changes, errors } = parseChangesFromResponse(response, files);
+  if (errors.length > 0) {
+    console.warn('Some edits in the reply could not be applied:', errors);
+  }
+  return toCodeChanges(changes, messageId);
+};
+
+const indexFilesByPath = (items: FileSystemItem[]): Map<string, FileSystemItem> => {
+  const index = new Map<string, FileSystemItem>();
+  const visit = (nodes: FileSystemItem[]) => {
+    for (const node of nodes) {
+      if (node.type === 'file') index.set(normalizePath(node.path), node);
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(items);
+  return index;
+};
+
+/**
+ * Writes `content` to `path` through the file operations, creating or
+ * deleting the file as needed (`null` means the file should not exist).
+ * Keeps `fileIndex` in step so later writes in the same batch see it.
+ */
+const writeFileContent = async (
+  operations: ComposerFileOperations,
+  fileIndex: Map<string, FileSystemItem>,
+  path: string,
+  content: string | null
+): Promise<void> => {
+  const existing = fileIndex.get(path);
+
+  if (content === null) {
+    if (existing) {
+      await operations.deleteFile(existing.id);
+      fileIndex.delete(path);
+    }
+    return;
+  }
+
+  if (existing) {
+    const updated = { ...existing, content, size: content.length, lastModified: new Date() };
+    await operations.saveFile(updated);
+    fileIndex.set(path, updated);
+    return;
+  }
+
+  const separator = path.lastIndexOf('/');
+  const created = await operations.createFile(path.slice(separator + 1), path.slice(0, Math.max(separator, 0)), content);
+  fileIndex.set(path, created);
+};
 
-  return optimizedContext;
+// Context attached across a conversation's user messages, preferring the
+// current version of files that still exist in the project
+const restoreContext = (messages: Message[], files: FileSystemItem[]): FileSystemItem[] => {
+  const fileIndex = indexFilesByPath(files);
+  const restored = new Map<string, FileSystemItem>();
+  for (const message of messages) {
+    for (const item of message.context ?? []) {
+      restored.set(item.id, fileIndex.get(normalizePath(item.path)) ?? item);
+    }
+  }
+  return Array.from(restored.values());
 };
 
-export const useComposer = () => {
+const newConversationMeta = () => ({ id: Date.now().toString(), createdAt: new Date() });
+
+// Saving waits for a quiet moment so bursts of updates are written once
+const SAVE_DEBOUNCE_MS = 500;
+
+export interface UseComposerOptions {
+  // Project tree the agent's tools operate on
+  files?: FileSystemItem[];
+  // Where applied changes are written; without it changes can only be reviewed
+  fileOperations?: ComposerFileOperations;
+  // Index of `files` the agent's search tools start from
+  searchIndex?: SearchIndex;
+  maxAgentIterations?: number;
+  // Loaded project, which decides the memories in scope
+  project?: ActiveProject;
+}
+
+export const useComposer = (options: UseComposerOptions = {}) => {
+  const { files = [], fileOperations, searchIndex, maxAgentIterations = DEFAULT_MAX_ITERATIONS, project } = options;
+
   const [messages, setMessages] = useState<Message[]>([]);
   const [selectedContext, setSelectedContext] = useState<FileSystemItem[]>([]);
   const [pendingChanges, setPendingChanges] = useState<CodeChange[]>([]);
+  // Ctrl+K edits from the code editor, newest first; listed but not reviewed here
+  const [inlineEdits, setInlineEdits] = useState<CodeChange[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedPromptType, setSelectedPromptType] = useState<'agent' | 'chat' | 'memory'>('chat');
+  // Auto, or a mode the user picked for every message
+  const [routingMode, setRoutingMode] = useState<RoutingMode>('auto');
+  const [routerSettings, setRouterSettings] = useState(loadRouterSettings);
+  // How the last message was routed, shown beside the mode selector
+  const [lastRoute, setLastRoute] = useState<RouteDecision | null>(null);
+  const [lastApplyBatch, setLastApplyBatch] = useState<AppliedEntry[]>([]);
+  const [conversationMeta, setConversationMeta] = useState(newConversationMeta);
+  // How the attached context and history fit the model's prompt budget
+  const [contextReport, setContextReport] = useState<PackReport | null>(null);
+  // Messages/changes as last loaded or saved, so reopening a conversation does not re-save it
+  const persistedRef = useRef<{ messages: Message[]; changes: CodeChange[] } | null>(null);
 
   // Integrate with prompt system
   const {
     prompts,
     selectedPrompt,
     selectPrompt,
-    generateResponse,
-    getPromptsByType
+    generateResponse
   } = usePromptIntegration();
 
-  // Integrate with DeepSeek API
-  const { makeRequest: deepSeekRequest, isConfigured: deepSeekConfigured } = useDeepSeek();
+  // Integrate with the active LLM provider
+  const { stream: llmStream, completeChat: llmCompleteChat, isConfigured: llmConfigured, config: llmConfig } = useLLM();
+
+  // Relevant project chunks retrieved for each message when enabled
+  const autoContext = useAutoContext(options.files, searchIndex);
+  const { retrieve: retrieveAutoContext, reset: resetAutoContext } = autoContext;
+
+  // Controller for the in-flight streaming request, used by the Stop button
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop the reply or agent loop in flight when the Composer unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    conversationStore.list()
+      .then(setConversations)
+      .catch(err => console.warn('Failed to load conversation history:', err));
+    inlineEditHistory.list()
+      .then(setInlineEdits)
+      .catch(err => console.warn('Failed to load inline edits:', err));
+  }, []);
+
+  // Persist the session once a reply has finished
+  useEffect(() => {
+    if (isLoading || messages.length === 0) return;
+    const persisted = persistedRef.current;
+    if (persisted && persisted.messages === messages && persisted.changes === pendingChanges) return;
+
+    const timer = setTimeout(() => {
+      const conversation: Conversation = {
+        id: conversationMeta.id,
+        title: generateConversationTitle(messages),
+        messages,
+        changes: pendingChanges,
+        createdAt: conversationMeta.createdAt,
+        updatedAt: new Date()
+      };
+      persistedRef.current = { messages, changes: pendingChanges };
+      conversationStore.save(conversation)
+        .then(() => setConversations(prev => [conversation, ...prev.filter(existing => existing.id !== conversation.id)]))
+        .catch(err => console.warn('Failed to save conversation:', err));
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [messages, pendingChanges, isLoading, conversationMeta]);
+
+  // Preview of the next request's packing, so the token warning reflects
+  // what will actually be cut before anything is sent
+  useEffect(() => {
+    if (isLoading) return;
+    let cancelled = false;
+
+    loadTokenizer(llmConfig.model).then(tokenizer => {
+      if (cancelled) return;
+      setContextReport(packContext({
+        systemPrompt: selectedPrompt ? promptManager.renderPrompt(selectedPrompt, toPromptContext('', selectedContext)) : '',
+        userMessage: '',
+        history: toChatHistory(messages),
+        files: collectContextFiles(withIndexedContents(selectedContext, searchIndex)),
+        budget: promptBudgetFor(llmConfig, selectedPrompt),
+        tokenizer
+      }).report);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedContext, searchIndex, messages, selectedPrompt, llmConfig, isLoading]);
+
+  const updateMessageContent = useCallback((messageId: string, content: string) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId ? { ...message, content } : message
+    ));
+  }, []);
+
+  // Steps are reported twice (running, then finished) under the same id
+  const upsertMessageStep = useCallback((messageId: string, step: AgentStep) => {
+    setMessages(prev => prev.map(message => {
+      if (message.id !== messageId) return message;
+      const steps = message.steps ?? [];
+      const exists = steps.some(existing => existing.id === step.id);
+      return {
+        ...message,
+        steps: exists ? steps.map(existing => existing.id === step.id ? step : existing) : [...steps, step]
+      };
+    }));
+  }, []);
 
   const sendMessage = useCallback(async (content: string, context: FileSystemItem[] = []) => {
     if (!content.trim()) return;
@@ -124,83 +406,182 @@ export const useComposer = () => {
     setMessages(prev => [...prev, userMessage]);
 
     try {
-      // Auto-select appropriate prompt based on message content
-      const lowerContent = content.toLowerCase();
-      let promptType: 'agent' | 'chat' | 'memory' = 'chat';
-      
-      if (lowerContent.includes('refactor') || lowerContent.includes('implement') || 
-          lowerContent.includes('create') || lowerContent.includes('fix') ||
-          lowerContent.includes('optimize') || lowerContent.includes('analyze')) {
-        promptType = 'agent';
-      } else if (lowerContent.includes('memory') || lowerContent.includes('remember') ||
-                 lowerContent.includes('forget') || lowerContent.includes('recall')) {
-        promptType = 'memory';
-      }
-
-      setSelectedPromptType(promptType);
-
-      // Get the best prompt for this type
-      const availablePrompts = getPromptsByType(promptType);
-      const bestPrompt = availablePrompts.find(p => p.version === '1.2') || 
-                        availablePrompts.find(p => p.version === '1.0') || 
-                        availablePrompts[0];
+      const route = await routeMessage({
+        message: content,
+        files: context,
+        mode: routingMode,
+        settings: routerSettings,
+        prompts: promptManager.getAllPrompts(),
+        classify: llmConfigured ? request => llmCompleteChat(request) : undefined
+      });
+      setLastRoute(route);
+      const { mode: promptType, prompt: bestPrompt, message: messageText } = route;
 
       if (bestPrompt) {
         selectPrompt(bestPrompt.id);
       }
 
-      // Optimize context to stay within token limits
-      const optimizedContext = optimizeContextForAPI(context, messages, content);
+      // Agents pull file contents through tools, so only paths are attached
+      const agentTools = llmConfigured && bestPrompt && promptType === 'agent' ? getAgentTools() : [];
+      const isAgentRequest = agentTools.length > 0;
+
+      // Contents are read on demand; the index keeps them until a file changes
+      if (searchIndex && fileOperations) {
+        await searchIndex.sync(files, fileOperations.loadFileContent);
+      }
+      const projectFiles = withIndexedContents(files, searchIndex);
+      const contextFiles = withIndexedContents(context, searchIndex);
+
+      const attachedFiles = collectContextFiles(contextFiles);
+      const retrievedFiles = chunksToContextFiles(await retrieveAutoContext(messageText), attachedFiles);
+      resetAutoContext();
+
+      const memories = await findRelevantMemories(
+        messageText,
+        project,
+        [...attachedFiles, ...retrievedFiles].map(file => file.path)
+      );
+
+      const agentHints = [
+        context.length > 0 ? `Files attached by the user: ${context.map(file => file.path).join(', ')}` : '',
+        retrievedFiles.length > 0
+          ? `Possibly relevant code: ${retrievedFiles.map(file => `${file.path}:${file.lines?.start}-${file.lines?.end}`).join(', ')}`
+          : ''
+      ].filter(Boolean);
+
+      // Fit the request into the model's prompt budget; retrieved chunks come
+      // after the user's own files, so they are the first to be cut
+      const packed = packContext({
+        systemPrompt: [
+          bestPrompt ? promptManager.renderPrompt(bestPrompt, toPromptContext(messageText, context)) : '',
+          renderMemories(memories)
+        ].filter(Boolean).join('\n\n'),
+        userMessage: isAgentRequest && agentHints.length > 0
+          ? `${messageText}\n\n${agentHints.join('\n')}`
+          : messageText,
+        tools: agentTools,
+        history: toChatHistory(messages),
+        files: isAgentRequest ? [] : [...attachedFiles, ...retrievedFiles],
+        budget: promptBudgetFor(llmConfig, bestPrompt),
+        tokenizer: await loadTokenizer(llmConfig.model)
+      });
+      setContextReport(packed.report);
+      const promptContext = toPromptContext(messageText, context, packed);
 
       let aiResponseContent: string;
+      let agentChanges: CodeChange[] | null = null;
+      // The model answered, rather than the prompt-system fallback
+      let modelReplied = false;
+      // Temperature and reply length from the prompt's front-matter, if any
+      const sampling = {
+        temperature: bestPrompt?.metadata?.modelHints?.temperature,
+        maxTokens: bestPrompt?.metadata?.modelHints?.maxTokens
+      };
+
+      // Placeholder for the assistant reply; streamed deltas are written into it
+      const assistantMessage: Message = {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: '',
+        timestamp: new Date(),
+        context,
+        promptUsed: bestPrompt?.name,
+        routeReason: route.reason,
+        memoriesUsed: llmConfigured && bestPrompt && memories.length > 0
+          ? memories.map(memory => memory.title)
+          : undefined
+      };
       
-      // Try to use DeepSeek API if configured
-      if (deepSeekConfigured && bestPrompt) {
+      // Try to use the LLM provider if configured
+      if (llmConfigured && bestPrompt) {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        // Memories count as used once they are sent to the model
+        memoryStore.markUsed(memories.map(memory => memory.id))
+          .catch(err => console.warn('Failed to record memory access:', err));
+        setMessages(prev => [...prev, assistantMessage]);
+
         try {
-          const fullPrompt = `${bestPrompt.content}\n\nContext: ${JSON.stringify(optimizedContext)}\n\nUser Message: ${content}`;
-          aiResponseContent = await deepSeekRequest(fullPrompt, optimizedContext);
+          if (isAgentRequest) {
+            // Tools run against a working copy; edits come back as pending changes
+            const workspace = new AgentWorkspace([...projectFiles, ...contextFiles], searchIndex);
+            const result = await runAgentLoop({
+              messages: packed.messages,
+              tools: agentTools,
+              workspace,
+              complete: (request, signal) => llmCompleteChat({ ...sampling, ...request }, signal),
+              maxIterations: maxAgentIterations,
+              signal: controller.signal,
+              onStep: step => upsertMessageStep(assistantMessage.id, step)
+            });
+
+            aiResponseContent = result.hitIterationLimit
+              ? `${result.content}\n\n_Stopped after ${result.iterations} tool iterations._`
+              : result.content;
+            agentChanges = toCodeChanges(workspace.getChanges(), assistantMessage.id);
+          } else {
+            aiResponseContent = await llmStream({ messages: packed.messages, ...sampling }, {
+              signal: controller.signal,
+              onDelta: (_delta, streamed) => updateMessageContent(assistantMessage.id, streamed)
+            });
+          }
+          modelReplied = true;
         } catch (error) {
-          console.warn('DeepSeek API failed, falling back to prompt system:', error);
+          if (isAbortError(error)) {
+            // Stopped by the user: keep whatever was streamed so far
+            setMessages(prev => prev.filter(message =>
+              message.id !== assistantMessage.id || message.content.length > 0 || Boolean(message.steps?.length)
+            ));
+            return;
+          }
+
+          console.warn('LLM request failed, falling back to prompt system:', error);
           // Show user-friendly error message
           if (error instanceof Error && error.message.includes('CORS')) {
-            aiResponseContent = `⚠️ **API Connection Issue**: ${error.message}\n\nI'll continue with a simulated response for now:\n\n${await generateResponse(content, optimizedContext)}`;
+            aiResponseContent = `⚠️ **API Connection Issue**: ${error.message}\n\nI'll continue with a simulated response for now:\n\n${await generateResponse(messageText, promptContext)}`;
           } else if (error instanceof Error && error.message.includes('maximum context length')) {
-            aiResponseContent = `⚠️ **Token Limit Exceeded**: The context is too large for the AI model. I'll continue with a simplified response:\n\n${await generateResponse(content, { 
-              userMessage: content, 
+            aiResponseContent = `⚠️ **Token Limit Exceeded**: The context is too large for the AI model. I'll continue with a simplified response:\n\n${await generateResponse(messageText, { 
+              userMessage: messageText, 
               selectedFiles: context.slice(0, 3),
               projectStructure: context.slice(0, 3),
               conversationHistory: messages.slice(-2),
-              currentTask: content
+              currentTask: messageText
             })}`;
           } else {
-            aiResponseContent = await generateResponse(content, optimizedContext);
+            aiResponseContent = await generateResponse(messageText, promptContext);
           }
+        } finally {
+          abortControllerRef.current = null;
         }
-      } else if (bestPrompt) {
-        // Use prompt-based response
-        aiResponseContent = await generateResponse(content, optimizedContext);
-      } else {
-        // Fallback to original logic
-        aiResponseContent = await generateAIResponse(content, context);
-      }
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: aiResponseContent,
-        timestamp: new Date(),
-        context,
-        promptUsed: bestPrompt?.name
-      };
 
-      setMessages(prev => [...prev, assistantMessage]);
+        updateMessageContent(assistantMessage.id, aiResponseContent);
 
-      // If the AI response includes code changes, add them to pending changes
-      if (aiResponseContent.includes('changes') || aiResponseContent.includes('refactor')) {
-        const newChanges: CodeChange[] = generateCodeChangesFromResponse(aiResponseContent, context);
-        if (newChanges.length > 0) {
-          setPendingChanges(prev => [...prev, ...newChanges]);
+        // Propose memories from the finished exchange in the background
+        if (modelReplied && loadSuggestionsEnabled()) {
+          extractMemories({
+            conversationId: conversationMeta.id,
+            messages: [...messages, userMessage, { ...assistantMessage, content: aiResponseContent }],
+            complete: request => llmCompleteChat(request),
+            project
+          }).catch(err => console.warn('Memory extraction failed:', err));
         }
+      } else {
+        if (bestPrompt) {
+          // Use prompt-based response
+          aiResponseContent = await generateResponse(messageText, promptContext);
+        } else {
+          // Fallback to original logic
+          aiResponseContent = await generateAIResponse(messageText, context);
+        }
+
+        setMessages(prev => [...prev, { ...assistantMessage, content: aiResponseContent }]);
+      }
+
+      // Agent edits are already concrete; otherwise extract them from the reply
+      const newChanges = agentChanges
+        ?? extractChanges(aiResponseContent, [...projectFiles, ...contextFiles], assistantMessage.id);
+      if (newChanges.length > 0) {
+        setPendingChanges(prev => [...prev, ...newChanges]);
       }
 
     } catch (err) {
@@ -208,7 +589,44 @@ export const useComposer = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [messages, getPromptsByType, selectPrompt, generateResponse]);
+  }, [
+    messages,
+    files,
+    fileOperations,
+    searchIndex,
+    project,
+    conversationMeta.id,
+    maxAgentIterations,
+    llmConfig,
+    retrieveAutoContext,
+    resetAutoContext,
+    routingMode,
+    routerSettings,
+    selectPrompt,
+    generateResponse,
+    llmConfigured,
+    llmStream,
+    llmCompleteChat,
+    updateMessageContent,
+    upsertMessageStep
+  ]);
+
+  // A fixed mode shows its prompt right away, so the token preview uses it
+  const changeRoutingMode = useCallback((mode: RoutingMode) => {
+    setRoutingMode(mode);
+    if (mode === 'auto') return;
+    const { prompt } = pickPrompt(promptManager.getAllPrompts(), mode, routerSettings);
+    if (prompt) selectPrompt(prompt.id);
+  }, [routerSettings, selectPrompt]);
+
+  const updateRouterSettings = useCallback((settings: RouterSettings) => {
+    saveRouterSettings(settings);
+    setRouterSettings(settings);
+  }, []);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const addContext = useCallback((item: FileSystemItem) => {
     setSelectedContext(prev => {
@@ -223,25 +641,182 @@ export const useComposer = () => {
     setSelectedContext(prev => prev.filter(item => item.id !== itemId));
   }, []);
 
-  const applyChanges = useCallback(async () => {
-    // Apply pending changes
-    setPendingChanges([]);
+  /**
+   * Applies one change (or every pending one) to the file tree. A change
+   * whose file no longer matches its `originalContent` is marked `conflict`
+   * and left untouched until it is rebased or rejected. Applied changes form
+   * the batch `undoLastApply` reverts.
+   */
+  const applyChanges = useCallback(async (changeId?: string): Promise<ApplyResult> => {
+    const result: ApplyResult = { applied: [], conflicts: [] };
+    if (!fileOperations) {
+      setError('No file system is connected; changes can only be reviewed');
+      return result;
+    }
+
+    const targets = pendingChanges.filter(change => (!changeId || change.id === changeId) && change.status === 'pending');
+    const fileIndex = indexFilesByPath(files);
+    const batch: AppliedEntry[] = [];
+    const statuses = new Map<string, CodeChange['status']>();
+
+    try {
+      for (const change of targets) {
+        const path = normalizePath(change.filePath);
+        const kind = change.kind ?? 'modify';
+        const existing = fileIndex.get(path);
+        const currentContent = existing ? await fileOperations.loadFileContent(existing) : null;
+        const expectedContent = kind === 'create' ? null : change.originalContent;
+
+        if (currentContent !== expectedContent) {
+          statuses.set(change.id, 'conflict');
+          result.conflicts.push(change);
+          continue;
+        }
+
+        const isAccepted = (hunkIndex: number) => change.hunkDecisions?.[hunkIndex] !== 'rejected';
+        const { hunks } = computeDiff(change.originalContent, change.newContent);
+        if (hunks.length > 0 && hunks.every((_, index) => !isAccepted(index))) {
+          statuses.set(change.id, 'rejected');
+          continue;
+        }
+
+        const nextContent = kind === 'delete'
+          ? null
+          : applyHunks(change.originalContent, change.newContent, isAccepted);
+
+        await writeFileContent(fileOperations, fileIndex, path, nextContent);
+        batch.push({ changeId: change.id, path, previousContent: currentContent });
+        statuses.set(change.id, 'applied');
+        result.applied.push(change);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply changes');
+    }
+
+    setPendingChanges(prev => prev.map(change => {
+      const status = statuses.get(change.id);
+      return status ? { ...change, status } : change;
+    }));
+    if (batch.length > 0) {
+      setLastApplyBatch(batch);
+    }
+
+    return result;
+  }, [pendingChanges, files, fileOperations]);
+
+  /**
+   * Moves a conflicting edit onto the file's current content: its accepted
+   * hunks are re-applied there and it becomes pending again, to be reviewed
+   * and applied as usual. Throws when a hunk no longer fits the file.
+   */
+  const rebaseChange = useCallback(async (changeId: string) => {
+    const change = pendingChanges.find(candidate => candidate.id === changeId);
+    if (!change || change.status !== 'conflict') return;
+
+    const existing = indexFilesByPath(files).get(normalizePath(change.filePath));
+    if ((change.kind ?? 'modify') !== 'modify' || !existing) {
+      throw new Error(`${change.fileName} was created or deleted since the edit was proposed; reject the change instead`);
+    }
+
+    const currentContent = fileOperations
+      ? await fileOperations.loadFileContent(existing)
+      : existing.content ?? '';
+    const newContent = rebaseHunks(
+      change.originalContent,
+      change.newContent,
+      currentContent,
+      hunkIndex => change.hunkDecisions?.[hunkIndex] !== 'rejected'
+    );
+    setPendingChanges(prev => prev.map(candidate => candidate.id === changeId
+      ? { ...candidate, originalContent: currentContent, newContent, status: 'pending', hunkDecisions: undefined }
+      : candidate
+    ));
+  }, [pendingChanges, files, fileOperations]);
+
+  const undoLastApply = useCallback(async () => {
+    if (!fileOperations || lastApplyBatch.length === 0) return;
+
+    const fileIndex = indexFilesByPath(files);
+    try {
+      // Newest first, so a file touched twice ends at its oldest content
+      for (const entry of [...lastApplyBatch].reverse()) {
+        await writeFileContent(fileOperations, fileIndex, entry.path, entry.previousContent);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo changes');
+      return;
+    }
+
+    const revertedIds = new Set(lastApplyBatch.map(entry => entry.changeId));
+    setPendingChanges(prev => prev.map(change =>
+      revertedIds.has(change.id) ? { ...change, status: 'pending' } : change
+    ));
+    setLastApplyBatch([]);
+  }, [files, fileOperations, lastApplyBatch]);
+
+  const rejectChanges = useCallback((changeId?: string) => {
+    setPendingChanges(prev => prev.map(change =>
+      (!changeId || change.id === changeId) && (change.status === 'pending' || change.status === 'conflict')
+        ? { ...change, status: 'rejected' }
+        : change
+    ));
   }, []);
 
-  const rejectChanges = useCallback(() => {
-    setPendingChanges([]);
+  // `undefined` clears the decision, which applies the hunk by default
+  const setHunkDecision = useCallback((changeId: string, hunkIndex: number, decision?: HunkDecision) => {
+    setPendingChanges(prev => prev.map(change => {
+      if (change.id !== changeId) return change;
+      const hunkDecisions = { ...change.hunkDecisions };
+      if (decision) {
+        hunkDecisions[hunkIndex] = decision;
+      } else {
+        delete hunkDecisions[hunkIndex];
+      }
+      return { ...change, hunkDecisions };
+    }));
   }, []);
 
+  // Starts a new conversation; the current one stays in the history
   const clearConversation = useCallback(() => {
+    abortControllerRef.current?.abort();
     setMessages([]);
     setSelectedContext([]);
     setPendingChanges([]);
+    setLastApplyBatch([]);
     setError(null);
+    setConversationMeta(newConversationMeta());
+    persistedRef.current = null;
   }, []);
 
   const loadConversation = useCallback((conversation: Conversation) => {
+    abortControllerRef.current?.abort();
+    persistedRef.current = { messages: conversation.messages, changes: conversation.changes };
     setMessages(conversation.messages);
     setPendingChanges(conversation.changes);
+    setSelectedContext(restoreContext(conversation.messages, files));
+    setLastApplyBatch([]);
+    setError(null);
+    setConversationMeta({ id: conversation.id, createdAt: conversation.createdAt });
+  }, [files]);
+
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    await conversationStore.delete(conversationId);
+    setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+    // Otherwise the next save would bring it back
+    if (conversationId === conversationMeta.id) clearConversation();
+  }, [conversationMeta.id, clearConversation]);
+
+  const clearHistory = useCallback(async () => {
+    await conversationStore.clear();
+    setConversations([]);
+    clearConversation();
+  }, [clearConversation]);
+
+  // Accepts the JSON written by the history panel's export
+  const importConversation = useCallback(async (json: string): Promise<Conversation> => {
+    const conversation = await conversationStore.importJSON(json);
+    setConversations(prev => [conversation, ...prev].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+    return conversation;
   }, []);
 
   // Original AI response generation (fallback)
@@ -416,50 +991,39 @@ Let me analyze your code and suggest security improvements.`;
 What would you like to work on?`;
   };
 
-  // Helper function to generate code changes from AI response
-  const generateCodeChangesFromResponse = (response: string, context: FileSystemItem[]): CodeChange[] => {
-    const changes: CodeChange[] = [];
-    
-    // This is a simplified implementation - in a real app, you'd parse the response more intelligently
-    if (response.includes('refactor') || response.includes('improve')) {
-      context.forEach(file => {
-        if (file.content && (file.name.endsWith('.ts') || file.name.endsWith('.tsx') || file.name.endsWith('.js'))) {
-          changes.push({
-            id: `${Date.now()}-${file.id}`,
-            filePath: file.path,
-            fileName: file.name,
-            originalContent: file.content,
-            newContent: `// Enhanced ${file.name} with improvements
-${file.content}
-// TODO: Apply suggested improvements`,
-            description: `Enhanced ${file.name} with suggested improvements`,
-            status: 'pending',
-            timestamp: new Date()
-          });
-        }
-      });
-    }
-    
-    return changes;
-  };
-
   return {
     messages,
     selectedContext,
     pendingChanges,
+    inlineEdits,
     isLoading,
     error,
     conversations,
-    selectedPromptType,
+    conversationId: conversationMeta.id,
+    contextReport,
+    autoContext,
+    routingMode,
+    changeRoutingMode,
+    routerSettings,
+    updateRouterSettings,
+    lastRoute,
     prompts,
     selectedPrompt,
     sendMessage,
+    stopGeneration,
     addContext,
     removeContext,
     applyChanges,
+    rebaseChange,
     rejectChanges,
+    setHunkDecision,
+    undoLastApply,
+    canUndoApply: lastApplyBatch.length > 0,
     clearConversation,
     loadConversation,
+    deleteConversation,
+    clearHistory,
+    importConversation,
     selectPrompt
   };
 }; 
\ No newline at end of file
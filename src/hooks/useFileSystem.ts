@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
+import { SearchIndex, getSearchIndex } from '@/lib/search/searchIndex';
 
 export interface UseFileSystemOptions {
   initialFiles?: FileSystemItem[];
@@ -19,6 +20,10 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
   const [error, setError] = useState<string | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
+  // Service-backed trees share one index per service
+  const [localIndex] = useState(() => new SearchIndex());
+  const searchIndex = service ? getSearchIndex(service) : localIndex;
+  const hasLoadedRef = useRef(false);
 
   // Load files from service or use initial files
   const loadFiles = useCallback(async () => {
@@ -29,6 +34,7 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
     
     try {
       const loadedFiles = await service.loadFiles();
+      hasLoadedRef.current = true;
       setFiles(loadedFiles);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load files');
@@ -44,71 +50,81 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
     }
   }, [autoLoad, service, loadFiles]);
 
-  // File operations
+  // Keep the search index in step with the tree. A tree that is about to be
+  // loaded is not synced yet, which would empty a shared index.
+  useEffect(() => {
+    if (autoLoad && service && !hasLoadedRef.current) return;
+    searchIndex.sync(files, service ? item => service.getFileContent(item.id) : undefined)
+      .catch(err => console.warn('Failed to index files:', err));
+  }, [files, service, autoLoad, searchIndex]);
+
+  // File operations. Each updates the index right away, so searches see the
+  // change before the tree re-renders.
   const createFile = useCallback(async (name: string, path: string, content = '') => {
     if (!service) {
       // Create file locally
+      const filePath = path ? `${path}/${name}` : name;
       const newFile: FileSystemItem = {
-        id: `${path}/${name}`,
+        id: filePath,
         name,
         type: 'file',
-        path: `${path}/${name}`,
+        path: filePath,
         content,
         lastModified: new Date(),
         size: content.length
       };
       
-      setFiles(prev => {
-        const newFiles = [...prev];
-        const parentFolder = findFolderByPath(newFiles, path);
-        if (parentFolder) {
-          parentFolder.children = parentFolder.children || [];
-          parentFolder.children.push(newFile);
-        }
-        return newFiles;
-      });
+      setFiles(prev => insertItem(prev, newFile, path));
+      searchIndex.updateFile(newFile.path, content);
       
       return newFile;
     }
 
     try {
       const newFile = await service.createFile(name, path, content);
-      setFiles(prev => [...prev, newFile]);
+      setFiles(prev => insertItem(prev, newFile, path));
+      searchIndex.updateFile(newFile.path, content);
       return newFile;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create file');
       throw err;
     }
+  }, [service, searchIndex]);
+
+  // Service-backed trees are listed without contents; read them on demand.
+  // Not cached in the tree, since other components may write through the service.
+  const loadFileContent = useCallback(async (file: FileSystemItem): Promise<string> => {
+    if (!service) return file.content ?? '';
+
+    try {
+      return await service.getFileContent(file.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load file content');
+      throw err;
+    }
   }, [service]);
 
   const createFolder = useCallback(async (name: string, path: string) => {
     if (!service) {
       // Create folder locally
+      const folderPath = path ? `${path}/${name}` : name;
       const newFolder: FileSystemItem = {
-        id: `${path}/${name}`,
+        id: folderPath,
         name,
         type: 'folder',
-        path: `${path}/${name}`,
+        path: folderPath,
         lastModified: new Date(),
         children: []
       };
       
-      setFiles(prev => {
-        const newFiles = [...prev];
-        const parentFolder = findFolderByPath(newFiles, path);
-        if (parentFolder) {
-          parentFolder.children = parentFolder.children || [];
-          parentFolder.children.push(newFolder);
-        }
-        return newFiles;
-      });
+      setFiles(prev => insertItem(prev, newFolder, path));
       
       return newFolder;
     }
 
     try {
       const newFolder = await service.createFolder(name, path);
-      setFiles(prev => [...prev, newFolder]);
+      setFiles(prev => insertItem(prev, newFolder, path));
       return newFolder;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create folder');
@@ -117,9 +133,11 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
   }, [service]);
 
   const deleteFile = useCallback(async (fileId: string) => {
+    const path = findItemById(files, fileId)?.path;
     if (!service) {
       // Delete file locally
       setFiles(prev => removeFileById(prev, fileId));
+      if (path) searchIndex.removePath(path);
       setSelectedFiles(prev => {
         const newSet = new Set(prev);
         newSet.delete(fileId);
@@ -131,6 +149,7 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
     try {
       await service.deleteFile(fileId);
       setFiles(prev => removeFileById(prev, fileId));
+      if (path) searchIndex.removePath(path);
       setSelectedFiles(prev => {
         const newSet = new Set(prev);
         newSet.delete(fileId);
@@ -140,7 +159,7 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
       setError(err instanceof Error ? err.message : 'Failed to delete file');
       throw err;
     }
-  }, [service]);
+  }, [service, files, searchIndex]);
 
   const renameFile = useCallback(async (fileId: string, newName: string) => {
     if (!service) {
@@ -151,28 +170,31 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
 
     try {
       await service.renameFile(fileId, newName);
-      setFiles(prev => renameFileById(prev, fileId, newName));
+      // Renaming changes the paths (and ids) of the item and anything inside it
+      await loadFiles();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to rename file');
       throw err;
     }
-  }, [service]);
+  }, [service, loadFiles]);
 
   const saveFile = useCallback(async (file: FileSystemItem) => {
     if (!service) {
       // Save file locally
       setFiles(prev => updateFileById(prev, file));
+      if (file.content !== undefined) searchIndex.updateFile(file.path, file.content);
       return;
     }
 
     try {
       await service.saveFile(file);
       setFiles(prev => updateFileById(prev, file));
+      if (file.content !== undefined) searchIndex.updateFile(file.path, file.content);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save file');
       throw err;
     }
-  }, [service]);
+  }, [service, searchIndex]);
 
   const toggleFolder = useCallback((folderId: string) => {
     setExpandedFolders(prev => {
@@ -203,33 +225,8 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
   }, []);
 
   // Helper functions
-  const findFileById = useCallback((fileId: string): FileSystemItem | null => {
-    const findInTree = (items: FileSystemItem[]): FileSystemItem | null => {
-      for (const item of items) {
-        if (item.id === fileId) return item;
-        if (item.children) {
-          const found = findInTree(item.children);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
-    return findInTree(files);
-  }, [files]);
-
-  const findFolderByPath = useCallback((items: FileSystemItem[], path: string): FileSystemItem | null => {
-    const findInTree = (items: FileSystemItem[]): FileSystemItem | null => {
-      for (const item of items) {
-        if (item.path === path && item.type === 'folder') return item;
-        if (item.children) {
-          const found = findInTree(item.children);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
-    return findInTree(items);
-  }, []);
+  const findFileById = useCallback((fileId: string): FileSystemItem | null =>
+    findItemById(files, fileId), [files]);
 
   return {
     // State
@@ -246,10 +243,12 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
     deleteFile,
     renameFile,
     saveFile,
+    loadFileContent,
     toggleFolder,
     selectFile,
     clearSelection,
     findFileById,
+    searchIndex,
     
     // Utilities
     setFiles,
@@ -259,6 +258,33 @@ export const useFileSystem = (options: UseFileSystemOptions = {}) => {
 };
 
 // Helper functions for file tree manipulation
+const findItemById = (items: FileSystemItem[], fileId: string): FileSystemItem | null => {
+  for (const item of items) {
+    if (item.id === fileId) return item;
+    if (item.children) {
+      const found = findItemById(item.children, fileId);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Adds `item` under the folder at `parentPath`, or at the root when that
+// folder isn't in the tree
+const insertItem = (items: FileSystemItem[], item: FileSystemItem, parentPath: string): FileSystemItem[] => {
+  let inserted = false;
+  const visit = (nodes: FileSystemItem[]): FileSystemItem[] => nodes.map(node => {
+    if (!inserted && node.type === 'folder' && node.path === parentPath) {
+      inserted = true;
+      return { ...node, children: [...(node.children ?? []), item] };
+    }
+    return node.children ? { ...node, children: visit(node.children) } : node;
+  });
+
+  const updated = parentPath ? visit(items) : items;
+  return inserted ? updated : [...items, item];
+};
+
 const removeFileById = (items: FileSystemItem[], fileId: string): FileSystemItem[] => {
   return items.filter(item => {
     if (item.id === fileId) return false;
@@ -0,0 +1,63 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useLLM } from '@/components/LLMProvider';
+import { isAbortError } from '@/lib/sse';
+import { getPromptBudget } from '@/lib/llm/models';
+import { loadTokenizer } from '@/lib/tokenizer';
+import { InlineEditRequest, buildInlineEditMessages, extractReplacement } from '@/lib/inlineEdit';
+
+export type InlineEditStatus = 'idle' | 'generating' | 'error';
+
+/**
+ * Requests a replacement for a selected range through the active LLM
+ * provider. `generate` resolves with the replacement text, or null when the
+ * request was cancelled or failed (see `error`).
+ */
+export const useInlineEdit = () => {
+  const { stream, config } = useLLM();
+  const [status, setStatus] = useState<InlineEditStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  // Characters received so far, for progress while streaming
+  const [received, setReceived] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const generate = useCallback(async (request: InlineEditRequest): Promise<string | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('generating');
+    setError(null);
+    setReceived(0);
+
+    try {
+      const tokenizer = await loadTokenizer(config.model);
+      const messages = buildInlineEditMessages(request, getPromptBudget(config), tokenizer);
+      const response = await stream({ messages }, {
+        signal: controller.signal,
+        onDelta: (_delta, content) => setReceived(content.length)
+      });
+      setStatus('idle');
+      return extractReplacement(response, request.content.slice(request.from, request.to));
+    } catch (err) {
+      if (isAbortError(err)) {
+        setStatus('idle');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to generate the edit');
+        setStatus('error');
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [stream, config]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus('idle');
+    setError(null);
+  }, []);
+
+  return { status, error, received, generate, cancel };
+};
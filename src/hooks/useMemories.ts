@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Memory, MemorySuggestion, memoryStore } from '@/lib/memoryStore';
+import { ActiveProject } from '@/types/project';
+import { loadSuggestionsEnabled, saveSuggestionsEnabled } from '@/lib/memoryExtraction';
+import {
+  MemoryOverlap,
+  MemorySettings,
+  findOverlaps,
+  loadMemorySettings,
+  mergeMemories,
+  overlapKey,
+  saveMemorySettings
+} from '@/lib/memoryPolicy';
+
+export type NewMemory = Pick<Memory, 'type' | 'title' | 'content' | 'tags' | 'context' | 'promptUsed' | 'scope'>;
+
+// New memories start mid-scale; the user raises or lowers them from the panel
+const DEFAULT_RELEVANCE_SCORE = 75;
+// Overlaps the user chose to keep apart
+const DISMISSED_MERGES_KEY = 'memory-merge-dismissed';
+
+const loadDismissedMerges = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_MERGES_KEY) ?? '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Persisted memories and pending suggestions for the Memory panel. Both
+ * reload whenever the store changes, including access counts updated and
+ * suggestions queued by the Composer. Also exposes the decay and pruning
+ * settings, the overlapping memories that could be merged, and importing a
+ * project's memory file.
+ */
+export const useMemories = () => {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [suggestions, setSuggestions] = useState<MemorySuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [suggestionsEnabled, setSuggestionsEnabledState] = useState(loadSuggestionsEnabled);
+  const [settings, setSettings] = useState(loadMemorySettings);
+  const [overlaps, setOverlaps] = useState<MemoryOverlap[]>([]);
+  const [dismissedMerges, setDismissedMerges] = useState(loadDismissedMerges);
+
+  const reload = useCallback(() => {
+    Promise.all([memoryStore.list(), memoryStore.listSuggestions()])
+      .then(([loadedMemories, loadedSuggestions]) => {
+        setMemories(loadedMemories);
+        setSuggestions(loadedSuggestions);
+      })
+      .catch(err => console.warn('Failed to load memories:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return memoryStore.subscribe(reload);
+  }, [reload]);
+
+  useEffect(() => {
+    let cancelled = false;
+    findOverlaps(memories, dismissedMerges)
+      .then(found => {
+        if (!cancelled) setOverlaps(found);
+      })
+      .catch(err => console.warn('Failed to compare memories:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [memories, dismissedMerges]);
+
+  const addMemory = useCallback(async (memory: NewMemory): Promise<Memory> => {
+    const now = new Date();
+    const created: Memory = {
+      ...memory,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      relevanceScore: DEFAULT_RELEVANCE_SCORE,
+      lastAccessed: now,
+      createdAt: now,
+      accessCount: 0
+    };
+    await memoryStore.save(created);
+    return created;
+  }, []);
+
+  const updateMemory = useCallback((memory: Memory) => memoryStore.save(memory), []);
+
+  const deleteMemory = useCallback((id: string) => memoryStore.delete(id), []);
+
+  const approveSuggestion = useCallback(
+    (suggestion: MemorySuggestion, promptUsed?: string) => memoryStore.approveSuggestion(suggestion, promptUsed),
+    []
+  );
+
+  const dismissSuggestion = useCallback((id: string) => memoryStore.dismissSuggestion(id), []);
+
+  const importMemories = useCallback(
+    (json: string, project: ActiveProject) => memoryStore.importJSON(json, project),
+    []
+  );
+
+  const togglePinned = useCallback((memory: Memory) => memoryStore.save({ ...memory, pinned: !memory.pinned }), []);
+
+  const mergeOverlap = useCallback(
+    ({ a, b }: MemoryOverlap) => memoryStore.merge(mergeMemories(a, b), [a.id, b.id]),
+    []
+  );
+
+  const dismissOverlap = useCallback(({ a, b }: MemoryOverlap) => {
+    setDismissedMerges(prev => {
+      const next = new Set(prev).add(overlapKey(a, b));
+      localStorage.setItem(DISMISSED_MERGES_KEY, JSON.stringify(Array.from(next)));
+      return next;
+    });
+  }, []);
+
+  // A lower cap takes effect immediately
+  const updateSettings = useCallback(async (updates: Partial<MemorySettings>): Promise<number> => {
+    const next = { ...loadMemorySettings(), ...updates };
+    saveMemorySettings(next);
+    setSettings(next);
+    return memoryStore.prune();
+  }, []);
+
+  const setSuggestionsEnabled = useCallback((enabled: boolean) => {
+    setSuggestionsEnabledState(enabled);
+    saveSuggestionsEnabled(enabled);
+  }, []);
+
+  return {
+    memories,
+    suggestions,
+    isLoading,
+    addMemory,
+    updateMemory,
+    deleteMemory,
+    approveSuggestion,
+    dismissSuggestion,
+    importMemories,
+    suggestionsEnabled,
+    setSuggestionsEnabled,
+    settings,
+    updateSettings,
+    togglePinned,
+    overlaps,
+    mergeOverlap,
+    dismissOverlap
+  };
+};
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { promptManager, Prompt, PromptContext } from '@/lib/promptManager';
+import { promptManager, NewPrompt, Prompt, PromptContext, SAMPLE_PROMPT_CONTEXT } from '@/lib/promptManager';
+import { TemplateIssue } from '@/lib/promptTemplate';
+import { PromptRevision } from '@/lib/promptHistory';
 import { FileSystemItem } from '@/types/fileSystem';
 
 export interface PromptIntegrationState {
@@ -17,6 +19,11 @@ export interface UsePromptIntegrationReturn extends PromptIntegrationState {
   updatePrompt: (promptId: string, content: string) => Promise<void>;
   getPromptsByType: (type: string) => Prompt[];
   getPromptById: (id: string) => Prompt | undefined;
+  previewPrompt: (promptId: string, content: string) => { output: string; issues: TemplateIssue[] };
+  getRevisions: (promptId: string) => Promise<PromptRevision[]>;
+  restoreRevision: (promptId: string, revision: PromptRevision) => Promise<void>;
+  forkPrompt: (promptId: string, name: string, version?: string) => Promise<Prompt>;
+  createPrompt: (draft: NewPrompt) => Promise<Prompt>;
 }
 
 export const usePromptIntegration = (): UsePromptIntegrationReturn => {
@@ -77,26 +84,49 @@ export const usePromptIntegration = (): UsePromptIntegrationReturn => {
     }
   }, [state.selectedPrompt]);
 
+  // Picks up edits made through the manager
+  const refreshPrompts = useCallback(() => {
+    const prompts = promptManager.getAllPrompts();
+    const stats = promptManager.getPromptStats();
+
+    setState(prev => ({
+      ...prev,
+      prompts,
+      stats
+    }));
+  }, []);
+
   const updatePrompt = useCallback(async (promptId: string, content: string) => {
     try {
       await promptManager.updatePrompt(promptId, content);
-      
-      // Refresh prompts
-      const prompts = promptManager.getAllPrompts();
-      const stats = promptManager.getPromptStats();
-      
-      setState(prev => ({
-        ...prev,
-        prompts,
-        stats
-      }));
+      refreshPrompts();
     } catch (error) {
       setState(prev => ({
         ...prev,
         error: error instanceof Error ? error.message : 'Failed to update prompt'
       }));
     }
-  }, []);
+  }, [refreshPrompts]);
+
+  const getRevisions = useCallback((promptId: string) => promptManager.getRevisions(promptId), []);
+
+  // Unlike updatePrompt, these reject so the registry can report the failure
+  const restoreRevision = useCallback(async (promptId: string, revision: PromptRevision) => {
+    await promptManager.restoreRevision(promptId, revision);
+    refreshPrompts();
+  }, [refreshPrompts]);
+
+  const forkPrompt = useCallback(async (promptId: string, name: string, version?: string) => {
+    const prompt = await promptManager.forkPrompt(promptId, name, version);
+    refreshPrompts();
+    return prompt;
+  }, [refreshPrompts]);
+
+  const createPrompt = useCallback(async (draft: NewPrompt) => {
+    const prompt = await promptManager.createPrompt(draft);
+    refreshPrompts();
+    return prompt;
+  }, [refreshPrompts]);
 
   const getPromptsByType = useCallback((type: string): Prompt[] => {
     return promptManager.getPromptsByType(type);
@@ -106,6 +136,11 @@ export const usePromptIntegration = (): UsePromptIntegrationReturn => {
     return promptManager.getPrompt(id);
   }, []);
 
+  // Renders unsaved content against sample context
+  const previewPrompt = useCallback((promptId: string, content: string) => {
+    return promptManager.previewPrompt(promptId, content, SAMPLE_PROMPT_CONTEXT);
+  }, []);
+
   // Load prompts on mount
   useEffect(() => {
     loadPrompts();
@@ -118,6 +153,11 @@ export const usePromptIntegration = (): UsePromptIntegrationReturn => {
     generateResponse,
     updatePrompt,
     getPromptsByType,
-    getPromptById
+    getPromptById,
+    previewPrompt,
+    getRevisions,
+    restoreRevision,
+    forkPrompt,
+    createPrompt
   };
 }; 
\ No newline at end of file
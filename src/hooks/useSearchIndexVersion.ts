@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { SearchIndex } from '@/lib/search/searchIndex';
+
+/**
+ * Re-renders the caller whenever `index` changes; use the returned version
+ * as a memo dependency for search results.
+ */
+export const useSearchIndexVersion = (index: SearchIndex | null | undefined): number => {
+  const [version, setVersion] = useState(() => index?.getVersion() ?? 0);
+
+  useEffect(() => {
+    if (!index) return;
+    setVersion(index.getVersion());
+    return index.subscribe(() => setVersion(index.getVersion()));
+  }, [index]);
+
+  return version;
+};
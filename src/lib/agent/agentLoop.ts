@@ -0,0 +1,97 @@
+import { AssistantTurn, ChatMessage, CompletionRequest, ToolDefinition } from '@/lib/llm/types';
+import { AgentWorkspace } from './workspace';
+import { describeToolCall, executeToolCall } from './tools';
+
+export const DEFAULT_MAX_ITERATIONS = 10;
+
+export interface AgentStep {
+  id: string;
+  toolName: string;
+  label: string;
+  status: 'running' | 'done' | 'error';
+  output?: string;
+}
+
+export interface AgentLoopOptions {
+  messages: ChatMessage[];
+  tools: ToolDefinition[];
+  workspace: AgentWorkspace;
+  complete: (request: CompletionRequest, signal?: AbortSignal) => Promise<AssistantTurn>;
+  maxIterations?: number;
+  signal?: AbortSignal;
+  // Called when a step starts and again when it finishes (same `id`)
+  onStep?: (step: AgentStep) => void;
+}
+
+export interface AgentLoopResult {
+  content: string;
+  steps: AgentStep[];
+  iterations: number;
+  hitIterationLimit: boolean;
+}
+
+const ITERATION_LIMIT_MESSAGE = 'You have reached the maximum number of tool calls for this request. Do not call any more tools. Summarize what you changed and what is left to do.';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+};
+
+/**
+ * Runs the model with tools until it answers without calling any. Each tool
+ * call is executed against the workspace and its result appended to the
+ * conversation for the next iteration. Once `maxIterations` model turns have
+ * been spent, one final turn asks the model to wrap up without tools.
+ */
+export const runAgentLoop = async ({
+  messages: initialMessages,
+  tools,
+  workspace,
+  complete,
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+  signal,
+  onStep
+}: AgentLoopOptions): Promise<AgentLoopResult> => {
+  const messages = [...initialMessages];
+  const steps: AgentStep[] = [];
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    throwIfAborted(signal);
+    const turn = await complete({ messages, tools }, signal);
+
+    if (turn.toolCalls.length === 0) {
+      return { content: turn.content, steps, iterations: iteration, hitIterationLimit: false };
+    }
+
+    messages.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+
+    for (const call of turn.toolCalls) {
+      throwIfAborted(signal);
+      const step: AgentStep = {
+        id: `${iteration}-${call.id}`,
+        toolName: call.name,
+        label: describeToolCall(call),
+        status: 'running'
+      };
+      onStep?.(step);
+
+      const result = await executeToolCall(workspace, call);
+      const finished: AgentStep = { ...step, status: result.isError ? 'error' : 'done', output: result.output };
+      steps.push(finished);
+      onStep?.(finished);
+
+      messages.push({ role: 'tool', toolCallId: call.id, content: result.output });
+    }
+  }
+
+  // Tools stay declared because some providers reject tool calls in the
+  // history otherwise; any further calls are ignored
+  throwIfAborted(signal);
+  const final = await complete({
+    messages: [...messages, { role: 'user', content: ITERATION_LIMIT_MESSAGE }],
+    tools
+  }, signal);
+
+  return { content: final.content, steps, iterations: maxIterations, hitIterationLimit: true };
+};
@@ -0,0 +1,409 @@
+import { promptManager } from '@/lib/promptManager';
+import { matchesGlob } from '@/lib/glob';
+import { tokenize } from '@/lib/search/searchIndex';
+import { ToolCall, ToolDefinition } from '@/lib/llm/types';
+import { SymbolDefinition } from '@/lib/language/protocol';
+import { AgentWorkspace, normalizePath } from './workspace';
+
+// Tools from `Agent Tools v1.0.json` that can run against the in-browser
+// workspace. Terminal, web and notebook tools need a backend we don't have.
+export const EXECUTABLE_TOOLS = [
+  'codebase_search',
+  'read_file',
+  'list_dir',
+  'grep_search',
+  'edit_file',
+  'search_replace',
+  'file_search',
+  'delete_file'
+];
+
+// Tools of our own, offered alongside the executable ones from the prompt
+const LOCAL_TOOLS: ToolDefinition[] = [
+  {
+    name: 'go_to_definition',
+    description: 'Show the source of the declaration of a function, class, interface, type, enum or variable by its exact name. TypeScript and JavaScript symbols are resolved by the TypeScript language service, other languages by their declaration syntax. Prefer this over grep_search when you know the identifier.',
+    parameters: {
+      type: 'object',
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'The identifier to look up, e.g. useFileSystem or ProjectRecord.'
+        },
+        explanation: {
+          type: 'string',
+          description: 'One sentence explanation as to why this tool is being used, and how it contributes to the goal.'
+        }
+      },
+      required: ['symbol']
+    }
+  }
+];
+
+const MAX_READ_LINES = 250;
+const MAX_GREP_MATCHES = 50;
+const MAX_SEARCH_RESULTS = 10;
+const MAX_CODEBASE_RESULTS = 5;
+const MAX_OUTPUT_CHARS = 20000;
+const MAX_DEFINITIONS = 3;
+const MAX_DEFINITION_LINES = 80;
+// Shown from a symbol's line when only the symbol index knows where it is
+const SYMBOL_CONTEXT_LINES = 30;
+
+export interface ToolResult {
+  output: string;
+  isError: boolean;
+}
+
+/**
+ * Reads the tool schemas from the loaded `tools` prompt so the model sees
+ * exactly what the prompt registry shows, minus the tools we can't execute.
+ */
+export const getAgentTools = (): ToolDefinition[] => {
+  const toolsPrompt = promptManager.getPromptsByType('tools')[0];
+  if (!toolsPrompt) return [];
+
+  try {
+    const definitions: ToolDefinition[] = JSON.parse(toolsPrompt.content);
+    return [...definitions.filter(tool => EXECUTABLE_TOOLS.includes(tool.name)), ...LOCAL_TOOLS];
+  } catch (error) {
+    console.warn('Tool schemas are not valid JSON, agent tools disabled:', error);
+    return [];
+  }
+};
+
+const truncate = (output: string): string =>
+  output.length > MAX_OUTPUT_CHARS
+    ? `${output.slice(0, MAX_OUTPUT_CHARS)}\n... [output truncated at ${MAX_OUTPUT_CHARS} characters]`
+    : output;
+
+const withLineNumbers = (lines: string[], firstLine: number): string =>
+  lines.map((line, index) => `${String(firstLine + index).padStart(5)}  ${line}`).join('\n');
+
+const isInDirectory = (path: string, directory: string): boolean => {
+  const dir = normalizePath(directory);
+  if (!dir) return true;
+  return /[*?{]/.test(dir)
+    ? matchesGlob(path, dir) || matchesGlob(path, `${dir}/**`)
+    : path === dir || path.startsWith(`${dir}/`);
+};
+
+// Where identifiers named in the query are defined, e.g. `useFileSystem`
+const findDefinitions = (workspace: AgentWorkspace, query: string, filter?: (path: string) => boolean): string[] => {
+  const names = new Set(query.match(/[A-Za-z_$][\w$]{2,}/g) ?? []);
+  return Array.from(names).flatMap(name => workspace.searchIndex
+    .findSymbols(name, { filter, limit: MAX_SEARCH_RESULTS })
+    .filter(symbol => symbol.name === name)
+    .map(symbol => `${symbol.path}:${symbol.line}: ${symbol.kind} ${symbol.name}`));
+};
+
+const codebaseSearch = (workspace: AgentWorkspace, args: Record<string, unknown>): string => {
+  const query = String(args.query ?? '');
+  if (tokenize(query).length === 0) return 'Query has no searchable terms.';
+
+  const directories = Array.isArray(args.target_directories) ? args.target_directories.map(String) : [];
+  const filter = directories.length > 0 ? (path: string) => directories.some(dir => isInDirectory(path, dir)) : undefined;
+  const results = workspace.searchIndex.search(query, { limit: MAX_CODEBASE_RESULTS, filter });
+  if (results.length === 0) return `No code found matching "${query}".`;
+
+  const definitions = findDefinitions(workspace, query, filter);
+  const snippets = results
+    .map(result => `${result.path}:${result.startLine}-${result.endLine}\n${withLineNumbers(result.text.split('\n'), result.startLine)}`)
+    .join('\n\n');
+  return definitions.length > 0 ? `Definitions:\n${definitions.join('\n')}\n\n${snippets}` : snippets;
+};
+
+const readFile = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const path = String(args.target_file ?? '');
+  const content = workspace.readFile(path);
+  if (content === undefined) return { output: `File not found: ${path}`, isError: true };
+
+  const lines = content.split('\n');
+  if (args.should_read_entire_file) {
+    return { output: `Contents of ${normalizePath(path)} (${lines.length} lines):\n${withLineNumbers(lines, 1)}`, isError: false };
+  }
+
+  const start = Math.max(1, Number(args.start_line_one_indexed) || 1);
+  const requestedEnd = Number(args.end_line_one_indexed_inclusive) || start + MAX_READ_LINES - 1;
+  const end = Math.min(lines.length, requestedEnd, start + MAX_READ_LINES - 1);
+  if (start > lines.length) {
+    return { output: `${path} has only ${lines.length} lines.`, isError: true };
+  }
+
+  const summary = [
+    start > 1 ? `Lines 1-${start - 1} not shown.` : '',
+    end < lines.length ? `Lines ${end + 1}-${lines.length} not shown.` : ''
+  ].filter(Boolean).join(' ');
+
+  return {
+    output: `Contents of ${normalizePath(path)}, lines ${start}-${end} (${lines.length} total):\n${withLineNumbers(lines.slice(start - 1, end), start)}${summary ? `\n\n${summary}` : ''}`,
+    isError: false
+  };
+};
+
+const listDir = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const path = String(args.relative_workspace_path ?? '');
+  if (!workspace.isDirectory(path)) {
+    return { output: `Directory not found: ${path}`, isError: true };
+  }
+
+  const entries = workspace.listDir(path);
+  if (entries.length === 0) return { output: `${path || '.'} is empty.`, isError: false };
+
+  return {
+    output: entries
+      .map(entry => entry.isDirectory ? `[dir]  ${entry.name}/` : `[file] ${entry.name} (${entry.size} chars)`)
+      .join('\n'),
+    isError: false
+  };
+};
+
+const grepSearch = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const query = String(args.query ?? '');
+  const { matches, truncated } = workspace.searchIndex.grep(query, {
+    caseSensitive: Boolean(args.case_sensitive),
+    include: args.include_pattern ? String(args.include_pattern) : undefined,
+    exclude: args.exclude_pattern ? String(args.exclude_pattern) : undefined,
+    maxMatches: MAX_GREP_MATCHES
+  });
+
+  if (matches.length === 0) return { output: `No matches for ${query}.`, isError: false };
+  const capped = truncated ? `\n... [stopped after ${MAX_GREP_MATCHES} matches]` : '';
+  return {
+    output: matches.map(match => `${match.path}:${match.line}: ${match.text.trim()}`).join('\n') + capped,
+    isError: false
+  };
+};
+
+const fileSearch = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const query = String(args.query ?? '').replace(/\s+/g, '');
+  if (!query) return { output: 'Query is empty.', isError: true };
+
+  const paths = workspace.searchIndex.findFiles(query, { limit: MAX_SEARCH_RESULTS });
+  return {
+    output: paths.length > 0 ? paths.join('\n') : `No files match "${query}".`,
+    isError: false
+  };
+};
+
+const formatDefinition = (definition: SymbolDefinition): string => {
+  const lines = definition.text.split('\n');
+  const shown = lines.slice(0, MAX_DEFINITION_LINES);
+  const rest = lines.length - shown.length;
+  return [
+    `${definition.path}:${definition.line}-${definition.endLine} (${definition.kind} ${definition.name})`,
+    withLineNumbers(shown, definition.line),
+    rest > 0 ? `... ${rest} more lines; use read_file for the rest` : ''
+  ].filter(Boolean).join('\n');
+};
+
+const goToDefinition = async (workspace: AgentWorkspace, args: Record<string, unknown>): Promise<ToolResult> => {
+  const symbol = String(args.symbol ?? '').trim();
+  if (!/^[A-Za-z_$][\w$]*$/.test(symbol)) {
+    return { output: 'symbol must be a single identifier, e.g. useFileSystem.', isError: true };
+  }
+
+  const client = workspace.languageClient;
+  if (client) {
+    try {
+      const overrides = workspace.getChanges().map(change => ({ path: change.path, content: change.newContent }));
+      const definitions = await client.findDefinitions(symbol, overrides);
+      if (definitions.length > 0) {
+        return { output: definitions.slice(0, MAX_DEFINITIONS).map(formatDefinition).join('\n\n'), isError: false };
+      }
+    } catch (error) {
+      console.warn('Language service lookup failed, using the symbol index:', error);
+    }
+  }
+
+  // Other languages, or no language service: the search index's declarations
+  const symbols = workspace.searchIndex
+    .findSymbols(symbol, { limit: MAX_SEARCH_RESULTS })
+    .filter(candidate => candidate.name === symbol)
+    .slice(0, MAX_DEFINITIONS);
+  if (symbols.length === 0) return { output: `No definition of ${symbol} found.`, isError: false };
+
+  return {
+    output: symbols.map(found => {
+      const lines = (workspace.readFile(found.path) ?? '').split('\n').slice(found.line - 1, found.line - 1 + SYMBOL_CONTEXT_LINES);
+      return `${found.path}:${found.line} (${found.kind} ${found.name})\n${withLineNumbers(lines, found.line)}`;
+    }).join('\n\n'),
+    isError: false
+  };
+};
+
+const EXISTING_CODE_MARKER = /^\s*(?:\/\/|#|\/\*|<!--|\{\/\*|--)?\s*\.\.\.\s*existing code\s*\.\.\./i;
+
+/**
+ * Applies an `edit_file` snippet. Segments between `... existing code ...`
+ * markers are located in the original by their first and last lines and
+ * replace that span; everything outside the located spans is kept. A
+ * segment before the first marker or after the last one may also run to the
+ * start or end of the file.
+ */
+export const applyEditSnippet = (original: string, codeEdit: string): string => {
+  const editLines = codeEdit.split('\n');
+  if (!editLines.some(line => EXISTING_CODE_MARKER.test(line))) {
+    return codeEdit;
+  }
+
+  const segments: string[][] = [[]];
+  for (const line of editLines) {
+    if (EXISTING_CODE_MARKER.test(line)) {
+      segments.push([]);
+    } else {
+      segments[segments.length - 1].push(line);
+    }
+  }
+
+  const originalLines = original.split('\n');
+  const result: string[] = [];
+  let cursor = 0;
+
+  segments.forEach((rawSegment, index) => {
+    const segment = trimBlankEdges(rawSegment);
+    if (segment.length === 0) return;
+
+    const isHead = index === 0;
+    const isTail = index === segments.length - 1;
+    const findLine = (text: string, from: number) =>
+      originalLines.findIndex((line, lineIndex) => lineIndex >= from && line.trim() === text.trim());
+
+    let start = findLine(segment[0], cursor);
+    if (start === -1 && isHead) start = 0;
+    if (start === -1) {
+      throw new Error(`Could not locate "${segment[0].trim()}" in the file. Include an unchanged line as the first line of each edited section, or use search_replace.`);
+    }
+
+    let end = segment.length === 1 ? start : findLine(segment[segment.length - 1], start);
+    if (end === -1 && isTail) end = originalLines.length - 1;
+    if (end === -1) {
+      throw new Error(`Could not locate "${segment[segment.length - 1].trim()}" in the file. Include an unchanged line as the last line of each edited section, or use search_replace.`);
+    }
+
+    result.push(...originalLines.slice(cursor, start), ...segment);
+    cursor = end + 1;
+  });
+
+  result.push(...originalLines.slice(cursor));
+  return result.join('\n');
+};
+
+const trimBlankEdges = (lines: string[]): string[] => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+};
+
+const editFile = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const path = String(args.target_file ?? '');
+  const codeEdit = String(args.code_edit ?? '');
+  const instructions = args.instructions ? String(args.instructions) : `Edit ${path}`;
+  const existing = workspace.readFile(path);
+
+  if (existing === undefined) {
+    workspace.writeFile(path, codeEdit, instructions);
+    return { output: `Created ${normalizePath(path)} (${codeEdit.split('\n').length} lines).`, isError: false };
+  }
+
+  try {
+    const updated = applyEditSnippet(existing, codeEdit);
+    workspace.writeFile(path, updated, instructions);
+    return { output: `Edited ${normalizePath(path)}; it now has ${updated.split('\n').length} lines.`, isError: false };
+  } catch (error) {
+    return { output: error instanceof Error ? error.message : String(error), isError: true };
+  }
+};
+
+const searchReplace = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const path = String(args.file_path ?? '');
+  const oldString = String(args.old_string ?? '');
+  const newString = String(args.new_string ?? '');
+  const content = workspace.readFile(path);
+
+  if (content === undefined) {
+    if (oldString) return { output: `File not found: ${path}`, isError: true };
+    workspace.writeFile(path, newString, `Create ${path}`);
+    return { output: `Created ${normalizePath(path)}.`, isError: false };
+  }
+
+  const occurrences = oldString ? content.split(oldString).length - 1 : 0;
+  if (occurrences === 0) {
+    return { output: `old_string was not found in ${path}. Read the file again and copy the text exactly.`, isError: true };
+  }
+  if (occurrences > 1) {
+    return { output: `old_string occurs ${occurrences} times in ${path}; add surrounding context so it is unique.`, isError: true };
+  }
+
+  workspace.writeFile(path, content.replace(oldString, () => newString), `Search and replace in ${path}`);
+  return { output: `Replaced 1 occurrence in ${normalizePath(path)}.`, isError: false };
+};
+
+const deleteFile = (workspace: AgentWorkspace, args: Record<string, unknown>): ToolResult => {
+  const path = String(args.target_file ?? '');
+  return workspace.deleteFile(path, `Delete ${path}`)
+    ? { output: `Deleted ${normalizePath(path)}.`, isError: false }
+    : { output: `File not found: ${path}`, isError: true };
+};
+
+/**
+ * Executes one model-issued tool call against the workspace. Failures are
+ * reported back to the model as error results rather than thrown, so it can
+ * correct itself on the next iteration.
+ */
+export const executeToolCall = async (workspace: AgentWorkspace, call: ToolCall): Promise<ToolResult> => {
+  let args: Record<string, unknown>;
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch {
+    return { output: `Arguments for ${call.name} are not valid JSON: ${call.arguments}`, isError: true };
+  }
+
+  let result: ToolResult;
+  switch (call.name) {
+    case 'codebase_search':
+      result = { output: codebaseSearch(workspace, args), isError: false };
+      break;
+    case 'read_file':
+      result = readFile(workspace, args);
+      break;
+    case 'list_dir':
+      result = listDir(workspace, args);
+      break;
+    case 'grep_search':
+      result = grepSearch(workspace, args);
+      break;
+    case 'file_search':
+      result = fileSearch(workspace, args);
+      break;
+    case 'edit_file':
+      result = editFile(workspace, args);
+      break;
+    case 'search_replace':
+      result = searchReplace(workspace, args);
+      break;
+    case 'delete_file':
+      result = deleteFile(workspace, args);
+      break;
+    case 'go_to_definition':
+      result = await goToDefinition(workspace, args);
+      break;
+    default:
+      result = { output: `Tool ${call.name} is not available in this environment.`, isError: true };
+  }
+
+  return { ...result, output: truncate(result.output) };
+};
+
+/** Short human-readable label for the step log, e.g. `read_file src/App.tsx`. */
+export const describeToolCall = (call: ToolCall): string => {
+  try {
+    const args = JSON.parse(call.arguments || '{}');
+    const target = args.target_file ?? args.file_path ?? args.relative_workspace_path ?? args.query ?? args.symbol;
+    return target !== undefined ? `${call.name} ${target || '.'}` : call.name;
+  } catch {
+    return call.name;
+  }
+};
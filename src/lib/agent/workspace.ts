@@ -0,0 +1,139 @@
+import { FileSystemItem } from '@/types/fileSystem';
+import { SearchIndex } from '@/lib/search/searchIndex';
+import { LanguageClient, getLanguageClient } from '@/lib/language/languageClient';
+
+export interface WorkspaceChange {
+  path: string;
+  // `null` means the file did not exist on that side of the change
+  originalContent: string | null;
+  newContent: string | null;
+  notes: string[];
+}
+
+export const normalizePath = (path: string): string =>
+  path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '').replace(/^\.$/, '');
+
+/**
+ * Working copy of the project tree that agent tools read and write. Edits
+ * never touch the caller's `FileSystemItem`s; they are collected here and
+ * surfaced as pending changes for the user to review.
+ *
+ * Search tools use `searchIndex`, built on first use from a fork of the
+ * project's index when one is given (so only files that differ are
+ * re-indexed), which then follows the workspace's own edits.
+ * `languageClient` is the project's TypeScript language service; queries
+ * pass the workspace's changes along so answers include the agent's edits.
+ */
+export class AgentWorkspace {
+  private original = new Map<string, string>();
+  private files = new Map<string, string>();
+  private notes = new Map<string, string[]>();
+  private index?: SearchIndex;
+
+  constructor(items: FileSystemItem[], private readonly baseIndex?: SearchIndex) {
+    const visit = (nodes: FileSystemItem[]) => {
+      for (const node of nodes) {
+        if (node.type === 'file') {
+          const path = normalizePath(node.path);
+          this.original.set(path, node.content ?? '');
+          this.files.set(path, node.content ?? '');
+        } else if (node.children) {
+          visit(node.children);
+        }
+      }
+    };
+    visit(items);
+  }
+
+  get searchIndex(): SearchIndex {
+    if (!this.index) {
+      const index = this.baseIndex ? this.baseIndex.fork() : new SearchIndex();
+      for (const path of index.getPaths()) {
+        if (!this.files.has(path)) index.removePath(path);
+      }
+      for (const [path, content] of this.files) {
+        if (index.getContent(path) !== content) index.updateFile(path, content);
+      }
+      this.index = index;
+    }
+    return this.index;
+  }
+
+  get languageClient(): LanguageClient | null {
+    return this.baseIndex ? getLanguageClient(this.baseIndex) : null;
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.files.keys()).sort();
+  }
+
+  exists(path: string): boolean {
+    return this.files.has(normalizePath(path));
+  }
+
+  isDirectory(path: string): boolean {
+    const dir = normalizePath(path);
+    if (!dir) return true;
+    return this.getPaths().some(file => file.startsWith(`${dir}/`));
+  }
+
+  readFile(path: string): string | undefined {
+    return this.files.get(normalizePath(path));
+  }
+
+  writeFile(path: string, content: string, note?: string): void {
+    const normalized = normalizePath(path);
+    this.files.set(normalized, content);
+    this.index?.updateFile(normalized, content);
+    if (note) this.addNote(normalized, note);
+  }
+
+  deleteFile(path: string, note?: string): boolean {
+    const normalized = normalizePath(path);
+    const deleted = this.files.delete(normalized);
+    if (deleted) this.index?.removePath(normalized);
+    if (deleted && note) this.addNote(normalized, note);
+    return deleted;
+  }
+
+  /** Immediate children of a directory; folders end with `/`. */
+  listDir(path: string): { name: string; isDirectory: boolean; size: number }[] {
+    const dir = normalizePath(path);
+    const prefix = dir ? `${dir}/` : '';
+    const entries = new Map<string, { name: string; isDirectory: boolean; size: number }>();
+
+    for (const [filePath, content] of this.files) {
+      if (!filePath.startsWith(prefix)) continue;
+      const [name, ...rest] = filePath.slice(prefix.length).split('/');
+      const isDirectory = rest.length > 0;
+      const existing = entries.get(name);
+      entries.set(name, {
+        name,
+        isDirectory,
+        size: (existing?.size ?? 0) + content.length
+      });
+    }
+
+    return Array.from(entries.values()).sort((a, b) =>
+      a.isDirectory === b.isDirectory ? a.name.localeCompare(b.name) : a.isDirectory ? -1 : 1
+    );
+  }
+
+  getChanges(): WorkspaceChange[] {
+    const paths = new Set([...this.original.keys(), ...this.files.keys()]);
+    const changes: WorkspaceChange[] = [];
+
+    for (const path of Array.from(paths).sort()) {
+      const originalContent = this.original.get(path) ?? null;
+      const newContent = this.files.get(path) ?? null;
+      if (originalContent === newContent) continue;
+      changes.push({ path, originalContent, newContent, notes: this.notes.get(path) ?? [] });
+    }
+
+    return changes;
+  }
+
+  private addNote(path: string, note: string): void {
+    this.notes.set(path, [...(this.notes.get(path) ?? []), note]);
+  }
+}
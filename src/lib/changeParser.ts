@@ -0,0 +1,279 @@
+import { FileSystemItem } from '@/types/fileSystem';
+import { AgentWorkspace, WorkspaceChange, normalizePath } from '@/lib/agent/workspace';
+import { applyEditSnippet } from '@/lib/agent/tools';
+import { parseUnifiedDiff, applyUnifiedPatch } from '@/lib/diff';
+
+// Turns an assistant reply into file changes. Recognised forms:
+//
+//   - fenced blocks whose info string, preceding line or first-line comment
+//     names a file (`ts src/a.ts`, `**src/a.ts**`, `// File: src/a.ts`);
+//     the block is the new file content, or an `... existing code ...` snippet
+//   - SEARCH/REPLACE blocks (`<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE`)
+//   - unified diffs (```diff with `---`/`+++`/`@@` headers)
+//   - `DELETE: path` directive lines outside code blocks
+//
+// Unannotated code blocks are treated as examples and ignored.
+
+export interface ParsedChanges {
+  changes: WorkspaceChange[];
+  // Edits that were recognised but could not be applied
+  errors: string[];
+}
+
+interface FencedBlock {
+  info: string;
+  content: string;
+  // Nearest non-blank line above the opening fence
+  precedingLine: string;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})(.*)$/;
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const DELETE_DIRECTIVE = /^\s*(?:[-*]\s+)?(?:\*\*)?(?:DELETE(?: FILE)?|Delete file|Remove file)(?:\*\*)?:?\s+`?([^\s`]+)`?\s*$/;
+const FIRST_LINE_PATH = /^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name|path)?:\s*)?([^\s*]+?)\s*(?:\*\/|-->)?\s*$/i;
+
+const looksLikePath = (token: string): boolean =>
+  !/^https?:/.test(token) && /^[\w@.\-/]+$/.test(token) && (/\/./.test(token) || /\.\w+$/.test(token));
+
+const splitBlocks = (response: string): { blocks: FencedBlock[]; prose: string[] } => {
+  const lines = response.split('\n');
+  const blocks: FencedBlock[] = [];
+  const prose: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const open = lines[index].match(FENCE);
+    if (!open) {
+      prose.push(lines[index++]);
+      continue;
+    }
+
+    const fence = open[1];
+    const body: string[] = [];
+    let cursor = index + 1;
+    while (cursor < lines.length && !lines[cursor].trim().startsWith(fence)) {
+      body.push(lines[cursor++]);
+    }
+
+    const precedingLine = [...prose].reverse().find(line => line.trim()) ?? '';
+    blocks.push({ info: open[2].trim(), content: body.join('\n'), precedingLine });
+    // Text after a block should not pick up a path from before it
+    prose.push('');
+    index = cursor + 1;
+  }
+
+  return { blocks, prose };
+};
+
+// `ts src/a.ts`, `ts:src/a.ts`, `tsx title="src/a.tsx"`, `filename=src/a.ts`
+const pathFromInfo = (info: string): string | null => {
+  const attribute = info.match(/(?:title|file(?:name)?|path)=["']?([^"'\s]+)/i);
+  if (attribute) return attribute[1];
+
+  for (const token of info.split(/\s+/)) {
+    const candidate = token.includes(':') ? token.slice(token.indexOf(':') + 1) : token;
+    if (looksLikePath(candidate)) return candidate;
+  }
+  return null;
+};
+
+// `**src/a.ts**`, `### src/a.ts`, `File: src/a.ts`, "Update `src/a.ts`:"
+const pathFromPrecedingLine = (line: string): string | null => {
+  const stripped = line
+    .replace(/^\s*(?:#+\s*|[-*]\s+)/, '')
+    .replace(/\*\*|__/g, '')
+    .replace(/^(?:file(?:name)?|path):\s*/i, '')
+    .replace(/:\s*$/, '')
+    .replace(/^`|`$/g, '')
+    .trim();
+  if (looksLikePath(stripped)) return stripped;
+
+  const trailingCode = line.match(/`([^`]+)`:?\s*$/);
+  return trailingCode && looksLikePath(trailingCode[1]) ? trailingCode[1] : null;
+};
+
+const pathFromFirstLine = (content: string): { path: string; rest: string } | null => {
+  const [first, ...rest] = content.split('\n');
+  const match = first.match(FIRST_LINE_PATH);
+  return match && looksLikePath(match[1]) ? { path: match[1], rest: rest.join('\n') } : null;
+};
+
+/**
+ * Maps a path the model wrote onto the project tree: exact match first,
+ * then a unique suffix match (`Button.tsx` -> `src/components/Button.tsx`).
+ * Unknown paths are returned normalized and become new files.
+ */
+const resolvePath = (workspace: AgentWorkspace, rawPath: string): string => {
+  const path = normalizePath(rawPath);
+  if (workspace.exists(path)) return path;
+
+  const candidates = workspace.getPaths().filter(candidate => candidate.endsWith(`/${path}`));
+  return candidates.length === 1 ? candidates[0] : path;
+};
+
+const applySearchReplace = (
+  workspace: AgentWorkspace,
+  content: string,
+  fallbackPath: string | null,
+  errors: string[]
+) => {
+  const lines = content.split('\n');
+  let path = fallbackPath;
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!SEARCH_MARKER.test(lines[index])) {
+      // Aider-style replies put the file name on the line before the markers
+      const candidate = lines[index].trim();
+      if (candidate && looksLikePath(candidate)) path = candidate;
+      index++;
+      continue;
+    }
+
+    const search: string[] = [];
+    const replace: string[] = [];
+    index++;
+    while (index < lines.length && !DIVIDER_MARKER.test(lines[index])) search.push(lines[index++]);
+    index++;
+    while (index < lines.length && !REPLACE_MARKER.test(lines[index])) replace.push(lines[index++]);
+    index++;
+
+    if (!path) {
+      errors.push('A SEARCH/REPLACE block did not name a file');
+      continue;
+    }
+
+    const target = resolvePath(workspace, path);
+    const current = workspace.readFile(target);
+    const searchText = search.join('\n');
+    const replaceText = replace.join('\n');
+
+    if (current === undefined) {
+      if (searchText.trim()) {
+        errors.push(`${target}: file not found for SEARCH/REPLACE`);
+      } else {
+        workspace.writeFile(target, replaceText, `Create ${target}`);
+      }
+      continue;
+    }
+
+    const updated = replaceBlock(current, search, replaceText);
+    if (updated === null) {
+      errors.push(`${target}: SEARCH text not found`);
+    } else {
+      workspace.writeFile(target, updated, `Update ${target}`);
+    }
+  }
+};
+
+// Exact match first, then line-by-line ignoring indentation differences
+const replaceBlock = (content: string, search: string[], replacement: string): string | null => {
+  const searchText = search.join('\n');
+  if (!searchText.trim()) return `${replacement}\n${content}`;
+  if (content.includes(searchText)) return content.replace(searchText, () => replacement);
+
+  const lines = content.split('\n');
+  for (let start = 0; start + search.length <= lines.length; start++) {
+    if (search.every((line, i) => lines[start + i].trim() === line.trim())) {
+      return [...lines.slice(0, start), replacement, ...lines.slice(start + search.length)].join('\n');
+    }
+  }
+  return null;
+};
+
+const applyDiffBlock = (
+  workspace: AgentWorkspace,
+  content: string,
+  fallbackPath: string | null,
+  errors: string[]
+) => {
+  for (const patch of parseUnifiedDiff(content)) {
+    const rawPath = patch.newPath || patch.oldPath || fallbackPath;
+    if (!rawPath) {
+      errors.push('A diff block did not name a file');
+      continue;
+    }
+
+    const target = resolvePath(workspace, rawPath);
+    if (patch.newPath === null && patch.oldPath !== null) {
+      if (!workspace.deleteFile(target, `Delete ${target}`)) {
+        errors.push(`${target}: cannot delete a file that does not exist`);
+      }
+      continue;
+    }
+
+    try {
+      const current = patch.oldPath === null ? '' : workspace.readFile(target);
+      if (current === undefined) throw new Error('file not found');
+      workspace.writeFile(target, applyUnifiedPatch(current, patch.hunks), `Patch ${target}`);
+    } catch (error) {
+      errors.push(`${target}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+};
+
+// A fenced body never ends in a newline, so files keep the final one they had
+const withFinalNewline = (content: string, wanted: boolean) =>
+  wanted && content && !content.endsWith('\n') ? `${content}\n` : content;
+
+const applyFileBlock = (workspace: AgentWorkspace, rawPath: string, content: string, errors: string[]) => {
+  const target = resolvePath(workspace, rawPath);
+  const current = workspace.readFile(target);
+
+  if (current === undefined) {
+    workspace.writeFile(target, withFinalNewline(content, true), `Create ${target}`);
+    return;
+  }
+
+  try {
+    const updated = applyEditSnippet(current, content);
+    workspace.writeFile(target, withFinalNewline(updated, current.endsWith('\n')), `Update ${target}`);
+  } catch (error) {
+    errors.push(`${target}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Extracts the file changes described in `response`, resolved against
+ * `files`. Several edits to one file are combined into a single change.
+ */
+export const parseChangesFromResponse = (response: string, files: FileSystemItem[]): ParsedChanges => {
+  const workspace = new AgentWorkspace(files);
+  const errors: string[] = [];
+  const { blocks, prose } = splitBlocks(response);
+
+  for (const block of blocks) {
+    const language = block.info.split(/[\s:]/)[0].toLowerCase();
+    const annotated = pathFromInfo(block.info) ?? pathFromPrecedingLine(block.precedingLine);
+
+    if (block.content.split('\n').some(line => SEARCH_MARKER.test(line))) {
+      applySearchReplace(workspace, block.content, annotated, errors);
+    } else if (language === 'diff' || language === 'patch' || (/^(---|@@) /m.test(block.content) && /^@@ /m.test(block.content))) {
+      applyDiffBlock(workspace, block.content, annotated, errors);
+    } else if (annotated) {
+      applyFileBlock(workspace, annotated, block.content, errors);
+    } else {
+      const firstLine = pathFromFirstLine(block.content);
+      if (firstLine) applyFileBlock(workspace, firstLine.path, firstLine.rest, errors);
+    }
+  }
+
+  // SEARCH/REPLACE blocks are sometimes sent without a surrounding fence
+  const bareProse = prose.join('\n');
+  if (bareProse.split('\n').some(line => SEARCH_MARKER.test(line))) {
+    applySearchReplace(workspace, bareProse, null, errors);
+  }
+
+  for (const line of prose) {
+    const match = line.match(DELETE_DIRECTIVE);
+    if (!match || !looksLikePath(match[1])) continue;
+    const target = resolvePath(workspace, match[1]);
+    if (!workspace.deleteFile(target, `Delete ${target}`)) {
+      errors.push(`${target}: cannot delete a file that does not exist`);
+    }
+  }
+
+  return { changes: workspace.getChanges(), errors };
+};
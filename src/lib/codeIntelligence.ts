@@ -0,0 +1,88 @@
+import { Extension } from '@codemirror/state';
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import { Diagnostic, linter } from '@codemirror/lint';
+import { HoverInfo, LanguageDiagnostic } from '@/lib/language/protocol';
+
+const DIAGNOSTICS_DELAY_MS = 500;
+
+export interface CodeIntelligenceOptions {
+  // Each callback gets the document's current text, which may not be saved
+  hover: (content: string, offset: number) => Promise<HoverInfo | null>;
+  diagnostics: (content: string) => Promise<LanguageDiagnostic[]>;
+  // Return false when there is nothing to look up, so the key or click
+  // keeps its default behaviour
+  goToDefinition: (content: string, offset: number) => boolean;
+  findReferences: (content: string, offset: number) => boolean;
+}
+
+const intelligenceTheme = EditorView.baseTheme({
+  '.cm-hoverInfo': {
+    maxWidth: '36rem',
+    padding: '4px 8px',
+    fontSize: '0.8125rem'
+  },
+  '.cm-hoverInfo-signature': {
+    margin: 0,
+    whiteSpace: 'pre-wrap',
+    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+  },
+  '.cm-hoverInfo-documentation': {
+    marginTop: '4px',
+    whiteSpace: 'pre-wrap',
+    opacity: 0.8
+  }
+});
+
+const renderHover = (info: HoverInfo): HTMLElement => {
+  const dom = document.createElement('div');
+  dom.className = 'cm-hoverInfo';
+  const signature = document.createElement('pre');
+  signature.className = 'cm-hoverInfo-signature';
+  signature.textContent = info.signature;
+  dom.appendChild(signature);
+  if (info.documentation) {
+    const documentation = document.createElement('div');
+    documentation.className = 'cm-hoverInfo-documentation';
+    documentation.textContent = info.documentation;
+    dom.appendChild(documentation);
+  }
+  return dom;
+};
+
+/**
+ * Language service features for the editor: type info on hover, diagnostics
+ * as lint markers, F12 or Ctrl/Cmd+click for go-to-definition and Shift+F12
+ * for references.
+ */
+export const codeIntelligence = (options: CodeIntelligenceOptions): Extension => [
+  hoverTooltip(async (view, pos) => {
+    const info = await options.hover(view.state.doc.toString(), pos);
+    if (!info) return null;
+    return { pos: info.from, end: info.to, above: true, create: () => ({ dom: renderHover(info) }) };
+  }),
+  linter(async view => {
+    const { doc } = view.state;
+    const diagnostics = await options.diagnostics(doc.toString());
+    return diagnostics.map((diagnostic): Diagnostic => ({
+      from: Math.min(diagnostic.from, doc.length),
+      to: Math.min(diagnostic.to, doc.length),
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      source: `ts(${diagnostic.code})`
+    }));
+  }, { delay: DIAGNOSTICS_DELAY_MS }),
+  keymap.of([
+    { key: 'F12', run: view => options.goToDefinition(view.state.doc.toString(), view.state.selection.main.head) },
+    { key: 'Shift-F12', run: view => options.findReferences(view.state.doc.toString(), view.state.selection.main.head) }
+  ]),
+  EditorView.domEventHandlers({
+    mousedown: (event, view) => {
+      if (event.button !== 0 || !(event.ctrlKey || event.metaKey)) return false;
+      const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+      if (pos === null || !options.goToDefinition(view.state.doc.toString(), pos)) return false;
+      event.preventDefault();
+      return true;
+    }
+  }),
+  intelligenceTheme
+];
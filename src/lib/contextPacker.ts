@@ -0,0 +1,344 @@
+import { ChatMessage, ToolDefinition } from '@/lib/llm/types';
+import { Tokenizer, countChatTokens, countMessageTokens, countToolTokens } from '@/lib/tokenizer';
+
+// Fits a request into a model's prompt budget. Sections are filled by
+// priority: system prompt, tool schemas and the new user message are always
+// sent; attached files and then history share what is left. Files that do
+// not fit whole are cut down at line boundaries to an outline plus the chunks
+// most relevant to the request; history is kept newest-first, with long
+// messages condensed before older ones are dropped. Everything that was cut
+// is listed in the report.
+
+export interface ContextFile {
+  path: string;
+  content: string;
+  // Set when `content` is a line range of the file rather than all of it
+  lines?: { start: number; end: number };
+}
+
+export interface PackedFile extends ContextFile {
+  tokens: number;
+  // False when only an outline and/or excerpts were included
+  complete: boolean;
+}
+
+export interface DroppedItem {
+  kind: 'file' | 'message';
+  label: string;
+  // Token cost of the full item and of what was kept (0 when omitted)
+  tokens: number;
+  keptTokens: number;
+  action: 'omitted' | 'condensed';
+}
+
+export interface PackReport {
+  budget: number;
+  // Exact prompt size of the packed messages plus tools
+  used: number;
+  // False when counts came from the character estimate
+  exact: boolean;
+  sections: {
+    system: number;
+    tools: number;
+    userMessage: number;
+    files: number;
+    history: number;
+  };
+  dropped: DroppedItem[];
+  // The required sections alone exceed the budget
+  overBudget: boolean;
+}
+
+export interface PackedContext {
+  messages: ChatMessage[];
+  files: PackedFile[];
+  history: ChatMessage[];
+  report: PackReport;
+}
+
+export interface PackContextOptions {
+  systemPrompt: string;
+  userMessage: string;
+  tools?: ToolDefinition[];
+  // Oldest first
+  history?: ChatMessage[];
+  // In priority order, e.g. as attached by the user
+  files?: ContextFile[];
+  // Prompt tokens available (context window minus the reserved completion)
+  budget: number;
+  tokenizer: Tokenizer;
+}
+
+// Share of the free budget held back for history while files are placed
+const HISTORY_SHARE = 0.25;
+// Below this a file excerpt is not worth sending
+const MIN_FILE_TOKENS = 120;
+// Slack for token merges at section joins, which counting parts separately misses
+const JOIN_MARGIN = 16;
+const MAX_CHUNK_LINES = 40;
+
+const fenceLanguage = (path: string): string => {
+  const extension = path.split('.').pop() ?? '';
+  return extension === path ? '' : extension;
+};
+
+export const renderFileBlock = (file: ContextFile, complete = true): string => {
+  const range = file.lines ? ` (lines ${file.lines.start}-${file.lines.end})` : '';
+  return `\`\`\`${fenceLanguage(file.path)} ${file.path}${range}${complete ? '' : ' (excerpt)'}\n${file.content}\n\`\`\``;
+};
+
+const renderUserMessage = (userMessage: string, files: PackedFile[]): string => {
+  if (files.length === 0) return userMessage;
+  const blocks = files.map(file => renderFileBlock(file, file.complete)).join('\n\n');
+  return `Attached files:\n\n${blocks}\n\n${userMessage}`;
+};
+
+const OUTLINE_LINE = /^\s{0,2}(export\s|import\s|(async\s+)?function\s|class\s|interface\s|type\s+\w+\s*=|enum\s|const\s+\w+\s*=\s*(async\s*)?\(|def\s|fn\s|pub\s|struct\s|impl\s|func\s|#{1,3}\s)/;
+
+const queryTerms = (text: string): Set<string> =>
+  new Set(text.toLowerCase().match(/[a-z_][a-z0-9_]{2,}/g) ?? []);
+
+interface Chunk {
+  start: number;
+  end: number;
+  text: string;
+  score: number;
+}
+
+// Top-level blocks separated by blank lines, split further when long
+const chunkLines = (lines: string[], terms: Set<string>): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let start = 0;
+
+  const flush = (end: number) => {
+    if (end <= start) return;
+    const text = lines.slice(start, end).join('\n');
+    const words = text.toLowerCase().match(/[a-z_][a-z0-9_]{2,}/g) ?? [];
+    const score = words.filter(word => terms.has(word)).length;
+    chunks.push({ start, end, text, score });
+    start = end;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const boundary = lines[index].trim() === '' && index + 1 < lines.length && /^\S/.test(lines[index + 1]);
+    if (boundary || index + 1 - start >= MAX_CHUNK_LINES) flush(index + 1);
+  }
+  flush(lines.length);
+  return chunks;
+};
+
+const omittedMarker = (from: number, to: number) =>
+  from === to ? `… line ${from} omitted …` : `… lines ${from}-${to} omitted …`;
+
+/**
+ * Cuts `content` down to roughly `budget` tokens without splitting lines:
+ * an outline of its declarations, then whole chunks chosen by overlap with
+ * the request (earlier chunks win ties), shown in file order.
+ */
+export const condenseFile = (
+  content: string,
+  budget: number,
+  tokenizer: Tokenizer,
+  request = ''
+): string => {
+  const lines = content.split('\n');
+  const outline = lines
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => OUTLINE_LINE.test(line));
+
+  // Outline gets at most a third of the budget
+  const outlineLines: string[] = [];
+  let outlineTokens = tokenizer.count(`Outline (${lines.length} lines):\n`);
+  for (const { line, number } of outline) {
+    const entry = `${number}: ${line.trim()}`;
+    const cost = tokenizer.count(entry) + 1;
+    if (outlineTokens + cost > budget / 3) break;
+    outlineLines.push(entry);
+    outlineTokens += cost;
+  }
+
+  const chunks = chunkLines(lines, queryTerms(request));
+  const ranked = [...chunks].sort((a, b) => b.score - a.score || a.start - b.start);
+  const selected = new Set<Chunk>();
+  let used = outlineLines.length > 0 ? outlineTokens : 0;
+  for (const chunk of ranked) {
+    // Each selected chunk may add an omission marker
+    const cost = tokenizer.count(chunk.text) + 8;
+    if (used + cost > budget) continue;
+    selected.add(chunk);
+    used += cost;
+  }
+
+  const parts: string[] = [];
+  if (outlineLines.length > 0) {
+    parts.push(`Outline (${lines.length} lines):\n${outlineLines.join('\n')}`);
+  }
+  let nextLine = 0;
+  for (const chunk of chunks) {
+    if (!selected.has(chunk)) continue;
+    if (chunk.start > nextLine) parts.push(omittedMarker(nextLine + 1, chunk.start));
+    parts.push(chunk.text);
+    nextLine = chunk.end;
+  }
+  if (nextLine < lines.length && selected.size > 0) {
+    parts.push(omittedMarker(nextLine + 1, lines.length));
+  }
+  return parts.join('\n');
+};
+
+// Replaces code blocks in an old message with a one-line placeholder
+export const condenseMessage = (content: string): string =>
+  content.replace(/```(\w*)[^\n]*\n([\s\S]*?)```/g, (_match, language: string, body: string) => {
+    const lineCount = body.split('\n').length - 1;
+    return `[${language ? `${language} ` : ''}code block, ${lineCount} lines omitted]`;
+  });
+
+const messageLabel = (message: ChatMessage): string => {
+  const preview = message.content.replace(/\s+/g, ' ').trim();
+  return `${message.role}: ${preview.length > 40 ? `${preview.slice(0, 40)}…` : preview}`;
+};
+
+/**
+ * Splits `budget` across items so small items are kept whole and large ones
+ * share the rest evenly. Returns the allocation for each item.
+ */
+const allocate = (sizes: number[], budget: number): number[] => {
+  const allocation = new Array<number>(sizes.length).fill(0);
+  const order = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size);
+  let remaining = budget;
+  order.forEach(({ size, index }, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    allocation[index] = Math.min(size, share);
+    remaining -= allocation[index];
+  });
+  return allocation;
+};
+
+const packFiles = (
+  files: ContextFile[],
+  budget: number,
+  options: PackContextOptions,
+  dropped: DroppedItem[]
+): PackedFile[] => {
+  const { tokenizer, userMessage } = options;
+  const sizes = files.map(file => tokenizer.count(renderFileBlock(file)) + 2);
+  let candidates = files.map((_, index) => index);
+  let allocation = allocate(sizes, budget);
+
+  // Files whose share is too small are dropped and their share redistributed
+  for (;;) {
+    const tooSmall = candidates.filter(index => allocation[index] < Math.min(sizes[index], MIN_FILE_TOKENS));
+    if (tooSmall.length === 0) break;
+    candidates = candidates.filter(index => !tooSmall.includes(index));
+    const shares = allocate(candidates.map(index => sizes[index]), budget);
+    allocation = new Array<number>(files.length).fill(0);
+    candidates.forEach((index, position) => { allocation[index] = shares[position]; });
+  }
+
+  const packed: PackedFile[] = [];
+  files.forEach((file, index) => {
+    if (!candidates.includes(index)) {
+      dropped.push({ kind: 'file', label: file.path, tokens: sizes[index], keptTokens: 0, action: 'omitted' });
+      return;
+    }
+    if (allocation[index] >= sizes[index]) {
+      packed.push({ ...file, tokens: sizes[index], complete: true });
+      return;
+    }
+
+    const header = tokenizer.count(renderFileBlock({ ...file, content: '' }, false)) + 2;
+    const content = condenseFile(file.content, allocation[index] - header, tokenizer, userMessage);
+    const tokens = tokenizer.count(renderFileBlock({ ...file, content }, false)) + 2;
+    packed.push({ ...file, content, tokens, complete: false });
+    dropped.push({ kind: 'file', label: file.path, tokens: sizes[index], keptTokens: tokens, action: 'condensed' });
+  });
+  return packed;
+};
+
+const packHistory = (
+  history: ChatMessage[],
+  budget: number,
+  tokenizer: Tokenizer,
+  dropped: DroppedItem[]
+): ChatMessage[] => {
+  const kept: ChatMessage[] = [];
+  let remaining = budget;
+  let index = history.length - 1;
+
+  // Newest first; the first message that cannot fit ends the kept window
+  for (; index >= 0; index--) {
+    const message = history[index];
+    const tokens = countMessageTokens(message, tokenizer);
+    if (tokens <= remaining) {
+      kept.unshift(message);
+      remaining -= tokens;
+      continue;
+    }
+
+    const condensed = { ...message, content: condenseMessage(message.content) };
+    const condensedTokens = countMessageTokens(condensed, tokenizer);
+    if (condensed.content === message.content || condensedTokens > remaining) break;
+    kept.unshift(condensed);
+    remaining -= condensedTokens;
+    dropped.push({ kind: 'message', label: messageLabel(message), tokens, keptTokens: condensedTokens, action: 'condensed' });
+  }
+
+  for (; index >= 0; index--) {
+    const message = history[index];
+    dropped.push({
+      kind: 'message',
+      label: messageLabel(message),
+      tokens: countMessageTokens(message, tokenizer),
+      keptTokens: 0,
+      action: 'omitted'
+    });
+  }
+  return kept;
+};
+
+export const packContext = (options: PackContextOptions): PackedContext => {
+  const { systemPrompt, userMessage, tools = [], history = [], files = [], budget, tokenizer } = options;
+  const dropped: DroppedItem[] = [];
+
+  const systemMessage: ChatMessage = { role: 'system', content: systemPrompt };
+  const system = countMessageTokens(systemMessage, tokenizer);
+  const toolTokens = countToolTokens(tools, tokenizer);
+  const userTokens = countMessageTokens({ role: 'user', content: userMessage }, tokenizer);
+  const required = countChatTokens([systemMessage, { role: 'user', content: userMessage }], tokenizer) + toolTokens;
+
+  const free = Math.max(0, budget - required - JOIN_MARGIN);
+  const historyTokens = history.reduce((total, message) => total + countMessageTokens(message, tokenizer), 0);
+  const historyReserve = files.length > 0 ? Math.min(historyTokens, Math.floor(free * HISTORY_SHARE)) : historyTokens;
+
+  const packedFiles = packFiles(files, free - Math.min(historyReserve, free), options, dropped);
+  const filesUsed = packedFiles.reduce((total, file) => total + file.tokens, 0);
+  // History also gets whatever the files did not use
+  const packedHistory = packHistory(history, free - filesUsed, tokenizer, dropped);
+
+  const messages: ChatMessage[] = [
+    systemMessage,
+    ...packedHistory,
+    { role: 'user', content: renderUserMessage(userMessage, packedFiles) }
+  ];
+  const used = countChatTokens(messages, tokenizer) + toolTokens;
+
+  return {
+    messages,
+    files: packedFiles,
+    history: packedHistory,
+    report: {
+      budget,
+      used,
+      exact: tokenizer.exact,
+      sections: {
+        system,
+        tools: toolTokens,
+        userMessage: userTokens,
+        files: filesUsed,
+        history: packedHistory.reduce((total, message) => total + countMessageTokens(message, tokenizer), 0)
+      },
+      dropped,
+      overBudget: required > budget
+    }
+  };
+};
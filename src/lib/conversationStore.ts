@@ -0,0 +1,190 @@
+import type { Conversation, Message, CodeChange } from '@/hooks/useComposer';
+import { FileSystemItem } from '@/types/fileSystem';
+import { STORES, isIndexedDBAvailable, requestToPromise, withStore } from '@/lib/db';
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Title from the first user message: first line, markdown stripped, cut at a
+ * word boundary.
+ */
+export const generateConversationTitle = (messages: Message[]): string => {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  if (!firstUserMessage) return DEFAULT_TITLE;
+
+  const text = firstUserMessage.content
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .split('\n')
+    .map(line => line.replace(/^[#>*\-\s]+/, '').replace(/[*_`]/g, '').trim())
+    .find(line => line.length > 0);
+  if (!text) return DEFAULT_TITLE;
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+// JSON shape written by the history panel's export button: dates as ISO strings
+export const serializeConversation = (conversation: Conversation) => ({
+  ...conversation,
+  messages: conversation.messages.map(message => ({
+    ...message,
+    timestamp: message.timestamp.toISOString()
+  })),
+  changes: conversation.changes.map(change => ({
+    ...change,
+    timestamp: change.timestamp.toISOString()
+  })),
+  createdAt: conversation.createdAt.toISOString(),
+  updatedAt: conversation.updatedAt.toISOString()
+});
+
+const toDate = (value: unknown, field: string): Date => {
+  const date = value instanceof Date ? value : new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid conversation file: ${field} is not a date`);
+  }
+  return date;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const reviveFileItem = (item: FileSystemItem): FileSystemItem => ({
+  ...item,
+  lastModified: item.lastModified ? toDate(item.lastModified, 'context.lastModified') : new Date(),
+  children: item.children?.map(reviveFileItem)
+});
+
+/**
+ * Validates an exported conversation and restores its dates. Throws with a
+ * message suitable for a toast when the data is not a conversation.
+ */
+export const deserializeConversation = (data: unknown): Conversation => {
+  if (!isRecord(data) || !Array.isArray(data.messages)) {
+    throw new Error('Invalid conversation file: expected an object with a messages array');
+  }
+
+  const messages = data.messages.map((message, index): Message => {
+    if (!isRecord(message) || typeof message.content !== 'string' ||
+        (message.role !== 'user' && message.role !== 'assistant')) {
+      throw new Error(`Invalid conversation file: message ${index + 1} is malformed`);
+    }
+    const restored = message as unknown as Message;
+    return {
+      ...restored,
+      id: typeof message.id === 'string' ? message.id : `${Date.now()}-${index}`,
+      timestamp: toDate(message.timestamp, 'message.timestamp'),
+      context: restored.context?.map(reviveFileItem)
+    };
+  });
+
+  const changes = (Array.isArray(data.changes) ? data.changes : []).map((change, index): CodeChange => {
+    if (!isRecord(change) || typeof change.filePath !== 'string' || typeof change.newContent !== 'string') {
+      throw new Error(`Invalid conversation file: change ${index + 1} is malformed`);
+    }
+    return {
+      ...(change as unknown as CodeChange),
+      timestamp: toDate(change.timestamp, 'change.timestamp')
+    };
+  });
+
+  const createdAt = data.createdAt ? toDate(data.createdAt, 'createdAt') : messages[0]?.timestamp ?? new Date();
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : Date.now().toString(),
+    title: typeof data.title === 'string' && data.title.trim() ? data.title : generateConversationTitle(messages),
+    messages,
+    changes,
+    createdAt,
+    updatedAt: data.updatedAt ? toDate(data.updatedAt, 'updatedAt') : createdAt
+  };
+};
+
+const byMostRecent = (a: Conversation, b: Conversation) => b.updatedAt.getTime() - a.updatedAt.getTime();
+
+/**
+ * Saved Composer sessions. Backed by IndexedDB; falls back to memory for the
+ * current page when IndexedDB is unavailable (private browsing, tests).
+ */
+export class ConversationStore {
+  private static instance: ConversationStore;
+  private memory: Map<string, Conversation> | null = null;
+
+  private constructor() {
+    if (!isIndexedDBAvailable()) {
+      console.warn('IndexedDB unavailable; conversation history will not persist');
+      this.memory = new Map();
+    }
+  }
+
+  static getInstance(): ConversationStore {
+    if (!ConversationStore.instance) {
+      ConversationStore.instance = new ConversationStore();
+    }
+    return ConversationStore.instance;
+  }
+
+  async list(): Promise<Conversation[]> {
+    const conversations = this.memory
+      ? Array.from(this.memory.values())
+      : await withStore(STORES.conversations, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<Conversation[]>)
+        );
+    return conversations.sort(byMostRecent);
+  }
+
+  async get(id: string): Promise<Conversation | undefined> {
+    if (this.memory) return this.memory.get(id);
+    return withStore(STORES.conversations, 'readonly', store =>
+      requestToPromise(store.get(id) as IDBRequest<Conversation | undefined>)
+    );
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    if (this.memory) {
+      this.memory.set(conversation.id, conversation);
+      return;
+    }
+    await withStore(STORES.conversations, 'readwrite', store => requestToPromise(store.put(conversation)));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.memory) {
+      this.memory.delete(id);
+      return;
+    }
+    await withStore(STORES.conversations, 'readwrite', store => requestToPromise(store.delete(id)));
+  }
+
+  async clear(): Promise<void> {
+    if (this.memory) {
+      this.memory.clear();
+      return;
+    }
+    await withStore(STORES.conversations, 'readwrite', store => requestToPromise(store.clear()));
+  }
+
+  /**
+   * Imports the JSON produced by the history panel's export. An id that is
+   * already taken gets a fresh one so the import never overwrites a session.
+   */
+  async importJSON(json: string): Promise<Conversation> {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid conversation file: not valid JSON');
+    }
+
+    const conversation = deserializeConversation(data);
+    if (await this.get(conversation.id)) {
+      conversation.id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+    await this.save(conversation);
+    return conversation;
+  }
+}
+
+export const conversationStore = ConversationStore.getInstance();
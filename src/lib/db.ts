@@ -0,0 +1,195 @@
+// Shared IndexedDB database for everything the app persists beyond
+// localStorage's size limits. Stores are declared here so the schema lives in
+// one place; bump DB_VERSION whenever a store or index is added.
+
+const DB_NAME = 'whysorush-flow';
+const DB_VERSION = 8;
+
+interface StoreSchema {
+  name: string;
+  keyPath: string;
+  indexes?: { name: string; keyPath: string; unique?: boolean }[];
+}
+
+export const STORES = {
+  conversations: 'conversations',
+  projects: 'projects',
+  // File and folder metadata; contents live in `fileContents` so listing a
+  // project never reads file bodies
+  files: 'files',
+  fileContents: 'fileContents',
+  // File System Access handles of local folders, kept so they can be reopened
+  directoryHandles: 'directoryHandles',
+  // Chunk embeddings keyed by embedder and chunk text hash, shared by all projects
+  embeddings: 'embeddings',
+  // Long-lived facts about the user and their projects, edited in the Memory panel
+  memories: 'memories',
+  // Memories proposed from Composer conversations, awaiting the user's approval
+  memorySuggestions: 'memorySuggestions',
+  // Every saved edit of a prompt; the newest one is the prompt's content
+  promptRevisions: 'promptRevisions',
+  // Prompts created in the Prompt Registry or forked from another; their
+  // content lives in `promptRevisions`
+  localPrompts: 'localPrompts',
+  // Ctrl+K edits made in the code editor, accepted or rejected
+  inlineEdits: 'inlineEdits'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const SCHEMA: StoreSchema[] = [
+  {
+    name: STORES.conversations,
+    keyPath: 'id',
+    indexes: [{ name: 'updatedAt', keyPath: 'updatedAt' }]
+  },
+  {
+    name: STORES.projects,
+    keyPath: 'id',
+    indexes: [{ name: 'lastOpened', keyPath: 'lastOpened' }]
+  },
+  {
+    name: STORES.files,
+    keyPath: 'key',
+    indexes: [{ name: 'projectId', keyPath: 'projectId' }]
+  },
+  {
+    name: STORES.fileContents,
+    keyPath: 'key',
+    indexes: [{ name: 'projectId', keyPath: 'projectId' }]
+  },
+  {
+    name: STORES.directoryHandles,
+    keyPath: 'id',
+    indexes: [{ name: 'lastOpened', keyPath: 'lastOpened' }]
+  },
+  {
+    name: STORES.embeddings,
+    keyPath: 'key',
+    indexes: [{ name: 'embedderId', keyPath: 'embedderId' }]
+  },
+  {
+    name: STORES.memories,
+    keyPath: 'id',
+    indexes: [{ name: 'lastAccessed', keyPath: 'lastAccessed' }]
+  },
+  {
+    name: STORES.memorySuggestions,
+    keyPath: 'id',
+    indexes: [{ name: 'createdAt', keyPath: 'createdAt' }]
+  },
+  {
+    name: STORES.promptRevisions,
+    keyPath: 'id',
+    indexes: [{ name: 'promptId', keyPath: 'promptId' }]
+  },
+  {
+    name: STORES.localPrompts,
+    keyPath: 'id',
+    indexes: [{ name: 'createdAt', keyPath: 'createdAt' }]
+  },
+  {
+    name: STORES.inlineEdits,
+    keyPath: 'id',
+    indexes: [{ name: 'timestamp', keyPath: 'timestamp' }]
+  }
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined';
+
+// Missing stores and indexes are created on upgrade; existing data is kept
+const upgrade = (database: IDBDatabase, transaction: IDBTransaction) => {
+  for (const schema of SCHEMA) {
+    const store = database.objectStoreNames.contains(schema.name)
+      ? transaction.objectStore(schema.name)
+      : database.createObjectStore(schema.name, { keyPath: schema.keyPath });
+
+    for (const index of schema.indexes ?? []) {
+      if (!store.indexNames.contains(index.name)) {
+        store.createIndex(index.name, index.keyPath, { unique: index.unique ?? false });
+      }
+    }
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (request.transaction) upgrade(request.result, request.transaction);
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        // Another tab upgraded the schema; reopen on next use
+        database.onversionchange = () => {
+          database.close();
+          databasePromise = null;
+        };
+        resolve(database);
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error ?? new Error('Failed to open IndexedDB'));
+      };
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade is blocked by another open tab');
+      };
+    });
+  }
+
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+/**
+ * Runs `work` inside one transaction spanning `storeNames` and resolves with
+ * its result once the transaction has committed. `work` must only await
+ * requests made on this transaction, or IndexedDB commits it early.
+ */
+export const withTransaction = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+  try {
+    const result = await work(transaction);
+    await done;
+    return result;
+  } catch (error) {
+    // Roll back anything `work` wrote before it failed
+    try {
+      transaction.abort();
+    } catch {
+      // Already committed or aborted
+    }
+    done.catch(() => undefined);
+    throw error;
+  }
+};
+
+export const withStore = <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => withTransaction([storeName], mode, transaction => work(transaction.objectStore(storeName)));
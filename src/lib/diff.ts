@@ -0,0 +1,449 @@
+// Line and word diffing for reviewing AI-proposed changes. The core is the
+// Myers O(ND) algorithm, which finds a shortest edit script, so an inserted
+// line only marks that line as changed instead of everything after it.
+
+export interface DiffOp<T> {
+  type: 'equal' | 'insert' | 'delete';
+  value: T;
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  // 1-based; absent on the side the line does not exist on
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Indices into the full line list the hunk was cut from
+  startIndex: number;
+  endIndex: number;
+  lines: DiffLine[];
+}
+
+export interface WordSegment {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffResult {
+  lines: DiffLine[];
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+}
+
+export const DEFAULT_CONTEXT_LINES = 3;
+
+// Beyond this many edits the changes are effectively a rewrite, and the
+// O(D²) trace would be wasteful, so we fall back to delete-all/insert-all
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Shortest edit script turning `a` into `b`. Common prefix and suffix are
+ * stripped before running Myers, which keeps the typical AI edit cheap.
+ */
+export const diffSequences = <T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffOp<T>[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const head: DiffOp<T>[] = a.slice(0, prefix).map(value => ({ type: 'equal', value }));
+  const tail: DiffOp<T>[] = a.slice(a.length - suffix).map(value => ({ type: 'equal', value }));
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), equals);
+
+  return [...head, ...middle, ...tail];
+};
+
+const myers = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOp<T>[] => {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map(value => ({ type: 'insert', value }));
+  if (m === 0) return a.map(value => ({ type: 'delete', value }));
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((value): DiffOp<T> => ({ type: 'delete', value })),
+      ...b.map((value): DiffOp<T> => ({ type: 'insert', value }))
+    ];
+  }
+
+  // Walk the trace backwards from (n, m) to recover the path
+  const ops: DiffOp<T>[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+};
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+export const diffLines = (original: string, modified: string): DiffLine[] => {
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+
+  return diffSequences(splitLines(original), splitLines(modified)).map((op): DiffLine => {
+    switch (op.type) {
+      case 'equal':
+        return { type: 'context', content: op.value, oldLineNumber: oldLineNumber++, newLineNumber: newLineNumber++ };
+      case 'delete':
+        return { type: 'removed', content: op.value, oldLineNumber: oldLineNumber++ };
+      default:
+        return { type: 'added', content: op.value, newLineNumber: newLineNumber++ };
+    }
+  });
+};
+
+/**
+ * Groups changed lines into hunks with up to `contextLines` unchanged lines
+ * around them; changes closer together than twice that share a hunk.
+ */
+export const buildHunks = (lines: DiffLine[], contextLines = DEFAULT_CONTEXT_LINES): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'context') {
+      index++;
+      continue;
+    }
+
+    const startIndex = Math.max(0, index - contextLines);
+    let endIndex = index;
+    let lastChange = index;
+
+    // Extend while the next change is within reach of the trailing context
+    while (endIndex < lines.length && endIndex - lastChange <= contextLines * 2) {
+      if (lines[endIndex].type !== 'context') lastChange = endIndex;
+      endIndex++;
+    }
+    endIndex = Math.min(lines.length, lastChange + contextLines + 1);
+
+    const hunkLines = lines.slice(startIndex, endIndex);
+    hunks.push({
+      ...hunkRange(lines, startIndex, hunkLines),
+      startIndex,
+      endIndex,
+      lines: hunkLines
+    });
+    index = endIndex;
+  }
+
+  return hunks;
+};
+
+// Start/length pairs as used in `@@ -a,b +c,d @@` headers
+const hunkRange = (allLines: DiffLine[], startIndex: number, hunkLines: DiffLine[]) => {
+  const oldLines = hunkLines.filter(line => line.type !== 'added').length;
+  const newLines = hunkLines.filter(line => line.type !== 'removed').length;
+
+  // Line numbers of the position just before the hunk on each side
+  let oldBefore = 0;
+  let newBefore = 0;
+  for (let i = 0; i < startIndex; i++) {
+    if (allLines[i].type !== 'added') oldBefore++;
+    if (allLines[i].type !== 'removed') newBefore++;
+  }
+
+  return {
+    oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+    oldLines,
+    newStart: newLines > 0 ? newBefore + 1 : newBefore,
+    newLines
+  };
+};
+
+export const formatHunkHeader = (hunk: DiffHunk): string =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+export const computeDiff = (
+  original: string,
+  modified: string,
+  contextLines = DEFAULT_CONTEXT_LINES
+): DiffResult => {
+  const lines = diffLines(original, modified);
+  return {
+    lines,
+    hunks: buildHunks(lines, contextLines),
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length
+  };
+};
+
+const tokenize = (text: string): string[] => text.match(/\s+|\w+|[^\w\s]/g) ?? [];
+
+/** Word-level diff of two versions of a line, for intra-line highlighting. */
+export const diffWords = (original: string, modified: string): WordSegment[] => {
+  const segments: WordSegment[] = [];
+
+  for (const op of diffSequences(tokenize(original), tokenize(modified))) {
+    const type = op.type === 'equal' ? 'equal' : op.type === 'insert' ? 'added' : 'removed';
+    const previous = segments[segments.length - 1];
+    if (previous?.type === type) {
+      previous.value += op.value;
+    } else {
+      segments.push({ type, value: op.value });
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Aligns a diff into left/right rows: context lines sit on both sides, and a
+ * run of removed lines is paired with the added run that follows it.
+ */
+export const toSideBySide = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === 'context') {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Rebuilds the file from a diff keeping only the hunks `isAccepted` approves;
+ * rejected hunks keep the original lines. Hunk indices match `buildHunks`
+ * with the same `contextLines`.
+ */
+export const applyHunks = (
+  original: string,
+  modified: string,
+  isAccepted: (hunkIndex: number) => boolean,
+  contextLines = DEFAULT_CONTEXT_LINES
+): string => {
+  const { lines, hunks } = computeDiff(original, modified, contextLines);
+  const acceptedLines = new Set<number>();
+  hunks.forEach((hunk, index) => {
+    if (!isAccepted(index)) return;
+    for (let i = hunk.startIndex; i < hunk.endIndex; i++) acceptedLines.add(i);
+  });
+
+  return lines
+    .filter((line, index) => line.type === 'context' || (line.type === 'added') === acceptedLines.has(index))
+    .map(line => line.content)
+    .join('\n');
+};
+
+export interface PatchHunk {
+  oldStart: number;
+  lines: { type: DiffLine['type']; content: string }[];
+}
+
+export interface FilePatch {
+  // `null` for /dev/null, i.e. a created or deleted file
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+const patchPath = (header: string): string | null => {
+  const path = header.replace(/^(---|\+\+\+)\s+/, '').split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+};
+
+/** Parses `diff -u` / `git diff` output into per-file hunks. */
+export const parseUnifiedDiff = (text: string): FilePatch[] => {
+  const patches: FilePatch[] = [];
+  let patch: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('--- ')) {
+      patch = { oldPath: patchPath(line), newPath: null, hunks: [] };
+      patches.push(patch);
+      hunk = null;
+    } else if (line.startsWith('+++ ') && patch) {
+      patch.newPath = patchPath(line);
+    } else if (line.startsWith('@@')) {
+      if (!patch) {
+        // Hunks without file headers; the caller supplies the path
+        patch = { oldPath: '', newPath: '', hunks: [] };
+        patches.push(patch);
+      }
+      const match = line.match(/^@@ -(\d+)/);
+      hunk = { oldStart: match ? Number(match[1]) : 1, lines: [] };
+      patch.hunks.push(hunk);
+    } else if (hunk) {
+      if (line.startsWith('+')) hunk.lines.push({ type: 'added', content: line.slice(1) });
+      else if (line.startsWith('-')) hunk.lines.push({ type: 'removed', content: line.slice(1) });
+      else if (line.startsWith(' ') || line === '') hunk.lines.push({ type: 'context', content: line.slice(1) });
+      // `\ No newline at end of file` and other markers are ignored
+    }
+  }
+
+  // A trailing blank line is usually the end of the block, not context
+  for (const { hunks } of patches) {
+    for (const { lines } of hunks) {
+      while (lines.length > 0 && lines[lines.length - 1].type === 'context' && lines[lines.length - 1].content === '') {
+        lines.pop();
+      }
+    }
+  }
+
+  return patches;
+};
+
+const findBlock = (lines: string[], block: string[], near: number, normalize: (line: string) => string): number => {
+  if (block.length === 0) return Math.min(Math.max(near, 0), lines.length);
+  const matchesAt = (start: number) => block.every((line, i) => normalize(lines[start + i] ?? '') === normalize(line));
+
+  // Search outwards from the position the header claims
+  for (let distance = 0; distance <= lines.length; distance++) {
+    for (const start of distance === 0 ? [near] : [near - distance, near + distance]) {
+      if (start >= 0 && start + block.length <= lines.length && matchesAt(start)) return start;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Applies patch hunks to `original`. Model-written patches often carry wrong
+ * line numbers or whitespace, so each hunk is located by its context and
+ * removed lines, first exactly and then ignoring surrounding whitespace.
+ */
+export const applyUnifiedPatch = (original: string, hunks: PatchHunk[]): string => {
+  const lines = original === '' ? [] : original.split('\n');
+  let offset = 0;
+
+  for (const hunk of hunks) {
+    const before = hunk.lines.filter(line => line.type !== 'added').map(line => line.content);
+    const after = hunk.lines.filter(line => line.type !== 'removed').map(line => line.content);
+    const near = hunk.oldStart - 1 + offset;
+
+    let start = findBlock(lines, before, near, line => line);
+    if (start === -1) start = findBlock(lines, before, near, line => line.trim());
+    if (start === -1) {
+      const preview = before.find(line => line.trim()) ?? '';
+      throw new Error(`Patch hunk at line ${hunk.oldStart} does not match the file (looking for "${preview.trim()}")`);
+    }
+
+    lines.splice(start, before.length, ...after);
+    offset += after.length - before.length;
+  }
+
+  return lines.join('\n');
+};
+
+// The hunk with at most `keep` context lines on either side of its changes
+const trimContext = (hunk: DiffHunk, keep: number): PatchHunk => {
+  const first = hunk.lines.findIndex(line => line.type !== 'context');
+  let last = hunk.lines.length - 1;
+  while (last > first && hunk.lines[last].type === 'context') last--;
+  const from = Math.max(0, first - keep);
+  return {
+    oldStart: hunk.oldStart + from,
+    lines: hunk.lines.slice(from, last + 1 + keep)
+  };
+};
+
+/**
+ * Re-applies the accepted hunks of an `original` -> `modified` edit to
+ * `current`, a later version of the same file. Hunks are located by their
+ * context, then by a single line of it when nearby edits changed the rest.
+ * Throws when a hunk's lines are no longer in the file.
+ */
+export const rebaseHunks = (
+  original: string,
+  modified: string,
+  current: string,
+  isAccepted: (hunkIndex: number) => boolean
+): string => {
+  const hunks = computeDiff(original, modified).hunks.filter((_, index) => isAccepted(index));
+  try {
+    return applyUnifiedPatch(current, hunks.map(hunk => trimContext(hunk, DEFAULT_CONTEXT_LINES)));
+  } catch {
+    return applyUnifiedPatch(current, hunks.map(hunk => trimContext(hunk, 1)));
+  }
+};
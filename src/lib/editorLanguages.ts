@@ -0,0 +1,45 @@
+import type { Extension } from '@codemirror/state';
+import { StreamLanguage } from '@codemirror/language';
+
+// CodeMirror language support for each language `CodeEditor` detects.
+// Packages are imported on first use so they load as separate chunks.
+const LOADERS: Record<string, () => Promise<Extension>> = {
+  javascript: () => import('@codemirror/lang-javascript').then(m => m.javascript({ jsx: true })),
+  typescript: () => import('@codemirror/lang-javascript').then(m => m.javascript({ jsx: true, typescript: true })),
+  html: () => import('@codemirror/lang-html').then(m => m.html()),
+  css: () => import('@codemirror/lang-css').then(m => m.css()),
+  json: () => import('@codemirror/lang-json').then(m => m.json()),
+  markdown: () => import('@codemirror/lang-markdown').then(m => m.markdown()),
+  python: () => import('@codemirror/lang-python').then(m => m.python()),
+  java: () => import('@codemirror/lang-java').then(m => m.java()),
+  cpp: () => import('@codemirror/lang-cpp').then(m => m.cpp()),
+  c: () => import('@codemirror/lang-cpp').then(m => m.cpp()),
+  go: () => import('@codemirror/lang-go').then(m => m.go()),
+  rust: () => import('@codemirror/lang-rust').then(m => m.rust()),
+  php: () => import('@codemirror/lang-php').then(m => m.php()),
+  // No Lezer grammars for these; the CodeMirror 5 modes cover highlighting
+  ruby: () => import('@codemirror/legacy-modes/mode/ruby').then(m => StreamLanguage.define(m.ruby)),
+  swift: () => import('@codemirror/legacy-modes/mode/swift').then(m => StreamLanguage.define(m.swift)),
+  kotlin: () => import('@codemirror/legacy-modes/mode/clike').then(m => StreamLanguage.define(m.kotlin))
+};
+
+const cache = new Map<string, Promise<Extension | null>>();
+
+/**
+ * Resolves the CodeMirror extension for `language`, or null for plain text
+ * and languages without support. Failed loads are logged and not retried.
+ */
+export const loadLanguage = (language: string): Promise<Extension | null> => {
+  const loader = LOADERS[language];
+  if (!loader) return Promise.resolve(null);
+
+  let extension = cache.get(language);
+  if (!extension) {
+    extension = loader().catch(error => {
+      console.warn(`Failed to load ${language} support for the editor:`, error);
+      return null;
+    });
+    cache.set(language, extension);
+  }
+  return extension;
+};
@@ -0,0 +1,139 @@
+import { resolveEndpoint, ensureOk } from '@/lib/llm/http';
+import { tokenize } from '@/lib/search/searchIndex';
+
+/**
+ * Turns texts into unit-length vectors. Vectors from different embedders
+ * live in different spaces, so `id` changes whenever the model or its
+ * parameters do; cached vectors are keyed by it.
+ */
+export interface Embedder {
+  id: string;
+  name: string;
+  // Texts sent per `embed` call
+  batchSize: number;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<Float32Array[]>;
+}
+
+export type EmbeddingProviderId = 'local' | 'endpoint';
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProviderId;
+  // OpenAI-compatible `/embeddings` endpoint: OpenAI, Ollama, LM Studio,
+  // a self-hosted ONNX server, ...
+  endpoint: string;
+  apiKey: string;
+  model: string;
+}
+
+const SETTINGS_KEY = 'embedding-config';
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  provider: 'local',
+  endpoint: 'https://api.openai.com/v1/embeddings',
+  apiKey: '',
+  model: 'text-embedding-3-small'
+};
+
+export const loadEmbeddingSettings = (): EmbeddingSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_EMBEDDING_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_EMBEDDING_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to read embedding settings:', error);
+    return { ...DEFAULT_EMBEDDING_SETTINGS };
+  }
+};
+
+export const saveEmbeddingSettings = (settings: EmbeddingSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const normalize = (vector: Float32Array): Float32Array => {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+// FNV-1a
+const hash32 = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const HASH_DIMENSIONS = 512;
+// Character trigrams let related word forms (auth/authenticate/authentication) overlap
+const TRIGRAM_WEIGHT = 0.35;
+
+/**
+ * Offline fallback that needs no model download: identifier terms and their
+ * character trigrams are hashed into a fixed-size vector. This is keyword
+ * matching, not semantic similarity; only an endpoint embedder compares
+ * meaning.
+ */
+export const localEmbedder: Embedder = {
+  id: `local-hash-${HASH_DIMENSIONS}-v1`,
+  name: 'Keyword match (offline)',
+  batchSize: 256,
+  embed: async texts => texts.map(text => {
+    const vector = new Float32Array(HASH_DIMENSIONS);
+    const add = (feature: string, weight: number) => {
+      const hash = hash32(feature);
+      // The top bit picks the sign, so unrelated collisions tend to cancel out
+      vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const term of tokenize(text)) {
+      add(term, 1);
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length && term.length > 3; i++) {
+        add(`3:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+    return normalize(vector);
+  })
+};
+
+interface EmbeddingResponse {
+  data: { index: number; embedding: number[] }[];
+}
+
+export const createEndpointEmbedder = (settings: EmbeddingSettings): Embedder => ({
+  id: `endpoint:${settings.endpoint}:${settings.model}`,
+  name: settings.model,
+  batchSize: 64,
+  embed: async (texts, signal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(resolveEndpoint(settings.endpoint), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: settings.model, input: texts }),
+      signal
+    });
+    await ensureOk(response, 'Embeddings');
+
+    const { data }: EmbeddingResponse = await response.json();
+    if (!Array.isArray(data) || data.length !== texts.length) {
+      throw new Error(`Embeddings endpoint returned ${data?.length ?? 0} vectors for ${texts.length} inputs`);
+    }
+    return [...data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(Float32Array.from(item.embedding)));
+  }
+});
+
+export const createEmbedder = (settings: EmbeddingSettings): Embedder =>
+  settings.provider === 'endpoint' && settings.endpoint && settings.model
+    ? createEndpointEmbedder(settings)
+    : localEmbedder;
@@ -0,0 +1,223 @@
+import { STORES, isIndexedDBAvailable, requestToPromise, withStore } from '@/lib/db';
+import { ContextFile } from '@/lib/contextPacker';
+import { Embedder } from './embedders';
+
+// Chunks end at the first of these, preferably at a blank line before a
+// top-level statement once they have MIN_CHUNK_LINES
+const MAX_CHUNK_LINES = 30;
+const MAX_CHUNK_CHARS = 1500;
+const MIN_CHUNK_LINES = 8;
+// Below this cosine similarity a chunk is not worth attaching
+const MIN_SCORE = 0.15;
+
+export interface TextChunk {
+  // `<path>:<startLine>`
+  id: string;
+  path: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends TextChunk {
+  score: number;
+}
+
+interface StoredEmbedding {
+  key: string;
+  embedderId: string;
+  vector: Float32Array;
+}
+
+interface Entry {
+  chunk: TextChunk;
+  hash: string;
+  vector?: Float32Array;
+}
+
+// cyrb53: 53 bits, so distinct chunks practically never share a cache key
+const contentHash = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}-${text.length}`;
+};
+
+/** Splits a file into chunks of whole lines, skipping blank ones. */
+export const chunkFile = (path: string, content: string): TextChunk[] => {
+  const lines = content.split('\n');
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  let chars = 0;
+
+  const flush = (end: number) => {
+    const text = lines.slice(start, end).join('\n');
+    if (text.trim()) {
+      chunks.push({ id: `${path}:${start + 1}`, path, startLine: start + 1, endLine: end, text });
+    }
+    start = end;
+    chars = 0;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    chars += lines[index].length + 1;
+    const size = index + 1 - start;
+    const boundary = lines[index].trim() === '' && /^\S/.test(lines[index + 1] ?? '') && size >= MIN_CHUNK_LINES;
+    if (boundary || size >= MAX_CHUNK_LINES || chars >= MAX_CHUNK_CHARS) flush(index + 1);
+  }
+  if (start < lines.length) flush(lines.length);
+  return chunks;
+};
+
+const cacheKey = (embedderId: string, hash: string) => `${embedderId}|${hash}`;
+
+const readCached = async (embedderId: string, hashes: string[]): Promise<Map<string, Float32Array>> => {
+  const found = new Map<string, Float32Array>();
+  if (!isIndexedDBAvailable() || hashes.length === 0) return found;
+
+  try {
+    await withStore(STORES.embeddings, 'readonly', async store => {
+      const records = await Promise.all(hashes.map(hash =>
+        requestToPromise(store.get(cacheKey(embedderId, hash)) as IDBRequest<StoredEmbedding | undefined>)
+      ));
+      records.forEach((record, index) => {
+        if (record) found.set(hashes[index], record.vector);
+      });
+    });
+  } catch (error) {
+    console.warn('Failed to read cached embeddings:', error);
+  }
+  return found;
+};
+
+const writeCached = async (embedderId: string, vectors: Map<string, Float32Array>): Promise<void> => {
+  if (!isIndexedDBAvailable() || vectors.size === 0) return;
+
+  try {
+    await withStore(STORES.embeddings, 'readwrite', store => {
+      vectors.forEach((vector, hash) => {
+        const record: StoredEmbedding = { key: cacheKey(embedderId, hash), embedderId, vector };
+        store.put(record);
+      });
+    });
+  } catch (error) {
+    console.warn('Failed to cache embeddings:', error);
+  }
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Embedded chunks of a set of files, queried by cosine similarity. Vectors
+ * are cached in IndexedDB by embedder and chunk text, so unchanged code is
+ * embedded once across sessions and projects; only the current project's
+ * chunks are held in memory.
+ */
+export class VectorStore {
+  private entries = new Map<string, Entry>();
+  // Content each file was last chunked from
+  private fileContents = new Map<string, string>();
+  // Indexing runs one at a time, in call order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly embedder: Embedder) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Re-chunks files whose content changed, drops files that are gone and
+   * embeds every chunk without a vector.
+   */
+  index(files: ContextFile[], signal?: AbortSignal): Promise<void> {
+    const run = this.queue.then(() => this.update(files, signal));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /** The `limit` chunks most similar to `query`, best first. */
+  async query(query: string, limit: number, signal?: AbortSignal): Promise<RetrievedChunk[]> {
+    if (!query.trim() || this.entries.size === 0) return [];
+    const [queryVector] = await this.embedder.embed([query], signal);
+
+    const results: RetrievedChunk[] = [];
+    for (const { chunk, vector } of this.entries.values()) {
+      if (!vector) continue;
+      const score = dot(queryVector, vector);
+      if (score >= MIN_SCORE) results.push({ ...chunk, score });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private async update(files: ContextFile[], signal?: AbortSignal): Promise<void> {
+    const paths = new Set(files.map(file => file.path));
+    for (const [path] of this.fileContents) {
+      if (!paths.has(path)) this.dropFile(path);
+    }
+
+    for (const file of files) {
+      if (this.fileContents.get(file.path) === file.content) continue;
+      this.dropFile(file.path);
+      this.fileContents.set(file.path, file.content);
+      for (const chunk of chunkFile(file.path, file.content)) {
+        // The path is embedded too: it often says what the code is for
+        this.entries.set(chunk.id, { chunk, hash: contentHash(`${chunk.path}\n${chunk.text}`) });
+      }
+    }
+
+    const missing = Array.from(this.entries.values()).filter(entry => !entry.vector);
+    if (missing.length === 0) return;
+
+    const cached = await readCached(this.embedder.id, Array.from(new Set(missing.map(entry => entry.hash))));
+    const toEmbed = new Map<string, Entry[]>();
+    for (const entry of missing) {
+      const vector = cached.get(entry.hash);
+      if (vector) {
+        entry.vector = vector;
+      } else {
+        toEmbed.set(entry.hash, [...(toEmbed.get(entry.hash) ?? []), entry]);
+      }
+    }
+
+    const hashes = Array.from(toEmbed.keys());
+    for (let i = 0; i < hashes.length; i += this.embedder.batchSize) {
+      signal?.throwIfAborted();
+      const batch = hashes.slice(i, i + this.embedder.batchSize);
+      const vectors = await this.embedder.embed(
+        batch.map(hash => {
+          const { chunk } = toEmbed.get(hash)![0];
+          return `${chunk.path}\n${chunk.text}`;
+        }),
+        signal
+      );
+      const computed = new Map<string, Float32Array>();
+      batch.forEach((hash, index) => {
+        computed.set(hash, vectors[index]);
+        toEmbed.get(hash)!.forEach(entry => {
+          entry.vector = vectors[index];
+        });
+      });
+      await writeCached(this.embedder.id, computed);
+    }
+  }
+
+  private dropFile(path: string): void {
+    this.fileContents.delete(path);
+    for (const [id, entry] of this.entries) {
+      if (entry.chunk.path === path) this.entries.delete(id);
+    }
+  }
+}
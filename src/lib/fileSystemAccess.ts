@@ -0,0 +1,535 @@
+import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
+import { STORES, requestToPromise, withStore } from '@/lib/db';
+
+// Parts of the File System Access API that TypeScript's DOM lib does not declare
+type PermissionMode = 'read' | 'readwrite';
+
+interface DirectoryPickerWindow {
+  showDirectoryPicker?: (options?: { id?: string; mode?: PermissionMode }) => Promise<FileSystemDirectoryHandle>;
+}
+
+interface PermissionedHandle {
+  queryPermission?: (descriptor: { mode: PermissionMode }) => Promise<PermissionState>;
+  requestPermission?: (descriptor: { mode: PermissionMode }) => Promise<PermissionState>;
+}
+
+interface IterableDirectoryHandle {
+  values: () => AsyncIterable<FileSystemFileHandle | FileSystemDirectoryHandle>;
+}
+
+interface MovableHandle {
+  move?: (newName: string) => Promise<void>;
+}
+
+// A local folder the user opened, kept in IndexedDB so it can be reopened
+export interface LocalFolderRecord {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  lastOpened: Date;
+}
+
+export interface FileSystemAccessOptions {
+  // Entries to leave out of the tree; `size` is 0 for folders
+  ignore?: (path: string, name: string, size: number) => boolean;
+}
+
+const ALWAYS_IGNORED = new Set(['node_modules', '.git']);
+
+// Common ignore patterns (similar to .gitignore)
+const IGNORE_PATTERNS = [
+  // Dependencies
+  'node_modules',
+  'bower_components',
+  'vendor',
+  
+  // Build outputs
+  'dist',
+  'build',
+  'out',
+  'target',
+  '.next',
+  '.nuxt',
+  '.output',
+  
+  // Logs
+  '*.log',
+  'logs',
+  'npm-debug.log*',
+  'yarn-debug.log*',
+  'yarn-error.log*',
+  'pnpm-debug.log*',
+  'lerna-debug.log*',
+  
+  // OS files
+  '.DS_Store',
+  'Thumbs.db',
+  'desktop.ini',
+  
+  // Editor files
+  '.vscode',
+  '.idea',
+  '*.swp',
+  '*.swo',
+  '*~',
+  
+  // Cache and temp files
+  '.cache',
+  '.tmp',
+  'temp',
+  'tmp',
+  
+  // Package files
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  
+  // Large binary files
+  '*.zip',
+  '*.tar.gz',
+  '*.rar',
+  '*.7z',
+  '*.exe',
+  '*.dll',
+  '*.so',
+  '*.dylib',
+  '*.bin',
+  '*.dat',
+  '*.db',
+  '*.sqlite',
+  '*.sqlite3',
+  
+  // Media files
+  '*.jpg',
+  '*.jpeg',
+  '*.png',
+  '*.gif',
+  '*.bmp',
+  '*.svg',
+  '*.ico',
+  '*.mp3',
+  '*.mp4',
+  '*.avi',
+  '*.mov',
+  '*.wmv',
+  '*.flv',
+  '*.webm',
+  '*.pdf',
+  '*.doc',
+  '*.docx',
+  '*.xls',
+  '*.xlsx',
+  '*.ppt',
+  '*.pptx',
+  
+  // Large data files
+  '*.csv',
+  '*.json',
+  '*.xml',
+  '*.yaml',
+  '*.yml',
+  '*.toml',
+  '*.ini',
+  '*.cfg',
+  '*.conf',
+  
+  // Git
+  '.git',
+  '.gitignore',
+  '.gitattributes',
+  
+  // Environment files
+  '.env',
+  '.env.local',
+  '.env.development',
+  '.env.production',
+  '.env.test'
+];
+
+// Files larger than this are skipped when a folder is opened (5MB)
+export const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Check if a file should be ignored; shared by uploads and folders opened from disk
+export const shouldIgnoreFile = (filePath: string, fileName: string, fileSize: number): boolean => {
+  // Check file size
+  if (fileSize > MAX_FILE_SIZE) {
+    return true;
+  }
+
+  // Check ignore patterns
+  const path = filePath.toLowerCase();
+  const name = fileName.toLowerCase();
+  
+  for (const pattern of IGNORE_PATTERNS) {
+    if (pattern.includes('*')) {
+      // Handle wildcard patterns
+      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
+      if (regex.test(name) || regex.test(path)) {
+        return true;
+      }
+    } else {
+      // Exact match
+      if (path.includes(pattern.toLowerCase()) || name === pattern.toLowerCase()) {
+        return true;
+      }
+    }
+  }
+  
+  return false;
+};
+
+// Text files the search index reads for a tree listed without contents
+const TEXT_EXTENSIONS = new Set([
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'json', 'md', 'txt', 'css', 'scss', 'html',
+  'py', 'java', 'cpp', 'c', 'h', 'go', 'rs', 'php', 'rb', 'swift', 'kt', 'sh', 'yml', 'yaml', 'toml'
+]);
+
+const MAX_TEXT_CONTENT_SIZE = 1024 * 1024;
+
+const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const validateName = (name: string) => {
+  if (!name.trim() || name.includes('/') || name === '.' || name === '..') {
+    throw new Error(`Invalid file name: "${name}"`);
+  }
+};
+
+const isDOMException = (error: unknown, name: string) =>
+  error instanceof DOMException && error.name === name;
+
+const byFolderThenName = (a: FileSystemItem, b: FileSystemItem) =>
+  a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1;
+
+export const isFileSystemAccessSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+
+// The user cancelling the folder picker rejects with an AbortError
+export const isPickerAbort = (error: unknown): boolean => isDOMException(error, 'AbortError');
+
+/**
+ * Resolves whether `mode` access is granted for `handle`, prompting when it
+ * is not. Prompting only works while handling a user gesture.
+ */
+export const ensurePermission = async (
+  handle: FileSystemHandle,
+  mode: PermissionMode = 'readwrite'
+): Promise<boolean> => {
+  const permissioned = handle as FileSystemHandle & PermissionedHandle;
+  // Browsers without the permission methods grant access with the handle
+  if (!permissioned.queryPermission || !permissioned.requestPermission) return true;
+  if (await permissioned.queryPermission({ mode }) === 'granted') return true;
+  return await permissioned.requestPermission({ mode }) === 'granted';
+};
+
+const getChild = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemFileHandle | FileSystemDirectoryHandle | null> => {
+  try {
+    return await directory.getFileHandle(name);
+  } catch (error) {
+    if (isDOMException(error, 'TypeMismatchError')) return directory.getDirectoryHandle(name);
+    if (isDOMException(error, 'NotFoundError')) return null;
+    throw error;
+  }
+};
+
+const writeText = async (handle: FileSystemFileHandle, content: string) => {
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(content);
+  } finally {
+    await writable.close();
+  }
+};
+
+// Copies `source` into `target` under `name`, recursing into folders
+const copyEntry = async (
+  source: FileSystemFileHandle | FileSystemDirectoryHandle,
+  target: FileSystemDirectoryHandle,
+  name: string
+): Promise<void> => {
+  if (source.kind === 'file') {
+    const file = await source.getFile();
+    await writeText(await target.getFileHandle(name, { create: true }), await file.text());
+    return;
+  }
+
+  const folder = await target.getDirectoryHandle(name, { create: true });
+  for await (const child of (source as unknown as IterableDirectoryHandle).values()) {
+    await copyEntry(child, folder, child.name);
+  }
+};
+
+/**
+ * `FileSystemService` over a real folder on disk, opened through
+ * `showDirectoryPicker`. The tree is listed without contents and files are
+ * read on demand; saves, creates, renames and deletes write to disk.
+ */
+export class FileSystemAccessService implements FileSystemService {
+  constructor(
+    private readonly root: FileSystemDirectoryHandle,
+    private readonly options: FileSystemAccessOptions = {}
+  ) {}
+
+  async loadFiles(): Promise<FileSystemItem[]> {
+    if (!(await ensurePermission(this.root, 'read'))) {
+      throw new Error(`Permission to read ${this.root.name} was denied`);
+    }
+    return this.listDirectory(this.root, '');
+  }
+
+  async getFileContent(fileId: string): Promise<string> {
+    const handle = await this.resolve(fileId);
+    if (handle?.kind !== 'file') {
+      throw new Error(`File not found: ${fileId}`);
+    }
+    const file = await handle.getFile();
+    return file.text();
+  }
+
+  // Creates the file (and its folders) when it does not exist yet
+  async saveFile(file: FileSystemItem): Promise<void> {
+    await this.ensureWritable();
+    const parts = splitPath(file.path);
+    const directory = await this.resolveDirectory(parts.slice(0, -1), true);
+    const existing = await getChild(directory, parts[parts.length - 1]);
+    if (existing?.kind === 'directory') {
+      throw new Error(`${file.path} is a folder`);
+    }
+    const handle = existing ?? await directory.getFileHandle(parts[parts.length - 1], { create: true });
+    // A tree item without content was never read; leave the file on disk as it is
+    if (file.content !== undefined) {
+      await writeText(handle, file.content);
+    }
+  }
+
+  async createFile(name: string, path: string, content = ''): Promise<FileSystemItem> {
+    validateName(name);
+    await this.ensureWritable();
+    const filePath = joinPath(path, name);
+    const directory = await this.resolveDirectory(splitPath(path), true);
+    if (await getChild(directory, name)) {
+      throw new Error(`${filePath} already exists`);
+    }
+
+    await writeText(await directory.getFileHandle(name, { create: true }), content);
+    return {
+      id: filePath,
+      name,
+      type: 'file',
+      path: filePath,
+      size: content.length,
+      lastModified: new Date(),
+      content
+    };
+  }
+
+  async createFolder(name: string, path: string): Promise<FileSystemItem> {
+    validateName(name);
+    await this.ensureWritable();
+    const folderPath = joinPath(path, name);
+    const directory = await this.resolveDirectory(splitPath(path), true);
+    if (await getChild(directory, name)) {
+      throw new Error(`${folderPath} already exists`);
+    }
+
+    await directory.getDirectoryHandle(name, { create: true });
+    return {
+      id: folderPath,
+      name,
+      type: 'folder',
+      path: folderPath,
+      lastModified: new Date(),
+      children: []
+    };
+  }
+
+  // Uses the native move where the browser has it, otherwise copies and removes
+  async renameFile(fileId: string, newName: string): Promise<void> {
+    validateName(newName);
+    await this.ensureWritable();
+    const parts = splitPath(fileId);
+    const oldName = parts[parts.length - 1];
+    if (newName === oldName) return;
+
+    const directory = await this.resolveDirectory(parts.slice(0, -1), false);
+    const handle = await getChild(directory, oldName);
+    if (!handle) throw new Error(`File not found: ${fileId}`);
+    if (await getChild(directory, newName)) {
+      throw new Error(`${joinPath(parts.slice(0, -1).join('/'), newName)} already exists`);
+    }
+
+    const movable = handle as MovableHandle;
+    if (movable.move) {
+      await movable.move(newName);
+      return;
+    }
+    await copyEntry(handle, directory, newName);
+    await directory.removeEntry(oldName, { recursive: true });
+  }
+
+  async deleteFile(fileId: string): Promise<void> {
+    await this.ensureWritable();
+    const parts = splitPath(fileId);
+    const directory = await this.resolveDirectory(parts.slice(0, -1), false);
+    try {
+      await directory.removeEntry(parts[parts.length - 1], { recursive: true });
+    } catch (error) {
+      if (isDOMException(error, 'NotFoundError')) throw new Error(`File not found: ${fileId}`);
+      throw error;
+    }
+  }
+
+  private async ensureWritable(): Promise<void> {
+    if (!(await ensurePermission(this.root, 'readwrite'))) {
+      throw new Error(`Permission to write to ${this.root.name} was denied`);
+    }
+  }
+
+  private async resolveDirectory(parts: string[], create: boolean): Promise<FileSystemDirectoryHandle> {
+    let directory = this.root;
+    for (const part of parts) {
+      try {
+        directory = await directory.getDirectoryHandle(part, { create });
+      } catch (error) {
+        if (isDOMException(error, 'TypeMismatchError')) throw new Error(`${part} is a file, not a folder`);
+        if (isDOMException(error, 'NotFoundError')) throw new Error(`Folder not found: ${parts.join('/')}`);
+        throw error;
+      }
+    }
+    return directory;
+  }
+
+  private async resolve(path: string): Promise<FileSystemFileHandle | FileSystemDirectoryHandle | null> {
+    const parts = splitPath(path);
+    try {
+      const directory = await this.resolveDirectory(parts.slice(0, -1), false);
+      return await getChild(directory, parts[parts.length - 1]);
+    } catch {
+      return null;
+    }
+  }
+
+  private async listDirectory(directory: FileSystemDirectoryHandle, path: string): Promise<FileSystemItem[]> {
+    const items: FileSystemItem[] = [];
+
+    for await (const handle of (directory as unknown as IterableDirectoryHandle).values()) {
+      if (ALWAYS_IGNORED.has(handle.name)) continue;
+      const itemPath = joinPath(path, handle.name);
+
+      if (handle.kind === 'directory') {
+        if (this.options.ignore?.(itemPath, handle.name, 0)) continue;
+        items.push({
+          id: itemPath,
+          name: handle.name,
+          type: 'folder',
+          path: itemPath,
+          lastModified: new Date(),
+          children: await this.listDirectory(handle, itemPath)
+        });
+        continue;
+      }
+
+      const file = await handle.getFile();
+      if (this.options.ignore?.(itemPath, handle.name, file.size)) continue;
+      items.push({
+        id: itemPath,
+        name: handle.name,
+        type: 'file',
+        path: itemPath,
+        size: file.size,
+        lastModified: new Date(file.lastModified)
+      });
+    }
+
+    return items.sort(byFolderThenName);
+  }
+}
+
+// Files whose bodies are worth reading: known text extensions, up to 1MB
+export const isTextFile = (item: FileSystemItem): boolean => {
+  const extension = item.name.split('.').pop()?.toLowerCase() ?? '';
+  return item.type === 'file' && TEXT_EXTENSIONS.has(extension) && (item.size ?? 0) <= MAX_TEXT_CONTENT_SIZE;
+};
+
+/**
+ * Folders opened from disk. Directory handles are structured-cloneable, so
+ * they are stored as-is in the `directoryHandles` store; permission has to be
+ * granted again when one is reopened in a new session.
+ */
+export class LocalFolderStore {
+  private static instance: LocalFolderStore;
+
+  static getInstance(): LocalFolderStore {
+    if (!LocalFolderStore.instance) {
+      LocalFolderStore.instance = new LocalFolderStore();
+    }
+    return LocalFolderStore.instance;
+  }
+
+  async list(): Promise<LocalFolderRecord[]> {
+    const folders = await withStore(STORES.directoryHandles, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<LocalFolderRecord[]>)
+    );
+    return folders.sort((a, b) => b.lastOpened.getTime() - a.lastOpened.getTime());
+  }
+
+  /**
+   * Shows the folder picker with write access and remembers the result.
+   * Picking a folder that is already remembered reuses its record.
+   */
+  async pick(): Promise<LocalFolderRecord> {
+    const pickerWindow = window as DirectoryPickerWindow;
+    if (!pickerWindow.showDirectoryPicker) {
+      throw new Error('This browser cannot open local folders');
+    }
+
+    const handle = await pickerWindow.showDirectoryPicker({ id: 'whysorush-flow', mode: 'readwrite' });
+    const known = await this.list().catch(() => [] as LocalFolderRecord[]);
+    let existing: LocalFolderRecord | undefined;
+    for (const folder of known) {
+      if (await folder.handle.isSameEntry(handle)) {
+        existing = folder;
+        break;
+      }
+    }
+
+    const record: LocalFolderRecord = {
+      id: existing?.id ?? Date.now().toString(),
+      name: handle.name,
+      handle,
+      lastOpened: new Date()
+    };
+    await this.put(record);
+    return record;
+  }
+
+  // Asks for access again; call it from a click handler
+  async reopen(folder: LocalFolderRecord): Promise<LocalFolderRecord> {
+    if (!(await ensurePermission(folder.handle, 'readwrite'))) {
+      throw new Error(`Permission to open ${folder.name} was denied`);
+    }
+    const record = { ...folder, lastOpened: new Date() };
+    await this.put(record);
+    return record;
+  }
+
+  async forget(id: string): Promise<void> {
+    await withStore(STORES.directoryHandles, 'readwrite', store => requestToPromise(store.delete(id)));
+  }
+
+  private async put(record: LocalFolderRecord): Promise<void> {
+    try {
+      await withStore(STORES.directoryHandles, 'readwrite', store => requestToPromise(store.put(record)));
+    } catch (error) {
+      // The folder is still usable for this session
+      console.warn('Failed to remember local folder:', error);
+    }
+  }
+}
+
+export const localFolderStore = LocalFolderStore.getInstance();
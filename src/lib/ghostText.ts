@@ -0,0 +1,221 @@
+import { EditorState, Extension, Prec, StateEffect, StateField, Transaction } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType, keymap } from '@codemirror/view';
+
+// Text sent on each side of the cursor
+const PREFIX_CHARS = 4000;
+const SUFFIX_CHARS = 1000;
+const DEFAULT_DEBOUNCE_MS = 300;
+const CACHE_SIZE = 50;
+
+export interface GhostTextOptions {
+  // Resolves the text to insert at the cursor, or null for no suggestion.
+  // `signal` aborts when the user keeps typing.
+  fetchCompletion: (prefix: string, suffix: string, signal: AbortSignal) => Promise<string | null>;
+  debounceMs?: number;
+}
+
+interface Suggestion {
+  pos: number;
+  text: string;
+}
+
+const setSuggestion = StateEffect.define<Suggestion | null>();
+
+class GhostTextWidget extends WidgetType {
+  constructor(private readonly text: string) {
+    super();
+  }
+
+  eq(other: GhostTextWidget): boolean {
+    return other.text === this.text;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span');
+    span.className = 'cm-ghostText';
+    span.textContent = this.text;
+    return span;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+// Typing the suggestion's next characters keeps the rest of it; any other
+// change to the document or a cursor move drops it
+const suggestionField = StateField.define<Suggestion | null>({
+  create: () => null,
+  update(suggestion, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setSuggestion)) return effect.value;
+    }
+    if (!suggestion) return null;
+
+    if (tr.docChanged) {
+      const insertions: { at: number; text: string }[] = [];
+      let pureInsert = true;
+      tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+        if (fromA !== toA) pureInsert = false;
+        insertions.push({ at: fromA, text: inserted.toString() });
+      });
+      const typed = insertions.length === 1 && pureInsert ? insertions[0] : null;
+      if (typed && typed.at === suggestion.pos && typed.text && suggestion.text.startsWith(typed.text)
+        && typed.text !== suggestion.text) {
+        return { pos: suggestion.pos + typed.text.length, text: suggestion.text.slice(typed.text.length) };
+      }
+      return null;
+    }
+
+    const { main } = tr.state.selection;
+    return tr.selection && (!main.empty || main.head !== suggestion.pos) ? null : suggestion;
+  },
+  provide: field => EditorView.decorations.from(field, (suggestion): DecorationSet =>
+    suggestion
+      ? Decoration.set([Decoration.widget({ widget: new GhostTextWidget(suggestion.text), side: 1 }).range(suggestion.pos)])
+      : Decoration.none
+  )
+});
+
+const accept = (view: EditorView, text: string, pos: number, rest: string) => {
+  view.dispatch({
+    changes: { from: pos, insert: text },
+    selection: { anchor: pos + text.length },
+    effects: setSuggestion.of(rest ? { pos: pos + text.length, text: rest } : null),
+    userEvent: 'input.complete'
+  });
+  return true;
+};
+
+const acceptAll = (view: EditorView): boolean => {
+  const suggestion = view.state.field(suggestionField);
+  return suggestion ? accept(view, suggestion.text, suggestion.pos, '') : false;
+};
+
+// Accepts up to the end of the next word (or run of punctuation)
+const acceptWord = (view: EditorView): boolean => {
+  const suggestion = view.state.field(suggestionField);
+  if (!suggestion) return false;
+  const word = suggestion.text.match(/^\s*(\w+|[^\w\s]+)/)?.[0] ?? suggestion.text;
+  return accept(view, word, suggestion.pos, suggestion.text.slice(word.length));
+};
+
+const dismiss = (view: EditorView): boolean => {
+  if (!view.state.field(suggestionField)) return false;
+  view.dispatch({ effects: setSuggestion.of(null) });
+  return true;
+};
+
+const cacheKey = (prefix: string, suffix: string) => `${prefix.slice(-500)}\u0000${suffix.slice(0, 200)}`;
+
+// Only typing and deleting ask for a suggestion; programmatic changes do not
+const isTyping = (tr: Transaction) =>
+  (tr.isUserEvent('input') || tr.isUserEvent('delete')) && !tr.isUserEvent('input.complete');
+
+const contextAt = (state: EditorState, pos: number) => ({
+  prefix: state.sliceDoc(Math.max(0, pos - PREFIX_CHARS), pos),
+  suffix: state.sliceDoc(pos, pos + SUFFIX_CHARS)
+});
+
+/**
+ * Inline "ghost text" completions: after a pause in typing, asks
+ * `fetchCompletion` for text to insert at the cursor and shows it greyed out.
+ * Tab accepts it, Ctrl/Cmd+Right accepts the next word and Escape dismisses
+ * it. Recent completions are cached, and an in-flight request is aborted as
+ * soon as the document changes again.
+ */
+export const ghostText = (options: GhostTextOptions): Extension => {
+  const cache = new Map<string, string>();
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  const remember = (key: string, text: string) => {
+    cache.delete(key);
+    cache.set(key, text);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+  };
+
+  const plugin = ViewPlugin.fromClass(class {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private controller: AbortController | null = null;
+
+    constructor(private readonly view: EditorView) {}
+
+    update(update: ViewUpdate) {
+      if (!update.docChanged && !update.selectionSet) return;
+      this.cancel();
+      if (update.transactions.some(isTyping) && !update.state.field(suggestionField)) {
+        this.timer = setTimeout(() => this.request(), debounceMs);
+      }
+    }
+
+    destroy() {
+      this.cancel();
+    }
+
+    private cancel() {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      this.controller?.abort();
+      this.controller = null;
+    }
+
+    private async request() {
+      this.timer = null;
+      const { state } = this.view;
+      const { main } = state.selection;
+      if (!main.empty || state.selection.ranges.length > 1) return;
+
+      const pos = main.head;
+      const { prefix, suffix } = contextAt(state, pos);
+      const key = cacheKey(prefix, suffix);
+      let text = cache.get(key) ?? null;
+
+      if (text === null) {
+        const controller = new AbortController();
+        this.controller = controller;
+        try {
+          text = await options.fetchCompletion(prefix, suffix, controller.signal);
+        } catch (error) {
+          if (!controller.signal.aborted) console.warn('Completion request failed:', error);
+          return;
+        } finally {
+          if (this.controller === controller) this.controller = null;
+        }
+        if (controller.signal.aborted) return;
+        if (text) remember(key, text);
+      }
+
+      // Only show it if nothing moved while the request was out
+      if (!text || this.view.state.doc !== state.doc || this.view.state.selection.main.head !== pos) return;
+      this.view.dispatch({ effects: setSuggestion.of({ pos, text }) });
+    }
+  });
+
+  return [
+    suggestionField,
+    plugin,
+    Prec.highest(keymap.of([
+      { key: 'Tab', run: acceptAll },
+      { key: 'Mod-ArrowRight', run: acceptWord },
+      { key: 'Escape', run: dismiss }
+    ])),
+    EditorView.baseTheme({
+      '.cm-ghostText': { opacity: '0.45', fontStyle: 'italic', whiteSpace: 'pre' }
+    })
+  ];
+};
+
+/**
+ * Cleans a raw FIM completion: drops trailing whitespace and, when the
+ * completion's first line ends with what already follows the cursor on that
+ * line, the repeated text.
+ */
+export const trimCompletion = (completion: string, suffix: string): string => {
+  const restOfLine = suffix.split('\n')[0].trim();
+  const text = completion.replace(/\s+$/, '');
+  const [firstLine, ...otherLines] = text.split('\n');
+  if (restOfLine && otherLines.length === 0 && firstLine.trimEnd().endsWith(restOfLine)) {
+    return firstLine.trimEnd().slice(0, -restOfLine.length);
+  }
+  return text;
+};
@@ -0,0 +1,49 @@
+// Small glob matcher for workspace paths. Supports `*`, `**`, `?` and
+// `{a,b}` alternation, which covers the include/exclude patterns tools and
+// users actually type.
+
+const escapeRegExp = (value: string) => value.replace(/[.+^$()|[\]\\]/g, '\\$&');
+
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a bare `**` anything
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, close).split(',').map(option => globToRegExp(option).source.slice(1, -1));
+        source += `(?:${options.join('|')})`;
+        i = close;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Patterns without a slash match against the file name only (`*.ts`), the
+ * rest against the whole workspace-relative path (`src/**\/*.tsx`).
+ */
+export const matchesGlob = (path: string, pattern: string): boolean => {
+  const normalizedPattern = pattern.replace(/^\.?\//, '');
+  const target = normalizedPattern.includes('/') ? path : path.split('/').pop() ?? path;
+  return globToRegExp(normalizedPattern).test(target);
+};
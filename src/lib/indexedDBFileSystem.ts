@@ -0,0 +1,297 @@
+import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
+import { STORES, requestToPromise, withTransaction } from '@/lib/db';
+
+// One row per file or folder in the `files` store. Paths are relative to the
+// project root and double as the item id, matching uploaded project trees.
+export interface StoredFileEntry {
+  key: string;
+  projectId: string;
+  path: string;
+  name: string;
+  type: 'file' | 'folder';
+  size?: number;
+  lastModified: Date;
+  metadata?: Record<string, unknown>;
+}
+
+export interface StoredFileContent {
+  key: string;
+  projectId: string;
+  content: string;
+}
+
+const FILE_STORES = [STORES.files, STORES.fileContents];
+
+export const entryKey = (projectId: string, path: string) => `${projectId}:${path}`;
+
+const parentPath = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+
+const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+
+const validateName = (name: string) => {
+  if (!name.trim() || name.includes('/') || name === '.' || name === '..') {
+    throw new Error(`Invalid file name: "${name}"`);
+  }
+};
+
+export const toEntry = (projectId: string, item: FileSystemItem): StoredFileEntry => ({
+  key: entryKey(projectId, item.path),
+  projectId,
+  path: item.path,
+  name: item.name,
+  type: item.type,
+  size: item.type === 'file' ? item.size ?? item.content?.length ?? 0 : undefined,
+  lastModified: item.lastModified ?? new Date(),
+  metadata: item.metadata
+});
+
+const toItem = (entry: StoredFileEntry): FileSystemItem => ({
+  id: entry.path,
+  name: entry.name,
+  type: entry.type,
+  path: entry.path,
+  size: entry.size,
+  lastModified: entry.lastModified,
+  metadata: entry.metadata,
+  children: entry.type === 'folder' ? [] : undefined
+});
+
+const byFolderThenName = (a: FileSystemItem, b: FileSystemItem) =>
+  a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1;
+
+// Rebuilds the tree from flat rows; rows whose folder row is missing go to the root
+const buildTree = (entries: StoredFileEntry[]): FileSystemItem[] => {
+  const items = new Map(entries.map(entry => [entry.path, toItem(entry)]));
+  const roots: FileSystemItem[] = [];
+
+  for (const item of items.values()) {
+    const parent = items.get(parentPath(item.path));
+    if (parent?.children && parent !== item) {
+      parent.children.push(item);
+    } else {
+      roots.push(item);
+    }
+  }
+
+  const sort = (nodes: FileSystemItem[]) => {
+    nodes.sort(byFolderThenName);
+    nodes.forEach(node => node.children && sort(node.children));
+  };
+  sort(roots);
+  return roots;
+};
+
+const getEntry = (transaction: IDBTransaction, projectId: string, path: string) =>
+  requestToPromise(
+    transaction.objectStore(STORES.files).get(entryKey(projectId, path)) as IDBRequest<StoredFileEntry | undefined>
+  );
+
+const getProjectEntries = (transaction: IDBTransaction, projectId: string) =>
+  requestToPromise(
+    transaction.objectStore(STORES.files).index('projectId').getAll(projectId) as IDBRequest<StoredFileEntry[]>
+  );
+
+// Creates folder rows for any missing ancestors of `path`
+const ensureFolders = async (transaction: IDBTransaction, projectId: string, path: string) => {
+  const parts = path.split('/').slice(0, -1);
+  for (let depth = 1; depth <= parts.length; depth++) {
+    const folderPath = parts.slice(0, depth).join('/');
+    const existing = await getEntry(transaction, projectId, folderPath);
+    if (existing?.type === 'file') {
+      throw new Error(`${folderPath} is a file, not a folder`);
+    }
+    if (!existing) {
+      transaction.objectStore(STORES.files).put(toEntry(projectId, {
+        id: folderPath,
+        name: parts[depth - 1],
+        type: 'folder',
+        path: folderPath,
+        lastModified: new Date()
+      }));
+    }
+  }
+};
+
+/**
+ * Writes a whole tree (e.g. an uploaded folder) into `projectId` in one
+ * transaction. Used when a project is created or migrated.
+ */
+export const importTree = (projectId: string, items: FileSystemItem[]): Promise<void> =>
+  withTransaction(FILE_STORES, 'readwrite', transaction => {
+    const files = transaction.objectStore(STORES.files);
+    const contents = transaction.objectStore(STORES.fileContents);
+    const visit = (nodes: FileSystemItem[]) => {
+      for (const node of nodes) {
+        files.put(toEntry(projectId, node));
+        if (node.type === 'file' && node.content !== undefined) {
+          contents.put({ key: entryKey(projectId, node.path), projectId, content: node.content } as StoredFileContent);
+        }
+        if (node.children) visit(node.children);
+      }
+    };
+    visit(items);
+  });
+
+// Removes every file and content row of a project
+export const deleteProjectFiles = (projectId: string): Promise<void> =>
+  withTransaction(FILE_STORES, 'readwrite', async transaction => {
+    for (const storeName of FILE_STORES) {
+      const store = transaction.objectStore(storeName);
+      const keys = await requestToPromise(store.index('projectId').getAllKeys(projectId));
+      keys.forEach(key => store.delete(key));
+    }
+  });
+
+/**
+ * `FileSystemService` over one project stored in IndexedDB. `loadFiles`
+ * returns the tree without contents; `getFileContent` reads a file's body on
+ * demand, so large projects list quickly and never hit localStorage's quota.
+ */
+export class IndexedDBFileSystemService implements FileSystemService {
+  constructor(private readonly projectId: string) {}
+
+  loadFiles(): Promise<FileSystemItem[]> {
+    return withTransaction([STORES.files], 'readonly', async transaction =>
+      buildTree(await getProjectEntries(transaction, this.projectId))
+    );
+  }
+
+  getFileContent(fileId: string): Promise<string> {
+    return withTransaction(FILE_STORES, 'readonly', async transaction => {
+      const entry = await getEntry(transaction, this.projectId, fileId);
+      if (!entry || entry.type !== 'file') {
+        throw new Error(`File not found: ${fileId}`);
+      }
+      const stored = await requestToPromise(
+        transaction.objectStore(STORES.fileContents).get(entry.key) as IDBRequest<StoredFileContent | undefined>
+      );
+      return stored?.content ?? '';
+    });
+  }
+
+  // Creates the file (and its folders) when it does not exist yet
+  saveFile(file: FileSystemItem): Promise<void> {
+    return withTransaction(FILE_STORES, 'readwrite', async transaction => {
+      const existing = await getEntry(transaction, this.projectId, file.path);
+      if (existing?.type === 'folder') {
+        throw new Error(`${file.path} is a folder`);
+      }
+      await ensureFolders(transaction, this.projectId, file.path);
+
+      const entry = toEntry(this.projectId, { ...file, type: 'file', lastModified: new Date() });
+      if (file.content !== undefined) {
+        entry.size = file.content.length;
+        transaction.objectStore(STORES.fileContents).put({
+          key: entry.key,
+          projectId: this.projectId,
+          content: file.content
+        } as StoredFileContent);
+      }
+      transaction.objectStore(STORES.files).put(entry);
+    });
+  }
+
+  createFile(name: string, path: string, content = ''): Promise<FileSystemItem> {
+    validateName(name);
+    const filePath = joinPath(path, name);
+    const item: FileSystemItem = {
+      id: filePath,
+      name,
+      type: 'file',
+      path: filePath,
+      size: content.length,
+      lastModified: new Date(),
+      content
+    };
+
+    return withTransaction(FILE_STORES, 'readwrite', async transaction => {
+      if (await getEntry(transaction, this.projectId, filePath)) {
+        throw new Error(`${filePath} already exists`);
+      }
+      await ensureFolders(transaction, this.projectId, filePath);
+      transaction.objectStore(STORES.files).put(toEntry(this.projectId, item));
+      transaction.objectStore(STORES.fileContents).put({
+        key: entryKey(this.projectId, filePath),
+        projectId: this.projectId,
+        content
+      } as StoredFileContent);
+      return item;
+    });
+  }
+
+  createFolder(name: string, path: string): Promise<FileSystemItem> {
+    validateName(name);
+    const folderPath = joinPath(path, name);
+    const item: FileSystemItem = {
+      id: folderPath,
+      name,
+      type: 'folder',
+      path: folderPath,
+      lastModified: new Date(),
+      children: []
+    };
+
+    return withTransaction([STORES.files], 'readwrite', async transaction => {
+      if (await getEntry(transaction, this.projectId, folderPath)) {
+        throw new Error(`${folderPath} already exists`);
+      }
+      await ensureFolders(transaction, this.projectId, folderPath);
+      transaction.objectStore(STORES.files).put(toEntry(this.projectId, item));
+      return item;
+    });
+  }
+
+  // Renaming a folder moves everything below it, which changes their ids
+  renameFile(fileId: string, newName: string): Promise<void> {
+    validateName(newName);
+
+    return withTransaction(FILE_STORES, 'readwrite', async transaction => {
+      const entry = await getEntry(transaction, this.projectId, fileId);
+      if (!entry) throw new Error(`File not found: ${fileId}`);
+
+      const newPath = joinPath(parentPath(entry.path), newName);
+      if (newPath === entry.path) return;
+      if (await getEntry(transaction, this.projectId, newPath)) {
+        throw new Error(`${newPath} already exists`);
+      }
+
+      const files = transaction.objectStore(STORES.files);
+      const contents = transaction.objectStore(STORES.fileContents);
+      const moved = entry.type === 'folder'
+        ? (await getProjectEntries(transaction, this.projectId))
+            .filter(candidate => candidate.path === entry.path || candidate.path.startsWith(`${entry.path}/`))
+        : [entry];
+
+      for (const item of moved) {
+        const path = newPath + item.path.slice(entry.path.length);
+        const key = entryKey(this.projectId, path);
+        const content = item.type === 'file'
+          ? await requestToPromise(contents.get(item.key) as IDBRequest<StoredFileContent | undefined>)
+          : undefined;
+
+        files.delete(item.key);
+        files.put({ ...item, key, path, name: item === entry ? newName : item.name });
+        if (content) {
+          contents.delete(item.key);
+          contents.put({ ...content, key });
+        }
+      }
+    });
+  }
+
+  deleteFile(fileId: string): Promise<void> {
+    return withTransaction(FILE_STORES, 'readwrite', async transaction => {
+      const entry = await getEntry(transaction, this.projectId, fileId);
+      if (!entry) throw new Error(`File not found: ${fileId}`);
+
+      const removed = entry.type === 'folder'
+        ? (await getProjectEntries(transaction, this.projectId))
+            .filter(candidate => candidate.path === entry.path || candidate.path.startsWith(`${entry.path}/`))
+        : [entry];
+      for (const item of removed) {
+        transaction.objectStore(STORES.files).delete(item.key);
+        transaction.objectStore(STORES.fileContents).delete(item.key);
+      }
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { ChatMessage } from '@/lib/llm/types';
+import { Tokenizer, countChatTokens } from '@/lib/tokenizer';
+
+export interface InlineEditRequest {
+  filePath: string;
+  language: string;
+  // Whole document and the selected range in it; an empty range inserts
+  content: string;
+  from: number;
+  to: number;
+  instruction: string;
+}
+
+const SELECTION_START = '<<<SELECTION>>>';
+const SELECTION_END = '<<<END SELECTION>>>';
+
+const SYSTEM_PROMPT = [
+  'You edit one region of a source file in place.',
+  `The region is marked with ${SELECTION_START} and ${SELECTION_END}; an empty region is an insertion point.`,
+  'Reply with only the code that replaces the region: no explanation, no Markdown fences, no markers.',
+  'Match the indentation and style of the surrounding code.'
+].join('\n');
+
+const renderUserMessage = (request: InlineEditRequest, before: string, after: string, truncated: boolean) => {
+  const selected = request.content.slice(request.from, request.to);
+  return [
+    `File: ${request.filePath} (${request.language})${truncated ? ' — excerpt around the selection' : ''}`,
+    '',
+    '```' + request.language,
+    `${before}${SELECTION_START}${selected}${SELECTION_END}${after}`,
+    '```',
+    '',
+    `Instruction: ${request.instruction}`
+  ].join('\n');
+};
+
+/**
+ * Builds the chat request for an inline edit. The whole file is sent when it
+ * fits in `budget` tokens; otherwise whole lines are dropped from both ends,
+ * keeping the selection centred, until it fits. The selection itself is
+ * never cut.
+ */
+export const buildInlineEditMessages = (
+  request: InlineEditRequest,
+  budget: number,
+  tokenizer: Tokenizer
+): ChatMessage[] => {
+  const beforeLines = request.content.slice(0, request.from).split('\n');
+  const afterLines = request.content.slice(request.to).split('\n');
+  // Partial lines touching the selection are always kept
+  let keepBefore = beforeLines.length;
+  let keepAfter = afterLines.length;
+
+  const render = (): ChatMessage[] => {
+    const truncated = keepBefore < beforeLines.length || keepAfter < afterLines.length;
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: renderUserMessage(
+          request,
+          beforeLines.slice(beforeLines.length - keepBefore).join('\n'),
+          afterLines.slice(0, keepAfter).join('\n'),
+          truncated
+        )
+      }
+    ];
+  };
+
+  let messages = render();
+  while (countChatTokens(messages, tokenizer) > budget && (keepBefore > 1 || keepAfter > 1)) {
+    // Halve the larger side so long files converge in a few passes
+    if (keepBefore >= keepAfter) {
+      keepBefore = Math.max(1, Math.floor(keepBefore / 2));
+    } else {
+      keepAfter = Math.max(1, Math.floor(keepAfter / 2));
+    }
+    messages = render();
+  }
+  return messages;
+};
+
+/**
+ * Turns the model's reply into replacement text: unwraps a single fenced
+ * block, drops stray selection markers and matches the original selection's
+ * trailing newline.
+ */
+export const extractReplacement = (response: string, original: string): string => {
+  let text = response.replace(/^\s*\n/, '');
+  const fenced = text.match(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) text = fenced[1];
+  text = text.split(SELECTION_START).join('').split(SELECTION_END).join('');
+
+  const trimmed = text.replace(/\s+$/, '');
+  const trailing = original.match(/\s*$/)?.[0] ?? '';
+  return trimmed + (trailing.includes('\n') ? trailing : '');
+};
@@ -0,0 +1,56 @@
+import { STORES, isIndexedDBAvailable, requestToPromise, withStore } from '@/lib/db';
+import type { CodeChange } from '@/hooks/useComposer';
+
+// Older edits are dropped beyond this; each keeps two copies of its file
+const MAX_INLINE_EDITS = 100;
+
+const byNewest = (a: CodeChange, b: CodeChange) => b.timestamp.getTime() - a.timestamp.getTime();
+
+/**
+ * Ctrl+K edits made in the code editor, kept so the Composer's Changes tab
+ * can list them. Backed by IndexedDB; falls back to memory for the current
+ * page when IndexedDB is unavailable.
+ */
+export class InlineEditHistoryStore {
+  private static instance: InlineEditHistoryStore;
+  private memory: Map<string, CodeChange> | null = null;
+
+  private constructor() {
+    if (!isIndexedDBAvailable()) {
+      console.warn('IndexedDB unavailable; inline edits will not persist');
+      this.memory = new Map();
+    }
+  }
+
+  static getInstance(): InlineEditHistoryStore {
+    if (!InlineEditHistoryStore.instance) {
+      InlineEditHistoryStore.instance = new InlineEditHistoryStore();
+    }
+    return InlineEditHistoryStore.instance;
+  }
+
+  // Newest first
+  async list(): Promise<CodeChange[]> {
+    const edits = this.memory
+      ? Array.from(this.memory.values())
+      : await withStore(STORES.inlineEdits, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<CodeChange[]>)
+        );
+    return edits.sort(byNewest);
+  }
+
+  async record(change: CodeChange): Promise<void> {
+    const dropped = (await this.list()).slice(MAX_INLINE_EDITS - 1);
+    if (this.memory) {
+      this.memory.set(change.id, change);
+      dropped.forEach(edit => this.memory?.delete(edit.id));
+      return;
+    }
+    await withStore(STORES.inlineEdits, 'readwrite', store => Promise.all([
+      requestToPromise(store.put(change)),
+      ...dropped.map(edit => requestToPromise(store.delete(edit.id)))
+    ]));
+  }
+}
+
+export const inlineEditHistory = InlineEditHistoryStore.getInstance();
@@ -0,0 +1,178 @@
+import { SearchIndex } from '@/lib/search/searchIndex';
+import {
+  FileOverride,
+  HoverInfo,
+  LanguageDiagnostic,
+  LanguageRequest,
+  LanguageResults,
+  OutlineItem,
+  SourceLocation,
+  SymbolDefinition,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+
+export type {
+  FileOverride,
+  HoverInfo,
+  LanguageDiagnostic,
+  OutlineItem,
+  SourceLocation,
+  SymbolDefinition
+} from './protocol';
+
+const LANGUAGE_FILE = /\.(tsx?|jsx?|mts|cts|mjs|cjs|d\.ts)$/i;
+// Project configs the worker reads module resolution settings from
+const CONFIG_FILE = /^tsconfig(\.\w+)?\.json$/;
+
+/** Files the TypeScript language service understands. */
+export const isLanguageFile = (path: string): boolean => LANGUAGE_FILE.test(path);
+
+const isProjectFile = (path: string): boolean => isLanguageFile(path) || CONFIG_FILE.test(path);
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread side of the TypeScript language service worker. The worker is
+ * started on the first request and kept in step with `index`; documents open
+ * in the editor are sent with `setOpenFile` so answers reflect unsaved edits.
+ */
+export class LanguageClient {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  // Content the worker has for each path
+  private sent = new Map<string, string>();
+  private openFiles = new Map<string, string>();
+  private indexVersion = -1;
+
+  constructor(private readonly index: SearchIndex) {}
+
+  /** Overrides the indexed content of `path`; null returns to the index. */
+  setOpenFile(path: string, content: string | null): void {
+    if (content === null) {
+      this.openFiles.delete(path);
+    } else {
+      this.openFiles.set(path, content);
+    }
+  }
+
+  getOutline(path: string): Promise<OutlineItem[]> {
+    return this.request({ type: 'outline', path }) as Promise<OutlineItem[]>;
+  }
+
+  getDefinition(path: string, offset: number): Promise<SourceLocation[]> {
+    return this.request({ type: 'definition', path, offset }) as Promise<SourceLocation[]>;
+  }
+
+  getReferences(path: string, offset: number): Promise<SourceLocation[]> {
+    return this.request({ type: 'references', path, offset }) as Promise<SourceLocation[]>;
+  }
+
+  getHover(path: string, offset: number): Promise<HoverInfo | null> {
+    return this.request({ type: 'hover', path, offset }) as Promise<HoverInfo | null>;
+  }
+
+  getDiagnostics(path: string): Promise<LanguageDiagnostic[]> {
+    return this.request({ type: 'diagnostics', path }) as Promise<LanguageDiagnostic[]>;
+  }
+
+  /** Declarations of `name`, with `overrides` (e.g. unapplied edits) applied. */
+  findDefinitions(name: string, overrides?: FileOverride[]): Promise<SymbolDefinition[]> {
+    return this.request({ type: 'findDefinitions', name, overrides }) as Promise<SymbolDefinition[]>;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(({ reject }) => reject(new Error('Language service stopped')));
+    this.pending.clear();
+    this.sent.clear();
+    this.indexVersion = -1;
+  }
+
+  private request(request: LanguageRequest): Promise<LanguageResults[LanguageRequest['type']]> {
+    const worker = this.ensureWorker();
+    this.syncFiles(worker);
+    return this.post(worker, request);
+  }
+
+  private post(worker: Worker, request: LanguageRequest): Promise<LanguageResults[LanguageRequest['type']]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const message: WorkerRequest = { id, request };
+      worker.postMessage(message);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('./typescript.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    };
+    worker.onerror = event => {
+      console.warn('TypeScript language service failed:', event.message);
+      this.dispose();
+    };
+    this.worker = worker;
+    return worker;
+  }
+
+  // Sends what changed since the last request; messages are handled in
+  // order, so the worker is current by the time it answers
+  private syncFiles(worker: Worker): void {
+    const paths = new Set(this.index.getPaths().filter(isProjectFile));
+    this.openFiles.forEach((_content, path) => paths.add(path));
+    const version = this.index.getVersion();
+    const updates: FileOverride[] = [];
+
+    this.sent.forEach((_content, path) => {
+      if (!paths.has(path)) {
+        updates.push({ path, content: null });
+        this.sent.delete(path);
+      }
+    });
+    if (version === this.indexVersion && updates.length === 0 && this.openFiles.size === 0) return;
+
+    paths.forEach(path => {
+      const content = this.openFiles.get(path) ?? this.index.getContent(path);
+      if (content === undefined || this.sent.get(path) === content) return;
+      updates.push({ path, content });
+      this.sent.set(path, content);
+    });
+    this.indexVersion = version;
+
+    if (updates.length > 0) {
+      const message: WorkerRequest = { id: 0, request: { type: 'update', files: updates } };
+      worker.postMessage(message);
+    }
+  }
+}
+
+// One client per index, so the editor and the agent share a worker
+const clients = new WeakMap<SearchIndex, LanguageClient>();
+
+/** The language client for `index`, or null where workers are unavailable. */
+export const getLanguageClient = (index: SearchIndex): LanguageClient | null => {
+  if (typeof Worker === 'undefined') return null;
+  let client = clients.get(index);
+  if (!client) {
+    client = new LanguageClient(index);
+    clients.set(index, client);
+  }
+  return client;
+};
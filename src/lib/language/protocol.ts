@@ -0,0 +1,86 @@
+// Messages between `LanguageClient` and the TypeScript language service
+// worker. Paths are project-relative, lines and columns 1-based and offsets
+// 0-based positions in the file's text.
+
+export interface OutlineItem {
+  name: string;
+  // TypeScript's ScriptElementKind: 'function', 'class', 'interface', 'const', ...
+  kind: string;
+  line: number;
+  endLine: number;
+  children: OutlineItem[];
+}
+
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+  // The text of `line`, trimmed
+  preview: string;
+  isDefinition?: boolean;
+  isWrite?: boolean;
+}
+
+export interface HoverInfo {
+  // Signature or type, e.g. `const count: number`
+  signature: string;
+  documentation: string;
+  from: number;
+  to: number;
+}
+
+export interface LanguageDiagnostic {
+  from: number;
+  to: number;
+  line: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  // TypeScript error code, e.g. 2322
+  code: number;
+}
+
+export interface SymbolDefinition {
+  name: string;
+  kind: string;
+  path: string;
+  line: number;
+  endLine: number;
+  // The whole declaration
+  text: string;
+}
+
+// A file's content, or null when it was deleted
+export interface FileOverride {
+  path: string;
+  content: string | null;
+}
+
+export type LanguageRequest =
+  | { type: 'update'; files: FileOverride[] }
+  | { type: 'outline'; path: string }
+  | { type: 'definition'; path: string; offset: number }
+  | { type: 'references'; path: string; offset: number }
+  | { type: 'hover'; path: string; offset: number }
+  | { type: 'diagnostics'; path: string }
+  // Declarations named `name` anywhere in the project, as seen with
+  // `overrides` applied on top of it
+  | { type: 'findDefinitions'; name: string; overrides?: FileOverride[] };
+
+export interface LanguageResults {
+  update: null;
+  outline: OutlineItem[];
+  definition: SourceLocation[];
+  references: SourceLocation[];
+  hover: HoverInfo | null;
+  diagnostics: LanguageDiagnostic[];
+  findDefinitions: SymbolDefinition[];
+}
+
+export interface WorkerRequest {
+  id: number;
+  request: LanguageRequest;
+}
+
+export type WorkerResponse =
+  | { id: number; result: LanguageResults[LanguageRequest['type']] }
+  | { id: number; error: string };
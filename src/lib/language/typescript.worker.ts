@@ -0,0 +1,279 @@
+import ts from 'typescript';
+import {
+  FileOverride,
+  HoverInfo,
+  LanguageDiagnostic,
+  LanguageRequest,
+  LanguageResults,
+  OutlineItem,
+  SourceLocation,
+  SymbolDefinition,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+
+// Runs the TypeScript language service over the project files it is sent.
+// Nothing under node_modules is in the tree, so package imports resolve to
+// `any`; the standard library declarations ship with the app and are loaded
+// on start.
+
+const LIB_DIR = '/node_modules/typescript/lib/';
+const LIB_SOURCES = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+  exhaustive: true
+});
+const DEFAULT_LIBS = ['es2020', 'dom', 'dom.iterable'];
+// Project configs whose `paths`, `baseUrl` and `jsx` are honoured
+const CONFIG_FILES = ['tsconfig.json', 'tsconfig.app.json'];
+// Unresolvable package imports and the JSX runtime they would provide
+const PACKAGE_DIAGNOSTICS = new Set([2307, 2875, 7016]);
+const MAX_NAVIGATE_RESULTS = 50;
+
+const BASE_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: DEFAULT_LIBS.map(name => `lib.${name}.d.ts`),
+  allowJs: true,
+  allowImportingTsExtensions: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  isolatedModules: true,
+  skipLibCheck: true,
+  noEmit: true,
+  strict: false
+};
+
+interface ScriptEntry {
+  content: string;
+  version: number;
+}
+
+const scripts = new Map<string, ScriptEntry>();
+const libs = new Map<string, string>();
+let nextVersion = 1;
+let compilerOptions = BASE_OPTIONS;
+
+const toFileName = (path: string) => `/${path.replace(/^\/+/, '')}`;
+const toPath = (fileName: string) => fileName.replace(/^\/+/, '');
+const isProjectFile = (fileName: string) => scripts.has(fileName) && !fileName.startsWith(LIB_DIR);
+
+const loadLib = async (name: string): Promise<void> => {
+  const fileName = `${LIB_DIR}lib.${name}.d.ts`;
+  const load = LIB_SOURCES[fileName];
+  if (libs.has(fileName) || !load) return;
+  const text = await load();
+  libs.set(fileName, text);
+  const references = Array.from(text.matchAll(/\/\/\/\s*<reference lib="([^"]+)"/g), match => match[1].toLowerCase());
+  await Promise.all(references.map(loadLib));
+};
+
+const ready = Promise.all(DEFAULT_LIBS.map(loadLib));
+
+const readText = (fileName: string): string | undefined => scripts.get(fileName)?.content ?? libs.get(fileName);
+
+const host: ts.LanguageServiceHost = {
+  getScriptFileNames: () => Array.from(scripts.keys()),
+  getScriptVersion: fileName => String(scripts.get(fileName)?.version ?? 0),
+  getScriptSnapshot: fileName => {
+    const text = readText(fileName);
+    return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+  },
+  getCurrentDirectory: () => '/',
+  getCompilationSettings: () => compilerOptions,
+  getDefaultLibFileName: () => `${LIB_DIR}lib.d.ts`,
+  fileExists: fileName => readText(fileName) !== undefined,
+  readFile: fileName => readText(fileName),
+  directoryExists: directory => {
+    const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+    return prefix === '/' || Array.from(scripts.keys()).some(fileName => fileName.startsWith(prefix));
+  },
+  getDirectories: () => []
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+// Module resolution settings from the project's own tsconfig, e.g. the `@/` alias
+const readProjectOptions = (): ts.CompilerOptions => {
+  const options: ts.CompilerOptions = { ...BASE_OPTIONS };
+  for (const name of CONFIG_FILES) {
+    const text = scripts.get(toFileName(name))?.content;
+    if (!text) continue;
+    const { config } = ts.parseConfigFileTextToJson(name, text);
+    if (!config?.compilerOptions) continue;
+    const { options: parsed } = ts.convertCompilerOptionsFromJson(config.compilerOptions, '/');
+    if (parsed.paths) options.paths = parsed.paths;
+    if (parsed.baseUrl) options.baseUrl = parsed.baseUrl;
+    if (parsed.jsx !== undefined) options.jsx = parsed.jsx;
+  }
+  return options;
+};
+
+const applyFiles = (files: FileOverride[]): void => {
+  let configChanged = false;
+  for (const { path, content } of files) {
+    const fileName = toFileName(path);
+    if (content === null) {
+      scripts.delete(fileName);
+    } else if (scripts.get(fileName)?.content !== content) {
+      scripts.set(fileName, { content, version: nextVersion++ });
+    }
+    configChanged ||= CONFIG_FILES.includes(toPath(fileName));
+  }
+  if (configChanged) compilerOptions = readProjectOptions();
+};
+
+const withOverrides = <T>(overrides: FileOverride[] | undefined, run: () => T): T => {
+  if (!overrides?.length) return run();
+  const saved = overrides.map(({ path }) => ({ path, content: scripts.get(toFileName(path))?.content ?? null }));
+  applyFiles(overrides);
+  try {
+    return run();
+  } finally {
+    applyFiles(saved);
+  }
+};
+
+const sourceFileOf = (fileName: string) => service.getProgram()?.getSourceFile(fileName);
+
+const lineOf = (source: ts.SourceFile, position: number) => source.getLineAndCharacterOfPosition(position).line + 1;
+
+const toLocation = (fileName: string, start: number): SourceLocation | null => {
+  const source = sourceFileOf(fileName);
+  if (!source) return null;
+  const { line, character } = source.getLineAndCharacterOfPosition(start);
+  const lineStart = source.getPositionOfLineAndCharacter(line, 0);
+  const lineEnd = source.text.indexOf('\n', lineStart);
+  return {
+    path: toPath(fileName),
+    line: line + 1,
+    column: character + 1,
+    preview: source.text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim()
+  };
+};
+
+const toOutline = (source: ts.SourceFile, items: ts.NavigationTree[] | undefined): OutlineItem[] => (items ?? [])
+  .filter(item => item.kind !== ts.ScriptElementKind.alias && item.spans.length > 0)
+  .map(item => ({
+    name: item.text,
+    kind: item.kind,
+    line: lineOf(source, item.spans[0].start),
+    endLine: lineOf(source, item.spans[0].start + item.spans[0].length),
+    children: toOutline(source, item.childItems)
+  }))
+  .sort((a, b) => a.line - b.line);
+
+const getOutline = (fileName: string): OutlineItem[] => {
+  const source = sourceFileOf(fileName);
+  if (!source) return [];
+  return toOutline(source, service.getNavigationTree(fileName).childItems);
+};
+
+const getDefinition = (fileName: string, offset: number): SourceLocation[] =>
+  (service.getDefinitionAtPosition(fileName, offset) ?? [])
+    .filter(definition => isProjectFile(definition.fileName))
+    .map(definition => toLocation(definition.fileName, definition.textSpan.start))
+    .filter((location): location is SourceLocation => location !== null);
+
+const getReferences = (fileName: string, offset: number): SourceLocation[] =>
+  (service.findReferences(fileName, offset) ?? [])
+    .flatMap(symbol => symbol.references)
+    .filter(reference => isProjectFile(reference.fileName))
+    .map((reference): SourceLocation | null => {
+      const location = toLocation(reference.fileName, reference.textSpan.start);
+      return location && { ...location, isDefinition: reference.isDefinition, isWrite: reference.isWriteAccess };
+    })
+    .filter((location): location is SourceLocation => location !== null);
+
+const getHover = (fileName: string, offset: number): HoverInfo | null => {
+  const info = service.getQuickInfoAtPosition(fileName, offset);
+  if (!info) return null;
+  return {
+    signature: ts.displayPartsToString(info.displayParts),
+    documentation: ts.displayPartsToString(info.documentation),
+    from: info.textSpan.start,
+    to: info.textSpan.start + info.textSpan.length
+  };
+};
+
+// Imports of packages can't resolve without node_modules; relative imports can
+const isPackageDiagnostic = (diagnostic: ts.Diagnostic): boolean => {
+  if (!PACKAGE_DIAGNOSTICS.has(diagnostic.code)) return false;
+  if (diagnostic.code !== 2307 || !diagnostic.file || diagnostic.start === undefined) return true;
+  const specifier = diagnostic.file.text.slice(diagnostic.start + 1, diagnostic.start + (diagnostic.length ?? 2) - 1);
+  return !/^\.{1,2}\//.test(specifier);
+};
+
+const SEVERITIES: Record<ts.DiagnosticCategory, LanguageDiagnostic['severity']> = {
+  [ts.DiagnosticCategory.Error]: 'error',
+  [ts.DiagnosticCategory.Warning]: 'warning',
+  [ts.DiagnosticCategory.Suggestion]: 'info',
+  [ts.DiagnosticCategory.Message]: 'info'
+};
+
+const getDiagnostics = (fileName: string): LanguageDiagnostic[] => {
+  if (!scripts.has(fileName)) return [];
+  return [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)]
+    .filter(diagnostic => diagnostic.start !== undefined && !isPackageDiagnostic(diagnostic))
+    .map(diagnostic => ({
+      from: diagnostic.start!,
+      to: diagnostic.start! + (diagnostic.length ?? 0),
+      line: diagnostic.file ? lineOf(diagnostic.file, diagnostic.start!) : 1,
+      severity: SEVERITIES[diagnostic.category],
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      code: diagnostic.code
+    }));
+};
+
+const findDefinitions = (name: string): SymbolDefinition[] =>
+  service.getNavigateToItems(name, MAX_NAVIGATE_RESULTS, undefined, true)
+    .filter(item => item.name === name && isProjectFile(item.fileName))
+    .map((item): SymbolDefinition | null => {
+      const source = sourceFileOf(item.fileName);
+      if (!source) return null;
+      const start = source.getPositionOfLineAndCharacter(source.getLineAndCharacterOfPosition(item.textSpan.start).line, 0);
+      const end = item.textSpan.start + item.textSpan.length;
+      return {
+        name: item.name,
+        kind: item.kind,
+        path: toPath(item.fileName),
+        line: lineOf(source, start),
+        endLine: lineOf(source, end),
+        text: source.text.slice(start, end)
+      };
+    })
+    .filter((definition): definition is SymbolDefinition => definition !== null);
+
+const handle = (request: LanguageRequest): LanguageResults[LanguageRequest['type']] => {
+  switch (request.type) {
+    case 'update':
+      applyFiles(request.files);
+      return null;
+    case 'outline':
+      return getOutline(toFileName(request.path));
+    case 'definition':
+      return getDefinition(toFileName(request.path), request.offset);
+    case 'references':
+      return getReferences(toFileName(request.path), request.offset);
+    case 'hover':
+      return getHover(toFileName(request.path), request.offset);
+    case 'diagnostics':
+      return getDiagnostics(toFileName(request.path));
+    case 'findDefinitions':
+      return withOverrides(request.overrides, () => findDefinitions(request.name));
+  }
+};
+
+const respond = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, request } = event.data;
+  try {
+    await ready;
+    respond({ id, result: handle(request) });
+  } catch (error) {
+    respond({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,55 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible';
+
+export const deepSeekAdapter = createOpenAICompatibleAdapter({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  description: 'DeepSeek chat and coder models (OpenAI-compatible API)',
+  requiresApiKey: true,
+  defaultConfig: {
+    apiKey: '',
+    endpoint: process.env.NODE_ENV === 'development' 
+      ? '/api/deepseek/chat/completions' 
+      : 'https://api.deepseek.com/v1/chat/completions',
+    model: 'deepseek-coder',
+    maxTokens: 100000,
+    temperature: 0.1
+  },
+  suggestedModels: ['deepseek-coder', 'deepseek-chat', 'deepseek-reasoner'],
+  // FIM lives under /beta; the dev server proxies it as /api/deepseek-beta
+  fimEndpoint: endpoint => endpoint
+    .replace(/\/api\/deepseek\/chat\/completions\/?$/, '/api/deepseek-beta/completions')
+    .replace(/(\/v1)?\/chat\/completions\/?$/, '/beta/completions')
+});
+
+export const openAIAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  name: 'OpenAI',
+  description: 'OpenAI or any hosted OpenAI-compatible chat completions API',
+  requiresApiKey: true,
+  defaultConfig: {
+    apiKey: '',
+    endpoint: 'https://api.openai.com/v1/chat/completions',
+    model: 'gpt-4o-mini',
+    maxTokens: 4096,
+    temperature: 0.1
+  },
+  suggestedModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini']
+});
+
+export const localAdapter = createOpenAICompatibleAdapter({
+  id: 'local',
+  name: 'Local (Ollama / llama.cpp)',
+  description: 'A model served on this machine through its OpenAI-compatible endpoint',
+  requiresApiKey: false,
+  defaultConfig: {
+    apiKey: '',
+    // Ollama's default port; llama.cpp's server listens on :8080 with the same path
+    endpoint: 'http://localhost:11434/v1/chat/completions',
+    model: 'qwen2.5-coder',
+    maxTokens: 4096,
+    temperature: 0.1
+  },
+  suggestedModels: ['qwen2.5-coder', 'deepseek-coder-v2', 'codellama', 'llama3.1'],
+  // Ollama's /v1/completions accepts `suffix` for models with a FIM template
+  fimEndpoint: endpoint => endpoint.replace(/\/chat\/completions\/?$/, '/completions')
+});
@@ -0,0 +1,199 @@
+import { readEventStream, isAbortError } from '@/lib/sse';
+import { LLMAdapter, ProviderConfig, CompletionRequest, ChatMessage, ToolCall } from './types';
+import { resolveEndpoint, ensureOk, describeError } from './http';
+
+const PROVIDER_NAME = 'Anthropic';
+const API_VERSION = '2023-06-01';
+
+const buildHeaders = (config: ProviderConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-api-key': config.apiKey,
+  'anthropic-version': API_VERSION,
+  // Required for calls made straight from the browser
+  'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+const parseToolInput = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Tool calls travel as `tool_use` blocks on the assistant turn and their
+// results as `tool_result` blocks on the following user turn. Consecutive
+// tool messages (and a user message right after them) are merged because the
+// API requires alternating roles.
+const toWireMessages = (messages: ChatMessage[]) => {
+  const wire: { role: 'user' | 'assistant'; content: string | unknown[] }[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = wire[wire.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        wire.push({ role: 'user', content: [block] });
+      }
+    } else if (message.toolCalls?.length) {
+      wire.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments)
+          }))
+        ]
+      });
+    } else if (message.role !== 'system') {
+      const previous = wire[wire.length - 1];
+      if (message.role === 'user' && previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push({ type: 'text', text: message.content });
+      } else {
+        wire.push({ role: message.role, content: message.content });
+      }
+    }
+  }
+
+  return wire;
+};
+
+const extractText = (blocks: ContentBlock[]): string => blocks
+  .filter(block => block.type === 'text')
+  .map(block => block.text ?? '')
+  .join('');
+
+const buildInit = (
+  request: CompletionRequest,
+  config: ProviderConfig,
+  stream: boolean,
+  signal?: AbortSignal
+): RequestInit => {
+  // The Messages API takes the system prompt as a top-level field
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  return {
+    method: 'POST',
+    headers: buildHeaders(config),
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: request.maxTokens ?? config.maxTokens,
+      temperature: request.temperature ?? config.temperature,
+      ...(system ? { system } : {}),
+      messages: toWireMessages(request.messages),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        }))
+      } : {}),
+      stream
+    }),
+    signal
+  };
+};
+
+export const anthropicAdapter: LLMAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  description: 'Claude models through the Anthropic Messages API',
+  requiresApiKey: true,
+  defaultConfig: {
+    apiKey: '',
+    endpoint: 'https://api.anthropic.com/v1/messages',
+    model: 'claude-3-5-sonnet-latest',
+    maxTokens: 8192,
+    temperature: 0.1
+  },
+  suggestedModels: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest'],
+
+  listModels: async (config) => {
+    const endpoint = resolveEndpoint(config.endpoint).replace(/\/messages\/?$/, '/models');
+    const response = await fetch(endpoint, { headers: buildHeaders(config) });
+    await ensureOk(response, PROVIDER_NAME);
+
+    const data = await response.json();
+    return (data.data ?? []).map((model: { id: string }) => model.id);
+  },
+
+  complete: async (request, config, signal) => {
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, false, signal));
+      await ensureOk(response, PROVIDER_NAME);
+
+      const data = await response.json();
+      return extractText(data.content ?? []) || 'No response generated';
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw describeError(error, PROVIDER_NAME);
+    }
+  },
+
+  completeChat: async (request, config, signal) => {
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, false, signal));
+      await ensureOk(response, PROVIDER_NAME);
+
+      const data = await response.json();
+      const blocks: ContentBlock[] = data.content ?? [];
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id ?? '',
+          name: block.name ?? '',
+          arguments: JSON.stringify(block.input ?? {})
+        }));
+      return { content: extractText(blocks), toolCalls };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw describeError(error, PROVIDER_NAME);
+    }
+  },
+
+  stream: async (request, config, { onDelta, signal }) => {
+    let content = '';
+
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, true, signal));
+      await ensureOk(response, PROVIDER_NAME);
+
+      await readEventStream(response, ({ data }) => {
+        const event = JSON.parse(data);
+        switch (event.type) {
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text;
+              onDelta(event.delta.text, content);
+            }
+            break;
+          case 'message_stop':
+            return false;
+          case 'error':
+            throw new Error(`API request failed: ${event.error?.message ?? 'Unknown streaming error'}`);
+        }
+      });
+
+      return content;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw describeError(error, PROVIDER_NAME);
+    }
+  }
+};
@@ -0,0 +1,41 @@
+// Shared fetch plumbing for the HTTP-based adapters.
+
+// Note: For production, you'll need to handle CORS properly
+// Options:
+// 1. Use a backend proxy
+// 2. Configure CORS on your server
+// 3. Use a different API endpoint that supports CORS
+
+export const resolveEndpoint = (endpoint: string): string => {
+  // If it's a relative URL (starts with /), use it as is (for proxy)
+  // If it's an absolute URL, use it directly
+  if (!endpoint.startsWith('http') && !endpoint.startsWith('/')) {
+    return `https://${endpoint}`;
+  }
+  return endpoint;
+};
+
+export const ensureOk = async (response: Response, providerName: string): Promise<void> => {
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('API Error Response:', errorText);
+    
+    // Handle CORS errors specifically
+    if (response.status === 0 || response.status === 403) {
+      throw new Error(`CORS Error: Unable to access ${providerName} API directly from browser. Please use a backend proxy or configure CORS properly. Error: ${errorText}`);
+    }
+    
+    throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+};
+
+export const describeError = (error: unknown, providerName: string): unknown => {
+  console.error(`${providerName} API request failed:`, error);
+  
+  // If it's a CORS error, provide helpful guidance
+  if (error instanceof Error && error.message.includes('CORS')) {
+    return new Error(`CORS Error: ${error.message}\n\nTo fix this:\n1. Use a backend proxy server\n2. Configure CORS on your server\n3. Use a different API endpoint that supports CORS\n4. For development, you can use browser extensions to disable CORS`);
+  }
+  
+  return error;
+};
@@ -0,0 +1,87 @@
+import { LLMAdapter, CompletionRequest, AssistantTurn } from './types';
+
+// Produces the same reply for the same conversation so UI flows and demos
+// can be exercised without network access or an API key.
+const buildReply = (request: CompletionRequest): string => {
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+  const promptText = lastUser?.content ?? '';
+  const preview = promptText.length > 200 ? `${promptText.slice(0, 200)}...` : promptText;
+
+  return `**Mock response**
+
+This reply was generated locally by the mock provider; no request left the browser.
+
+**Messages received:** ${request.messages.length}
+**Last user message:**
+> ${preview.replace(/\n/g, '\n> ')}
+
+Switch to a real provider in the AI configuration dialog to get model output.`;
+};
+
+// With tools on offer, the mock lists the workspace root once and then
+// answers, which is enough to exercise an agent loop end to end.
+const buildTurn = (request: CompletionRequest): AssistantTurn => {
+  const canListDir = request.tools?.some(tool => tool.name === 'list_dir');
+  const toolResults = request.messages.filter(message => message.role === 'tool');
+
+  if (canListDir && toolResults.length === 0) {
+    return {
+      content: '',
+      toolCalls: [{
+        id: 'mock-call-1',
+        name: 'list_dir',
+        arguments: JSON.stringify({ relative_workspace_path: '' })
+      }]
+    };
+  }
+
+  const observed = toolResults.length > 0
+    ? `\n\n**Tool results received:** ${toolResults.length}\n\n\`\`\`\n${toolResults[toolResults.length - 1].content.slice(0, 500)}\n\`\`\``
+    : '';
+  return { content: buildReply(request) + observed, toolCalls: [] };
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const mockAdapter: LLMAdapter = {
+  id: 'mock',
+  name: 'Mock',
+  description: 'Deterministic offline responses for development and demos',
+  requiresApiKey: false,
+  defaultConfig: {
+    apiKey: '',
+    endpoint: '',
+    model: 'mock-echo',
+    maxTokens: 4096,
+    temperature: 0
+  },
+  suggestedModels: ['mock-echo'],
+
+  listModels: async () => ['mock-echo'],
+
+  complete: async (request, _config, signal) => {
+    if (signal?.aborted) throw abortError();
+    return buildReply(request);
+  },
+
+  completeChat: async (request, _config, signal) => {
+    if (signal?.aborted) throw abortError();
+    return buildTurn(request);
+  },
+
+  stream: async (request, _config, { onDelta, signal }) => {
+    const reply = buildReply(request);
+    // Emit word-sized chunks, yielding to the event loop between them
+    const chunks = reply.match(/\S+\s*|\s+/g) ?? [];
+    let content = '';
+
+    for (const chunk of chunks) {
+      if (signal?.aborted) throw abortError();
+      await new Promise(resolve => setTimeout(resolve, 15));
+      content += chunk;
+      onDelta(chunk, content);
+    }
+
+    return content;
+  }
+};
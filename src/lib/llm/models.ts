@@ -0,0 +1,33 @@
+import { ProviderConfig } from './types';
+
+// Prompt + completion token limits by model name. Patterns are tried in
+// order, so more specific names come first.
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-4\.1/, 1_047_576],
+  [/^(gpt-4o|chatgpt-4o|gpt-4-turbo|gpt-4\.5)/, 128_000],
+  [/^gpt-5/, 400_000],
+  [/^o\d/, 200_000],
+  [/^gpt-4-32k/, 32_768],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+  [/^claude/, 200_000],
+  [/^deepseek-coder-v2/, 128_000],
+  [/^deepseek/, 64_000],
+  [/^(qwen2\.5|llama3\.[1-3])/, 32_768],
+  [/^mock/, 32_768]
+];
+
+// Local and unknown models: assume a small window rather than overflow it
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+export const getContextWindow = (model: string): number => {
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+};
+
+// Prompt tokens left after reserving `maxTokens` for the reply. A maxTokens
+// that leaves less than half the window is treated as a misconfiguration.
+export const getPromptBudget = (config: Pick<ProviderConfig, 'model' | 'maxTokens'>): number => {
+  const contextWindow = getContextWindow(config.model);
+  return Math.max(contextWindow - config.maxTokens, Math.floor(contextWindow / 2));
+};
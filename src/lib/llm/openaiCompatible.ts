@@ -0,0 +1,184 @@
+import { readEventStream, isAbortError } from '@/lib/sse';
+import { LLMAdapter, ProviderConfig, CompletionRequest, ChatMessage, ToolCall, FIMRequest } from './types';
+import { resolveEndpoint, ensureOk, describeError } from './http';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+  defaultConfig: ProviderConfig;
+  suggestedModels: string[];
+  // Maps the configured chat endpoint to the provider's legacy completions
+  // endpoint that accepts `suffix`; omit when the provider has no FIM support
+  fimEndpoint?: (chatEndpoint: string) => string;
+}
+
+interface WireToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// Our neutral message shape -> the chat-completions wire format
+const toWireMessage = (message: ChatMessage) => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call): WireToolCall => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+const buildInit = (
+  request: CompletionRequest,
+  config: ProviderConfig,
+  stream: boolean,
+  signal?: AbortSignal
+): RequestInit => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      messages: request.messages.map(toWireMessage),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+      } : {}),
+      max_tokens: request.maxTokens ?? config.maxTokens,
+      temperature: request.temperature ?? config.temperature,
+      stream
+    }),
+    signal
+  };
+};
+
+const buildFIMInit = (request: FIMRequest, config: ProviderConfig, signal?: AbortSignal): RequestInit => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: config.model,
+      prompt: request.prefix,
+      suffix: request.suffix,
+      max_tokens: request.maxTokens ?? 128,
+      temperature: request.temperature ?? 0,
+      ...(request.stop?.length ? { stop: request.stop } : {}),
+      stream: false
+    }),
+    signal
+  };
+};
+
+/**
+ * Adapter for any server speaking the OpenAI chat-completions protocol:
+ * DeepSeek, OpenAI itself, and local servers such as Ollama or llama.cpp.
+ */
+export const createOpenAICompatibleAdapter = ({ fimEndpoint, ...options }: OpenAICompatibleOptions): LLMAdapter => ({
+  ...options,
+
+  ...(fimEndpoint ? {
+    completeFIM: async (request: FIMRequest, config: ProviderConfig, signal?: AbortSignal) => {
+      try {
+        const endpoint = fimEndpoint(resolveEndpoint(config.endpoint));
+        const response = await fetch(endpoint, buildFIMInit(request, config, signal));
+        await ensureOk(response, options.name);
+
+        const data = await response.json();
+        return data.choices?.[0]?.text ?? '';
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw describeError(error, options.name);
+      }
+    }
+  } : {}),
+
+  listModels: async (config) => {
+    // `/v1/chat/completions` -> `/v1/models`
+    const endpoint = resolveEndpoint(config.endpoint).replace(/\/chat\/completions\/?$/, '/models');
+    const response = await fetch(endpoint, {
+      headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
+    });
+    await ensureOk(response, options.name);
+
+    const data = await response.json();
+    return (data.data ?? []).map((model: { id: string }) => model.id);
+  },
+
+  complete: async (request, config, signal) => {
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, false, signal));
+      await ensureOk(response, options.name);
+
+      const data = await response.json();
+      return data.choices[0]?.message?.content || 'No response generated';
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw describeError(error, options.name);
+    }
+  },
+
+  completeChat: async (request, config, signal) => {
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, false, signal));
+      await ensureOk(response, options.name);
+
+      const data = await response.json();
+      const message = data.choices[0]?.message ?? {};
+      const toolCalls: ToolCall[] = (message.tool_calls ?? []).map((call: WireToolCall) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments
+      }));
+      return { content: message.content ?? '', toolCalls };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw describeError(error, options.name);
+    }
+  },
+
+  stream: async (request, config, { onDelta, signal }) => {
+    let content = '';
+
+    try {
+      const response = await fetch(resolveEndpoint(config.endpoint), buildInit(request, config, true, signal));
+      await ensureOk(response, options.name);
+
+      await readEventStream(response, ({ data }) => {
+        if (data === '[DONE]') return false;
+
+        const chunk = JSON.parse(data);
+        const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta, content);
+        }
+      });
+
+      return content;
+    } catch (error) {
+      // Let callers distinguish a user-initiated stop from a failure
+      if (isAbortError(error)) throw error;
+      throw describeError(error, options.name);
+    }
+  }
+});
@@ -0,0 +1,157 @@
+import { LLMAdapter, ProviderConfig, CompletionRequest, ChatMessage, StreamOptions, AssistantTurn, FIMRequest } from './types';
+import { deepSeekAdapter, openAIAdapter, localAdapter } from './adapters';
+import { anthropicAdapter } from './anthropic';
+import { mockAdapter } from './mock';
+
+const ACTIVE_PROVIDER_KEY = 'llm-active-provider';
+const DEFAULT_PROVIDER_ID = 'deepseek';
+
+const SYSTEM_PROMPT = 'You are an advanced AI coding assistant. Provide precise, helpful responses focused on code quality and best practices.';
+
+// Per-provider settings live under `<provider id>-config`, e.g. `deepseek-config`
+const configKey = (providerId: string) => `${providerId}-config`;
+
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private adapters: Map<string, LLMAdapter> = new Map();
+  private activeProviderId: string;
+
+  private constructor() {
+    [deepSeekAdapter, openAIAdapter, anthropicAdapter, localAdapter, mockAdapter]
+      .forEach(adapter => this.register(adapter));
+
+    const stored = localStorage.getItem(ACTIVE_PROVIDER_KEY);
+    this.activeProviderId = stored && this.adapters.has(stored) ? stored : DEFAULT_PROVIDER_ID;
+  }
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  register(adapter: LLMAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  getAdapter(providerId: string): LLMAdapter {
+    const adapter = this.adapters.get(providerId);
+    if (!adapter) {
+      throw new Error(`Unknown LLM provider: ${providerId}`);
+    }
+    return adapter;
+  }
+
+  getAdapters(): LLMAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  getActiveProviderId(): string {
+    return this.activeProviderId;
+  }
+
+  getActiveAdapter(): LLMAdapter {
+    return this.getAdapter(this.activeProviderId);
+  }
+
+  setActiveProvider(providerId: string): void {
+    this.getAdapter(providerId); // validate
+    this.activeProviderId = providerId;
+    localStorage.setItem(ACTIVE_PROVIDER_KEY, providerId);
+  }
+
+  getConfig(providerId: string = this.activeProviderId): ProviderConfig {
+    const { defaultConfig } = this.getAdapter(providerId);
+    try {
+      const stored = localStorage.getItem(configKey(providerId));
+      return stored ? { ...defaultConfig, ...JSON.parse(stored) } : { ...defaultConfig };
+    } catch (error) {
+      console.warn(`Ignoring unreadable config for ${providerId}:`, error);
+      return { ...defaultConfig };
+    }
+  }
+
+  saveConfig(providerId: string, newConfig: Partial<ProviderConfig>): ProviderConfig {
+    const updated = { ...this.getConfig(providerId), ...newConfig };
+    localStorage.setItem(configKey(providerId), JSON.stringify(updated));
+    return updated;
+  }
+
+  isConfigured(providerId: string = this.activeProviderId, config?: ProviderConfig): boolean {
+    const adapter = this.getAdapter(providerId);
+    const resolved = config ?? this.getConfig(providerId);
+    return adapter.requiresApiKey ? Boolean(resolved.apiKey) : true;
+  }
+
+  async listModels(providerId: string, config?: ProviderConfig): Promise<string[]> {
+    const adapter = this.getAdapter(providerId);
+    if (!adapter.listModels) return adapter.suggestedModels;
+    return adapter.listModels(config ?? this.getConfig(providerId));
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const adapter = this.getActiveAdapter();
+    this.assertConfigured(adapter);
+    return adapter.complete(request, this.getConfig(adapter.id), signal);
+  }
+
+  // Against a provider other than the active one, with its saved settings
+  async completeWith(providerId: string, request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const adapter = this.getAdapter(providerId);
+    this.assertConfigured(adapter);
+    return adapter.complete(request, this.getConfig(adapter.id), signal);
+  }
+
+  async completeChat(request: CompletionRequest, signal?: AbortSignal): Promise<AssistantTurn> {
+    const adapter = this.getActiveAdapter();
+    this.assertConfigured(adapter);
+    return adapter.completeChat(request, this.getConfig(adapter.id), signal);
+  }
+
+  async stream(request: CompletionRequest, options: StreamOptions): Promise<string> {
+    const adapter = this.getActiveAdapter();
+    this.assertConfigured(adapter);
+    return adapter.stream(request, this.getConfig(adapter.id), options);
+  }
+
+  supportsFIM(providerId: string = this.activeProviderId): boolean {
+    return Boolean(this.getAdapter(providerId).completeFIM);
+  }
+
+  async completeFIM(request: FIMRequest, signal?: AbortSignal): Promise<string> {
+    const adapter = this.getActiveAdapter();
+    if (!adapter.completeFIM) {
+      throw new Error(`${adapter.name} does not support fill-in-the-middle completions`);
+    }
+    this.assertConfigured(adapter);
+    return adapter.completeFIM(request, this.getConfig(adapter.id), signal);
+  }
+
+  // Prompt + JSON context convenience wrappers used by chat surfaces
+  async makeRequest(prompt: string, context?: unknown, signal?: AbortSignal): Promise<string> {
+    return this.complete({ messages: this.buildMessages(prompt, context) }, signal);
+  }
+
+  async streamRequest(prompt: string, context: unknown, options: StreamOptions): Promise<string> {
+    return this.stream({ messages: this.buildMessages(prompt, context) }, options);
+  }
+
+  private buildMessages(prompt: string, context?: unknown): ChatMessage[] {
+    return [
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: context ? `Context: ${JSON.stringify(context)}\n\nPrompt: ${prompt}` : prompt
+      }
+    ];
+  }
+
+  private assertConfigured(adapter: LLMAdapter): void {
+    if (!this.isConfigured(adapter.id)) {
+      throw new Error(`${adapter.name} API key not configured`);
+    }
+  }
+}
+
+export const providerRegistry = ProviderRegistry.getInstance();
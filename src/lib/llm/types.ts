@@ -0,0 +1,81 @@
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  // Set on assistant turns that requested tool executions
+  toolCalls?: ToolCall[];
+  // Set on `tool` messages: the call this message answers
+  toolCallId?: string;
+}
+
+// Function-calling schema, in the shape of `Agent Tools v1.0.json`
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Raw JSON as produced by the model; parsed by the executor
+  arguments: string;
+}
+
+export interface AssistantTurn {
+  content: string;
+  toolCalls: ToolCall[];
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+// Fill-in-the-middle: the model writes the text between `prefix` and `suffix`
+export interface FIMRequest {
+  prefix: string;
+  suffix: string;
+  maxTokens?: number;
+  temperature?: number;
+  stop?: string[];
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  endpoint: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface StreamOptions {
+  // Called for every content delta with the text accumulated so far
+  onDelta: (delta: string, content: string) => void;
+  // Aborting rejects the request with an `AbortError`
+  signal?: AbortSignal;
+}
+
+/**
+ * A single LLM backend. Adapters are stateless: the registry owns the
+ * persisted configuration and hands it to every call.
+ */
+export interface LLMAdapter {
+  id: string;
+  name: string;
+  description: string;
+  requiresApiKey: boolean;
+  defaultConfig: ProviderConfig;
+  // Shown in the model picker before (or instead of) a live model list
+  suggestedModels: string[];
+  listModels?: (config: ProviderConfig) => Promise<string[]>;
+  complete: (request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal) => Promise<string>;
+  // Non-streaming call that also returns any tool calls the model made
+  completeChat: (request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal) => Promise<AssistantTurn>;
+  stream: (request: CompletionRequest, config: ProviderConfig, options: StreamOptions) => Promise<string>;
+  // Only on providers with a fill-in-the-middle completions endpoint
+  completeFIM?: (request: FIMRequest, config: ProviderConfig, signal?: AbortSignal) => Promise<string>;
+}
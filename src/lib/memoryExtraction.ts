@@ -0,0 +1,184 @@
+import { AssistantTurn, ChatMessage, CompletionRequest } from '@/lib/llm/types';
+import { localEmbedder } from '@/lib/embeddings/embedders';
+import { Prompt, promptManager } from '@/lib/promptManager';
+import { Memory, MemorySuggestion, MemoryType, isSameScope, memoryStore, toScope } from '@/lib/memoryStore';
+import { ActiveProject } from '@/types/project';
+
+const EXTRACTION_PROMPT_ID = 'memory';
+const RATING_PROMPT_ID = 'memory-rating';
+const ENABLED_KEY = 'memory-suggestions-enabled';
+// Messages of the conversation shown to the prompts, ending with the latest reply
+const CONVERSATION_WINDOW = 6;
+const MAX_MESSAGE_CHARS = 2000;
+// Ratings of 1-2 are vague, obvious or task-specific by the Rating Prompt's own rubric
+const MIN_RATING = 3;
+// Embedding similarity above which a suggestion restates an existing memory
+const DUPLICATE_SIMILARITY = 0.8;
+const NO_MEMORY = /no_memory_(needed|suggested)/;
+// Label words that describe the kind of memory rather than its subject
+const GENERIC_LABEL_WORDS = new Set(['prefer', 'preference', 'preferences', 'use', 'user', 'always', 'never', 'avoid']);
+
+type Complete = (request: CompletionRequest) => Promise<AssistantTurn>;
+
+interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ExtractMemoriesOptions {
+  conversationId: string;
+  messages: TranscriptMessage[];
+  complete: Complete;
+  // The loaded project, which the suggestion is scoped to
+  project?: ActiveProject | null;
+}
+
+export const loadSuggestionsEnabled = (): boolean => {
+  try {
+    return localStorage.getItem(ENABLED_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+};
+
+export const saveSuggestionsEnabled = (enabled: boolean): void => {
+  localStorage.setItem(ENABLED_KEY, String(enabled));
+};
+
+const renderTranscript = (messages: TranscriptMessage[]): string => messages
+  .slice(-CONVERSATION_WINDOW)
+  .map(message => {
+    const content = message.content.length > MAX_MESSAGE_CHARS
+      ? `${message.content.slice(0, MAX_MESSAGE_CHARS)}…`
+      : message.content;
+    return `${message.role}: ${content}`;
+  })
+  .join('\n\n');
+
+const parseJSONObject = (text: string): Record<string, unknown> | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+    return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The Memory Prompt answers with `{"explanation", "memory"}`, where memory is
+ * `label-with-hyphens: text`, or with `no_memory_needed`.
+ */
+export const parseProposedMemory = (response: string): { label: string; text: string } | null => {
+  const memory = parseJSONObject(response)?.memory;
+  if (typeof memory !== 'string' || NO_MEMORY.test(memory)) return null;
+
+  const match = memory.match(/^\s*([A-Za-z][A-Za-z0-9-]*)\s*:\s*([\s\S]+)$/);
+  const text = (match ? match[2] : memory).trim();
+  return text ? { label: match?.[1].toLowerCase() ?? '', text } : null;
+};
+
+// The Rating Prompt ends its answer with `SCORE: n`
+export const parseRating = (response: string): number | null => {
+  const matches = Array.from(response.matchAll(/SCORE:\s*\[?\s*([1-5])\b/gi));
+  return matches.length > 0 ? Number(matches[matches.length - 1][1]) : null;
+};
+
+const titleFromLabel = (label: string, text: string): string => {
+  if (!label) return text.split(/[.\n]/)[0].slice(0, 60);
+  const words = label.split('-').filter(Boolean);
+  return words.map((word, index) => index === 0 ? word[0].toUpperCase() + word.slice(1) : word).join(' ');
+};
+
+const tagsFromLabel = (label: string): string[] =>
+  label.split('-').filter(word => word.length > 2 && !GENERIC_LABEL_WORDS.has(word));
+
+const inferType = (text: string): MemoryType => {
+  if (/\b(project|codebase|repo|repository)\b/i.test(text)) return 'project';
+  if (/\b(prefers?|preference|likes?|wants?|always|never)\b/i.test(text)) return 'preference';
+  if (/\b(pattern|architecture|structure|convention)\b/i.test(text)) return 'pattern';
+  return 'technical';
+};
+
+const fillRatingPrompt = (template: string, transcript: string, memory: string): string => template
+  .split('${l}').join(transcript)
+  .split('${a.memory}').join(memory)
+  // Slot for extra rating instructions; the defaults in the prompt suffice
+  .split('${c}').join('');
+
+const isDuplicate = async (
+  candidate: string,
+  existing: Pick<Memory, 'title' | 'content'>[]
+): Promise<boolean> => {
+  if (existing.length === 0) return false;
+  const texts = existing.map(memory => `${memory.title}\n${memory.content}`);
+  const [vector, ...others] = await localEmbedder.embed([candidate, ...texts]);
+  return others.some(other => {
+    let similarity = 0;
+    for (let i = 0; i < vector.length; i++) similarity += vector[i] * other[i];
+    return similarity >= DUPLICATE_SIMILARITY;
+  });
+};
+
+// Deterministic unless the prompt's front-matter asks otherwise
+const ask = async (run: Complete, prompt: Prompt, messages: ChatMessage[]): Promise<string> => {
+  const hints = prompt.metadata?.modelHints;
+  return (await run({ messages, temperature: hints?.temperature ?? 0, maxTokens: hints?.maxTokens })).content;
+};
+
+/**
+ * Proposes a memory from the latest exchange of a conversation: the Memory
+ * Prompt suggests one, the Memory Rating Prompt scores it, and one that rates
+ * well and does not repeat a memory or suggestion of the same scope is queued
+ * for the user's approval. Resolves with the queued suggestion, if any.
+ */
+export const extractMemories = async ({
+  conversationId,
+  messages,
+  complete,
+  project
+}: ExtractMemoriesOptions): Promise<MemorySuggestion | null> => {
+  if (!messages.some(message => message.role === 'user')) return null;
+
+  await promptManager.loadPrompts();
+  const extractionPrompt = promptManager.getPrompt(EXTRACTION_PROMPT_ID);
+  const ratingPrompt = promptManager.getPrompt(RATING_PROMPT_ID);
+  if (!extractionPrompt || !ratingPrompt) return null;
+
+  const transcript = renderTranscript(messages);
+  const proposed = parseProposedMemory(await ask(complete, extractionPrompt, [
+    { role: 'system', content: extractionPrompt.content },
+    { role: 'user', content: `<conversation>\n${transcript}\n</conversation>` }
+  ]));
+  if (!proposed) return null;
+
+  const memoryLine = proposed.label ? `${proposed.label}: ${proposed.text}` : proposed.text;
+  const rating = await ask(complete, ratingPrompt, [
+    { role: 'user', content: fillRatingPrompt(ratingPrompt.content, transcript, memoryLine) }
+  ]);
+  const score = parseRating(rating);
+  if (score === null || score < MIN_RATING) return null;
+
+  const title = titleFromLabel(proposed.label, proposed.text);
+  const scope = project ? toScope(project) : undefined;
+  const [memories, suggestions] = await Promise.all([memoryStore.list(), memoryStore.listSuggestions()]);
+  const sameScope = [...memories, ...suggestions].filter(existing => isSameScope(existing.scope, scope));
+  if (await isDuplicate(`${title}\n${proposed.text}`, sameScope)) return null;
+
+  const suggestion: MemorySuggestion = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type: inferType(`${proposed.label} ${proposed.text}`),
+    title,
+    content: proposed.text,
+    tags: tagsFromLabel(proposed.label),
+    relevanceScore: score * 20,
+    reason: rating.replace(/SCORE:[\s\S]*$/i, '').trim(),
+    conversationId,
+    createdAt: new Date(),
+    scope
+  };
+  await memoryStore.saveSuggestion(suggestion);
+  return suggestion;
+};
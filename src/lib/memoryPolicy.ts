@@ -0,0 +1,137 @@
+import type { Memory } from '@/lib/memoryStore';
+import { localEmbedder } from '@/lib/embeddings/embedders';
+
+export interface MemorySettings {
+  // Memories kept before the lowest-scoring unpinned ones are pruned
+  maxMemories: number;
+  // Days without use after which an unused memory's score halves; every
+  // doubling of its access count adds another half-life
+  halfLifeDays: number;
+}
+
+export interface MemoryOverlap {
+  a: Memory;
+  b: Memory;
+  similarity: number;
+}
+
+const SETTINGS_KEY = 'memory-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Similar enough to be one memory said twice, but below the duplicate check
+// that keeps suggestions out altogether
+const OVERLAP_SIMILARITY = 0.55;
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  maxMemories: 200,
+  halfLifeDays: 30
+};
+
+export const loadMemorySettings = (): MemorySettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_MEMORY_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_MEMORY_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to read memory settings:', error);
+    return { ...DEFAULT_MEMORY_SETTINGS };
+  }
+};
+
+export const saveMemorySettings = (settings: MemorySettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The relevance score after decay. A memory loses half its score per
+ * half-life since it was last used, and each doubling of its access count
+ * lengthens the half-life, so memories in regular use fade slowly. Pinned
+ * memories keep their score.
+ */
+export const effectiveScore = (memory: Memory, settings: MemorySettings, now = Date.now()): number => {
+  if (memory.pinned) return memory.relevanceScore;
+  const idleDays = Math.max(0, now - memory.lastAccessed.getTime()) / DAY_MS;
+  const halfLife = settings.halfLifeDays * (1 + Math.log2(1 + memory.accessCount));
+  return Math.max(1, Math.round(memory.relevanceScore * 0.5 ** (idleDays / halfLife)));
+};
+
+/**
+ * Memories to delete so at most `maxMemories` remain: the unpinned ones with
+ * the lowest effective score.
+ */
+export const selectPruned = (memories: Memory[], settings: MemorySettings, now = Date.now()): Memory[] => {
+  const excess = memories.length - settings.maxMemories;
+  if (excess <= 0) return [];
+  return memories
+    .filter(memory => !memory.pinned)
+    .sort((a, b) => effectiveScore(a, settings, now) - effectiveScore(b, settings, now))
+    .slice(0, excess);
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const scopeKey = (memory: Memory): string =>
+  memory.scope ? `${memory.scope.projectId}:${memory.scope.path ?? ''}` : '';
+
+export const overlapKey = (a: Memory, b: Memory): string => [a.id, b.id].sort().join('|');
+
+/**
+ * Pairs of memories similar enough to be merged, most similar first. Each
+ * memory appears in at most one pair, and only memories with the same scope
+ * are paired; pairs in `ignored` (see `overlapKey`) are skipped.
+ */
+export const findOverlaps = async (memories: Memory[], ignored: Set<string> = new Set()): Promise<MemoryOverlap[]> => {
+  if (memories.length < 2) return [];
+  const vectors = await localEmbedder.embed(memories.map(memory =>
+    [memory.title, memory.content, memory.tags.join(' ')].join('\n')
+  ));
+
+  const candidates: MemoryOverlap[] = [];
+  for (let i = 0; i < memories.length; i++) {
+    for (let j = i + 1; j < memories.length; j++) {
+      if (scopeKey(memories[i]) !== scopeKey(memories[j])) continue;
+      const similarity = dot(vectors[i], vectors[j]);
+      if (similarity >= OVERLAP_SIMILARITY && !ignored.has(overlapKey(memories[i], memories[j]))) {
+        candidates.push({ a: memories[i], b: memories[j], similarity });
+      }
+    }
+  }
+
+  const paired = new Set<string>();
+  return candidates
+    .sort((x, y) => y.similarity - x.similarity)
+    .filter(({ a, b }) => {
+      if (paired.has(a.id) || paired.has(b.id)) return false;
+      paired.add(a.id);
+      paired.add(b.id);
+      return true;
+    });
+};
+
+/**
+ * One memory holding both: the stronger memory's title and type, both
+ * contents unless one contains the other, and their tags, usage and pin
+ * combined.
+ */
+export const mergeMemories = (a: Memory, b: Memory): Memory => {
+  const [primary, secondary] = a.relevanceScore >= b.relevanceScore ? [a, b] : [b, a];
+  const content = primary.content.includes(secondary.content)
+    ? primary.content
+    : secondary.content.includes(primary.content)
+      ? secondary.content
+      : `${primary.content}\n${secondary.content}`;
+
+  return {
+    ...primary,
+    content,
+    relevanceScore: Math.max(a.relevanceScore, b.relevanceScore),
+    lastAccessed: a.lastAccessed > b.lastAccessed ? a.lastAccessed : b.lastAccessed,
+    createdAt: a.createdAt < b.createdAt ? a.createdAt : b.createdAt,
+    accessCount: a.accessCount + b.accessCount,
+    tags: Array.from(new Set([...primary.tags, ...secondary.tags])),
+    context: primary.context || secondary.context,
+    pinned: Boolean(a.pinned || b.pinned)
+  };
+};
@@ -0,0 +1,460 @@
+import { STORES, isIndexedDBAvailable, requestToPromise, withStore, withTransaction } from '@/lib/db';
+import { Embedder, localEmbedder } from '@/lib/embeddings/embedders';
+import { tokenize } from '@/lib/search/searchIndex';
+import { effectiveScore, loadMemorySettings, selectPruned } from '@/lib/memoryPolicy';
+import { normalizePath } from '@/lib/agent/workspace';
+import { ActiveProject } from '@/types/project';
+
+export type MemoryType = 'technical' | 'preference' | 'project' | 'pattern';
+
+// Limits a memory to one project, or to a folder inside it
+export interface MemoryScope {
+  projectId: string;
+  // Shown in the panel; the id is what matches
+  projectName: string;
+  // Project-relative folder, e.g. "src/api"; absent for the whole project
+  path?: string;
+}
+
+export interface Memory {
+  id: string;
+  type: MemoryType;
+  title: string;
+  content: string;
+  // 1-100, set by the user; weights retrieval after decay (see `effectiveScore`)
+  relevanceScore: number;
+  // Last time the memory was sent to the model
+  lastAccessed: Date;
+  createdAt: Date;
+  accessCount: number;
+  tags: string[];
+  // When the memory applies, e.g. "Component development patterns"
+  context?: string;
+  promptUsed?: string;
+  // Exempt from decay and pruning
+  pinned?: boolean;
+  // Absent for memories that apply everywhere
+  scope?: MemoryScope;
+}
+
+// A memory proposed from a conversation, shown in the Memory panel until the
+// user approves or dismisses it
+export interface MemorySuggestion {
+  id: string;
+  type: MemoryType;
+  title: string;
+  content: string;
+  tags: string[];
+  // From the Memory Rating Prompt's 1-5 score
+  relevanceScore: number;
+  // The rating's justification
+  reason: string;
+  conversationId: string;
+  createdAt: Date;
+  // The project the conversation was in; the memory gets it on approval
+  scope?: MemoryScope;
+}
+
+export interface RetrievedMemory {
+  memory: Memory;
+  score: number;
+}
+
+// Memories injected into a system prompt
+export const MAX_RETRIEVED_MEMORIES = 5;
+// Below this a memory shares too little with the message to be worth tokens
+const MIN_MEMORY_SCORE = 0.12;
+const TAG_WEIGHT = 0.4;
+const KEYWORD_WEIGHT = 0.3;
+const EMBEDDING_WEIGHT = 0.3;
+// Prose words `tokenize` keeps but that say nothing about relevance
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'are', 'was', 'you', 'your', 'use', 'uses', 'can',
+  'how', 'what', 'why', 'when', 'where', 'please', 'should', 'would', 'could', 'from', 'into', 'have', 'has'
+]);
+
+const FILE_FORMAT_VERSION = 1;
+
+const isInFolder = (path: string, folder: string) => {
+  const normalized = normalizePath(path);
+  return normalized === folder || normalized.startsWith(`${folder}/`);
+};
+
+/**
+ * Whether a memory applies in the given project. Folder memories also need
+ * one of `paths` inside their folder; without `paths` any folder matches.
+ */
+export const isInScope = (memory: Memory, project: ActiveProject | null | undefined, paths?: string[]): boolean => {
+  if (!memory.scope) return true;
+  if (memory.scope.projectId !== project?.id) return false;
+  const folder = memory.scope.path;
+  return !folder || !paths || paths.some(path => isInFolder(path, folder));
+};
+
+export const isSameScope = (a: MemoryScope | undefined, b: MemoryScope | undefined): boolean =>
+  a?.projectId === b?.projectId && a?.path === b?.path;
+
+export const describeScope = (scope: MemoryScope | undefined): string => {
+  if (!scope) return 'Everywhere';
+  return scope.path ? `${scope.projectName}/${scope.path}` : scope.projectName;
+};
+
+export const toScope = (project: ActiveProject, path?: string): MemoryScope => {
+  const folder = path ? normalizePath(path) : '';
+  return folder
+    ? { projectId: project.id, projectName: project.name, path: folder }
+    : { projectId: project.id, projectName: project.name };
+};
+
+/**
+ * A project's memories as a file to commit with its code. Ids, usage and the
+ * project id are specific to this browser, so only the memory itself and its
+ * folder are written.
+ */
+export const serializeProjectMemories = (memories: Memory[], project: ActiveProject) => ({
+  version: FILE_FORMAT_VERSION,
+  project: project.name,
+  memories: memories
+    .filter(memory => memory.scope?.projectId === project.id)
+    .map(memory => ({
+      type: memory.type,
+      title: memory.title,
+      content: memory.content,
+      tags: memory.tags,
+      relevanceScore: memory.relevanceScore,
+      context: memory.context,
+      pinned: memory.pinned,
+      path: memory.scope?.path,
+      createdAt: memory.createdAt.toISOString()
+    }))
+});
+
+const MEMORY_TYPES: MemoryType[] = ['technical', 'preference', 'project', 'pattern'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a file written by `serializeProjectMemories` into memories scoped to
+ * `project`. Throws with a message suitable for a toast when the data is not
+ * a memory file.
+ */
+export const deserializeProjectMemories = (data: unknown, project: ActiveProject): Memory[] => {
+  if (!isRecord(data) || !Array.isArray(data.memories)) {
+    throw new Error('Invalid memory file: expected an object with a memories array');
+  }
+
+  const now = new Date();
+  return data.memories.map((entry, index): Memory => {
+    if (!isRecord(entry) || typeof entry.title !== 'string' || typeof entry.content !== 'string') {
+      throw new Error(`Invalid memory file: memory ${index + 1} is malformed`);
+    }
+    const createdAt = new Date(typeof entry.createdAt === 'string' ? entry.createdAt : NaN);
+    const score = Number(entry.relevanceScore);
+    return {
+      id: `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      type: MEMORY_TYPES.includes(entry.type as MemoryType) ? entry.type as MemoryType : 'project',
+      title: entry.title,
+      content: entry.content,
+      tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      relevanceScore: Number.isFinite(score) ? Math.min(100, Math.max(1, score)) : 75,
+      context: typeof entry.context === 'string' ? entry.context : undefined,
+      pinned: entry.pinned === true,
+      scope: toScope(project, typeof entry.path === 'string' ? entry.path : undefined),
+      createdAt: Number.isNaN(createdAt.getTime()) ? now : createdAt,
+      lastAccessed: now,
+      accessCount: 0
+    };
+  });
+};
+
+const byLastAccessed = (a: Memory, b: Memory) => b.lastAccessed.getTime() - a.lastAccessed.getTime();
+const byNewest = (a: MemorySuggestion, b: MemorySuggestion) => b.createdAt.getTime() - a.createdAt.getTime();
+
+const keywordsOf = (text: string): Set<string> =>
+  new Set(tokenize(text).filter(term => term.length > 2 && !STOP_WORDS.has(term)));
+
+const memoryText = (memory: Memory) =>
+  [memory.title, memory.content, memory.context ?? '', memory.tags.join(' ')].join('\n');
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Ranks memories against a user message. A memory scores on its tags
+ * appearing in the message, on shared keywords and on embedding similarity,
+ * scaled by its decayed relevance score; those below a floor are dropped. The local
+ * embedder is the default so ranking needs no network call per message.
+ */
+export const retrieveMemories = async (
+  query: string,
+  memories: Memory[],
+  limit = MAX_RETRIEVED_MEMORIES,
+  embedder: Embedder = localEmbedder
+): Promise<RetrievedMemory[]> => {
+  const queryTerms = new Set(tokenize(query));
+  const queryKeywords = keywordsOf(query);
+  if (memories.length === 0 || queryKeywords.size === 0) return [];
+
+  // A tag matches when all of its terms are in the message, so "react-query" matches "React Query"
+  const tagMatches = (tag: string) => {
+    const terms = tokenize(tag);
+    return terms.length > 0 && terms.every(term => queryTerms.has(term));
+  };
+  const [queryVector, ...memoryVectors] = await embedder.embed([query, ...memories.map(memoryText)]);
+  const settings = loadMemorySettings();
+  const now = Date.now();
+
+  return memories
+    .map((memory, index): RetrievedMemory => {
+      // Two matching tags are as strong a signal as it gets
+      const tagScore = Math.min(1, memory.tags.filter(tagMatches).length / 2);
+      const memoryKeywords = keywordsOf(memoryText(memory));
+      let shared = 0;
+      queryKeywords.forEach(term => {
+        if (memoryKeywords.has(term)) shared++;
+      });
+      const keywordScore = shared / queryKeywords.size;
+      const embeddingScore = Math.max(0, dot(queryVector, memoryVectors[index]));
+
+      const match = TAG_WEIGHT * tagScore + KEYWORD_WEIGHT * keywordScore + EMBEDDING_WEIGHT * embeddingScore;
+      return { memory, score: match * (0.5 + effectiveScore(memory, settings, now) / 200) };
+    })
+    .filter(result => result.score >= MIN_MEMORY_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * System prompt section listing the memories retrieved for a message.
+ */
+export const renderMemories = (memories: Memory[]): string => {
+  if (memories.length === 0) return '';
+  const lines = memories.map(memory => {
+    const tags = memory.tags.length > 0 ? ` [${memory.tags.join(', ')}]` : '';
+    return `- (${memory.type}) ${memory.title}: ${memory.content}${tags}`;
+  });
+  return `## What you remember about this user and project\n\n${lines.join('\n')}`;
+};
+
+/**
+ * Memories shown in the Memory panel and retrieved into Composer prompts,
+ * plus the suggestions waiting for approval.
+ * Backed by IndexedDB; falls back to memory for the current page when
+ * IndexedDB is unavailable (private browsing, tests).
+ */
+export class MemoryStore {
+  private static instance: MemoryStore;
+  private memory: Map<string, Memory> | null = null;
+  private suggestionMemory: Map<string, MemorySuggestion> | null = null;
+  private listeners = new Set<() => void>();
+
+  private constructor() {
+    if (!isIndexedDBAvailable()) {
+      console.warn('IndexedDB unavailable; memories will not persist');
+      this.memory = new Map();
+      this.suggestionMemory = new Map();
+    }
+  }
+
+  static getInstance(): MemoryStore {
+    if (!MemoryStore.instance) {
+      MemoryStore.instance = new MemoryStore();
+    }
+    return MemoryStore.instance;
+  }
+
+  // Called after every change, wherever it was made
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  async list(): Promise<Memory[]> {
+    const memories = this.memory
+      ? Array.from(this.memory.values())
+      : await withStore(STORES.memories, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<Memory[]>)
+        );
+    return memories.sort(byLastAccessed);
+  }
+
+  async save(memory: Memory): Promise<void> {
+    if (this.memory) {
+      this.memory.set(memory.id, memory);
+    } else {
+      await withStore(STORES.memories, 'readwrite', store => requestToPromise(store.put(memory)));
+    }
+    await this.prune();
+    this.notify();
+  }
+
+  /**
+   * Replaces two overlapping memories with their merge, which keeps the id
+   * of one of them.
+   */
+  async merge(merged: Memory, removedIds: string[]): Promise<void> {
+    const removed = removedIds.filter(id => id !== merged.id);
+    if (this.memory) {
+      this.memory.set(merged.id, merged);
+      removed.forEach(id => this.memory?.delete(id));
+    } else {
+      await withStore(STORES.memories, 'readwrite', store => Promise.all([
+        requestToPromise(store.put(merged)),
+        ...removed.map(id => requestToPromise(store.delete(id)))
+      ]));
+    }
+    this.notify();
+  }
+
+  /**
+   * Deletes the lowest-scoring unpinned memories beyond the configured cap.
+   * Resolves with how many were removed.
+   */
+  async prune(): Promise<number> {
+    const pruned = selectPruned(await this.list(), loadMemorySettings());
+    if (pruned.length === 0) return 0;
+    if (this.memory) {
+      pruned.forEach(memory => this.memory?.delete(memory.id));
+    } else {
+      await withStore(STORES.memories, 'readwrite', store =>
+        Promise.all(pruned.map(memory => requestToPromise(store.delete(memory.id))))
+      );
+    }
+    this.notify();
+    return pruned.length;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.memory) {
+      this.memory.delete(id);
+    } else {
+      await withStore(STORES.memories, 'readwrite', store => requestToPromise(store.delete(id)));
+    }
+    this.notify();
+  }
+
+  /**
+   * Records that memories were sent to the model: bumps their access count
+   * and last-accessed time.
+   */
+  async markUsed(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const now = new Date();
+    const used = (await this.list()).filter(memory => ids.includes(memory.id));
+    const updated = used.map(memory => ({ ...memory, accessCount: memory.accessCount + 1, lastAccessed: now }));
+
+    if (this.memory) {
+      updated.forEach(memory => this.memory?.set(memory.id, memory));
+    } else {
+      await withStore(STORES.memories, 'readwrite', store =>
+        Promise.all(updated.map(memory => requestToPromise(store.put(memory))))
+      );
+    }
+    this.notify();
+  }
+
+  async listSuggestions(): Promise<MemorySuggestion[]> {
+    const suggestions = this.suggestionMemory
+      ? Array.from(this.suggestionMemory.values())
+      : await withStore(STORES.memorySuggestions, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<MemorySuggestion[]>)
+        );
+    return suggestions.sort(byNewest);
+  }
+
+  async saveSuggestion(suggestion: MemorySuggestion): Promise<void> {
+    if (this.suggestionMemory) {
+      this.suggestionMemory.set(suggestion.id, suggestion);
+    } else {
+      await withStore(STORES.memorySuggestions, 'readwrite', store => requestToPromise(store.put(suggestion)));
+    }
+    this.notify();
+  }
+
+  async dismissSuggestion(id: string): Promise<void> {
+    if (this.suggestionMemory) {
+      this.suggestionMemory.delete(id);
+    } else {
+      await withStore(STORES.memorySuggestions, 'readwrite', store => requestToPromise(store.delete(id)));
+    }
+    this.notify();
+  }
+
+  /**
+   * Turns a suggestion into a memory, keeping its rating as the relevance
+   * score and its scope.
+   */
+  async approveSuggestion(suggestion: MemorySuggestion, promptUsed?: string): Promise<Memory> {
+    const now = new Date();
+    const memory: Memory = {
+      id: suggestion.id,
+      type: suggestion.type,
+      title: suggestion.title,
+      content: suggestion.content,
+      relevanceScore: suggestion.relevanceScore,
+      lastAccessed: now,
+      createdAt: now,
+      accessCount: 0,
+      tags: suggestion.tags,
+      promptUsed,
+      scope: suggestion.scope
+    };
+
+    if (this.memory && this.suggestionMemory) {
+      this.memory.set(memory.id, memory);
+      this.suggestionMemory.delete(suggestion.id);
+    } else {
+      await withTransaction([STORES.memories, STORES.memorySuggestions], 'readwrite', transaction => Promise.all([
+        requestToPromise(transaction.objectStore(STORES.memories).put(memory)),
+        requestToPromise(transaction.objectStore(STORES.memorySuggestions).delete(suggestion.id))
+      ]));
+    }
+    await this.prune();
+    this.notify();
+    return memory;
+  }
+
+  /**
+   * Imports a project memory file into `project`. Memories it already has
+   * with the same title and content are skipped. Resolves with how many
+   * were added.
+   */
+  async importJSON(json: string, project: ActiveProject): Promise<number> {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid memory file: not valid JSON');
+    }
+
+    const imported = deserializeProjectMemories(data, project);
+    const existing = new Set((await this.list())
+      .filter(memory => memory.scope?.projectId === project.id)
+      .map(memory => `${memory.title}\n${memory.content}`));
+    const added = imported.filter(memory => !existing.has(`${memory.title}\n${memory.content}`));
+    if (added.length === 0) return 0;
+
+    if (this.memory) {
+      added.forEach(memory => this.memory?.set(memory.id, memory));
+    } else {
+      await withStore(STORES.memories, 'readwrite', store =>
+        Promise.all(added.map(memory => requestToPromise(store.put(memory))))
+      );
+    }
+    await this.prune();
+    this.notify();
+    return added.length;
+  }
+}
+
+export const memoryStore = MemoryStore.getInstance();
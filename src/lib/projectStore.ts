@@ -0,0 +1,138 @@
+import { FileSystemItem } from '@/types/fileSystem';
+import { STORES, requestToPromise, withStore } from '@/lib/db';
+import { importTree, deleteProjectFiles } from '@/lib/indexedDBFileSystem';
+
+// Where CodeEditor kept whole projects (contents included) before IndexedDB
+const LEGACY_PROJECTS_KEY = 'intellicode-saved-projects';
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  fileCount: number;
+  // Characters of text content stored for the project
+  totalSize: number;
+  createdAt: Date;
+  lastOpened: Date;
+}
+
+interface LegacyProject {
+  id?: string;
+  name?: string;
+  files?: FileSystemItem[];
+  createdAt?: string;
+  lastOpened?: string;
+}
+
+const summarize = (items: FileSystemItem[]) => {
+  let fileCount = 0;
+  let totalSize = 0;
+  const visit = (nodes: FileSystemItem[]) => {
+    for (const node of nodes) {
+      if (node.type === 'file') {
+        fileCount++;
+        totalSize += node.content?.length ?? 0;
+      }
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(items);
+  return { fileCount, totalSize };
+};
+
+const toDate = (value: unknown): Date => {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : Date.now());
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+const reviveLegacyItem = (item: FileSystemItem): FileSystemItem => ({
+  ...item,
+  lastModified: toDate(item.lastModified),
+  children: item.children?.map(reviveLegacyItem)
+});
+
+/**
+ * Saved projects. Metadata lives in the `projects` store and each project's
+ * files are served by an `IndexedDBFileSystemService` for its id.
+ */
+export class ProjectStore {
+  private static instance: ProjectStore;
+  private migration: Promise<void> | null = null;
+
+  static getInstance(): ProjectStore {
+    if (!ProjectStore.instance) {
+      ProjectStore.instance = new ProjectStore();
+    }
+    return ProjectStore.instance;
+  }
+
+  async list(): Promise<ProjectRecord[]> {
+    await this.migrateLegacyProjects();
+    const projects = await withStore(STORES.projects, 'readonly', store =>
+      requestToPromise(store.getAll() as IDBRequest<ProjectRecord[]>)
+    );
+    return projects.sort((a, b) => b.lastOpened.getTime() - a.lastOpened.getTime());
+  }
+
+  async create(name: string, files: FileSystemItem[], id: string = Date.now().toString()): Promise<ProjectRecord> {
+    const now = new Date();
+    const project: ProjectRecord = { id, name, ...summarize(files), createdAt: now, lastOpened: now };
+    await importTree(id, files);
+    await withStore(STORES.projects, 'readwrite', store => requestToPromise(store.put(project)));
+    return project;
+  }
+
+  async touch(id: string): Promise<void> {
+    await withStore(STORES.projects, 'readwrite', async store => {
+      const project = await requestToPromise(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+      if (project) store.put({ ...project, lastOpened: new Date() });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await withStore(STORES.projects, 'readwrite', store => requestToPromise(store.delete(id)));
+    await deleteProjectFiles(id);
+  }
+
+  /**
+   * Moves projects saved by older versions from localStorage into IndexedDB,
+   * once. The localStorage copy is only removed after every project imported.
+   */
+  migrateLegacyProjects(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.runMigration().catch(error => {
+        console.warn('Failed to migrate saved projects from localStorage:', error);
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  private async runMigration(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_PROJECTS_KEY);
+    if (!stored) return;
+
+    let legacy: unknown;
+    try {
+      legacy = JSON.parse(stored);
+    } catch (error) {
+      console.warn('Discarding unreadable saved projects:', error);
+      localStorage.removeItem(LEGACY_PROJECTS_KEY);
+      return;
+    }
+
+    for (const [index, project] of (Array.isArray(legacy) ? legacy as LegacyProject[] : []).entries()) {
+      if (!Array.isArray(project.files)) continue;
+      const id = project.id ?? `${Date.now()}-${index}`;
+      const record = await this.create(project.name ?? 'Imported Project', project.files.map(reviveLegacyItem), id);
+      await withStore(STORES.projects, 'readwrite', store => requestToPromise(store.put({
+        ...record,
+        createdAt: toDate(project.createdAt),
+        lastOpened: toDate(project.lastOpened)
+      })));
+    }
+
+    localStorage.removeItem(LEGACY_PROJECTS_KEY);
+  }
+}
+
+export const projectStore = ProjectStore.getInstance();
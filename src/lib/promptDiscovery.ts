@@ -0,0 +1,152 @@
+import type { ModelHints, Prompt } from '@/lib/promptManager';
+
+/**
+ * Prompt files are found by a Vite glob over `src/prompts`, so adding a file
+ * is enough to ship it. Text prompts start with front-matter:
+ *
+ *   ---
+ *   id: agent-v1.2
+ *   name: Agent Prompt v1.2
+ *   type: agent
+ *   version: 1.2
+ *   description: Agent prompt with tool calling
+ *   tags: [agent, tools]
+ *   temperature: 0.2
+ *   ---
+ *
+ * Anything left out is derived from the file's path; JSON files, which cannot
+ * carry front-matter, are described by their path alone.
+ */
+
+export type PromptType = Prompt['type'];
+
+// Prompt fields read from a file, before history is applied
+export type PromptFile = Pick<Prompt, 'id' | 'name' | 'type' | 'version' | 'path' | 'content' | 'metadata'>;
+
+export const PROMPT_TYPES: PromptType[] = ['agent', 'chat', 'memory', 'tools', 'partial'];
+
+// Loaded on demand, so prompt text stays out of the main bundle
+const promptLoaders = import.meta.glob<string>('/src/prompts/**/*.{txt,md,json}', {
+  query: '?raw',
+  import: 'default'
+});
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const unquote = (value: string) => value.replace(/^(['"])([\s\S]*)\1$/, '$2');
+
+/**
+ * Splits `key: value` front-matter from the body. Values in brackets are
+ * comma-separated lists; quotes around a value are dropped.
+ */
+export const parseFrontMatter = (text: string): { attributes: Record<string, string | string[]>; body: string } => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) return { attributes: {}, body: text };
+
+  const attributes: Record<string, string | string[]> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const entry = line.match(/^\s*([A-Za-z][\w-]*)\s*:\s*(.*?)\s*$/);
+    if (!entry) continue;
+    const [, key, value] = entry;
+    const list = value.match(/^\[(.*)\]$/);
+    attributes[key] = list
+      ? list[1].split(',').map(item => unquote(item.trim())).filter(Boolean)
+      : unquote(value);
+  }
+  return { attributes, body: text.slice(match[0].length) };
+};
+
+// Ids double as partial names, which allow letters, digits, `_` and `-`
+export const toPromptId = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const defaultUsage = (type: PromptType): string => {
+  switch (type) {
+    case 'agent': return 'Used for autonomous AI agent interactions with codebase';
+    case 'chat': return 'Used for conversational AI assistance';
+    case 'memory': return 'Used for memory management and rating';
+    case 'tools': return 'Defines available tools and their schemas';
+    case 'partial': return 'Included in other prompts as {{> id}}';
+  }
+};
+
+const inferType = (path: string, name: string): PromptType => {
+  if (path.includes('/partials/')) return 'partial';
+  if (path.endsWith('.json') || /\btools?\b/i.test(name)) return 'tools';
+  if (/\bmemory\b/i.test(name)) return 'memory';
+  if (/\bagent\b/i.test(name)) return 'agent';
+  return 'chat';
+};
+
+const text = (value: string | string[] | undefined): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const number = (value: string | string[] | undefined): number | undefined => {
+  const parsed = typeof value === 'string' && value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * A prompt from a file's path and raw text. Without front-matter the name is
+ * the file name, the type is guessed from it, the version comes from a
+ * `v1.2` suffix, and the id is `type-v1.2`, or `toPromptId` of the name when
+ * there is no version.
+ */
+export const parsePromptFile = (path: string, raw: string): PromptFile => {
+  const isJSON = path.endsWith('.json');
+  const { attributes, body } = isJSON ? { attributes: {}, body: raw } : parseFrontMatter(raw);
+  const fileName = path.split('/').pop()?.replace(/\.[^.]+$/, '') ?? path;
+
+  const name = text(attributes.name) ?? fileName;
+  const declaredType = text(attributes.type) as PromptType | undefined;
+  if (declaredType && !PROMPT_TYPES.includes(declaredType)) {
+    console.warn(`Unknown prompt type "${declaredType}" in ${path}`);
+  }
+  const type = declaredType && PROMPT_TYPES.includes(declaredType) ? declaredType : inferType(path, name);
+  const version = text(attributes.version) ?? name.match(/\bv(\d+(?:\.\d+)*)$/)?.[1];
+  const id = text(attributes.id) ?? (version ? `${type}-v${version}` : toPromptId(name));
+
+  const tags = attributes.tags;
+  const modelHints: ModelHints = {
+    model: text(attributes.model),
+    temperature: number(attributes.temperature),
+    maxTokens: number(attributes.maxTokens)
+  };
+  const hasHints = Object.values(modelHints).some(value => value !== undefined);
+
+  return {
+    id,
+    name,
+    type,
+    version,
+    path,
+    content: body,
+    metadata: {
+      description: text(attributes.description),
+      tags: Array.isArray(tags) ? tags : typeof tags === 'string' && tags ? [tags] : undefined,
+      author: text(attributes.author),
+      usage: text(attributes.usage) ?? defaultUsage(type),
+      modelHints: hasHints ? modelHints : undefined
+    }
+  };
+};
+
+export const promptMetadataFor = (type: PromptType, metadata: Prompt['metadata'] = {}): Prompt['metadata'] => ({
+  ...metadata,
+  usage: metadata.usage ?? defaultUsage(type)
+});
+
+/**
+ * Every prompt file bundled under `src/prompts`. A file that fails to load is
+ * skipped with a warning.
+ */
+export const discoverPromptFiles = async (): Promise<PromptFile[]> => {
+  const entries = await Promise.all(Object.entries(promptLoaders).map(async ([path, load]) => {
+    try {
+      return parsePromptFile(path.replace(/^\//, ''), await load());
+    } catch (error) {
+      console.warn(`Failed to load prompt ${path}:`, error);
+      return null;
+    }
+  }));
+  return entries.filter((entry): entry is PromptFile => entry !== null);
+};
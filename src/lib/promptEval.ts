@@ -0,0 +1,454 @@
+import { FileSystemItem } from '@/types/fileSystem';
+import { CompletionRequest } from '@/lib/llm/types';
+import { providerRegistry } from '@/lib/llm/registry';
+import { Prompt, PromptContext, promptManager } from '@/lib/promptManager';
+import { parseChangesFromResponse } from '@/lib/changeParser';
+import { normalizePath } from '@/lib/agent/workspace';
+import { isAbortError } from '@/lib/sse';
+
+/**
+ * Golden test cases for prompts. A suite is a JSON file of cases, each a
+ * user message with optional attached files and assertions on the reply:
+ *
+ *   {
+ *     "name": "Agent prompt",
+ *     "prompts": ["agent-v1.0", "agent-v1.2"],
+ *     "cases": [{
+ *       "id": "signup-validation",
+ *       "name": "Adds validation as a code change",
+ *       "message": "Add email validation to the signup form",
+ *       "files": [{ "path": "src/SignupForm.tsx", "content": "..." }],
+ *       "assert": [
+ *         { "type": "contains", "value": "email", "ignoreCase": true },
+ *         { "type": "regex", "pattern": "required|pattern", "flags": "i" },
+ *         { "type": "code-change", "path": "src/SignupForm.tsx" },
+ *         { "type": "json-schema", "schema": { "type": "object", "required": ["steps"] }, "not": true }
+ *       ],
+ *       "recorded": { "agent-v1.2": "A reply received earlier..." }
+ *     }]
+ *   }
+ *
+ * Cases run against a provider, or replay the `recorded` reply for the
+ * prompt so a suite can be checked offline and deterministically.
+ */
+
+type JSONType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// The subset of JSON Schema that `json-schema` assertions understand
+export interface JSONSchema {
+  type?: JSONType | JSONType[];
+  enum?: unknown[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  minItems?: number;
+  pattern?: string;
+}
+
+export type EvalAssertion = (
+  | { type: 'contains'; value: string; ignoreCase?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json-schema'; schema: JSONSchema }
+  // The reply has edits that apply to the case's files, touching `path` if set
+  | { type: 'code-change'; path?: string }
+) & {
+  // Passes when the check fails
+  not?: boolean;
+};
+
+export interface EvalCase {
+  id: string;
+  name: string;
+  message: string;
+  files?: { path: string; content: string }[];
+  assert: EvalAssertion[];
+  // Replies received earlier, by prompt id
+  recorded?: Record<string, string>;
+}
+
+export interface EvalSuite {
+  name: string;
+  description?: string;
+  // Prompts the suite was written for; the first two are compared by default
+  prompts?: string[];
+  cases: EvalCase[];
+}
+
+export type EvalSource = { kind: 'recorded' } | { kind: 'provider'; providerId: string };
+
+export interface AssertionResult {
+  assertion: EvalAssertion;
+  passed: boolean;
+  message: string;
+}
+
+export type EvalStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export interface EvalCaseResult {
+  caseId: string;
+  promptId: string;
+  status: EvalStatus;
+  output: string;
+  assertions: AssertionResult[];
+  // Why the case errored or was skipped
+  error?: string;
+  durationMs: number;
+}
+
+const ASSERTION_TYPES = ['contains', 'regex', 'json-schema', 'code-change'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// The first `pattern` in the schema or its nested schemas that is not a valid regex
+const findBadPattern = (schema: Record<string, unknown>, path = '$'): string | null => {
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(String(schema.pattern));
+    } catch (error) {
+      return `${path} (${errorMessage(error)})`;
+    }
+  }
+  if (isRecord(schema.items)) {
+    const bad = findBadPattern(schema.items, `${path}[]`);
+    if (bad) return bad;
+  }
+  for (const [key, field] of Object.entries(isRecord(schema.properties) ? schema.properties : {})) {
+    const bad = isRecord(field) ? findBadPattern(field, `${path}.${key}`) : null;
+    if (bad) return bad;
+  }
+  return null;
+};
+
+const parseAssertion = (data: unknown, where: string): EvalAssertion => {
+  if (!isRecord(data) || typeof data.type !== 'string' || !ASSERTION_TYPES.includes(data.type)) {
+    throw new Error(`Invalid eval suite: ${where} needs a type of ${ASSERTION_TYPES.join(', ')}`);
+  }
+  if (data.type === 'contains' && typeof data.value !== 'string') {
+    throw new Error(`Invalid eval suite: ${where} needs a string value`);
+  }
+  if (data.type === 'regex') {
+    try {
+      new RegExp(String(data.pattern), typeof data.flags === 'string' ? data.flags : undefined);
+    } catch (error) {
+      throw new Error(`Invalid eval suite: ${where} has an invalid pattern (${errorMessage(error)})`);
+    }
+  }
+  if (data.type === 'json-schema') {
+    if (!isRecord(data.schema)) {
+      throw new Error(`Invalid eval suite: ${where} needs a schema object`);
+    }
+    const badPattern = findBadPattern(data.schema);
+    if (badPattern) {
+      throw new Error(`Invalid eval suite: ${where} has an invalid schema pattern at ${badPattern}`);
+    }
+  }
+  return data as EvalAssertion;
+};
+
+/**
+ * Checks the shape of a suite read from JSON; errors name the first bad
+ * case or assertion.
+ */
+export const parseEvalSuite = (data: unknown): EvalSuite => {
+  if (!isRecord(data) || typeof data.name !== 'string' || !Array.isArray(data.cases)) {
+    throw new Error('Invalid eval suite: expected an object with a name and a cases array');
+  }
+
+  const ids = new Set<string>();
+  const cases = data.cases.map((entry, index): EvalCase => {
+    const where = `case ${index + 1}`;
+    if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.message !== 'string') {
+      throw new Error(`Invalid eval suite: ${where} needs an id and a message`);
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`Invalid eval suite: case id "${entry.id}" is used twice`);
+    }
+    ids.add(entry.id);
+    if (!Array.isArray(entry.assert) || entry.assert.length === 0) {
+      throw new Error(`Invalid eval suite: case "${entry.id}" has no assertions`);
+    }
+    const files = Array.isArray(entry.files) ? entry.files : [];
+    if (files.some(file => !isRecord(file) || typeof file.path !== 'string' || typeof file.content !== 'string')) {
+      throw new Error(`Invalid eval suite: case "${entry.id}" has a file without a path and content`);
+    }
+    return {
+      id: entry.id,
+      name: typeof entry.name === 'string' ? entry.name : entry.id,
+      message: entry.message,
+      files: files as EvalCase['files'],
+      assert: entry.assert.map((assertion, position) =>
+        parseAssertion(assertion, `assertion ${position + 1} of case "${entry.id}"`)
+      ),
+      recorded: isRecord(entry.recorded)
+        ? Object.fromEntries(Object.entries(entry.recorded).filter(([, reply]) => typeof reply === 'string')) as Record<string, string>
+        : undefined
+    };
+  });
+
+  return {
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    prompts: Array.isArray(data.prompts) ? data.prompts.filter((id): id is string => typeof id === 'string') : undefined,
+    cases
+  };
+};
+
+export const parseEvalSuiteJSON = (json: string): EvalSuite => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid eval suite: not valid JSON');
+  }
+  return parseEvalSuite(data);
+};
+
+// Suites shipped in `src/evals`; a malformed one is skipped with a warning
+export const loadBundledSuites = (): EvalSuite[] => {
+  const modules = import.meta.glob<unknown>('/src/evals/*.json', { eager: true, import: 'default' });
+  return Object.entries(modules).flatMap(([path, data]) => {
+    try {
+      return [parseEvalSuite(data)];
+    } catch (error) {
+      console.warn(`Skipping eval suite ${path}:`, error);
+      return [];
+    }
+  });
+};
+
+export const describeAssertion = (assertion: EvalAssertion): string => {
+  const prefix = assertion.not ? 'not ' : '';
+  switch (assertion.type) {
+    case 'contains': return `${prefix}contains "${assertion.value}"`;
+    case 'regex': return `${prefix}matches /${assertion.pattern}/${assertion.flags ?? ''}`;
+    case 'json-schema': return `${prefix}matches the JSON schema`;
+    case 'code-change': return `${prefix}${assertion.path ? `edits ${assertion.path}` : 'produces a code change'}`;
+  }
+};
+
+const typeOf = (value: unknown): JSONType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONType;
+};
+
+const validateSchema = (value: unknown, schema: JSONSchema, path = '$'): string[] => {
+  const actual = typeOf(value);
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) return [`${path} is ${actual}, expected ${allowed.join(' or ')}`];
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return [`${path} is not one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+  if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    return [`${path} does not match /${schema.pattern}/`];
+  }
+
+  const errors: string[] = [];
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} has ${value.length} items, expected at least ${schema.minItems}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items as JSONSchema, `${path}[${index}]`)));
+    }
+  } else if (isRecord(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${path}.${key} is missing`);
+    }
+    for (const [key, field] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) errors.push(...validateSchema(field, fieldSchema, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+    }
+  }
+  return errors;
+};
+
+// The reply as JSON, else its first ```json block, else its outermost braces
+const extractJSON = (output: string): { value: unknown } | null => {
+  const fenced = output.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const braces = output.slice(output.indexOf('{'), output.lastIndexOf('}') + 1);
+  for (const candidate of [output.trim(), fenced?.[1], braces]) {
+    if (!candidate) continue;
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+};
+
+// Whether the check holds, and what was found either way
+const runCheck = (assertion: EvalAssertion, output: string, files: FileSystemItem[]): { holds: boolean; detail: string } => {
+  switch (assertion.type) {
+    case 'contains': {
+      const holds = assertion.ignoreCase
+        ? output.toLowerCase().includes(assertion.value.toLowerCase())
+        : output.includes(assertion.value);
+      return { holds, detail: holds ? `Found "${assertion.value}"` : `"${assertion.value}" not found` };
+    }
+    case 'regex': {
+      const match = output.match(new RegExp(assertion.pattern, assertion.flags));
+      return match
+        ? { holds: true, detail: `Matched "${match[0].slice(0, 80)}"` }
+        : { holds: false, detail: `No match for /${assertion.pattern}/${assertion.flags ?? ''}` };
+    }
+    case 'json-schema': {
+      const json = extractJSON(output);
+      if (!json) return { holds: false, detail: 'No JSON found in the reply' };
+      const errors = validateSchema(json.value, assertion.schema);
+      return errors.length === 0
+        ? { holds: true, detail: 'The JSON matches the schema' }
+        : { holds: false, detail: errors.slice(0, 3).join('; ') };
+    }
+    case 'code-change': {
+      const { changes, errors } = parseChangesFromResponse(output, files);
+      const target = assertion.path ? normalizePath(assertion.path) : null;
+      const relevant = target ? changes.filter(change => normalizePath(change.path) === target) : changes;
+      if (errors.length > 0) return { holds: false, detail: `An edit could not be applied: ${errors[0]}` };
+      if (relevant.length === 0) return { holds: false, detail: target ? `No change to ${target}` : 'No code change found' };
+      return { holds: true, detail: `Changes ${relevant.map(change => change.path).join(', ')}` };
+    }
+  }
+};
+
+// An assertion that cannot be checked fails, whether or not it is negated
+export const checkAssertion = (assertion: EvalAssertion, output: string, files: FileSystemItem[] = []): AssertionResult => {
+  try {
+    const { holds, detail } = runCheck(assertion, output, files);
+    return { assertion, passed: holds !== Boolean(assertion.not), message: detail };
+  } catch (error) {
+    return { assertion, passed: false, message: `The assertion could not be checked: ${errorMessage(error)}` };
+  }
+};
+
+const toFiles = (testCase: EvalCase): FileSystemItem[] =>
+  (testCase.files ?? []).map(file => ({
+    id: `eval:${file.path}`,
+    name: file.path.split('/').pop() ?? file.path,
+    type: 'file',
+    path: normalizePath(file.path),
+    content: file.content,
+    size: file.content.length,
+    lastModified: new Date(0)
+  }));
+
+/**
+ * The request a case sends: the prompt rendered with the case's files as
+ * the system message, then the case's message. Temperature is 0 unless the
+ * prompt's front-matter sets one, so reruns are comparable.
+ */
+export const buildEvalRequest = (prompt: Prompt, testCase: EvalCase): CompletionRequest => {
+  const files = toFiles(testCase);
+  const context: PromptContext = {
+    userMessage: testCase.message,
+    selectedFiles: files,
+    projectStructure: files.map(file => ({ ...file, content: undefined })),
+    conversationHistory: [],
+    currentTask: testCase.message
+  };
+  const hints = prompt.metadata?.modelHints;
+  return {
+    messages: [
+      { role: 'system', content: promptManager.renderPrompt(prompt, context) },
+      { role: 'user', content: testCase.message }
+    ],
+    temperature: hints?.temperature ?? 0,
+    maxTokens: hints?.maxTokens
+  };
+};
+
+/**
+ * Runs one case against one prompt. Provider failures become an `error`
+ * result and a missing recording a `skipped` one; only aborting throws.
+ */
+export const runEvalCase = async (
+  prompt: Prompt,
+  testCase: EvalCase,
+  source: EvalSource,
+  signal?: AbortSignal
+): Promise<EvalCaseResult> => {
+  const started = Date.now();
+  const result = (status: EvalStatus, output: string, assertions: AssertionResult[] = [], error?: string): EvalCaseResult => ({
+    caseId: testCase.id,
+    promptId: prompt.id,
+    status,
+    output,
+    assertions,
+    error,
+    durationMs: Date.now() - started
+  });
+
+  let output: string;
+  if (source.kind === 'recorded') {
+    const recorded = testCase.recorded?.[prompt.id];
+    if (recorded === undefined) return result('skipped', '', [], `No recorded reply for ${prompt.name}`);
+    output = recorded;
+  } else {
+    try {
+      output = await providerRegistry.completeWith(source.providerId, buildEvalRequest(prompt, testCase), signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return result('error', '', [], errorMessage(error));
+    }
+  }
+
+  const files = toFiles(testCase);
+  const assertions = testCase.assert.map(assertion => checkAssertion(assertion, output, files));
+  return result(assertions.every(assertion => assertion.passed) ? 'passed' : 'failed', output, assertions);
+};
+
+/**
+ * Runs every case against each prompt in turn, one request at a time so a
+ * provider's rate limits are not hit. `onResult` sees results as they land.
+ */
+export const runEvalSuite = async ({
+  suite,
+  prompts,
+  source,
+  signal,
+  onResult
+}: {
+  suite: EvalSuite;
+  prompts: Prompt[];
+  source: EvalSource;
+  signal?: AbortSignal;
+  onResult?: (result: EvalCaseResult) => void;
+}): Promise<EvalCaseResult[]> => {
+  const results: EvalCaseResult[] = [];
+  for (const testCase of suite.cases) {
+    for (const prompt of prompts) {
+      const result = await runEvalCase(prompt, testCase, source, signal);
+      results.push(result);
+      onResult?.(result);
+    }
+  }
+  return results;
+};
+
+// The suite with replies from a provider run saved as its recordings
+export const recordResults = (suite: EvalSuite, results: EvalCaseResult[]): EvalSuite => ({
+  ...suite,
+  cases: suite.cases.map(testCase => {
+    const replies = results.filter(result =>
+      result.caseId === testCase.id && (result.status === 'passed' || result.status === 'failed')
+    );
+    if (replies.length === 0) return testCase;
+    return {
+      ...testCase,
+      recorded: {
+        ...testCase.recorded,
+        ...Object.fromEntries(replies.map(result => [result.promptId, result.output]))
+      }
+    };
+  })
+});
@@ -0,0 +1,126 @@
+import { STORES, isIndexedDBAvailable, requestToPromise, withStore, withTransaction } from '@/lib/db';
+import type { Prompt } from '@/lib/promptManager';
+
+export interface PromptRevision {
+  id: string;
+  promptId: string;
+  content: string;
+  author: string;
+  createdAt: Date;
+  // What the edit was, e.g. "Restored revision 2"
+  note?: string;
+}
+
+// A prompt created in the Prompt Registry, from scratch or by forking
+// another; its content lives in its revisions
+export interface LocalPrompt {
+  id: string;
+  name: string;
+  type: Prompt['type'];
+  version?: string;
+  forkedFrom?: string;
+  metadata: Prompt['metadata'];
+  createdAt: Date;
+}
+
+const AUTHOR_KEY = 'prompt-author';
+export const DEFAULT_PROMPT_AUTHOR = 'You';
+
+export const loadPromptAuthor = (): string => {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) || DEFAULT_PROMPT_AUTHOR;
+  } catch {
+    return DEFAULT_PROMPT_AUTHOR;
+  }
+};
+
+export const savePromptAuthor = (author: string): void => {
+  localStorage.setItem(AUTHOR_KEY, author.trim() || DEFAULT_PROMPT_AUTHOR);
+};
+
+const byNewest = (a: PromptRevision, b: PromptRevision) => b.createdAt.getTime() - a.createdAt.getTime();
+
+/**
+ * Saved edits of prompts and the prompts created locally. Backed by
+ * IndexedDB; falls back to memory for the current page when IndexedDB is
+ * unavailable (private browsing, tests).
+ */
+export class PromptHistoryStore {
+  private static instance: PromptHistoryStore;
+  private memory: Map<string, PromptRevision> | null = null;
+  private localMemory: Map<string, LocalPrompt> | null = null;
+
+  private constructor() {
+    if (!isIndexedDBAvailable()) {
+      console.warn('IndexedDB unavailable; prompt edits will not persist');
+      this.memory = new Map();
+      this.localMemory = new Map();
+    }
+  }
+
+  static getInstance(): PromptHistoryStore {
+    if (!PromptHistoryStore.instance) {
+      PromptHistoryStore.instance = new PromptHistoryStore();
+    }
+    return PromptHistoryStore.instance;
+  }
+
+  // Newest first
+  async listRevisions(promptId: string): Promise<PromptRevision[]> {
+    const revisions = this.memory
+      ? Array.from(this.memory.values()).filter(revision => revision.promptId === promptId)
+      : await withStore(STORES.promptRevisions, 'readonly', store =>
+          requestToPromise(store.index('promptId').getAll(promptId) as IDBRequest<PromptRevision[]>)
+        );
+    return revisions.sort(byNewest);
+  }
+
+  // The newest revision of every prompt that has one, by prompt id
+  async latestRevisions(): Promise<Map<string, PromptRevision>> {
+    const revisions = this.memory
+      ? Array.from(this.memory.values())
+      : await withStore(STORES.promptRevisions, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<PromptRevision[]>)
+        );
+    const latest = new Map<string, PromptRevision>();
+    for (const revision of revisions.sort(byNewest)) {
+      if (!latest.has(revision.promptId)) latest.set(revision.promptId, revision);
+    }
+    return latest;
+  }
+
+  async saveRevision(revision: PromptRevision): Promise<void> {
+    if (this.memory) {
+      this.memory.set(revision.id, revision);
+      return;
+    }
+    await withStore(STORES.promptRevisions, 'readwrite', store => requestToPromise(store.put(revision)));
+  }
+
+  // Oldest first
+  async listLocalPrompts(): Promise<LocalPrompt[]> {
+    const prompts = this.localMemory
+      ? Array.from(this.localMemory.values())
+      : await withStore(STORES.localPrompts, 'readonly', store =>
+          requestToPromise(store.getAll() as IDBRequest<LocalPrompt[]>)
+        );
+    return prompts.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Saves a local prompt together with its first revision
+  async saveLocalPrompt(prompt: LocalPrompt, revision: PromptRevision): Promise<void> {
+    if (this.localMemory && this.memory) {
+      this.localMemory.set(prompt.id, prompt);
+      this.memory.set(revision.id, revision);
+      return;
+    }
+    await withTransaction([STORES.localPrompts, STORES.promptRevisions], 'readwrite', transaction =>
+      Promise.all([
+        requestToPromise(transaction.objectStore(STORES.localPrompts).put(prompt)),
+        requestToPromise(transaction.objectStore(STORES.promptRevisions).put(revision))
+      ])
+    );
+  }
+}
+
+export const promptHistoryStore = PromptHistoryStore.getInstance();
@@ -1,10 +1,22 @@
 import { FileSystemItem } from '@/types/fileSystem';
+import { providerRegistry } from '@/lib/llm/registry';
+import { TemplateIssue, TemplateType, renderTemplate, validateTemplate } from '@/lib/promptTemplate';
+import { LocalPrompt, PromptRevision, loadPromptAuthor, promptHistoryStore } from '@/lib/promptHistory';
+import { discoverPromptFiles, promptMetadataFor, toPromptId } from '@/lib/promptDiscovery';
+
+// Generation settings a prompt asks for; the Composer applies temperature
+// and maxTokens, and the model is shown as a recommendation
+export interface ModelHints {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
 
 export interface Prompt {
   id: string;
   name: string;
   content: string;
-  type: 'agent' | 'chat' | 'memory' | 'tools';
+  type: 'agent' | 'chat' | 'memory' | 'tools' | 'partial';
   version?: string;
   path: string;
   lastModified: Date;
@@ -13,7 +25,22 @@ export interface Prompt {
     tags?: string[];
     author?: string;
     usage?: string;
+    modelHints?: ModelHints;
   };
+  // Problems found rendering the content against `PromptContext`
+  templateIssues?: TemplateIssue[];
+  // Id of the prompt this one was forked from
+  forkedFrom?: string;
+}
+
+// A prompt created in the Prompt Registry
+export interface NewPrompt {
+  name: string;
+  type: Prompt['type'];
+  version?: string;
+  description?: string;
+  tags?: string[];
+  content: string;
 }
 
 export interface PromptContext {
@@ -25,9 +52,65 @@ export interface PromptContext {
   userPreferences?: Record<string, any>;
 }
 
+const FILE_TYPE: TemplateType = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string' },
+    path: { kind: 'string' },
+    type: { kind: 'string' },
+    size: { kind: 'number' },
+    lastModified: { kind: 'date' },
+    content: { kind: 'string' }
+  }
+};
+
+// The variables prompt templates can use, typed to match `PromptContext`
+export const PROMPT_CONTEXT_SCHEMA: TemplateType = {
+  kind: 'object',
+  fields: {
+    userMessage: { kind: 'string' },
+    selectedFiles: { kind: 'list', item: FILE_TYPE },
+    projectStructure: { kind: 'list', item: FILE_TYPE },
+    conversationHistory: {
+      kind: 'list',
+      item: { kind: 'object', fields: { role: { kind: 'string' }, content: { kind: 'string' } } }
+    },
+    currentTask: { kind: 'string' },
+    userPreferences: { kind: 'any' }
+  }
+};
+
+// What the Prompt Registry previews templates with
+export const SAMPLE_PROMPT_CONTEXT: PromptContext = {
+  userMessage: 'Add input validation to the signup form',
+  selectedFiles: [
+    {
+      id: 'sample-signup',
+      name: 'SignupForm.tsx',
+      type: 'file',
+      path: 'src/components/SignupForm.tsx',
+      size: 112,
+      lastModified: new Date(0),
+      content: 'export const SignupForm = () => (\n  <form>\n    <input name="email" />\n  </form>\n);'
+    }
+  ],
+  projectStructure: [
+    { id: 'sample-src', name: 'src', type: 'folder', path: 'src', lastModified: new Date(0) },
+    { id: 'sample-package', name: 'package.json', type: 'file', path: 'package.json', lastModified: new Date(0) }
+  ],
+  conversationHistory: [
+    { role: 'user', content: 'The signup form accepts empty emails.' },
+    { role: 'assistant', content: 'I can add validation. Which rules do you want?' }
+  ],
+  currentTask: 'Add input validation to the signup form',
+  userPreferences: { language: 'TypeScript' }
+};
+
 export class PromptManager {
   private static instance: PromptManager;
   private prompts: Map<string, Prompt> = new Map();
+  // Prompt files as loaded, before any saved edit; the oldest revision
+  private originals: Map<string, { content: string; lastModified: Date }> = new Map();
   private loaded = false;
 
   private constructor() {}
@@ -42,119 +125,72 @@ export class PromptManager {
   async loadPrompts(): Promise<void> {
     if (this.loaded) return;
 
-    const promptFiles = [
-      {
-        id: 'agent-v1.2',
-        name: 'Agent Prompt v1.2',
-        path: 'src/prompts/Agent Prompt v1.2.txt',
-        type: 'agent' as const,
-        version: '1.2'
-      },
-      {
-        id: 'agent-v1.0',
-        name: 'Agent Prompt v1.0',
-        path: 'src/prompts/Agent Prompt v1.0.txt',
-        type: 'agent' as const,
-        version: '1.0'
-      },
-      {
-        id: 'agent-main',
-        name: 'Agent Prompt',
-        path: 'src/prompts/Agent Prompt.txt',
-        type: 'agent' as const,
-        version: 'main'
-      },
-      {
-        id: 'chat',
-        name: 'Chat Prompt',
-        path: 'src/prompts/Chat Prompt.txt',
-        type: 'chat' as const
-      },
-      {
-        id: 'memory',
-        name: 'Memory Prompt',
-        path: 'src/prompts/Memory Prompt.txt',
-        type: 'memory' as const
-      },
-      {
-        id: 'memory-rating',
-        name: 'Memory Rating Prompt',
-        path: 'src/prompts/Memory Rating Prompt.txt',
-        type: 'memory' as const
-      },
-      {
-        id: 'tools-v1.0',
-        name: 'Agent Tools v1.0',
-        path: 'src/prompts/Agent Tools v1.0.json',
-        type: 'tools' as const,
-        version: '1.0'
-      }
-    ];
-
-    for (const promptFile of promptFiles) {
-      try {
-        const response = await fetch(promptFile.path);
-        let content = '';
-        let lastModified = new Date();
-
-        if (response.ok) {
-          content = await response.text();
-          const lastModifiedHeader = response.headers.get('last-modified');
-          if (lastModifiedHeader) {
-            lastModified = new Date(lastModifiedHeader);
-          }
-        } else {
-          // Fallback content for development
-          content = `# ${promptFile.name}\n\nPrompt content will be loaded here...\n\n## Status\nFile not found at ${promptFile.path}`;
-        }
-
-        const prompt: Prompt = {
-          id: promptFile.id,
-          name: promptFile.name,
-          content,
-          type: promptFile.type,
-          version: promptFile.version,
-          path: promptFile.path,
-          lastModified,
-          metadata: this.extractMetadata(content, promptFile.type)
-        };
-
-        this.prompts.set(promptFile.id, prompt);
-      } catch (error) {
-        console.warn(`Failed to load prompt ${promptFile.path}:`, error);
+    for (const file of await discoverPromptFiles()) {
+      const existing = this.prompts.get(file.id);
+      if (existing) {
+        console.warn(`Prompt id "${file.id}" of ${file.path} is already used by ${existing.path}; skipping it`);
+        continue;
       }
+      // Bundled files carry no timestamp; they count as loaded now
+      const lastModified = new Date();
+      this.prompts.set(file.id, { ...file, lastModified });
+      this.originals.set(file.id, { content: file.content, lastModified });
     }
 
+    await this.applyHistory();
+    this.validateTemplates();
     this.loaded = true;
   }
 
-  private extractMetadata(content: string, type: string): Prompt['metadata'] {
-    const metadata: Prompt['metadata'] = {};
-
-    // Extract description from comments or headers
-    const descriptionMatch = content.match(/# (.+)/);
-    if (descriptionMatch) {
-      metadata.description = descriptionMatch[1];
+  // Adds saved local prompts and replaces each prompt's content with its
+  // latest revision; without history the files are used as they are
+  private async applyHistory(): Promise<void> {
+    try {
+      for (const local of await promptHistoryStore.listLocalPrompts()) {
+        if (this.prompts.has(local.id)) continue;
+        this.prompts.set(local.id, this.localToPrompt(local, ''));
+      }
+      for (const [id, revision] of await promptHistoryStore.latestRevisions()) {
+        const prompt = this.prompts.get(id);
+        if (!prompt) continue;
+        prompt.content = revision.content;
+        prompt.lastModified = revision.createdAt;
+      }
+    } catch (error) {
+      console.warn('Failed to load prompt history:', error);
     }
+  }
 
-    // Extract tags from content
-    const tagMatches = content.match(/tags?:\s*\[([^\]]+)\]/gi);
-    if (tagMatches) {
-      metadata.tags = tagMatches[0].match(/\[([^\]]+)\]/)?.[1]?.split(',').map(t => t.trim()) || [];
-    }
+  private localToPrompt(local: LocalPrompt, content: string): Prompt {
+    const source = local.forkedFrom ? this.prompts.get(local.forkedFrom) : undefined;
+    return {
+      id: local.id,
+      name: local.name,
+      content,
+      type: local.type,
+      version: local.version,
+      path: local.forkedFrom ? `Forked from ${source?.name ?? local.forkedFrom}` : 'Created in the Prompt Registry',
+      lastModified: local.createdAt,
+      metadata: promptMetadataFor(local.type, local.metadata),
+      forkedFrom: local.forkedFrom
+    };
+  }
 
-    // Extract usage patterns
-    if (type === 'agent') {
-      metadata.usage = 'Used for autonomous AI agent interactions with codebase';
-    } else if (type === 'chat') {
-      metadata.usage = 'Used for conversational AI assistance';
-    } else if (type === 'memory') {
-      metadata.usage = 'Used for memory management and rating';
-    } else if (type === 'tools') {
-      metadata.usage = 'Defines available tools and their schemas';
-    }
+  // Partials resolve to any loaded prompt by id; `overrides` stands in for
+  // unsaved edits
+  private partialLookup(overrides: Record<string, string> = {}) {
+    return (name: string) => overrides[name] ?? this.prompts.get(name)?.content;
+  }
 
-    return metadata;
+  // Re-run after any edit, since a change to a partial affects its includers
+  private validateTemplates(): void {
+    for (const prompt of this.prompts.values()) {
+      if (prompt.type === 'tools') continue;
+      prompt.templateIssues = validateTemplate(prompt.content, PROMPT_CONTEXT_SCHEMA, this.partialLookup());
+      if (prompt.templateIssues.length > 0) {
+        console.warn(`Template issues in ${prompt.path}:`, prompt.templateIssues);
+      }
+    }
   }
 
   getPrompt(id: string): Prompt | undefined {
@@ -169,6 +205,31 @@ export class PromptManager {
     return Array.from(this.prompts.values());
   }
 
+  /**
+   * A prompt's content with its template rendered for `context`. Templates
+   * that fail to render were reported at load time, so the raw content is
+   * used rather than failing the request.
+   */
+  renderPrompt(prompt: Prompt, context: PromptContext): string {
+    try {
+      return renderTemplate(prompt.content, context, this.partialLookup());
+    } catch (error) {
+      console.warn(`Failed to render ${prompt.path}:`, error);
+      return prompt.content;
+    }
+  }
+
+  // Renders unsaved content for the Prompt Registry's editor
+  previewPrompt(id: string, content: string, context: PromptContext): { output: string; issues: TemplateIssue[] } {
+    const partials = this.partialLookup({ [id]: content });
+    const issues = validateTemplate(content, PROMPT_CONTEXT_SCHEMA, partials);
+    try {
+      return { output: renderTemplate(content, context, partials), issues };
+    } catch {
+      return { output: '', issues };
+    }
+  }
+
   async generatePromptResponse(
     promptId: string,
     context: PromptContext
@@ -178,18 +239,14 @@ export class PromptManager {
       throw new Error(`Prompt not found: ${promptId}`);
     }
 
-    // Try to use DeepSeek API if available
+    // Try the active LLM provider if it is configured
     try {
-      // Check if DeepSeek is available in the global scope
-      if (typeof window !== 'undefined' && (window as any).deepSeekAPI) {
-        const deepSeekAPI = (window as any).deepSeekAPI;
-        if (deepSeekAPI.isConfigured && deepSeekAPI.makeRequest) {
-          const fullPrompt = `${prompt.content}\n\nContext: ${JSON.stringify(context)}\n\nUser Message: ${context.userMessage}`;
-          return await deepSeekAPI.makeRequest(fullPrompt, context);
-        }
+      if (providerRegistry.isConfigured()) {
+        const fullPrompt = `${this.renderPrompt(prompt, context)}\n\nUser Message: ${context.userMessage}`;
+        return await providerRegistry.makeRequest(fullPrompt);
       }
     } catch (error) {
-      console.warn('DeepSeek API not available, falling back to mock response:', error);
+      console.warn('LLM provider not available, falling back to mock response:', error);
     }
 
     // Fallback to mock response
@@ -271,18 +328,134 @@ Available tools have been loaded and are ready for use. I can help you with:
 • Project management`;
   }
 
-  async updatePrompt(id: string, content: string): Promise<void> {
+  private createRevision(promptId: string, content: string, note?: string): PromptRevision {
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      promptId,
+      content,
+      author: loadPromptAuthor(),
+      createdAt: new Date(),
+      note
+    };
+  }
+
+  /**
+   * Saves `content` as a new revision of the prompt, by the author set in
+   * the Prompt Registry. Saving unchanged content is a no-op.
+   */
+  async updatePrompt(id: string, content: string, note?: string): Promise<void> {
     const prompt = this.prompts.get(id);
-    if (prompt) {
-      prompt.content = content;
-      prompt.lastModified = new Date();
-      prompt.metadata = this.extractMetadata(content, prompt.type);
-    }
+    if (!prompt || prompt.content === content) return;
+
+    const revision = this.createRevision(id, content, note);
+    await promptHistoryStore.saveRevision(revision);
+    prompt.content = content;
+    prompt.lastModified = revision.createdAt;
+    this.validateTemplates();
   }
 
   async savePrompt(prompt: Prompt): Promise<void> {
-    // In a real implementation, this would save to the file system
+    if (this.prompts.has(prompt.id)) {
+      await this.updatePrompt(prompt.id, prompt.content);
+      return;
+    }
     this.prompts.set(prompt.id, prompt);
+    this.validateTemplates();
+  }
+
+  /**
+   * A prompt's revisions, newest first. File prompts end with the file as
+   * loaded, authored by "File", so it can be compared and restored too.
+   */
+  async getRevisions(id: string): Promise<PromptRevision[]> {
+    const revisions = await promptHistoryStore.listRevisions(id);
+    const original = this.originals.get(id);
+    if (!original) return revisions;
+    return [
+      ...revisions,
+      {
+        id: `${id}:file`,
+        promptId: id,
+        content: original.content,
+        author: 'File',
+        createdAt: original.lastModified,
+        note: `Loaded from ${this.prompts.get(id)?.path ?? id}`
+      }
+    ];
+  }
+
+  // Restoring adds a revision, so the history itself is never rewritten
+  async restoreRevision(id: string, revision: PromptRevision): Promise<void> {
+    await this.updatePrompt(id, revision.content, `Restored the revision of ${revision.createdAt.toLocaleString()}`);
+  }
+
+  // A trimmed name no other prompt has
+  private checkName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('A prompt needs a name');
+    }
+    if (Array.from(this.prompts.values()).some(prompt => prompt.name === trimmed)) {
+      throw new Error(`A prompt named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private async addLocalPrompt(local: LocalPrompt, content: string, note: string): Promise<Prompt> {
+    await promptHistoryStore.saveLocalPrompt(local, this.createRevision(local.id, content, note));
+    const prompt = this.localToPrompt(local, content);
+    this.prompts.set(prompt.id, prompt);
+    this.validateTemplates();
+    return prompt;
+  }
+
+  /**
+   * Copies a prompt's current content into a new prompt of the same type
+   * under `name`, which can then be edited and versioned on its own.
+   */
+  async forkPrompt(id: string, name: string, version?: string): Promise<Prompt> {
+    const source = this.prompts.get(id);
+    if (!source) {
+      throw new Error(`Prompt not found: ${id}`);
+    }
+    const local: LocalPrompt = {
+      id: `fork-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: this.checkName(name),
+      type: source.type,
+      version: version?.trim() || undefined,
+      forkedFrom: source.id,
+      metadata: source.metadata,
+      createdAt: new Date()
+    };
+    return this.addLocalPrompt(local, source.content, `Forked from ${source.name}`);
+  }
+
+  /**
+   * Adds a prompt kept in this browser. Its id is derived from the name, so
+   * a partial can be included as `{{> id}}`.
+   */
+  async createPrompt(draft: NewPrompt): Promise<Prompt> {
+    const name = this.checkName(draft.name);
+    const id = toPromptId(name);
+    if (!id) {
+      throw new Error('A prompt name needs a letter or digit');
+    }
+    if (this.prompts.has(id)) {
+      throw new Error(`A prompt with the id "${id}" already exists`);
+    }
+    const tags = draft.tags?.map(tag => tag.trim()).filter(Boolean);
+    const local: LocalPrompt = {
+      id,
+      name,
+      type: draft.type,
+      version: draft.version?.trim() || undefined,
+      metadata: {
+        description: draft.description?.trim() || undefined,
+        tags: tags && tags.length > 0 ? tags : undefined
+      },
+      createdAt: new Date()
+    };
+    return this.addLocalPrompt(local, draft.content, 'Created');
   }
 
   getPromptStats(): Record<string, number> {
@@ -0,0 +1,285 @@
+import { FileSystemItem } from '@/types/fileSystem';
+import { AssistantTurn, CompletionRequest } from '@/lib/llm/types';
+import type { Prompt } from '@/lib/promptManager';
+
+/**
+ * Picks the mode and prompt a Composer message is answered with, in order:
+ *
+ * 1. a slash-command rule the message starts with (`/agent fix the build`),
+ *    which is removed from the message before it is sent
+ * 2. the mode chosen in the Composer, unless it is Auto
+ * 3. the first enabled rule that matches the message text or an attached
+ *    file's extension
+ * 4. the model's classification, when the classifier is on
+ * 5. the default mode
+ *
+ * The mode's prompt is the one a rule names, else the one chosen for the
+ * mode in the routing settings, else the highest version of that type.
+ */
+
+export type PromptMode = 'agent' | 'chat' | 'memory';
+
+// What the Composer's mode selector holds; `auto` leaves it to the rules
+export type RoutingMode = 'auto' | PromptMode;
+
+export const PROMPT_MODES: PromptMode[] = ['chat', 'agent', 'memory'];
+
+export type RuleMatch =
+  | { kind: 'regex'; pattern: string; flags?: string }
+  // Extensions without the dot, e.g. `sql`
+  | { kind: 'file-type'; extensions: string[] }
+  // Without the slash, e.g. `agent` for `/agent`
+  | { kind: 'slash-command'; command: string };
+
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: RuleMatch;
+  mode: PromptMode;
+  // A specific prompt; otherwise the mode's prompt
+  promptId?: string;
+}
+
+export interface RouterSettings {
+  rules: RoutingRule[];
+  // Ask the model to classify messages no rule matched
+  classifier: boolean;
+  defaultMode: PromptMode;
+  // The prompt each mode uses; otherwise its highest version
+  modePrompts: Partial<Record<PromptMode, string>>;
+}
+
+export type RouteSource = 'command' | 'explicit' | 'rule' | 'classifier' | 'default';
+
+export interface RouteDecision {
+  mode: PromptMode;
+  prompt?: Prompt;
+  // The message to send, without a leading slash command
+  message: string;
+  source: RouteSource;
+  // Why this mode and prompt were chosen, for display
+  reason: string;
+}
+
+type Complete = (request: CompletionRequest) => Promise<AssistantTurn>;
+
+const SETTINGS_KEY = 'prompt-router-settings';
+
+export const MODE_LABELS: Record<PromptMode, string> = {
+  chat: 'Chat',
+  agent: 'Agent',
+  memory: 'Memory'
+};
+
+export const DEFAULT_ROUTER_SETTINGS: RouterSettings = {
+  rules: [
+    { id: 'command-agent', name: '/agent', enabled: true, match: { kind: 'slash-command', command: 'agent' }, mode: 'agent' },
+    { id: 'command-chat', name: '/chat', enabled: true, match: { kind: 'slash-command', command: 'chat' }, mode: 'chat' },
+    { id: 'command-memory', name: '/memory', enabled: true, match: { kind: 'slash-command', command: 'memory' }, mode: 'memory' },
+    {
+      id: 'code-changes',
+      name: 'Code changes',
+      enabled: true,
+      match: { kind: 'regex', pattern: '\\b(refactor|implement|create|fix|optimi[sz]e|analy[sz]e)', flags: 'i' },
+      mode: 'agent'
+    },
+    {
+      id: 'memory-requests',
+      name: 'Memory requests',
+      enabled: true,
+      match: { kind: 'regex', pattern: '\\b(memory|remember|forget|recall)\\b', flags: 'i' },
+      mode: 'memory'
+    }
+  ],
+  classifier: false,
+  defaultMode: 'chat',
+  modePrompts: {}
+};
+
+export const loadRouterSettings = (): RouterSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_ROUTER_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_ROUTER_SETTINGS };
+  } catch (error) {
+    console.warn('Failed to read prompt routing settings:', error);
+    return { ...DEFAULT_ROUTER_SETTINGS };
+  }
+};
+
+export const saveRouterSettings = (settings: RouterSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const normalizeExtension = (extension: string) => extension.trim().toLowerCase().replace(/^\*?\./, '');
+
+// A problem that would stop the rule from ever matching, if any
+export const validateRule = (rule: RoutingRule): string | null => {
+  if (!rule.name.trim()) return 'A rule needs a name';
+  switch (rule.match.kind) {
+    case 'regex':
+      if (!rule.match.pattern) return 'A regex rule needs a pattern';
+      try {
+        new RegExp(rule.match.pattern, rule.match.flags);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      return null;
+    case 'file-type':
+      return rule.match.extensions.some(extension => normalizeExtension(extension))
+        ? null
+        : 'A file type rule needs at least one extension';
+    case 'slash-command':
+      return /^[\w-]+$/.test(rule.match.command) ? null : 'A command is letters, digits, "_" and "-"';
+  }
+};
+
+export const describeMatch = (match: RuleMatch): string => {
+  switch (match.kind) {
+    case 'regex': return `/${match.pattern}/${match.flags ?? ''}`;
+    case 'file-type': return match.extensions.map(extension => `.${normalizeExtension(extension)}`).join(', ');
+    case 'slash-command': return `/${match.command}`;
+  }
+};
+
+const attachedFiles = (items: FileSystemItem[]): FileSystemItem[] =>
+  items.flatMap(item => item.type === 'file' ? [item] : attachedFiles(item.children ?? []));
+
+// What the rule matched, or null; a slash command also yields the message without it
+const matchRule = (
+  rule: RoutingRule,
+  message: string,
+  files: FileSystemItem[]
+): { detail: string; message?: string } | null => {
+  if (validateRule(rule)) return null;
+  switch (rule.match.kind) {
+    case 'slash-command': {
+      const command = message.match(new RegExp(`^\\s*\\/${rule.match.command}(?:\\s+|$)`, 'i'));
+      return command ? { detail: `the message starts with /${rule.match.command}`, message: message.slice(command[0].length) } : null;
+    }
+    case 'regex': {
+      const found = message.match(new RegExp(rule.match.pattern, rule.match.flags));
+      return found ? { detail: `the message contains "${found[0]}"` } : null;
+    }
+    case 'file-type': {
+      const extensions = rule.match.extensions.map(normalizeExtension);
+      const file = attachedFiles(files).find(item => extensions.includes(normalizeExtension(item.name.split('.').pop() ?? '')));
+      return file ? { detail: `${file.path} is attached` } : null;
+    }
+  }
+};
+
+// Numeric versions compare part by part; anything else sorts after them
+const compareVersions = (a: Prompt, b: Prompt): number => {
+  const parse = ({ version = '' }: Prompt) => /^\d+(\.\d+)*$/.test(version) ? version.split('.').map(Number) : null;
+  const left = parse(a);
+  const right = parse(b);
+  if (!left || !right) return left ? -1 : right ? 1 : 0;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (right[i] ?? 0) - (left[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+/**
+ * The prompt a mode uses and why: `preferredId` (a rule's), else the one set
+ * for the mode, else the highest version of the mode's type.
+ */
+export const pickPrompt = (
+  prompts: Prompt[],
+  mode: PromptMode,
+  settings: RouterSettings,
+  preferredId?: string
+): { prompt?: Prompt; why: string } => {
+  const preferred = preferredId ? prompts.find(prompt => prompt.id === preferredId) : undefined;
+  if (preferred) return { prompt: preferred, why: 'set by the rule' };
+
+  const ofMode = prompts.filter(prompt => prompt.type === mode);
+  const chosen = ofMode.find(prompt => prompt.id === settings.modePrompts[mode]);
+  if (chosen) return { prompt: chosen, why: `chosen for ${MODE_LABELS[mode]} mode` };
+
+  const [latest] = [...ofMode].sort(compareVersions);
+  if (!latest) return { why: `no ${mode} prompt is loaded` };
+  return { prompt: latest, why: ofMode.length > 1 ? 'the highest version' : `the only ${mode} prompt` };
+};
+
+const CLASSIFIER_PROMPT = `Classify the user's message to a coding assistant. Answer with one word:
+agent - it asks for code to be written, changed, fixed, refactored or analyzed
+memory - it asks the assistant to remember, forget or recall something
+chat - anything else, such as a question or a discussion`;
+
+// The mode the model puts the message in, or null for an unclear answer
+export const classifyMessage = async (message: string, complete: Complete): Promise<PromptMode | null> => {
+  const turn = await complete({
+    messages: [
+      { role: 'system', content: CLASSIFIER_PROMPT },
+      { role: 'user', content: message }
+    ],
+    temperature: 0,
+    maxTokens: 5
+  });
+  const answer = turn.content.toLowerCase().match(/\b(agent|chat|memory)\b/);
+  return answer ? answer[1] as PromptMode : null;
+};
+
+export const routeMessage = async ({
+  message,
+  files = [],
+  mode,
+  settings,
+  prompts,
+  classify
+}: {
+  message: string;
+  files?: FileSystemItem[];
+  mode: RoutingMode;
+  settings: RouterSettings;
+  prompts: Prompt[];
+  // Used when the classifier is on; without it the step is skipped
+  classify?: Complete;
+}): Promise<RouteDecision> => {
+  const decide = (
+    routed: PromptMode,
+    source: RouteSource,
+    because: string,
+    options: { message?: string; promptId?: string } = {}
+  ): RouteDecision => {
+    const { prompt, why } = pickPrompt(prompts, routed, settings, options.promptId);
+    const chosen = prompt ? `${prompt.name}, ${why}` : why;
+    return {
+      mode: routed,
+      prompt,
+      message: options.message?.trim() || message,
+      source,
+      reason: `${MODE_LABELS[routed]} mode because ${because}; using ${chosen}.`
+    };
+  };
+
+  const rules = settings.rules.filter(rule => rule.enabled);
+
+  for (const rule of rules.filter(candidate => candidate.match.kind === 'slash-command')) {
+    const matched = matchRule(rule, message, files);
+    if (matched) return decide(rule.mode, 'command', matched.detail, { message: matched.message, promptId: rule.promptId });
+  }
+
+  if (mode !== 'auto') {
+    return decide(mode, 'explicit', 'it is selected in the Composer');
+  }
+
+  for (const rule of rules.filter(candidate => candidate.match.kind !== 'slash-command')) {
+    const matched = matchRule(rule, message, files);
+    if (matched) return decide(rule.mode, 'rule', `rule "${rule.name}" matched: ${matched.detail}`, { promptId: rule.promptId });
+  }
+
+  if (settings.classifier && classify) {
+    try {
+      const classified = await classifyMessage(message, classify);
+      if (classified) return decide(classified, 'classifier', 'the model classified the message');
+    } catch (error) {
+      console.warn('Prompt classifier failed; using the default mode:', error);
+    }
+  }
+
+  return decide(settings.defaultMode, 'default', 'no rule matched and it is the default');
+};
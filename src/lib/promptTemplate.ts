@@ -0,0 +1,327 @@
+/**
+ * The template language of prompt files, a small subset of Handlebars:
+ *
+ * - `{{userMessage}}`, `{{file.path}}`: a variable, empty when missing
+ * - `{{#if selectedFiles}} … {{else}} … {{/if}}`: empty strings and lists are false
+ * - `{{#each selectedFiles}} … {{else}} … {{/each}}`: inside, the item's fields
+ *   are variables, alongside `this`, `@index`, `@first` and `@last`
+ * - `{{> attached-files}}`: another prompt or partial, rendered in place
+ * - `{{! comment }}`: dropped
+ * - `\{{`: a literal `{{`
+ *
+ * Tags other than variables that sit alone on a line take the line with them.
+ */
+
+export type TemplateType =
+  | { kind: 'string' | 'number' | 'boolean' | 'date' | 'any' }
+  | { kind: 'list'; item: TemplateType }
+  | { kind: 'object'; fields: Record<string, TemplateType> };
+
+export interface TemplateIssue {
+  message: string;
+  // 1-based line in the template the issue was found in
+  line: number;
+}
+
+// Partial templates by id
+export type PartialLookup = (name: string) => string | undefined;
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; line: number }
+  | { type: 'if' | 'each'; path: string; line: number; body: Node[]; otherwise: Node[] }
+  | { type: 'partial'; name: string; line: number };
+
+interface Block {
+  type: 'if' | 'each';
+  path: string;
+  line: number;
+  body: Node[];
+  otherwise: Node[];
+  inElse: boolean;
+}
+
+const TAG = /\\\{\{|\{\{\s*([#/>!]?)\s*([\s\S]*?)\s*\}\}/g;
+const PATH = /^(this|@index|@first|@last|[A-Za-z_][\w-]*)(\.[A-Za-z_][\w-]*)*$/;
+// Deep enough for any sensible nesting, shallow enough to stop a cycle
+const MAX_PARTIAL_DEPTH = 10;
+
+const lineAt = (source: string, index: number) => source.slice(0, index).split('\n').length;
+
+const templateError = (message: string, line: number) => new Error(`Line ${line}: ${message}`);
+
+const parse = (source: string): Node[] => {
+  const root: Node[] = [];
+  const blocks: Block[] = [];
+  const target = () => {
+    const block = blocks[blocks.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.otherwise : block.body;
+  };
+  const pushText = (value: string) => {
+    if (value) target().push({ type: 'text', value });
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG)) {
+    const start = match.index ?? 0;
+    let end = start + match[0].length;
+    let before = source.slice(cursor, start);
+
+    if (match[0] === '\\{{') {
+      pushText(`${before}{{`);
+      cursor = end;
+      continue;
+    }
+
+    const [, sigil, body] = match;
+    const line = lineAt(source, start);
+    const isVariable = sigil === '' && body !== 'else';
+
+    // A block tag alone on its line leaves no blank line behind
+    if (!isVariable) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const newline = source.indexOf('\n', end);
+      const lineEnd = newline === -1 ? source.length : newline;
+      if (
+        lineStart >= cursor &&
+        /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+        /^[ \t\r]*$/.test(source.slice(end, lineEnd))
+      ) {
+        before = before.slice(0, before.length - (start - lineStart));
+        end = newline === -1 ? source.length : newline + 1;
+      }
+    }
+    pushText(before);
+    cursor = end;
+
+    if (sigil === '!') continue;
+
+    if (sigil === '>') {
+      if (!/^[\w-]+$/.test(body)) throw templateError(`Invalid partial name "${body}"`, line);
+      target().push({ type: 'partial', name: body, line });
+    } else if (sigil === '#') {
+      const [keyword, path = '', ...rest] = body.split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'each') throw templateError(`Unknown block "#${keyword}"`, line);
+      if (!PATH.test(path) || rest.length > 0) throw templateError(`"#${keyword}" needs one variable`, line);
+      const block: Block = { type: keyword as Block['type'], path, line, body: [], otherwise: [], inElse: false };
+      target().push(block);
+      blocks.push(block);
+    } else if (sigil === '/') {
+      const block = blocks.pop();
+      if (!block) throw templateError(`"/${body}" closes no block`, line);
+      if (block.type !== body) throw templateError(`"/${body}" closes "#${block.type}" from line ${block.line}`, line);
+    } else if (body === 'else') {
+      const block = blocks[blocks.length - 1];
+      if (!block || block.inElse) throw templateError('"else" outside an "#if" or "#each"', line);
+      block.inElse = true;
+    } else {
+      if (!PATH.test(body)) throw templateError(`Invalid variable "${body}"`, line);
+      target().push({ type: 'variable', path: body, line });
+    }
+  }
+  pushText(source.slice(cursor));
+
+  const unclosed = blocks.pop();
+  if (unclosed) throw templateError(`"#${unclosed.type}" is never closed`, unclosed.line);
+  return root;
+};
+
+const parseIssue = (error: unknown): TemplateIssue => {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/^Line (\d+): ([\s\S]*)$/);
+  return match ? { line: Number(match[1]), message: match[2] } : { line: 1, message };
+};
+
+// Variables visible at one level of nesting: the root, or an #each item
+interface Frame<T> {
+  value: T;
+  index?: number;
+  count?: number;
+}
+
+const describeType = (type: TemplateType): string =>
+  type.kind === 'list' ? 'a list' : type.kind === 'object' ? 'an object' : `a ${type.kind}`;
+
+const ANY: TemplateType = { kind: 'any' };
+
+const resolveType = (path: string, frames: Frame<TemplateType>[]): TemplateType | string => {
+  const [head, ...rest] = path.split('.');
+  const top = frames[frames.length - 1];
+  let current: TemplateType | undefined;
+
+  if (head === 'this') {
+    current = top.value;
+  } else if (head.startsWith('@')) {
+    if (frames.length === 1) return `"${head}" is only defined inside "#each"`;
+    current = { kind: head === '@index' ? 'number' : 'boolean' };
+  } else {
+    for (let i = frames.length - 1; i >= 0 && !current; i--) {
+      const frame = frames[i].value;
+      if (frame.kind === 'any') current = ANY;
+      else if (frame.kind === 'object') current = frame.fields[head];
+    }
+    if (!current) return `Unknown variable "${head}"`;
+  }
+
+  for (const field of rest) {
+    if (current.kind === 'any') return ANY;
+    if (current.kind === 'list' && field === 'length') {
+      current = { kind: 'number' };
+    } else if (current.kind === 'object' && current.fields[field]) {
+      current = current.fields[field];
+    } else {
+      return `"${path}" has no field "${field}"`;
+    }
+  }
+  return current;
+};
+
+const checkNodes = (
+  nodes: Node[],
+  frames: Frame<TemplateType>[],
+  partials: PartialLookup,
+  including: string[],
+  issues: TemplateIssue[]
+) => {
+  const report = (message: string, line: number) => {
+    // Issues inside a partial are reported at the include that pulled it in
+    issues.push({ message: including.length > 0 ? `In "${including.join('" > "')}": ${message}` : message, line });
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+
+    if (node.type === 'partial') {
+      const source = partials(node.name);
+      if (source === undefined) {
+        report(`Unknown partial "${node.name}"`, node.line);
+      } else if (including.includes(node.name) || including.length >= MAX_PARTIAL_DEPTH) {
+        report(`Partial "${node.name}" includes itself`, node.line);
+      } else {
+        const nested: TemplateIssue[] = [];
+        try {
+          checkNodes(parse(source), frames, partials, [...including, node.name], nested);
+        } catch (error) {
+          const issue = parseIssue(error);
+          nested.push({ message: `In "${[...including, node.name].join('" > "')}": ${issue.message}`, line: issue.line });
+        }
+        // Point at the include rather than a line of another file
+        issues.push(...nested.map(issue => ({ ...issue, line: node.line })));
+      }
+      continue;
+    }
+
+    const type = resolveType(node.path, frames);
+    if (typeof type === 'string') {
+      report(type, node.line);
+      continue;
+    }
+
+    if (node.type === 'variable') {
+      if (type.kind === 'list' || type.kind === 'object') {
+        report(`"${node.path}" is ${describeType(type)}; use "#each" or one of its fields`, node.line);
+      }
+    } else if (node.type === 'each') {
+      if (type.kind !== 'list' && type.kind !== 'any') {
+        report(`"#each" needs a list, but "${node.path}" is ${describeType(type)}`, node.line);
+      }
+      const item = type.kind === 'list' ? type.item : ANY;
+      checkNodes(node.body, [...frames, { value: item }], partials, including, issues);
+      checkNodes(node.otherwise, frames, partials, including, issues);
+    } else {
+      checkNodes(node.body, frames, partials, including, issues);
+      checkNodes(node.otherwise, frames, partials, including, issues);
+    }
+  }
+};
+
+/**
+ * Checks a template against the variables it will be rendered with: syntax,
+ * unknown variables and fields, lists used as text or text looped over, and
+ * partials that are missing or include themselves. An empty result means it
+ * renders cleanly for any value of `schema`.
+ */
+export const validateTemplate = (
+  source: string,
+  schema: TemplateType,
+  partials: PartialLookup = () => undefined
+): TemplateIssue[] => {
+  try {
+    const issues: TemplateIssue[] = [];
+    checkNodes(parse(source), [{ value: schema }], partials, [], issues);
+    return issues.sort((a, b) => a.line - b.line);
+  } catch (error) {
+    return [parseIssue(error)];
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+const resolveValue = (path: string, frames: Frame<unknown>[]): unknown => {
+  const [head, ...rest] = path.split('.');
+  const top = frames[frames.length - 1];
+  let current: unknown;
+
+  if (head === 'this') current = top.value;
+  else if (head === '@index') current = top.index;
+  else if (head === '@first') current = top.index === 0;
+  else if (head === '@last') current = top.index !== undefined && top.index === (top.count ?? 0) - 1;
+  else {
+    const frame = [...frames].reverse().find(candidate => isRecord(candidate.value) && head in candidate.value);
+    current = frame ? (frame.value as Record<string, unknown>)[head] : undefined;
+  }
+
+  for (const field of rest) {
+    if (Array.isArray(current) && field === 'length') current = current.length;
+    else current = isRecord(current) ? current[field] : undefined;
+  }
+  return current;
+};
+
+const isTruthy = (value: unknown): boolean =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const renderNodes = (nodes: Node[], frames: Frame<unknown>[], partials: PartialLookup, depth: number): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable':
+        return toText(resolveValue(node.path, frames));
+      case 'partial': {
+        const source = partials(node.name);
+        if (source === undefined) throw templateError(`Unknown partial "${node.name}"`, node.line);
+        if (depth >= MAX_PARTIAL_DEPTH) throw templateError(`Partial "${node.name}" nests too deeply`, node.line);
+        return renderNodes(parse(source), frames, partials, depth + 1);
+      }
+      case 'if':
+        return renderNodes(isTruthy(resolveValue(node.path, frames)) ? node.body : node.otherwise, frames, partials, depth);
+      case 'each': {
+        const value = resolveValue(node.path, frames);
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) return renderNodes(node.otherwise, frames, partials, depth);
+        return items
+          .map((item, index) => renderNodes(node.body, [...frames, { value: item, index, count: items.length }], partials, depth))
+          .join('');
+      }
+    }
+  }).join('');
+
+/**
+ * Renders a template with `data`. Missing variables render empty; syntax
+ * errors and missing partials throw with the offending line.
+ */
+export const renderTemplate = (
+  source: string,
+  data: unknown,
+  partials: PartialLookup = () => undefined
+): string => renderNodes(parse(source), [{ value: data }], partials, 0);
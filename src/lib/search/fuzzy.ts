@@ -0,0 +1,22 @@
+/**
+ * Scores how well `query` matches `path` as a subsequence: every character
+ * must appear in order. Contiguous runs and hits in the file name score
+ * higher; 0 means no match.
+ */
+export const fuzzyScore = (path: string, query: string): number => {
+  const haystack = path.toLowerCase();
+  const fileNameStart = haystack.lastIndexOf('/') + 1;
+  let score = 0;
+  let position = -1;
+  let run = 0;
+
+  for (const char of query.toLowerCase()) {
+    const found = haystack.indexOf(char, position + 1);
+    if (found === -1) return 0;
+    run = found === position + 1 ? run + 1 : 1;
+    score += run + (found >= fileNameStart ? 1 : 0);
+    position = found;
+  }
+
+  return score;
+};
@@ -0,0 +1,423 @@
+import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
+import { matchesGlob } from '@/lib/glob';
+import { isTextFile } from '@/lib/fileSystemAccess';
+import { fuzzyScore } from './fuzzy';
+import { CodeSymbol, extractSymbols } from './symbols';
+
+// Files are ranked in chunks of this many lines
+const CHUNK_LINES = 40;
+// BM25 term-saturation and length-normalisation parameters
+const K1 = 1.2;
+const B = 0.75;
+// Defining a symbol counts as this many mentions of its name
+const SYMBOL_WEIGHT = 3;
+// Files read concurrently while syncing a service-backed tree
+const READ_BATCH_SIZE = 20;
+const DEFAULT_LIMIT = 10;
+const DEFAULT_MAX_MATCHES = 50;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'to', 'what', 'where', 'which', 'with',
+  'const', 'let', 'var', 'return', 'import', 'export', 'new', 'true', 'false', 'null', 'undefined'
+]);
+
+export interface ChunkResult {
+  path: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  score: number;
+  text: string;
+}
+
+export interface GrepMatch {
+  path: string;
+  // 1-based
+  line: number;
+  column: number;
+  text: string;
+}
+
+export interface GrepOptions {
+  caseSensitive?: boolean;
+  // Globs as accepted by `matchesGlob`
+  include?: string;
+  exclude?: string;
+  maxMatches?: number;
+}
+
+export interface GrepResult {
+  matches: GrepMatch[];
+  // More matches exist than `maxMatches`
+  truncated: boolean;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Restricts results to matching paths
+  filter?: (path: string) => boolean;
+}
+
+interface Chunk {
+  startLine: number;
+  endLine: number;
+  terms: Map<string, number>;
+  length: number;
+}
+
+// Replaced, never mutated, so forks can share entries
+interface IndexedFile {
+  path: string;
+  // null when only the name is known (binary or not yet read)
+  content: string | null;
+  // Size and modification time of the listed item the content was read for
+  stamp?: string;
+  chunks: Chunk[];
+  symbols: CodeSymbol[];
+}
+
+const splitIdentifier = (word: string): string[] =>
+  word.split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+
+/**
+ * Lower-cased search terms. Identifiers are kept whole and also split into
+ * their camelCase/snake_case parts, so `getUserName` matches "user name".
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const keep = (term: string) => {
+    if (term.length > 1 && !STOP_WORDS.has(term)) tokens.push(term);
+  };
+
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+    keep(word.toLowerCase());
+    const parts = splitIdentifier(word);
+    if (parts.length > 1) parts.forEach(part => keep(part.toLowerCase()));
+  }
+  return tokens;
+};
+
+const buildChunks = (path: string, content: string, symbols: CodeSymbol[]): Chunk[] => {
+  const lines = content.split('\n');
+  const pathTerms = tokenize(path);
+  const chunks: Chunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    const terms = new Map<string, number>();
+    let length = 0;
+    const add = (term: string, count = 1) => {
+      terms.set(term, (terms.get(term) ?? 0) + count);
+      length += count;
+    };
+
+    tokenize(lines.slice(start, end).join('\n')).forEach(term => add(term));
+    pathTerms.forEach(term => add(term));
+    for (const symbol of symbols) {
+      if (symbol.line > start && symbol.line <= end) {
+        tokenize(symbol.name).forEach(term => add(term, SYMBOL_WEIGHT));
+      }
+    }
+
+    chunks.push({ startLine: start + 1, endLine: end, terms, length });
+  }
+
+  return chunks;
+};
+
+const stampOf = (item: FileSystemItem) => `${item.size ?? ''}:${new Date(item.lastModified).getTime()}`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * In-memory index over a project tree: BM25-ranked chunk search, regex grep,
+ * fuzzy path search and a symbol table. Files are re-tokenized one at a time
+ * as they change, so keeping it current costs no more than the edit itself.
+ */
+export class SearchIndex {
+  private files = new Map<string, IndexedFile>();
+  // Number of chunks each term appears in
+  private documentFrequency = new Map<string, number>();
+  private chunkCount = 0;
+  private totalLength = 0;
+  private listeners = new Set<() => void>();
+  private syncGeneration = 0;
+  private version = 0;
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  /** Increases on every change, for consumers that cache results. */
+  getVersion(): number {
+    return this.version;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPaths(): string[] {
+    return Array.from(this.files.keys()).sort();
+  }
+
+  /** Indexed text of a file; undefined when unknown or not read. */
+  getContent(path: string): string | undefined {
+    return this.files.get(path)?.content ?? undefined;
+  }
+
+  updateFile(path: string, content: string | null): void {
+    this.write(path, content);
+    this.changed();
+  }
+
+  /** Removes a file, or a folder and everything under it. */
+  removePath(path: string): void {
+    let removed = false;
+    for (const filePath of Array.from(this.files.keys())) {
+      if (filePath === path || filePath.startsWith(`${path}/`)) {
+        this.delete(filePath);
+        removed = true;
+      }
+    }
+    if (removed) this.changed();
+  }
+
+  /**
+   * Brings the index in line with a tree. Files with content are indexed
+   * from it; service-backed files listed without content are read through
+   * `readContent` when they look like text and changed since they were last
+   * read. A later call supersedes one still reading.
+   */
+  async sync(items: FileSystemItem[], readContent?: (item: FileSystemItem) => Promise<string>): Promise<void> {
+    const generation = ++this.syncGeneration;
+    const seen = new Set<string>();
+    const toRead: FileSystemItem[] = [];
+    let changed = false;
+
+    const visit = (nodes: FileSystemItem[]) => {
+      for (const node of nodes) {
+        if (node.type === 'folder') {
+          visit(node.children ?? []);
+          continue;
+        }
+        seen.add(node.path);
+        const existing = this.files.get(node.path);
+        if (node.content !== undefined) {
+          if (existing?.content !== node.content) {
+            this.write(node.path, node.content);
+            changed = true;
+          }
+        } else if (readContent && isTextFile(node)) {
+          if (existing?.stamp !== stampOf(node)) toRead.push(node);
+          if (!existing) {
+            this.write(node.path, null);
+            changed = true;
+          }
+        } else if (!existing) {
+          this.write(node.path, null);
+          changed = true;
+        }
+      }
+    };
+    visit(items);
+
+    for (const path of Array.from(this.files.keys())) {
+      if (!seen.has(path)) {
+        this.delete(path);
+        changed = true;
+      }
+    }
+    if (changed) this.changed();
+
+    for (let i = 0; i < toRead.length && readContent; i += READ_BATCH_SIZE) {
+      const batch = toRead.slice(i, i + READ_BATCH_SIZE);
+      const contents = await Promise.all(batch.map(item => readContent(item).catch(error => {
+        console.warn(`Failed to index ${item.path}:`, error);
+        return null;
+      })));
+      if (generation !== this.syncGeneration) return;
+      batch.forEach((item, index) => this.write(item.path, contents[index], stampOf(item)));
+      this.changed();
+    }
+  }
+
+  /**
+   * Independent copy that shares unchanged files with this index, for a
+   * working copy (like the agent's) whose edits must not leak back.
+   */
+  fork(): SearchIndex {
+    const copy = new SearchIndex();
+    copy.files = new Map(this.files);
+    copy.documentFrequency = new Map(this.documentFrequency);
+    copy.chunkCount = this.chunkCount;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  /** Chunks ranked by BM25 against the query's terms. */
+  search(query: string, options: SearchOptions = {}): ChunkResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.chunkCount === 0) return [];
+
+    const averageLength = this.totalLength / this.chunkCount;
+    const weights = terms.map(term => {
+      const frequency = this.documentFrequency.get(term) ?? 0;
+      return Math.log(1 + (this.chunkCount - frequency + 0.5) / (frequency + 0.5));
+    });
+
+    const scored: { file: IndexedFile; chunk: Chunk; score: number }[] = [];
+    for (const file of this.files.values()) {
+      if (options.filter && !options.filter(file.path)) continue;
+      for (const chunk of file.chunks) {
+        let score = 0;
+        terms.forEach((term, index) => {
+          const count = chunk.terms.get(term);
+          if (!count) return;
+          score += weights[index] * (count * (K1 + 1)) / (count + K1 * (1 - B + B * chunk.length / averageLength));
+        });
+        if (score > 0) scored.push({ file, chunk, score });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map(({ file, chunk, score }) => ({
+        path: file.path,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        score,
+        text: (file.content ?? '').split('\n').slice(chunk.startLine - 1, chunk.endLine).join('\n')
+      }));
+  }
+
+  /**
+   * Line-by-line regex search in path order. A query that is not a valid
+   * regular expression is searched for literally.
+   */
+  grep(query: string, options: GrepOptions = {}): GrepResult {
+    const flags = options.caseSensitive ? '' : 'i';
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(query, flags);
+    } catch {
+      pattern = new RegExp(escapeRegExp(query), flags);
+    }
+
+    const maxMatches = options.maxMatches ?? DEFAULT_MAX_MATCHES;
+    const matches: GrepMatch[] = [];
+
+    for (const path of this.getPaths()) {
+      if (options.include && !matchesGlob(path, options.include)) continue;
+      if (options.exclude && matchesGlob(path, options.exclude)) continue;
+      const content = this.files.get(path)?.content;
+      if (!content) continue;
+
+      const lines = content.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        const match = pattern.exec(lines[i]);
+        if (!match) continue;
+        if (matches.length === maxMatches) return { matches, truncated: true };
+        matches.push({ path, line: i + 1, column: match.index + 1, text: lines[i] });
+      }
+    }
+
+    return { matches, truncated: false };
+  }
+
+  /** Paths fuzzily matching the query, best first. */
+  findFiles(query: string, options: SearchOptions = {}): string[] {
+    const compact = query.replace(/\s+/g, '');
+    if (!compact) return [];
+
+    return this.getPaths()
+      .filter(path => !options.filter || options.filter(path))
+      .map(path => ({ path, score: fuzzyScore(path, compact) }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.path.length - b.path.length)
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map(result => result.path);
+  }
+
+  /** Definitions whose names fuzzily match the query; exact and prefix matches first. */
+  findSymbols(query: string, options: SearchOptions = {}): CodeSymbol[] {
+    const compact = query.replace(/\s+/g, '');
+    if (!compact) return [];
+    const lower = compact.toLowerCase();
+
+    const results: { symbol: CodeSymbol; score: number }[] = [];
+    for (const file of this.files.values()) {
+      if (options.filter && !options.filter(file.path)) continue;
+      for (const symbol of file.symbols) {
+        const name = symbol.name.toLowerCase();
+        const bonus = name === lower ? 100 : name.startsWith(lower) ? 50 : 0;
+        const score = fuzzyScore(symbol.name, compact);
+        if (score > 0) results.push({ symbol, score: score + bonus });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.symbol.name.length - b.symbol.name.length)
+      .slice(0, options.limit ?? DEFAULT_LIMIT)
+      .map(result => result.symbol);
+  }
+
+  private write(path: string, content: string | null, stamp?: string): void {
+    this.delete(path);
+    // Treat files with NUL bytes as binary
+    const text = content !== null && !content.includes('\u0000') ? content : null;
+    const symbols = text !== null ? extractSymbols(path, text) : [];
+    const chunks = text !== null ? buildChunks(path, text, symbols) : [];
+
+    for (const chunk of chunks) {
+      chunk.terms.forEach((_count, term) => {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      });
+      this.chunkCount++;
+      this.totalLength += chunk.length;
+    }
+    this.files.set(path, { path, content: text, stamp, chunks, symbols });
+  }
+
+  private delete(path: string): void {
+    const existing = this.files.get(path);
+    if (!existing) return;
+
+    for (const chunk of existing.chunks) {
+      chunk.terms.forEach((_count, term) => {
+        const frequency = (this.documentFrequency.get(term) ?? 0) - 1;
+        if (frequency > 0) {
+          this.documentFrequency.set(term, frequency);
+        } else {
+          this.documentFrequency.delete(term);
+        }
+      });
+      this.chunkCount--;
+      this.totalLength -= chunk.length;
+    }
+    this.files.delete(path);
+  }
+
+  private changed(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// One index per backing store, shared by every view of it (the explorer and
+// the editor's search panel), so each file is read and tokenized once
+const serviceIndexes = new WeakMap<FileSystemService, SearchIndex>();
+
+export const getSearchIndex = (service: FileSystemService): SearchIndex => {
+  let index = serviceIndexes.get(service);
+  if (!index) {
+    index = new SearchIndex();
+    serviceIndexes.set(service, index);
+  }
+  return index;
+};
@@ -0,0 +1,55 @@
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'method' | 'module';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  path: string;
+  // 1-based
+  line: number;
+}
+
+// Declaration shapes shared by most languages we open (JS/TS, Python, Go,
+// Rust, Java, Kotlin, Swift, Ruby, PHP). Matched per line, so multi-line
+// signatures are found by their first line only.
+const DECLARATIONS: { pattern: RegExp; kind: SymbolKind }[] = [
+  { pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, kind: 'function' },
+  { pattern: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/, kind: 'function' },
+  { pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+|public\s+|private\s+|final\s+|open\s+|data\s+|sealed\s+)*class\s+([A-Za-z_$][\w$]*)/, kind: 'class' },
+  { pattern: /^\s*(?:export\s+)?(?:public\s+)?interface\s+([A-Za-z_$][\w$]*)/, kind: 'interface' },
+  { pattern: /^\s*(?:export\s+)?type\s+([A-Za-z_$][\w$]*)(?:<[^>]*>)?\s*=/, kind: 'type' },
+  { pattern: /^\s*(?:export\s+)?(?:const\s+)?(?:pub\s+)?enum\s+([A-Za-z_$][\w$]*)/, kind: 'enum' },
+  { pattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|trait)\s+([A-Za-z_]\w*)/, kind: 'class' },
+  { pattern: /^type\s+([A-Za-z_]\w*)\s+(?:struct|interface)\b/, kind: 'class' },
+  { pattern: /^\s*(?:async\s+)?def\s+(?:self\.)?([A-Za-z_]\w*[?!]?)/, kind: 'function' },
+  { pattern: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+([A-Za-z_]\w*)/, kind: 'function' },
+  { pattern: /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/, kind: 'function' },
+  { pattern: /^\s*(?:[a-z]+\s+)*(?:fun|func)\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/, kind: 'function' },
+  { pattern: /^\s*module\s+([A-Z]\w*)/, kind: 'module' },
+  { pattern: /^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=/, kind: 'variable' },
+  // Class members: `name(args) {` or `async name(args): Type {`
+  { pattern: /^\s+(?:(?:public|private|protected|static|readonly|async|override|get|set)\s+)*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\([^)]*\)\s*(?::\s*[^{=]+)?\{\s*$/, kind: 'method' }
+];
+
+// Things that look like a method declaration but are control flow
+const NOT_SYMBOLS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with', 'return', 'function', 'constructor']);
+
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#(?!\[)|--)/;
+
+/** Definitions found in a file, in line order. */
+export const extractSymbols = (path: string, content: string): CodeSymbol[] => {
+  const symbols: CodeSymbol[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((line, index) => {
+    if (COMMENT_LINE.test(line)) return;
+    for (const { pattern, kind } of DECLARATIONS) {
+      const name = line.match(pattern)?.[1];
+      if (name && !NOT_SYMBOLS.has(name)) {
+        symbols.push({ name, kind, path, line: index + 1 });
+        return;
+      }
+    }
+  });
+
+  return symbols;
+};
@@ -0,0 +1,81 @@
+// Minimal reader for `text/event-stream` bodies as returned by the
+// OpenAI-compatible chat completions endpoints when `stream: true` is set.
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+const parseEvent = (block: string): ServerSentEvent | null => {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    if (!line || line.startsWith(':')) continue; // comments / keep-alives
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'event') {
+      event = value;
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+};
+
+/**
+ * Reads a server-sent event stream until it ends, invoking `onEvent` for every
+ * complete event. Returning `false` from `onEvent` stops reading early, which
+ * is how callers react to the `data: [DONE]` sentinel.
+ */
+export const readEventStream = async (
+  response: Response,
+  onEvent: (event: ServerSentEvent) => boolean | void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming is not supported: response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const event = parseEvent(block);
+        if (event && onEvent(event) === false) {
+          await reader.cancel();
+          return;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) break;
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    const event = parseEvent(buffer);
+    if (event) onEvent(event);
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
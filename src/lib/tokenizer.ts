@@ -0,0 +1,120 @@
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import { ChatMessage, ToolDefinition } from '@/lib/llm/types';
+
+// BPE vocabularies bundled with the app, loaded on first use so the ranks
+// (~1-2 MB each) stay out of the main chunk
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+const RANK_LOADERS: Record<TokenizerEncoding, () => Promise<TiktokenBPE>> = {
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base').then(module => module.default),
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base').then(module => module.default)
+};
+
+/**
+ * Encoding used to count tokens for `model`. OpenAI's current models use
+ * o200k; everything else (older GPT models, DeepSeek, Claude, local models)
+ * is counted with cl100k, which is exact for GPT-4/3.5 and the closest
+ * public vocabulary for the rest.
+ */
+export const getEncodingForModel = (model: string): TokenizerEncoding => {
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  return /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d|chatgpt-4o)/.test(name) ? 'o200k_base' : 'cl100k_base';
+};
+
+export interface Tokenizer {
+  encoding: TokenizerEncoding;
+  // False while the vocabulary is still loading and counts are estimates
+  exact: boolean;
+  count: (text: string) => number;
+  encode: (text: string) => number[];
+  decode: (tokens: number[]) => string;
+}
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+const pending = new Map<TokenizerEncoding, Promise<Tiktoken>>();
+
+const loadEncoder = (encoding: TokenizerEncoding): Promise<Tiktoken> => {
+  const loaded = encoders.get(encoding);
+  if (loaded) return Promise.resolve(loaded);
+
+  let promise = pending.get(encoding);
+  if (!promise) {
+    promise = RANK_LOADERS[encoding]()
+      .then(ranks => {
+        const encoder = new Tiktoken(ranks);
+        encoders.set(encoding, encoder);
+        return encoder;
+      })
+      .finally(() => pending.delete(encoding));
+    pending.set(encoding, promise);
+  }
+  return promise;
+};
+
+// Only used until the vocabulary has loaded
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const fromEncoder = (encoding: TokenizerEncoding, encoder: Tiktoken): Tokenizer => ({
+  encoding,
+  exact: true,
+  // Special-token text in user content is counted as plain text
+  count: text => (text ? encoder.encode(text, [], []).length : 0),
+  encode: text => encoder.encode(text, [], []),
+  decode: tokens => encoder.decode(tokens)
+});
+
+/**
+ * Resolves once the vocabulary for `model` is available. Load failures fall
+ * back to a character estimate rather than blocking the request.
+ */
+export const loadTokenizer = async (model: string): Promise<Tokenizer> => {
+  const encoding = getEncodingForModel(model);
+  try {
+    return fromEncoder(encoding, await loadEncoder(encoding));
+  } catch (error) {
+    console.warn(`Failed to load the ${encoding} tokenizer, estimating token counts instead:`, error);
+    return getTokenizer(model);
+  }
+};
+
+/**
+ * Synchronous access for render paths: exact once `loadTokenizer` has run
+ * for the model's encoding, a character estimate (with `exact: false`) before.
+ */
+export const getTokenizer = (model: string): Tokenizer => {
+  const encoding = getEncodingForModel(model);
+  const encoder = encoders.get(encoding);
+  if (encoder) return fromEncoder(encoding, encoder);
+
+  return {
+    encoding,
+    exact: false,
+    count: estimateTokens,
+    encode: () => {
+      throw new Error(`The ${encoding} tokenizer has not been loaded`);
+    },
+    decode: () => {
+      throw new Error(`The ${encoding} tokenizer has not been loaded`);
+    }
+  };
+};
+
+// Chat formats wrap each message in a few control tokens
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+export const countMessageTokens = (message: ChatMessage, tokenizer: Tokenizer): number => {
+  let total = TOKENS_PER_MESSAGE + tokenizer.count(message.content);
+  for (const call of message.toolCalls ?? []) {
+    total += tokenizer.count(call.name) + tokenizer.count(call.arguments);
+  }
+  return total;
+};
+
+// Prompt tokens for a whole request, including the reply primer
+export const countChatTokens = (messages: ChatMessage[], tokenizer: Tokenizer): number =>
+  messages.reduce((total, message) => total + countMessageTokens(message, tokenizer), TOKENS_PER_REPLY);
+
+// Providers serialise tool schemas differently; the JSON form is a close upper bound
+export const countToolTokens = (tools: ToolDefinition[], tokenizer: Tokenizer): number =>
+  tools.reduce((total, tool) => total + tokenizer.count(JSON.stringify(tool)), 0);
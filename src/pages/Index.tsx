@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Brain, Code2, Wrench, MessageSquare, Settings, Zap, Sparkles, Upload } from 'lucide-react';
-import { DeepSeekProvider, DeepSeekConfigDialog } from '@/components/DeepSeekProvider';
+import { LLMProvider } from '@/components/LLMProvider';
+import { DeepSeekConfigDialog } from '@/components/DeepSeekProvider';
 import PromptRegistry from '@/components/PromptRegistry';
 import ChatInterface from '@/components/ChatInterface';
 import CodeEditor from '@/components/CodeEditor';
@@ -11,13 +12,26 @@ import ToolOrchestration from '@/components/ToolOrchestration';
 import Composer from '@/components/Composer/Composer';
 import ProjectUploader from '@/components/ProjectUploader';
 import { sampleFileSystem } from '@/data/sampleFileSystem';
-import { FileSystemItem } from '@/types/fileSystem';
+import { FileSystemItem, FileSystemService } from '@/types/fileSystem';
+import { CodeChange } from '@/hooks/useComposer';
+import { FileSystemAccessService, LocalFolderRecord, shouldIgnoreFile } from '@/lib/fileSystemAccess';
+import { IndexedDBFileSystemService } from '@/lib/indexedDBFileSystem';
+import { ActiveProject, OpenedProject } from '@/types/project';
+import { inlineEditHistory } from '@/lib/inlineEditHistory';
 
 const Index = () => {
   const [activePanel, setActivePanel] = useState<'chat' | 'code' | 'composer' | 'memory' | 'tools' | 'prompts'>('chat');
   const [projectFiles, setProjectFiles] = useState<FileSystemItem[]>(sampleFileSystem);
   const [selectedFile, setSelectedFile] = useState<FileSystemItem | null>(null);
   const [showProjectUploader, setShowProjectUploader] = useState(false);
+  // Set when the project is a folder opened from disk, so Composer writes to it
+  const [projectService, setProjectService] = useState<FileSystemService | undefined>(undefined);
+  // Scopes memories; null while the sample files are showing
+  const [activeProject, setActiveProject] = useState<ActiveProject | null>(null);
+  // Opened in the code editor or from disk; the editor reopens it when remounted
+  const [openedProject, setOpenedProject] = useState<OpenedProject | null>(null);
+  // Bumped on every project switch, so a slow listing cannot replace a newer project
+  const projectLoadRef = useRef(0);
 
   const panels = [
     { id: 'chat', label: 'Chat', icon: MessageSquare, description: 'Interactive AI coding sessions' },
@@ -33,37 +47,88 @@ const Index = () => {
     console.log('Selected file:', file);
   };
 
-  const handleApplyChanges = (changes: any[]) => {
-    console.log('Applied changes:', changes);
-    // Here you would update the actual file system
-    // For now, we'll just log the changes
+  // Ctrl+K edits made in the code editor, accepted or rejected; the Composer's Changes tab lists them
+  const handleInlineEdit = (change: CodeChange) => {
+    inlineEditHistory.record(change).catch(error => console.warn('Failed to record inline edit:', error));
+  };
+
+  // The code editor, Composer and memories all follow the opened project
+  const handleProjectOpen = async (project: OpenedProject | null) => {
+    const load = ++projectLoadRef.current;
+    setOpenedProject(project);
+
+    if (!project) {
+      setProjectFiles(sampleFileSystem);
+      setProjectService(undefined);
+      setActiveProject(null);
+      return;
+    }
+
+    // Only the tree is listed; Composer reads file contents when it needs them
+    const service = project.folder
+      ? new FileSystemAccessService(project.folder.handle, { ignore: shouldIgnoreFile })
+      : new IndexedDBFileSystemService(project.projectId);
+    let files: FileSystemItem[] = [];
+    try {
+      files = await service.loadFiles();
+    } catch (error) {
+      console.warn('Failed to list project files:', error);
+    }
+    if (load !== projectLoadRef.current) return;
+
+    setProjectFiles(files);
+    setProjectService(service);
+    setActiveProject(project.folder
+      ? { id: project.folder.id, name: project.folder.name }
+      : { id: project.projectId, name: project.name ?? project.projectId });
   };
 
   const handleProjectUpload = (files: FileSystemItem[]) => {
+    projectLoadRef.current++;
+    setOpenedProject(null);
     setProjectFiles(files);
+    setProjectService(undefined);
+    // An uploaded folder arrives as its single top-level directory
+    const name = files.length === 1 && files[0].type === 'folder' ? files[0].name : 'Uploaded Project';
+    setActiveProject({ id: `upload:${name}`, name });
     console.log('Project uploaded:', files);
   };
 
+  const handleLocalFolderOpen = async (folder: LocalFolderRecord) => {
+    await handleProjectOpen({ folder });
+    console.log('Local folder opened:', folder.name);
+  };
+
   const renderActivePanel = () => {
     switch (activePanel) {
       case 'chat':
         return <ChatInterface className="h-full" />;
       case 'code':
-        return <CodeEditor className="h-full" initialFiles={[]} />;
+        return (
+          <CodeEditor
+            className="h-full"
+            initialFiles={[]}
+            onInlineEdit={handleInlineEdit}
+            project={openedProject}
+            onProjectChange={handleProjectOpen}
+          />
+        );
       case 'composer':
         return (
           <div className="h-full">
             <Composer
               initialFiles={projectFiles}
+              fileSystemService={projectService}
+              project={activeProject ?? undefined}
               onFileSelect={handleFileSelect}
-              onApplyChanges={handleApplyChanges}
+              onFilesChange={setProjectFiles}
               width="100%"
               height="100%"
             />
           </div>
         );
       case 'memory':
-        return <MemoryPanel className="h-full" />;
+        return <MemoryPanel className="h-full" project={activeProject} />;
       case 'tools':
         return <ToolOrchestration className="h-full" />;
       case 'prompts':
@@ -74,7 +139,7 @@ const Index = () => {
   };
 
   return (
-    <DeepSeekProvider>
+    <LLMProvider>
       <div className="min-h-screen bg-gradient-bg flex flex-col">
         {/* Header */}
         <header className="border-b border-border bg-card/50 backdrop-blur-sm">
@@ -173,11 +238,12 @@ const Index = () => {
         {showProjectUploader && (
           <ProjectUploader
             onProjectUpload={handleProjectUpload}
+            onLocalFolderOpen={handleLocalFolderOpen}
             onClose={() => setShowProjectUploader(false)}
           />
         )}
       </div>
-    </DeepSeekProvider>
+    </LLMProvider>
   );
 };
 
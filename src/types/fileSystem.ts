@@ -31,6 +31,8 @@ export interface FileBrowserProps {
   className?: string;
   config?: FileBrowserConfig;
   initialFiles?: FileSystemItem[];
+  // Persists the tree; without it changes stay in memory
+  service?: FileSystemService;
   onFileSelect?: (file: FileSystemItem) => void;
   onFileUpload?: (file: File) => void;
   onFileCreate?: (name: string, type: 'file' | 'folder') => void;
@@ -0,0 +1,16 @@
+import { LocalFolderRecord } from '@/lib/fileSystemAccess';
+
+// The project currently loaded, from the code editor's project manager or the
+// header's upload and open-folder buttons. Memories are scoped to it by id.
+export interface ActiveProject {
+  id: string;
+  name: string;
+}
+
+// A project opened for editing: one stored in IndexedDB, or a folder opened
+// from disk
+export interface OpenedProject {
+  projectId?: string;
+  name?: string;
+  folder?: LocalFolderRecord;
+}
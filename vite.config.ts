@@ -10,6 +10,16 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
     proxy: {
+      // Fill-in-the-middle completions are only served under /beta
+      '/api/deepseek-beta': {
+        target: 'https://api.deepseek.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/deepseek-beta/, '/beta'),
+        secure: true,
+        headers: {
+          'Origin': 'https://api.deepseek.com'
+        }
+      },
       '/api/deepseek': {
         target: 'https://api.deepseek.com',
         changeOrigin: true,
@@ -21,6 +31,11 @@ export default defineConfig(({ mode }) => ({
       }
     }
   },
+  // The language service worker loads TypeScript's lib files on demand,
+  // which needs code splitting
+  worker: {
+    format: 'es',
+  },
   plugins: [
     react(),
     mode === 'development' &&